@@ -1,42 +1,204 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
-import { type Vec2 } from './types';
+import { type Annotation, type CameraView, type FloorFinish, type FloorPlan, type FurnitureItem, type LightFixture, type LightingSettings, type MaterialDef, type Opening, type UnitSettings, type Vec2, type View2D, type Viewpoint, type WallSpec } from './types';
+import { useHistory } from './hooks/useHistory';
+import * as planOps from './utils/plan';
+import { downloadBlob } from './utils/download';
+import { DEFAULT_LIGHTING } from './utils/lighting';
+import { DEFAULT_UNITS } from './utils/units';
+import { type WalkStart } from './utils/walk';
+import { clearAutosave, createProjectFile, fileBaseName, parseProject, readAutosave, serializeProject, writeAutosave, type ProjectFile } from './utils/project';
 import Floor2D from './components/Floor2D.tsx';
 import Floor3D from './components/Floor3D.tsx';
+import ProjectBar from './components/ProjectBar.tsx';
+
+const AUTOSAVE_DELAY_MS = 800;
 
 export default function App() {
   const containerRef = useRef<HTMLDivElement | null>(null);
   const [splitPercent, setSplitPercent] = useState<number>(50);
   const [isDragging, setIsDragging] = useState<boolean>(false);
 
-  const [vertices, setVertices] = useState<Vec2[]>([
-    { x: -2, y: -1.5 },
-    { x:  2, y: -1.5 },
-    { x:  2, y:  1.5 },
-    { x: -2, y:  1.5 },
-  ]);
-
-  const updateVertex = useCallback((index: number, v: Vec2) => {
-    setVertices(prev => prev.map((p, i) => (i === index ? v : p)));
-  }, []);
-
-  const addVertex = useCallback((v: Vec2) => {
-    setVertices(prev => [...prev, v]);
-  }, []);
-
-  const deleteVertex = useCallback((index: number) => {
-    setVertices(prev => {
-      if (prev.length <= 3) return prev; 
-      return prev.filter((_, i) => i !== index);
-    });
-  }, []);
-
-  const insertVertex = useCallback((index: number, v: Vec2) => {
-    setVertices(prev => {
-      const next = prev.slice();
-      next.splice(index, 0, v);
-      return next;
-    });
-  }, []);
+  const {
+    present: plan,
+    set: setPlan,
+    begin: beginEdit,
+    commit: commitEdit,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    reset: resetHistory,
+  } = useHistory<FloorPlan>(planOps.createDefaultPlan);
+
+  const [projectName, setProjectName] = useState<string>('Untitled');
+  const [units, setUnits] = useState<UnitSettings>(DEFAULT_UNITS);
+  const [lighting, setLighting] = useState<LightingSettings>(DEFAULT_LIGHTING);
+  const [view2D, setView2D] = useState<View2D>({ offset: { x: 0, y: 0 }, pxPerM: 100 });
+  // last camera reported by the 3D view, and a camera to apply (set when a project is loaded)
+  const [camera, setCamera] = useState<CameraView | null>(null);
+  const [cameraRequest, setCameraRequest] = useState<CameraView | null>(null);
+  const [viewpoints, setViewpoints] = useState<Viewpoint[]>([]);
+  // where the 2D plan last dropped the 3D view in to walk
+  const [walkStart, setWalkStart] = useState<WalkStart | null>(null);
+  const [loadErrors, setLoadErrors] = useState<string[]>([]);
+  // an autosaved session found at startup; autosave is held until the user restores or dismisses it
+  const [pendingRestore, setPendingRestore] = useState<ProjectFile | null>(readAutosave);
+
+  const moveVertices = useCallback((moves: Record<string, Vec2>) => {
+    setPlan(prev => planOps.moveVertices(prev, moves));
+  }, [setPlan]);
+
+  const insertVertex = useCallback((roomId: string, index: number, v: Vec2, hole?: number) => {
+    setPlan(prev => planOps.insertVertex(prev, roomId, index, v, hole));
+  }, [setPlan]);
+
+  const deleteVertex = useCallback((id: string) => {
+    setPlan(prev => planOps.deleteVertex(prev, id));
+  }, [setPlan]);
+
+  const mergeVertex = useCallback((fromId: string, intoId: string) => {
+    setPlan(prev => planOps.mergeVertex(prev, fromId, intoId));
+  }, [setPlan]);
+
+  const addRoom = useCallback((points: Vec2[]) => {
+    const id = planOps.createId('room');
+    setPlan(prev => planOps.addRoom(prev, id, points));
+    return id;
+  }, [setPlan]);
+
+  const addHole = useCallback((roomId: string, points: Vec2[]) => {
+    setPlan(prev => planOps.addHole(prev, roomId, points));
+  }, [setPlan]);
+
+  const deleteHole = useCallback((roomId: string, hole: number) => {
+    setPlan(prev => planOps.deleteHole(prev, roomId, hole));
+  }, [setPlan]);
+
+  const deleteRoom = useCallback((roomId: string) => {
+    setPlan(prev => planOps.deleteRoom(prev, roomId));
+  }, [setPlan]);
+
+  const updateRoom = useCallback((roomId: string, patch: planOps.RoomPatch) => {
+    setPlan(prev => planOps.updateRoom(prev, roomId, patch));
+  }, [setPlan]);
+
+  const setWallOverride = useCallback((key: string, override: Partial<WallSpec> | null) => {
+    setPlan(prev => planOps.setWallOverride(prev, key, override));
+  }, [setPlan]);
+
+  const updateFloor = useCallback((roomId: string, patch: Partial<FloorFinish>) => {
+    setPlan(prev => planOps.updateFloor(prev, roomId, patch));
+  }, [setPlan]);
+
+  const updateMaterial = useCallback((materialId: string, patch: Partial<MaterialDef>) => {
+    setPlan(prev => planOps.updateMaterial(prev, materialId, patch));
+  }, [setPlan]);
+
+  const addOpening = useCallback((opening: Omit<Opening, 'id'>) => {
+    const id = planOps.createId('opening');
+    setPlan(prev => planOps.addOpening(prev, { ...opening, id }));
+    return id;
+  }, [setPlan]);
+
+  const updateOpening = useCallback((id: string, patch: planOps.OpeningPatch) => {
+    setPlan(prev => planOps.updateOpening(prev, id, patch));
+  }, [setPlan]);
+
+  const deleteOpening = useCallback((id: string) => {
+    setPlan(prev => planOps.deleteOpening(prev, id));
+  }, [setPlan]);
+
+  const addFurniture = useCallback((item: Omit<FurnitureItem, 'id'>) => {
+    const id = planOps.createId('furniture');
+    setPlan(prev => planOps.addFurniture(prev, { ...item, id }));
+    return id;
+  }, [setPlan]);
+
+  const updateFurniture = useCallback((id: string, patch: planOps.FurniturePatch) => {
+    setPlan(prev => planOps.updateFurniture(prev, id, patch));
+  }, [setPlan]);
+
+  const deleteFurniture = useCallback((id: string) => {
+    setPlan(prev => planOps.deleteFurniture(prev, id));
+  }, [setPlan]);
+
+  const addAnnotation = useCallback((annotation: Annotation) => {
+    setPlan(prev => planOps.addAnnotation(prev, annotation));
+  }, [setPlan]);
+
+  const updateAnnotation = useCallback((annotation: Annotation) => {
+    setPlan(prev => planOps.updateAnnotation(prev, annotation));
+  }, [setPlan]);
+
+  const deleteAnnotation = useCallback((id: string) => {
+    setPlan(prev => planOps.deleteAnnotation(prev, id));
+  }, [setPlan]);
+
+  const addLight = useCallback((light: Omit<LightFixture, 'id'>) => {
+    const id = planOps.createId('light');
+    setPlan(prev => planOps.addLight(prev, { ...light, id }));
+    return id;
+  }, [setPlan]);
+
+  const updateLight = useCallback((id: string, patch: planOps.LightPatch) => {
+    setPlan(prev => planOps.updateLight(prev, id, patch));
+  }, [setPlan]);
+
+  const deleteLight = useCallback((id: string) => {
+    setPlan(prev => planOps.deleteLight(prev, id));
+  }, [setPlan]);
+
+  const loadProject = useCallback((project: ProjectFile) => {
+    resetHistory(project.plan);
+    setProjectName(project.name);
+    setUnits(project.units);
+    setLighting(project.lighting);
+    setView2D(project.view.view2D);
+    setCamera(project.view.camera);
+    setCameraRequest(project.view.camera);
+    setViewpoints(project.view.viewpoints);
+    setLoadErrors([]);
+  }, [resetHistory]);
+
+  const openProjectFile = useCallback((file: File) => {
+    file.text().then(text => {
+      const result = parseProject(text);
+      if (result.ok) {
+        loadProject(result.project);
+        setPendingRestore(null);
+      } else {
+        setLoadErrors(result.errors);
+      }
+    }, (err: Error) => setLoadErrors([`Could not read ${file.name}: ${err.message}`]));
+  }, [loadProject]);
+
+  const saveProject = useCallback(() => {
+    const json = serializeProject(createProjectFile(projectName, plan, units, lighting, view2D, camera, viewpoints));
+    downloadBlob(new Blob([json], { type: 'application/json' }), `${fileBaseName(projectName)}.json`);
+  }, [projectName, plan, units, lighting, view2D, camera, viewpoints]);
+
+  // continuous autosave, debounced
+  useEffect(() => {
+    if (pendingRestore) return;
+    const t = window.setTimeout(() => {
+      writeAutosave(createProjectFile(projectName, plan, units, lighting, view2D, camera, viewpoints));
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(t);
+  }, [pendingRestore, projectName, plan, units, lighting, view2D, camera, viewpoints]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y) for undo/redo, ignored while typing in inputs
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const t = e.target as HTMLElement | null;
+      if (t && (t.tagName === 'INPUT' || t.tagName === 'TEXTAREA' || t.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) { e.preventDefault(); undo(); }
+      else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); redo(); }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [undo, redo]);
 
   useEffect(() => {
     if (!isDragging) return;
@@ -68,30 +230,89 @@ export default function App() {
   const startDrag = useCallback(() => setIsDragging(true), []);
 
   return (
-    <div
-      ref={containerRef}
-      style={{ display: 'flex', height: '100vh', overflow: 'hidden' }}
-    >
-      <div style={{ width: `${splitPercent}%`, borderRight: '1px solid #ddd', minWidth: 0 }}>
-        <Floor2D
-          vertices={vertices}
-          onMove={updateVertex}
-          onAdd={addVertex}
-          onInsert={insertVertex}
-          onDelete={deleteVertex}
-        />
-      </div>
-      <div
-        onMouseDown={startDrag}
-        title="Kéo để thay đổi tỉ lệ"
-        style={{
-          width: '2px',
-          cursor: 'col-resize',
-          background: isDragging ? '#f5f5f5' : '#ffffff',
-        }}
+    <div style={{ display: 'flex', flexDirection: 'column', height: '100vh', overflow: 'hidden' }}>
+      <ProjectBar
+        name={projectName}
+        onRename={setProjectName}
+        units={units}
+        onUnitsChange={setUnits}
+        onOpenFile={openProjectFile}
+        onSave={saveProject}
+        restoreFrom={pendingRestore?.savedAt}
+        onRestore={() => { if (pendingRestore) loadProject(pendingRestore); setPendingRestore(null); }}
+        onDismissRestore={() => { clearAutosave(); setPendingRestore(null); }}
+        errors={loadErrors}
+        onDismissErrors={() => setLoadErrors([])}
       />
-      <div style={{ flex: 1, minWidth: 0 }}>
-        <Floor3D vertices={vertices} />
+      <div
+        ref={containerRef}
+        style={{ display: 'flex', flex: 1, minHeight: 0, overflow: 'hidden' }}
+      >
+        <div style={{ width: `${splitPercent}%`, borderRight: '1px solid #ddd', minWidth: 0 }}>
+          <Floor2D
+            plan={plan}
+            projectName={projectName}
+            units={units}
+            view={view2D}
+            onViewChange={setView2D}
+            onMoveVertices={moveVertices}
+            onInsert={insertVertex}
+            onDeleteVertex={deleteVertex}
+            onMergeVertex={mergeVertex}
+            onAddRoom={addRoom}
+            onAddHole={addHole}
+            onDeleteHole={deleteHole}
+            onDeleteRoom={deleteRoom}
+            onUpdateRoom={updateRoom}
+            onSetWallOverride={setWallOverride}
+            onUpdateFloor={updateFloor}
+            onAddOpening={addOpening}
+            onUpdateOpening={updateOpening}
+            onDeleteOpening={deleteOpening}
+            onAddFurniture={addFurniture}
+            onUpdateFurniture={updateFurniture}
+            onDeleteFurniture={deleteFurniture}
+            onAddAnnotation={addAnnotation}
+            onUpdateAnnotation={updateAnnotation}
+            onDeleteAnnotation={deleteAnnotation}
+            onAddLight={addLight}
+            onUpdateLight={updateLight}
+            onDeleteLight={deleteLight}
+            onWalkFrom={setWalkStart}
+            onEditStart={beginEdit}
+            onEditEnd={commitEdit}
+            onUndo={undo}
+            onRedo={redo}
+            canUndo={canUndo}
+            canRedo={canRedo}
+          />
+        </div>
+        <div
+          onMouseDown={startDrag}
+          title="Kéo để thay đổi tỉ lệ"
+          style={{
+            width: '2px',
+            cursor: 'col-resize',
+            background: isDragging ? '#f5f5f5' : '#ffffff',
+          }}
+        />
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <Floor3D
+            plan={plan}
+            projectName={projectName}
+            units={units}
+            onUpdateFloor={updateFloor}
+            onUpdateMaterial={updateMaterial}
+            lighting={lighting}
+            onLightingChange={setLighting}
+            cameraView={cameraRequest}
+            walkStart={walkStart}
+            view2D={view2D}
+            viewpoints={viewpoints}
+            onViewpointsChange={setViewpoints}
+            onCameraChange={setCamera}
+          />
+        </div>
       </div>
     </div>
   );
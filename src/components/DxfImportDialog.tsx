@@ -0,0 +1,107 @@
+import { useMemo, useState } from 'react';
+import { computePolygonAreaM2 } from '../utils/geometry';
+import { DXF_METERS, DXF_UNITS, dxfToMeters, type DxfParseResult } from '../utils/dxf';
+import { type UnitSettings, type Vec2 } from '../types';
+import { formatArea } from '../utils/units';
+
+type Props = {
+  fileName: string;
+  result: DxfParseResult;
+  units: UnitSettings;
+  onImport: (points: Vec2[]) => void; // outline in plan meters
+  onClose: () => void;
+};
+
+const PREVIEW = 240;
+const UNIT_CHOICES = [4, 5, 14, 6, 1, 2, 10];
+
+const btnStyle: React.CSSProperties = { padding: '6px 12px', border: '1px solid #ccc', borderRadius: 4, fontSize: 13, cursor: 'pointer', backgroundColor: '#fff', color: '#333' };
+
+// Lets the user pick which closed polyline of a DXF becomes the room outline
+export default function DxfImportDialog({ fileName, result, units, onImport, onClose }: Props) {
+  const drawing = result.ok ? result.drawing : null;
+  const [unitsCode, setUnitsCode] = useState<number>(drawing && DXF_UNITS[drawing.unitsCode] ? drawing.unitsCode : DXF_METERS);
+  const outlines = useMemo(() => (drawing?.polylines ?? []).map(p => dxfToMeters(p.points, unitsCode)), [drawing, unitsCode]);
+  // default to the largest outline, usually the building footprint
+  const [selected, setSelected] = useState<number>(() => {
+    let best = 0;
+    outlines.forEach((pts, i) => { if (computePolygonAreaM2(pts) > computePolygonAreaM2(outlines[best])) best = i; });
+    return best;
+  });
+
+  const declared = drawing ? DXF_UNITS[drawing.unitsCode] : undefined;
+  const unitNote = !drawing ? null
+    : declared
+      ? declared.meters === 1
+        ? 'Drawing units: meters.'
+        : `Drawing units: ${declared.name} ($INSUNITS ${drawing.unitsCode}), converted to meters (×${declared.meters}).`
+      : drawing.unitsCode === 0
+        ? 'The drawing declares no units; choose the unit it was drawn in.'
+        : `Unknown drawing units ($INSUNITS ${drawing.unitsCode}); choose the unit it was drawn in.`;
+
+  // preview transform: fit every outline into the preview box, y up
+  const all = outlines.flat();
+  const minX = Math.min(...all.map(p => p.x)), maxX = Math.max(...all.map(p => p.x));
+  const minY = Math.min(...all.map(p => p.y)), maxY = Math.max(...all.map(p => p.y));
+  const scale = (PREVIEW - 20) / Math.max(maxX - minX, maxY - minY, 1e-9);
+  const toSvg = (pts: Vec2[]) => pts.map(p => `${10 + (p.x - minX) * scale},${PREVIEW - 10 - (p.y - minY) * scale}`).join(' ');
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, background: 'rgba(0,0,0,0.35)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 20 }}>
+      <div style={{ width: 560, maxHeight: '85vh', overflow: 'auto', background: '#fff', borderRadius: 8, boxShadow: '0 8px 24px rgba(0,0,0,0.2)', padding: 16, fontSize: 13, color: '#333' }}>
+        <div style={{ fontWeight: 600, fontSize: 15, marginBottom: 8 }}>Import DXF · {fileName}</div>
+        {!result.ok && (
+          <ul style={{ margin: '0 0 0 18px', color: '#b71c1c' }}>
+            {result.errors.map((err, i) => <li key={i}>{err}</li>)}
+          </ul>
+        )}
+        {drawing && (
+          <>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+              <span style={{ flex: 1 }}>{unitNote}</span>
+              <select value={unitsCode} onChange={(e) => setUnitsCode(Number(e.target.value))} style={{ padding: '4px 6px', fontSize: 13 }}>
+                {[...new Set([...UNIT_CHOICES, unitsCode])].map(code => <option key={code} value={code}>{DXF_UNITS[code].name}</option>)}
+              </select>
+            </div>
+            {drawing.warnings.length > 0 && (
+              <ul style={{ margin: '8px 0 0 18px', color: '#8d6e00' }}>
+                {drawing.warnings.map((w, i) => <li key={i}>{w}</li>)}
+              </ul>
+            )}
+            {outlines.length > 0 && (
+              <div style={{ display: 'flex', gap: 12, marginTop: 12 }}>
+                <svg width={PREVIEW} height={PREVIEW} style={{ flex: 'none', border: '1px solid #eee', background: '#fafafa' }}>
+                  {outlines.map((pts, i) => (
+                    <polygon
+                      key={i}
+                      points={toSvg(pts)}
+                      fill={i === selected ? 'rgba(33,150,243,0.2)' : 'none'}
+                      stroke={i === selected ? '#1976d2' : '#aaa'}
+                      strokeWidth={i === selected ? 2 : 1}
+                      style={{ cursor: 'pointer' }}
+                      onClick={() => setSelected(i)}
+                    />
+                  ))}
+                </svg>
+                <div style={{ flex: 1, maxHeight: PREVIEW, overflow: 'auto' }}>
+                  {outlines.map((pts, i) => (
+                    <label key={i} style={{ display: 'flex', alignItems: 'center', gap: 6, padding: '3px 0', cursor: 'pointer' }}>
+                      <input type="radio" checked={i === selected} onChange={() => setSelected(i)} />
+                      <span>#{i + 1} · {drawing.polylines[i].layer} · {pts.length} pts · {formatArea(computePolygonAreaM2(pts), units)}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8, marginTop: 14 }}>
+          <button style={btnStyle} onClick={onClose}>{outlines.length > 0 ? 'Cancel' : 'Close'}</button>
+          {outlines.length > 0 && (
+            <button style={{ ...btnStyle, background: '#1976d2', borderColor: '#1976d2', color: '#fff' }} onClick={() => onImport(outlines[selected])}>Import as room</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useMemo } from 'react';
+import { type FloorPlan, type MaterialDef, type MaterialPack, type UnitSettings } from '../types';
+import { downloadBlob } from '../utils/download';
+import { DEFAULT_WASTE, estimateCsv, estimatePlan, packArea } from '../utils/estimate';
+import { fileBaseName } from '../utils/project';
+import { areaSymbol, fromAreaUnit, lengthColumnSymbol, toAreaUnit, toLengthColumn } from '../utils/units';
+import { LengthField, NumberField } from './PlanPanels';
+
+type Props = {
+  plan: FloorPlan;
+  projectName: string;
+  units: UnitSettings;
+  onUpdateMaterial: (materialId: string, patch: Partial<MaterialDef>) => void;
+  onClose: () => void;
+};
+
+const btnStyle: React.CSSProperties = { padding: '6px 12px', border: '1px solid #ccc', borderRadius: 4, fontSize: 13, cursor: 'pointer', backgroundColor: '#fff', color: '#333' };
+const cellStyle: React.CSSProperties = { padding: '4px 8px', borderBottom: '1px solid #eee', textAlign: 'right', whiteSpace: 'nowrap' };
+const headStyle: React.CSSProperties = { ...cellStyle, fontWeight: 600, color: '#555', borderBottom: '1px solid #ccc' };
+
+// starting values when a pack kind is chosen
+const NEW_PACK: Record<MaterialPack['kind'], MaterialPack> = {
+  area: { kind: 'area', area: 2 },
+  planks: { kind: 'planks', count: 8, length: 1.2, width: 0.2 },
+};
+
+const fmt = (v: number | null, digits = 2) => (v === null ? '—' : v.toFixed(digits));
+
+// Flooring quantities and cost per room from each material's pack size, price and waste, with a CSV bill of materials
+export default function EstimateDialog({ plan, projectName, units, onUpdateMaterial, onClose }: Props) {
+  const est = useMemo(() => estimatePlan(plan), [plan]);
+  const a = areaSymbol(units);
+  const area = (m2: number | null) => (m2 === null ? null : toAreaUnit(m2, units));
+
+  const downloadCsv = () => {
+    // the BOM marks the CSV as UTF-8 for spreadsheet apps (m², ×)
+    downloadBlob(new Blob(['\uFEFF', estimateCsv(est, units)], { type: 'text/csv' }), `${fileBaseName(projectName, 'blueprint')}-flooring.csv`);
+  };
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, background: 'rgba(0,0,0,0.35)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 20 }}>
+      <div style={{ width: 760, maxWidth: '95vw', maxHeight: '90vh', overflow: 'auto', background: '#fff', borderRadius: 8, boxShadow: '0 8px 24px rgba(0,0,0,0.2)', padding: 16, fontSize: 13, color: '#333' }}>
+        <div style={{ fontWeight: 600, fontSize: 15, marginBottom: 10 }}>Flooring estimate</div>
+
+        {est.orders.length === 0 && (
+          <div style={{ padding: '6px 8px', background: '#fff8e1', color: '#5d4037', border: '1px solid #ffe082', borderRadius: 4 }}>
+            No floor has a material yet; pick one in Floor Properties (click a floor in the 3D view) to estimate packs and cost.
+          </div>
+        )}
+        {est.orders.map(({ material: m }) => {
+          const set = (patch: Partial<MaterialDef>) => onUpdateMaterial(m.id, patch);
+          const pack = m.pack;
+          return (
+            <div key={m.id} style={{ display: 'grid', gridTemplateColumns: '140px repeat(5, 1fr)', columnGap: 8, alignItems: 'end', padding: '4px 0 8px', borderBottom: '1px solid #eee' }}>
+              <div style={{ fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', paddingBottom: 7 }} title={m.name}>{m.name}</div>
+              <div style={{ marginTop: 8 }}>
+                <label style={{ display: 'block', fontSize: 12, fontWeight: 500, color: '#444', marginBottom: 4 }}>Pack</label>
+                <select
+                  value={pack?.kind ?? ''}
+                  onChange={(e) => set({ pack: e.target.value ? NEW_PACK[e.target.value as MaterialPack['kind']] : undefined })}
+                  style={{ width: '100%', padding: '5px 4px', fontSize: 13 }}
+                >
+                  <option value="">Not set</option>
+                  <option value="area">{a} per pack</option>
+                  <option value="planks">Planks per pack</option>
+                </select>
+              </div>
+              {pack?.kind === 'area' && (
+                <>
+                  <NumberField label={`${a} per pack`} value={+toAreaUnit(pack.area, units).toFixed(4)} min={0.001} onCommit={(v) => v !== undefined && set({ pack: { ...pack, area: fromAreaUnit(v, units) } })} />
+                  <div />
+                  <div />
+                </>
+              )}
+              {pack?.kind === 'planks' && (
+                <>
+                  <NumberField label="Planks" value={pack.count} min={1} onCommit={(v) => v !== undefined && set({ pack: { ...pack, count: Math.round(v) } })} />
+                  <LengthField label="Plank length" units={units} value={pack.length} min={0.01} onCommit={(v) => v !== undefined && set({ pack: { ...pack, length: v } })} />
+                  <LengthField label="Plank width" units={units} value={pack.width} min={0.01} onCommit={(v) => v !== undefined && set({ pack: { ...pack, width: v } })} />
+                </>
+              )}
+              {!pack && <><div /><div /><div /></>}
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', columnGap: 8 }}>
+                <NumberField label="Price/pack" value={m.price} min={0} onCommit={(v) => set({ price: v })} />
+                <NumberField label="Waste %" value={m.waste} placeholder={String(DEFAULT_WASTE)} min={0} onCommit={(v) => set({ waste: v === undefined ? undefined : Math.min(100, v) })} />
+              </div>
+              {pack?.kind === 'planks' && <div style={{ gridColumn: '2 / -1', fontSize: 12, color: '#868e96', marginTop: 2 }}>{toAreaUnit(packArea(pack), units).toFixed(3)} {a} per pack</div>}
+            </div>
+          );
+        })}
+
+        <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: 12 }}>
+          <thead>
+            <tr>
+              <th style={{ ...headStyle, textAlign: 'left' }}>Room</th>
+              <th style={{ ...headStyle, textAlign: 'left' }}>Material</th>
+              <th style={headStyle}>Area {a}</th>
+              <th style={headStyle}>+ Waste {a}</th>
+              <th style={headStyle}>Packs</th>
+              <th style={headStyle}>Cost</th>
+              <th style={headStyle}>Skirting {lengthColumnSymbol(units)}</th>
+              <th style={headStyle} title="Doors; a door between two rooms is counted once">Strips</th>
+            </tr>
+          </thead>
+          <tbody>
+            {est.rooms.map(r => (
+              <tr key={r.roomId}>
+                <td style={{ ...cellStyle, textAlign: 'left' }}>{r.name}</td>
+                <td style={{ ...cellStyle, textAlign: 'left', color: r.material ? '#333' : '#868e96' }}>{r.material?.name ?? 'None'}</td>
+                <td style={cellStyle}>{fmt(area(r.area))}</td>
+                <td style={cellStyle}>{fmt(area(r.orderArea))}</td>
+                <td style={cellStyle}>{fmt(r.packs, 0)}</td>
+                <td style={cellStyle}>{fmt(r.cost)}</td>
+                <td style={cellStyle}>{fmt(toLengthColumn(r.skirting, units))}</td>
+                <td style={cellStyle}>{r.strips}</td>
+              </tr>
+            ))}
+            {est.orders.map(o => (
+              <tr key={o.material.id} style={{ background: '#f8f9fa' }}>
+                <td style={{ ...cellStyle, textAlign: 'left' }}>Order · {o.rooms} room{o.rooms === 1 ? '' : 's'}</td>
+                <td style={{ ...cellStyle, textAlign: 'left' }}>{o.material.name}</td>
+                <td style={cellStyle} />
+                <td style={cellStyle}>{fmt(area(o.orderArea))}</td>
+                <td style={cellStyle}>{fmt(o.packs, 0)}</td>
+                <td style={cellStyle}>{fmt(o.cost)}</td>
+                <td style={cellStyle} />
+                <td style={cellStyle} />
+              </tr>
+            ))}
+            <tr style={{ fontWeight: 600 }}>
+              <td style={{ ...cellStyle, textAlign: 'left' }}>Total</td>
+              <td style={cellStyle} />
+              <td style={cellStyle}>{fmt(area(est.totals.area))}</td>
+              <td style={cellStyle} />
+              <td style={cellStyle} />
+              <td style={cellStyle}>{fmt(est.totals.cost)}</td>
+              <td style={cellStyle}>{fmt(toLengthColumn(est.totals.skirting, units))}</td>
+              <td style={cellStyle}>{est.totals.strips}</td>
+            </tr>
+          </tbody>
+        </table>
+        <div style={{ marginTop: 6, fontSize: 12, color: '#868e96' }}>
+          Packs are ordered per material over all its rooms, so offcuts carry over. Skirting runs along every wall and hole edge except door openings.
+        </div>
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8, marginTop: 12 }}>
+          <button style={btnStyle} onClick={onClose}>Close</button>
+          <button style={{ ...btnStyle, background: '#1976d2', borderColor: '#1976d2', color: '#fff' }} onClick={downloadCsv}>Download CSV</button>
+        </div>
+      </div>
+    </div>
+  );
+}
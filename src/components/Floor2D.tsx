@@ -1,57 +1,436 @@
-import { useEffect, useRef, useState } from 'react';
-import { FiImage, FiPlus, FiBox, FiMove, FiRotateCw } from 'react-icons/fi';
-import { type Vec2 } from '../types';
+import { useEffect, useMemo, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+import { FiImage, FiLayers, FiType, FiPlus, FiBox, FiMove, FiRotateCw, FiCornerUpLeft, FiCornerUpRight, FiSquare, FiDownload, FiUpload, FiPrinter, FiGrid, FiShield, FiMinusSquare } from 'react-icons/fi';
+import { MdOutlineCallMade, MdOutlineChair, MdOutlineDirectionsWalk, MdOutlineDoorFront, MdOutlineHighlight, MdOutlineHighlightAlt, MdOutlineLight, MdOutlineLightbulb, MdOutlinePolyline, MdOutlineSpaceDashboard, MdOutlineSquareFoot, MdOutlineStraighten, MdOutlineWindow } from 'react-icons/md';
+import { type Annotation, type AnnotationEnd, type EdgeRef, type FloorFinish, type FloorPlan, type FurnitureItem, type LightFixture, type LightKind, type Opening, type OpeningKind, type Room, type UnitSettings, type Vec2, type View2D, type WallSpec } from '../types';
+import { annotationShape, dimensionLength, dimensionOffsetAt, endPoint, type AnnotationShape } from '../utils/annotations';
+import { downloadBlob, downloadUrl } from '../utils/download';
+import { exportDxf, parseDxf, type DxfParseResult } from '../utils/dxf';
+import { furnitureFromCatalog, furnitureFootprint, furniturePoint, furnitureWarnings, getCatalogItem } from '../utils/furniture';
+import { beamRadius, kelvinToHex, LIGHT_DEFAULTS, LIGHT_LABELS } from '../utils/lighting';
+import { computePolygonAreaM2, getCentroid, pointInPolygon, pointToSegmentDistance, polygonCentroid, projectPointOnSegment, signedArea } from '../utils/geometry';
+import { clampOpeningOffset, framePoint, openingFrame } from '../utils/openings';
+import { angleMoves, createId, edgeKey, edgeLengthMoves, edgeVertexIds, getRoom, holePoints, interiorAngle, loopIds, movesKeepRoomsSimple, OPENING_DEFAULTS, roomArea, roomPoints, type FurniturePatch, type LengthAnchor, type LightPatch, type OpeningPatch, type RoomPatch } from '../utils/plan';
+import { alignMoves, boundsSnapPoints, distributeMoves, groupBounds, groupPieces, groupVertexIds, pivotPoint, transformMoves, type GroupTransform } from '../utils/selection';
+import { ANGLE_STEPS, DEFAULT_SNAP, GRID_STEPS, snapVertex, type SnapGuide, type SnapKind, type SnapSettings } from '../utils/snap';
+import { paintTiles, roomTiles } from '../utils/tiles';
+import { calibrateUnderlay, loadUnderlayFile, paintUnderlay, placeUnderlay, renderPdfPage, rotateUnderlay, UNDERLAY_ACCEPT, type Underlay } from '../utils/underlay';
+import { formatArea, formatLength } from '../utils/units';
+import { hasErrors, holeRejectReason, invalidMoveReason, outlineRejectReason, validatePlan } from '../utils/validation';
+import { type WalkStart } from '../utils/walk';
+import { buildWalls, inheritedWallSpec, wallPolygon, type Wall } from '../utils/walls';
+import { AnnotationPanel, FurnitureCatalog, FurniturePanel, GroupPanel, LightPanel, UnderlayPanel, MeasureEditor, OpeningPanel, RoomPanel, TileLayoutPanel, WallPanel } from './PlanPanels';
+import DxfImportDialog from './DxfImportDialog';
+import PrintExportDialog from './PrintExportDialog';
+import RoomTemplateDialog from './RoomTemplateDialog';
+import TransformDialog, { type PivotChoice } from './TransformDialog';
 
 type Props = {
-  vertices: Vec2[];
-  onMove: (index: number, v: Vec2) => void;
-  onAdd?: (v: Vec2) => void; // optional: used by Add Vertex button
-  onInsert?: (index: number, v: Vec2) => void; // insert at index
-  onDelete: (index: number) => void;
+  plan: FloorPlan;
+  projectName?: string; // shown in the title block of printed sheets
+  units: UnitSettings; // labels, inputs and exports; the plan itself is in meters
+  view: View2D; // pan/zoom lives with the project so it can be saved
+  onViewChange: Dispatch<SetStateAction<View2D>>;
+  onMoveVertices: (moves: Record<string, Vec2>) => void;
+  onInsert?: (roomId: string, index: number, v: Vec2, hole?: number) => void; // insert on edge `index` of a room (or of its hole)
+  onDeleteVertex: (id: string) => void;
+  onMergeVertex: (fromId: string, intoId: string) => void;
+  onAddRoom?: (points: Vec2[]) => string; // returns the new room id
+  onAddHole?: (roomId: string, points: Vec2[]) => void;
+  onDeleteHole: (roomId: string, hole: number) => void;
+  onDeleteRoom: (roomId: string) => void;
+  onUpdateRoom: (roomId: string, patch: RoomPatch) => void;
+  onSetWallOverride: (key: string, override: Partial<WallSpec> | null) => void;
+  onUpdateFloor: (roomId: string, patch: Partial<FloorFinish>) => void;
+  onAddOpening?: (opening: Omit<Opening, 'id'>) => string; // returns the new opening id
+  onUpdateOpening: (id: string, patch: OpeningPatch) => void;
+  onDeleteOpening: (id: string) => void;
+  onAddFurniture?: (item: Omit<FurnitureItem, 'id'>) => string; // returns the new item id
+  onUpdateFurniture: (id: string, patch: FurniturePatch) => void;
+  onDeleteFurniture: (id: string) => void;
+  onAddAnnotation?: (annotation: Annotation) => void;
+  onUpdateAnnotation: (annotation: Annotation) => void;
+  onDeleteAnnotation: (id: string) => void;
+  onAddLight?: (light: Omit<LightFixture, 'id'>) => string; // returns the new light id
+  onUpdateLight: (id: string, patch: LightPatch) => void;
+  onDeleteLight: (id: string) => void;
+  onWalkFrom?: (start: WalkStart) => void; // starts the 3D walkthrough there
+  onEditStart?: () => void; // a drag/transform gesture begins; its edits form one undo step
+  onEditEnd?: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
 };
 
 const MIN_PX_PER_M = 20;
 const MAX_PX_PER_M = 400;
 const POINT_R_PX = 8;
+const NEW_ROOM_SIZE_M = 3;
+const SNAP_PX = 8;
+const MERGE_SNAP_PX = 10;
+const ORIGIN_FLAG_PX = 14; // the tile origin's grip sits up and right of the origin itself
+const ARROW_PX = 9;
+const ANGLE_LABEL_PX = 34; // interior angle labels sit this far from their corner
+const LIGHT_PX = 8; // radius of a light fitting's symbol
 
-export default function Floor2D({ vertices, onMove, onInsert, onDelete }: Props) {
+type LabelRect = { x: number; y: number; w: number; h: number };
+// hole being drawn: its room (set by the first click) and the corners so far
+type HoleDraft = { roomId: string | null; points: Vec2[] };
+// what the inline length/angle editor is editing
+type MeasureTarget = { kind: 'length'; edge: EdgeRef } | { kind: 'angle'; vertexId: string };
+type AnnotationTool = 'tape' | Annotation['kind'];
+// dimension: both ends are picked, then the line follows the pointer; leader: the tip, then the text
+type AnnotationDraft = { kind: 'dimension'; a: AnnotationEnd; b: AnnotationEnd | null } | { kind: 'leader'; tip: Vec2 };
+// annotation being dragged: its text or dimension line, or a leader's tip
+type AnnotationDrag = { original: Annotation; part: 'body' | 'tip'; start: Vec2 };
+// Shift-press on a vertex or edge: a click toggles it in the group (folding in the single selection), a drag is the usual Shift-drag
+type ShiftPress = { px: number; py: number; vertex: string | null; edge: EdgeRef | null; prevVertex: string | null; prevEdge: EdgeRef | null };
+
+function inRect(r: LabelRect, px: number, py: number): boolean {
+  return px >= r.x && px <= r.x + r.w && py >= r.y && py <= r.y + r.h;
+}
+
+// why the drafted hole cannot be added yet, or null
+function holeDraftError(plan: FloorPlan, draft: HoleDraft): string | null {
+  const room = getRoom(plan, draft.roomId);
+  if (!room) return 'Start the hole inside a room';
+  if (draft.points.length < 3) return 'A hole needs at least 3 corners';
+  const reason = holeRejectReason(plan, room, draft.points);
+  return reason && `Hole rejected · ${reason}`;
+}
+
+// where the interior angle label of corner `idx` goes: on the bisector, inside the room
+function angleLabelPoint(pts: Vec2[], idx: number, deg: number, pxPerM: number): Vec2 {
+  const v = pts[idx], next = pts[(idx + 1) % pts.length];
+  const half = (deg / 2) * (Math.PI / 180);
+  const bis = Math.atan2(next.y - v.y, next.x - v.x) + (signedArea(pts) >= 0 ? half : -half);
+  return { x: v.x + (Math.cos(bis) * ANGLE_LABEL_PX) / pxPerM, y: v.y + (Math.sin(bis) * ANGLE_LABEL_PX) / pxPerM };
+}
+
+// lines and filled arrowheads of an annotation; labels are drawn by the caller
+function strokeAnnotation(ctx: CanvasRenderingContext2D, shape: AnnotationShape, toCanvas: (v: Vec2) => [number, number], color: string, width: number) {
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = width;
+  ctx.beginPath();
+  for (const [p, q] of shape.lines) {
+    ctx.moveTo(...toCanvas(p));
+    ctx.lineTo(...toCanvas(q));
+  }
+  ctx.stroke();
+  for (const { tip, dir } of shape.arrows) {
+    // canvas y points down, so the plan direction flips in y
+    const [x, y] = toCanvas(tip);
+    const dx = dir.x, dy = -dir.y;
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(x - dx * ARROW_PX - dy * ARROW_PX * 0.35, y - dy * ARROW_PX + dx * ARROW_PX * 0.35);
+    ctx.lineTo(x - dx * ARROW_PX + dy * ARROW_PX * 0.35, y - dy * ARROW_PX - dx * ARROW_PX * 0.35);
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.restore();
+}
+
+// room whose interior angle is shown for a vertex: the selected room if it uses the vertex
+function angleRoomFor(plan: FloorPlan, selRoom: Room | undefined, vertexId: string): Room | undefined {
+  if (selRoom?.vertexIds.includes(vertexId)) return selRoom;
+  return plan.rooms.find(r => r.vertexIds.includes(vertexId));
+}
+
+// wall faces on the left/right of the opening's own a -> b direction
+function openingFaces(o: Opening, w: Wall): { left: number; right: number } {
+  return o.a === w.a ? { left: w.left, right: w.right } : { left: w.right, right: w.left };
+}
+
+// plan symbol of a door or window, clearing the wall band across it
+function drawOpening(ctx: CanvasRenderingContext2D, plan: FloorPlan, o: Opening, w: Wall, toCanvas: (v: Vec2) => [number, number], isSel: boolean) {
+  const f = openingFrame(plan, o);
+  const { left, right } = openingFaces(o, w);
+  const pt = (s: number, n: number) => toCanvas(framePoint(f, s, n));
+  // clear the wall band across the opening
+  ctx.beginPath();
+  [pt(f.s0, -right - 0.01), pt(f.s1, -right - 0.01), pt(f.s1, left + 0.01), pt(f.s0, left + 0.01)].forEach(([x, y], i) => {
+    if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+  });
+  ctx.closePath();
+  ctx.fillStyle = '#fafafa';
+  ctx.fill();
+
+  ctx.beginPath();
+  // jambs
+  for (const s of [f.s0, f.s1]) {
+    const [x1, y1] = pt(s, -right);
+    const [x2, y2] = pt(s, left);
+    ctx.moveTo(x1, y1);
+    ctx.lineTo(x2, y2);
+  }
+  if (o.kind === 'window') {
+    // triple line: both faces plus the glass line
+    for (const n of [left, -right, (left - right) / 2]) {
+      const [x1, y1] = pt(f.s0, n);
+      const [x2, y2] = pt(f.s1, n);
+      ctx.moveTo(x1, y1);
+      ctx.lineTo(x2, y2);
+    }
+  } else {
+    // leaf drawn open at 90° plus the swing arc back to the closed position
+    const side = o.opensTo === 'left' ? 1 : -1;
+    const face = side === 1 ? left : -right;
+    const hingeS = o.hinge === 'a' ? f.s0 : f.s1;
+    const toClosed = o.hinge === 'a' ? 1 : -1;
+    const width = f.s1 - f.s0;
+    const [hx, hy] = pt(hingeS, face);
+    const [tx, ty] = pt(hingeS, face + side * width);
+    ctx.moveTo(hx, hy);
+    ctx.lineTo(tx, ty);
+    const steps = 16;
+    for (let k = 0; k <= steps; k++) {
+      const th = (k / steps) * (Math.PI / 2);
+      const [ax, ay] = pt(hingeS + toClosed * width * Math.sin(th), face + side * width * Math.cos(th));
+      if (k === 0) ctx.moveTo(ax, ay); else ctx.lineTo(ax, ay);
+    }
+  }
+  ctx.strokeStyle = isSel ? '#ff8c00' : '#333';
+  ctx.lineWidth = isSel ? 2 : 1.25;
+  ctx.stroke();
+}
+
+// footprint outline and plan symbol of a furniture item
+function drawFurniture(ctx: CanvasRenderingContext2D, item: Omit<FurnitureItem, 'id'>, toCanvas: (v: Vec2) => [number, number], isSel: boolean, hasWarning: boolean) {
+  const c = getCatalogItem(item.catalogId);
+  const pt = (u: number, v: number) => toCanvas(furniturePoint(item, u, v));
+  const outline = c?.round
+    ? Array.from({ length: 32 }, (_, k) => pt(Math.cos((k / 32) * Math.PI * 2) / 2, Math.sin((k / 32) * Math.PI * 2) / 2))
+    : furnitureFootprint(item).map(toCanvas);
+  ctx.beginPath();
+  outline.forEach(([x, y], i) => { if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y); });
+  ctx.closePath();
+  ctx.fillStyle = 'rgba(255,255,255,0.85)';
+  ctx.fill();
+  ctx.strokeStyle = isSel ? '#ff8c00' : hasWarning ? '#e03131' : '#495057';
+  ctx.lineWidth = isSel || hasWarning ? 2 : 1.25;
+  ctx.stroke();
+  ctx.beginPath();
+  for (const line of c?.symbol ?? []) {
+    line.forEach(([u, v], i) => {
+      const [x, y] = pt(u, v);
+      if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+    });
+  }
+  ctx.strokeStyle = '#868e96';
+  ctx.lineWidth = 1;
+  ctx.stroke();
+}
+
+// plan symbol of a light fitting, tinted with its light color: a crossed circle, ringed for ceiling lights;
+// a spot light is a ringed dot with its beam on the floor dashed around it
+function drawLightSymbol(ctx: CanvasRenderingContext2D, light: Omit<LightFixture, 'id'>, x: number, y: number, pxPerM: number, isSel: boolean) {
+  const stroke = isSel ? '#ff8c00' : '#495057';
+  ctx.save();
+  ctx.lineWidth = isSel ? 2 : 1.25;
+  ctx.strokeStyle = stroke;
+  if (light.kind === 'spot') {
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.arc(x, y, beamRadius(light) * pxPerM, 0, Math.PI * 2);
+    ctx.strokeStyle = 'rgba(73,80,87,0.5)';
+    ctx.lineWidth = 1;
+    ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.strokeStyle = stroke;
+    ctx.lineWidth = isSel ? 2 : 1.25;
+  }
+  ctx.beginPath();
+  ctx.arc(x, y, LIGHT_PX, 0, Math.PI * 2);
+  ctx.fillStyle = kelvinToHex(light.temperature);
+  ctx.fill();
+  ctx.stroke();
+  ctx.beginPath();
+  if (light.kind === 'spot') {
+    ctx.arc(x, y, LIGHT_PX * 0.4, 0, Math.PI * 2);
+    ctx.fillStyle = stroke;
+    ctx.fill();
+  } else {
+    const d = LIGHT_PX * Math.SQRT1_2;
+    ctx.moveTo(x - d, y - d); ctx.lineTo(x + d, y + d);
+    ctx.moveTo(x - d, y + d); ctx.lineTo(x + d, y - d);
+    if (light.kind === 'ceiling') {
+      ctx.moveTo(x + LIGHT_PX + 4, y);
+      ctx.arc(x, y, LIGHT_PX + 4, 0, Math.PI * 2);
+    }
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+// a standing person seen from above, with an arrow the way they face (canvas angle, y down)
+function drawWalker(ctx: CanvasRenderingContext2D, x: number, y: number, angle: number) {
+  const tip = { x: x + Math.cos(angle) * 26, y: y + Math.sin(angle) * 26 };
+  ctx.save();
+  ctx.strokeStyle = '#2b8a3e';
+  ctx.fillStyle = 'rgba(43,138,62,0.25)';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(x, y, 9, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.moveTo(x + Math.cos(angle) * 9, y + Math.sin(angle) * 9);
+  ctx.lineTo(tip.x, tip.y);
+  for (const side of [-1, 1]) {
+    ctx.moveTo(tip.x, tip.y);
+    ctx.lineTo(tip.x - Math.cos(angle + side * 0.5) * 8, tip.y - Math.sin(angle + side * 0.5) * 8);
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+function sameEdge(a: EdgeRef | null, b: EdgeRef | null): boolean {
+  return !!a && !!b && a.roomId === b.roomId && a.index === b.index && a.hole === b.hole;
+}
+
+export default function Floor2D(props: Props) {
+  const { plan, projectName, units, view, onViewChange, onMoveVertices, onInsert, onDeleteVertex, onMergeVertex, onAddRoom, onAddHole, onDeleteHole, onDeleteRoom, onUpdateRoom, onSetWallOverride, onUpdateFloor, onAddOpening, onUpdateOpening, onDeleteOpening, onAddFurniture, onUpdateFurniture, onDeleteFurniture, onAddAnnotation, onUpdateAnnotation, onDeleteAnnotation, onAddLight, onUpdateLight, onDeleteLight, onWalkFrom, onEditStart, onEditEnd, onUndo, onRedo, canUndo, canRedo } = props;
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const [containerSize, setContainerSize] = useState<{ w: number; h: number }>({ w: 0, h: 0 });
-  const [dragIndex, setDragIndex] = useState<number | null>(null);
-  const mergeCandidateRef = useRef<number | null>(null);
-  const [offset, setOffset] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
-  const [pxPerM, setPxPerM] = useState<number>(100);
-  const [selectedEdge, setSelectedEdge] = useState<number | null>(null);
-  const [dragEdge, setDragEdge] = useState<number | null>(null);
+  const [dragVertex, setDragVertex] = useState<string | null>(null);
+  const mergeCandidateRef = useRef<string | null>(null);
+  const { offset, pxPerM } = view;
+  const setOffset = (u: SetStateAction<Vec2>) => onViewChange(v => ({ ...v, offset: typeof u === 'function' ? u(v.offset) : u }));
+  const setPxPerM = (pxPerM: number) => onViewChange(v => ({ ...v, pxPerM }));
+  const [selectedEdge, setSelectedEdge] = useState<EdgeRef | null>(null);
+  const [dragEdge, setDragEdge] = useState<EdgeRef | null>(null);
   const prevPointerWorldRef = useRef<Vec2 | null>(null);
-  const [selectedVertex, setSelectedVertex] = useState<number | null>(null);
+  const [selectedVertex, setSelectedVertex] = useState<string | null>(null);
+  const [selectedRoom, setSelectedRoom] = useState<string | null>(null);
   const [isPanning, setIsPanning] = useState<boolean>(false);
   const lastPanRef = useRef<{ x: number; y: number } | null>(null);
-  const [hoverVertex, setHoverVertex] = useState<number | null>(null);
-  const [hoverEdge, setHoverEdge] = useState<number | null>(null);
+  const [hoverVertex, setHoverVertex] = useState<string | null>(null);
+  const [hoverEdge, setHoverEdge] = useState<EdgeRef | null>(null);
   const [isAddMode, setIsAddMode] = useState<boolean>(false);
-  const [addPreview, setAddPreview] = useState<{ edge: number; p: Vec2 } | null>(null);
+  const [addPreview, setAddPreview] = useState<{ edge: EdgeRef; p: Vec2 } | null>(null);
+
+  // doors/windows: placement tool, selection and sliding along the host wall
+  const [placeKind, setPlaceKind] = useState<OpeningKind | null>(null);
+  const [placePreview, setPlacePreview] = useState<Omit<Opening, 'id'> | null>(null);
+  const [selectedOpening, setSelectedOpening] = useState<string | null>(null);
+  const dragOpeningRef = useRef<{ id: string; grab: number } | null>(null);
+
+  // furniture: catalog panel, placement ghost and selection; drags reuse the Object Mode gesture
+  const [isCatalogOpen, setIsCatalogOpen] = useState<boolean>(false);
+  const [placeFurniture, setPlaceFurniture] = useState<string | null>(null); // catalog id being placed
+  const [furniturePreview, setFurniturePreview] = useState<Omit<FurnitureItem, 'id'> | null>(null);
+  const [selectedFurniture, setSelectedFurniture] = useState<string | null>(null);
+  const originalFurnitureRef = useRef<FurnitureItem | null>(null);
+  // light fittings: the kind being placed with its ghost, selection and drags
+  const [placeLight, setPlaceLight] = useState<LightKind | null>(null);
+  const [lightPreview, setLightPreview] = useState<Omit<LightFixture, 'id'> | null>(null);
+  const [selectedLight, setSelectedLight] = useState<string | null>(null);
+  const dragLightRef = useRef<{ id: string; grab: Vec2 } | null>(null); // grab: pointer offset from the light
+  // walk-from-here tool: where to stand once clicked, then the pointer gives the way to face
+  const [walkDrop, setWalkDrop] = useState<{ at: Vec2 | null; cursor: Vec2 | null } | null>(null);
 
-  // Object selection/transform mode (move/rotate whole polygon)
+  // Object selection/transform mode (move/rotate the selected room)
   const [isObjectMode, setIsObjectMode] = useState<boolean>(false);
   const [objectSelected, setObjectSelected] = useState<boolean>(false);
   const [objectTool, setObjectTool] = useState<'translate' | 'rotate'>('translate');
+  const dxfInputRef = useRef<HTMLInputElement | null>(null);
+  const [dxfImport, setDxfImport] = useState<{ fileName: string; result: DxfParseResult } | null>(null);
+  const [isPrintOpen, setIsPrintOpen] = useState<boolean>(false);
   const objectDragStartRef = useRef<Vec2 | null>(null);
   const objectCenterRef = useRef<Vec2 | null>(null);
   const objectStartAngleRef = useRef<number | null>(null);
-  const originalVertsRef = useRef<Vec2[] | null>(null);
+  const originalVertsRef = useRef<Record<string, Vec2> | null>(null);
+  const [measure, setMeasure] = useState<MeasureTarget | null>(null);
+  const [lengthAnchor, setLengthAnchor] = useState<LengthAnchor>('end');
+  // clickable label boxes from the last draw, in canvas pixels
+  const lengthLabelsRef = useRef<{ edge: EdgeRef; rect: LabelRect }[]>([]);
+  const angleLabelRef = useRef<LabelRect | null>(null);
+  // vertex-drag snapping; guides/label describe the snap applied on the last move
+  const [snap, setSnap] = useState<SnapSettings>(DEFAULT_SNAP);
+  const [snapHint, setSnapHint] = useState<{ point: Vec2; label: string; guides: SnapGuide[] } | null>(null);
+  // refuse drags that would make a room invalid; the reason shows while the pointer is held
+  const [blockInvalid, setBlockInvalid] = useState<boolean>(true);
+  const [blockedReason, setBlockedReason] = useState<string | null>(null);
+  // hole tool: null when off; the cursor preview is snapped like a dragged vertex
+  const [holeDraft, setHoleDraft] = useState<HoleDraft | null>(null);
+  const [holeCursor, setHoleCursor] = useState<Vec2 | null>(null);
+  // draw-room tool: null when off; the corners clicked so far
+  const [roomDraft, setRoomDraft] = useState<Vec2[] | null>(null);
+  const [roomCursor, setRoomCursor] = useState<Vec2 | null>(null);
+  const [isTemplateOpen, setIsTemplateOpen] = useState<boolean>(false);
+  const [toolError, setToolError] = useState<string | null>(null);
+  // room whose tile layout origin is being dragged by its flag
+  const dragOriginRef = useRef<string | null>(null);
+  // annotations: the active tool, a dimension or leader being placed, selection and drags
+  const [annotTool, setAnnotTool] = useState<AnnotationTool | null>(null);
+  const [annotDraft, setAnnotDraft] = useState<AnnotationDraft | null>(null);
+  const [annotCursor, setAnnotCursor] = useState<Vec2 | null>(null);
+  const [selectedAnnotation, setSelectedAnnotation] = useState<string | null>(null);
+  const dragAnnotationRef = useRef<AnnotationDrag | null>(null);
+  const annotationLabelsRef = useRef<{ id: string; rect: LabelRect }[]>([]);
+  // tape measure: the last measurement stays until the next one starts
+  const [tape, setTape] = useState<{ a: Vec2; b: Vec2; done: boolean } | null>(null);
+  const [showAngles, setShowAngles] = useState<boolean>(false);
+  // group selection: Shift-click or box-select vertices and edges, then move or transform them together
+  const [groupVertices, setGroupVertices] = useState<string[]>([]);
+  const [groupEdges, setGroupEdges] = useState<EdgeRef[]>([]);
+  const [groupPivot, setGroupPivot] = useState<Vec2 | null>(null); // null: the center of the bounds
+  const [isBoxSelect, setIsBoxSelect] = useState<boolean>(false);
+  const [marquee, setMarquee] = useState<{ from: Vec2; to: Vec2; add: boolean } | null>(null); // canvas px
+  const [isTransformOpen, setIsTransformOpen] = useState<boolean>(false);
+  const dragGroupRef = useRef<{ start: Vec2; original: Record<string, Vec2> } | null>(null);
+  const dragPivotRef = useRef<boolean>(false);
+  const shiftPressRef = useRef<ShiftPress | null>(null);
+  // underlay: a scanned plan to trace over, moved by dragging and scaled by a two-point calibration
+  const [underlay, setUnderlay] = useState<Underlay | null>(null);
+  const [isUnderlayOpen, setIsUnderlayOpen] = useState<boolean>(false);
+  const [underlayError, setUnderlayError] = useState<string | null>(null);
+  const [isUnderlayMove, setIsUnderlayMove] = useState<boolean>(false);
+  const [calibration, setCalibration] = useState<{ a: Vec2 | null; b: Vec2 | null } | null>(null);
+  const [calibCursor, setCalibCursor] = useState<Vec2 | null>(null);
+  const dragUnderlayRef = useRef<{ start: Vec2; center: Vec2 } | null>(null);
+  const underlayInputRef = useRef<HTMLInputElement>(null);
 
-  function computePolygonAreaM2(pts: Vec2[]): number {
-    if (pts.length < 3) return 0;
-    let sum = 0;
-    for (let i = 0; i < pts.length; i++) {
-      const j = (i + 1) % pts.length;
-      sum += pts[i].x * pts[j].y - pts[j].x * pts[i].y;
-    }
-    return Math.abs(sum) * 0.5;
+  // drop selections that no longer exist (e.g. after undo or delete)
+  const selRoom = getRoom(plan, selectedRoom);
+  if (selectedRoom !== null && !selRoom) setSelectedRoom(null);
+  if (selectedVertex !== null && !(selectedVertex in plan.vertices)) setSelectedVertex(null);
+  const selOpening = selectedOpening === null ? undefined : plan.openings.find(o => o.id === selectedOpening);
+  if (selectedOpening !== null && !selOpening) setSelectedOpening(null);
+  const selFurniture = selectedFurniture === null ? undefined : plan.furniture.find(f => f.id === selectedFurniture);
+  if (selectedFurniture !== null && !selFurniture) setSelectedFurniture(null);
+  const selLight = selectedLight === null ? undefined : plan.lights.find(l => l.id === selectedLight);
+  if (selectedLight !== null && !selLight) setSelectedLight(null);
+  const groupIds = groupVertexIds(plan, groupVertices, groupEdges);
+  const groupBox = groupBounds(plan, groupIds);
+  const pivot = groupPivot ?? (groupBox && pivotPoint(groupBox, 'center'));
+  const selAnnotation = selectedAnnotation === null ? undefined : plan.annotations.find(a => a.id === selectedAnnotation);
+  if (selectedAnnotation !== null && !selAnnotation) setSelectedAnnotation(null);
+  if (selectedEdge !== null) {
+    const r = getRoom(plan, selectedEdge.roomId);
+    if (!r || selectedEdge.index >= loopIds(r, selectedEdge.hole).length) setSelectedEdge(null);
+  }
+  if (measure !== null) {
+    const r = measure.kind === 'length' ? getRoom(plan, measure.edge.roomId) : undefined;
+    const gone = measure.kind === 'length'
+      ? !r || loopIds(r, measure.edge.hole).length <= measure.edge.index
+      : !(measure.vertexId in plan.vertices);
+    if (gone) setMeasure(null);
   }
 
+  const walls = useMemo(() => buildWalls(plan), [plan]);
+  const validation = useMemo(() => validatePlan(plan), [plan]);
+  const furnitureIssues = useMemo(() => furnitureWarnings(plan), [plan]);
+  // laid-out tiles of every valid room with a layout
+  const tilePlans = useMemo(() => new Map(plan.rooms.flatMap(r => {
+    const tiles = hasErrors(validation[r.id]) ? null : roomTiles(plan, r);
+    return tiles ? [[r.id, tiles] as const] : [];
+  })), [plan, validation]);
+
   useEffect(() => {
     const canvas = canvasRef.current!;
     const dpr = window.devicePixelRatio || 1;
@@ -64,58 +443,182 @@ export default function Floor2D({ vertices, onMove, onInsert, onDelete }: Props)
     // center world -> canvas
     const cx = rect.width / 2 + offset.x;
     const cy = rect.height / 2 + offset.y;
+    const toCanvas = (v: Vec2) => worldToCanvas(v, cx, cy);
 
     // grid
     ctx.clearRect(0, 0, rect.width, rect.height);
     ctx.fillStyle = '#fafafa';
     ctx.fillRect(0, 0, rect.width, rect.height);
-    drawGrid(ctx, rect.width, rect.height, cx, cy);
+    if (underlay) paintUnderlay(ctx, underlay, v => worldToCanvas(v, cx, cy), pxPerM);
+    // finer snap grid underneath the 1 m grid once its cells are large enough to see
+    if (snap.enabled.grid && snap.gridStep * pxPerM >= 8) drawGrid(ctx, rect.width, rect.height, cx, cy, snap.gridStep, '#f3f3f3');
+    drawGrid(ctx, rect.width, rect.height, cx, cy, 1, '#eee');
+
+    // room fills first so shared walls are drawn on top of both rooms; holes are cut out (even-odd)
+    plan.rooms.forEach(room => {
+      const pts = roomPoints(plan, room);
+      if (pts.length < 2) return;
+      ctx.beginPath();
+      [pts, ...room.holes.map((_, h) => holePoints(plan, room, h))].forEach(loop => {
+        loop.forEach((v, i) => {
+          const [x, y] = worldToCanvas(v, cx, cy);
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        });
+        ctx.closePath();
+      });
+      ctx.fillStyle = hasErrors(validation[room.id])
+        ? 'rgba(224,49,49,0.12)'
+        : room.id === selectedRoom ? 'rgba(30,144,255,0.22)' : 'rgba(30,144,255,0.12)';
+      ctx.fill('evenodd');
+      const tiles = tilePlans.get(room.id);
+      if (tiles) {
+        ctx.save();
+        ctx.clip('evenodd');
+        paintTiles(ctx, tiles, v => worldToCanvas(v, cx, cy), 'rgba(69,90,100,0.55)', Math.max(0.75, room.floor.layout!.grout * pxPerM));
+        ctx.restore();
+      }
+    });
 
-    // polygon + edges + labels
-    if (vertices.length > 1) {
-      // fill polygon
+    // walls: filled band with both faces drawn, matching the 3D extrusion
+    walls.forEach(w => {
+      const poly = wallPolygon(w, plan);
       ctx.beginPath();
-      vertices.forEach((v, i) => {
+      poly.forEach((v, i) => {
         const [x, y] = worldToCanvas(v, cx, cy);
-        if (i === 0) ctx.moveTo(x, y);
-        else ctx.lineTo(x, y);
+        if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
       });
       ctx.closePath();
-      ctx.fillStyle = 'rgba(30,144,255,0.12)';
+      ctx.fillStyle = '#d9dde2';
       ctx.fill();
-
-      // draw edges with potential highlight and length labels
-      const n = vertices.length;
-      for (let i = 0; i < n; i++) {
-        const j = (i + 1) % n;
-        const v1 = vertices[i];
-        const v2 = vertices[j];
-        const [x1, y1] = worldToCanvas(v1, cx, cy);
-        const [x2, y2] = worldToCanvas(v2, cx, cy);
-        ctx.beginPath();
+      ctx.beginPath();
+      for (const [p, q] of [[w.aLeft, w.bLeft], [w.aRight, w.bRight]]) {
+        const [x1, y1] = worldToCanvas(p, cx, cy);
+        const [x2, y2] = worldToCanvas(q, cx, cy);
         ctx.moveTo(x1, y1);
         ctx.lineTo(x2, y2);
-        const isSel = selectedEdge === i;
-        const isHover = hoverEdge === i;
-        ctx.lineWidth = isSel ? 4 : isHover ? 3 : 2;
-        ctx.strokeStyle = isSel ? '#ff8c00' : isHover ? '#00c2ff' : '#1e90ff';
-        ctx.stroke();
+      }
+      ctx.strokeStyle = '#555';
+      ctx.lineWidth = 1;
+      ctx.stroke();
+    });
+
+    // edges with potential highlight and length labels; shared walls are labelled once
+    const labelled = new Set<string>();
+    lengthLabelsRef.current = [];
+    plan.rooms.forEach(room => {
+      const issues = validation[room.id]?.issues ?? [];
+      // flagged edges as `${hole}:${index}`, hole empty for the outline
+      const flagged = (severity: 'error' | 'warning') =>
+        new Set(issues.filter(x => x.severity === severity).flatMap(x => x.edges.map(i => `${x.hole ?? ''}:${i}`)));
+      const errorEdges = flagged('error');
+      const warnEdges = flagged('warning');
+      // the outline, then each hole with the same edge tools
+      for (const hole of [undefined, ...room.holes.map((_, h) => h)]) {
+        const n = loopIds(room, hole).length;
+        for (let i = 0; i < n; i++) {
+          const [a, b] = edgeVertexIds(room, i, hole);
+          const v1 = plan.vertices[a];
+          const v2 = plan.vertices[b];
+          const [x1, y1] = worldToCanvas(v1, cx, cy);
+          const [x2, y2] = worldToCanvas(v2, cx, cy);
+          ctx.beginPath();
+          ctx.moveTo(x1, y1);
+          ctx.lineTo(x2, y2);
+          const edge: EdgeRef = { roomId: room.id, index: i, hole };
+          const isSel = sameEdge(selectedEdge, edge);
+          const isHover = sameEdge(hoverEdge, edge);
+          ctx.lineWidth = isSel ? 4 : isHover ? 3 : 2;
+          ctx.strokeStyle = isSel ? '#ff8c00' : isHover ? '#00c2ff' : '#1e90ff';
+          // invalid edges in red; warnings (near-collinear) dashed
+          const flag = `${hole ?? ''}:${i}`;
+          if (!isSel && (errorEdges.has(flag) || warnEdges.has(flag))) {
+            ctx.strokeStyle = '#e03131';
+            ctx.lineWidth = errorEdges.has(flag) ? 3 : 2;
+            if (!errorEdges.has(flag)) ctx.setLineDash([6, 4]);
+          }
+          ctx.stroke();
+          ctx.setLineDash([]);
 
-        // length label (in meters)
-        const lenM = Math.hypot(v2.x - v1.x, v2.y - v1.y);
-        const label = `${lenM.toFixed(2)} m`;
-        const midx = (x1 + x2) / 2;
-        const midy = (y1 + y2) / 2;
-        drawLabel(ctx, label, midx, midy);
+          const key = edgeKey(a, b);
+          if (labelled.has(key)) continue;
+          labelled.add(key);
+          // length label in the project unit
+          const label = formatLength(Math.hypot(v2.x - v1.x, v2.y - v1.y), units);
+          const midx = (x1 + x2) / 2;
+          const midy = (y1 + y2) / 2;
+          lengthLabelsRef.current.push({ edge, rect: drawLabel(ctx, label, midx, midy) });
+        }
+      }
+    });
+
+    // furniture footprints with their plan symbols; items with warnings are outlined in red
+    plan.furniture.forEach(f => drawFurniture(ctx, f, toCanvas, f.id === selectedFurniture, !!furnitureIssues[f.id]));
+    if (furniturePreview) {
+      ctx.save();
+      ctx.globalAlpha = 0.6;
+      drawFurniture(ctx, furniturePreview, toCanvas, true, false);
+      ctx.restore();
+    }
+    // light fittings hang above the furniture
+    plan.lights.forEach(l => drawLightSymbol(ctx, l, ...worldToCanvas(l, cx, cy), pxPerM, l.id === selectedLight));
+    if (lightPreview) {
+      ctx.save();
+      ctx.globalAlpha = 0.6;
+      drawLightSymbol(ctx, lightPreview, ...worldToCanvas(lightPreview, cx, cy), pxPerM, true);
+      ctx.restore();
+    }
+
+    // doors and windows cut through the wall band, drawn with plan symbols
+    plan.openings.forEach(o => {
+      const w = walls.find(wl => wl.key === edgeKey(o.a, o.b));
+      if (w) drawOpening(ctx, plan, o, w, toCanvas, o.id === selectedOpening);
+    });
+    if (placePreview) {
+      const w = walls.find(wl => wl.key === edgeKey(placePreview.a, placePreview.b));
+      if (w) {
+        ctx.save();
+        ctx.globalAlpha = 0.6;
+        drawOpening(ctx, plan, { ...placePreview, id: '' }, w, toCanvas, true);
+        ctx.restore();
       }
     }
 
+    // room name + area label at each room's centroid
+    plan.rooms.forEach(room => {
+      const pts = roomPoints(plan, room);
+      if (pts.length < 3) return;
+      const [x, y] = worldToCanvas(polygonCentroid(pts), cx, cy);
+      drawLabel(ctx, room.name, x, y - 10);
+      drawLabel(ctx, hasErrors(validation[room.id]) ? 'invalid outline' : formatArea(roomArea(plan, room), units), x, y + 10);
+    });
+
+    // annotations, with the dimension or leader being placed shown faintly
+    annotationLabelsRef.current = [];
+    plan.annotations.forEach(a => {
+      const isSel = a.id === selectedAnnotation;
+      const shape = annotationShape(plan, a, units);
+      strokeAnnotation(ctx, shape, toCanvas, isSel ? '#ff8c00' : '#1c7ed6', isSel ? 2 : 1.25);
+      for (const l of shape.labels) annotationLabelsRef.current.push({ id: a.id, rect: drawLabel(ctx, l.text, ...toCanvas(l.at)) });
+    });
+    if (annotDraft && annotCursor) {
+      const cursorEnd = { vertexId: null, at: annotCursor };
+      const draft: Annotation = annotDraft.kind === 'leader'
+        ? { id: '', kind: 'leader', at: annotCursor, tip: annotDraft.tip, text: 'Note' }
+        : annotDraft.b
+          ? { id: '', kind: 'dimension', a: annotDraft.a, b: annotDraft.b, offset: dimensionOffsetAt(plan, annotDraft.a, annotDraft.b, annotCursor) }
+          : { id: '', kind: 'dimension', a: annotDraft.a, b: cursorEnd, offset: 0 };
+      const shape = annotationShape(plan, draft, units);
+      ctx.save();
+      ctx.globalAlpha = 0.6;
+      strokeAnnotation(ctx, shape, toCanvas, '#1c7ed6', 1.25);
+      for (const l of shape.labels) drawLabel(ctx, l.text, ...toCanvas(l.at));
+      ctx.restore();
+    }
+
     // add-mode preview point on edge
     if (isAddMode && addPreview) {
-      const rect = canvas.getBoundingClientRect();
-      const cx2 = rect.width / 2 + offset.x;
-      const cy2 = rect.height / 2 + offset.y;
-      const [px, py] = worldToCanvas(addPreview.p, cx2, cy2);
+      const [px, py] = worldToCanvas(addPreview.p, cx, cy);
       ctx.beginPath();
       ctx.arc(px, py, POINT_R_PX + 2, 0, Math.PI * 2);
       ctx.fillStyle = 'rgba(255,0,0,0.5)';
@@ -123,24 +626,272 @@ export default function Floor2D({ vertices, onMove, onInsert, onDelete }: Props)
     }
 
     // points
-    vertices.forEach((v, idx) => {
+    Object.entries(plan.vertices).forEach(([id, v]) => {
       const [x, y] = worldToCanvas(v, cx, cy);
-      const isSel = selectedVertex === idx;
-      const isHover = hoverVertex === idx;
+      const isSel = selectedVertex === id;
+      const isHover = hoverVertex === id;
       ctx.beginPath();
       ctx.arc(x, y, POINT_R_PX + (isSel ? 2 : isHover ? 1 : 0), 0, Math.PI * 2);
       ctx.fillStyle = isSel ? '#ff8c00' : isHover ? '#00c2ff' : '#ff5a5f';
       ctx.fill();
     });
 
+    // group selection: ringed vertices, thick edges, the bounds and the pivot marker
+    const gIds = groupVertexIds(plan, groupVertices, groupEdges);
+    const gBox = groupBounds(plan, gIds);
+    if (gBox) {
+      ctx.save();
+      ctx.strokeStyle = '#7048e8';
+      ctx.lineWidth = 4;
+      ctx.beginPath();
+      for (const edge of groupEdges) {
+        const room = getRoom(plan, edge.roomId);
+        if (!room || edge.index >= loopIds(room, edge.hole).length) continue;
+        const [a, b] = edgeVertexIds(room, edge.index, edge.hole);
+        ctx.moveTo(...worldToCanvas(plan.vertices[a], cx, cy));
+        ctx.lineTo(...worldToCanvas(plan.vertices[b], cx, cy));
+      }
+      ctx.stroke();
+      ctx.lineWidth = 2;
+      for (const id of gIds) {
+        const [x, y] = worldToCanvas(plan.vertices[id], cx, cy);
+        ctx.beginPath();
+        ctx.arc(x, y, POINT_R_PX + 3, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+      const [x0, y0] = worldToCanvas({ x: gBox.minX, y: gBox.maxY }, cx, cy);
+      const [x1, y1] = worldToCanvas({ x: gBox.maxX, y: gBox.minY }, cx, cy);
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 4]);
+      ctx.strokeRect(x0 - POINT_R_PX, y0 - POINT_R_PX, x1 - x0 + POINT_R_PX * 2, y1 - y0 + POINT_R_PX * 2);
+      ctx.setLineDash([]);
+      const [gx, gy] = worldToCanvas(groupPivot ?? pivotPoint(gBox, 'center'), cx, cy);
+      ctx.lineWidth = 1.5;
+      ctx.fillStyle = 'rgba(255,255,255,0.85)';
+      ctx.beginPath();
+      ctx.arc(gx, gy, POINT_R_PX, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.moveTo(gx - POINT_R_PX - 4, gy); ctx.lineTo(gx + POINT_R_PX + 4, gy);
+      ctx.moveTo(gx, gy - POINT_R_PX - 4); ctx.lineTo(gx, gy + POINT_R_PX + 4);
+      ctx.stroke();
+      ctx.restore();
+    }
+    if (marquee) {
+      ctx.save();
+      ctx.fillStyle = 'rgba(112,72,232,0.08)';
+      ctx.strokeStyle = '#7048e8';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 3]);
+      const mx = Math.min(marquee.from.x, marquee.to.x), my = Math.min(marquee.from.y, marquee.to.y);
+      const mw = Math.abs(marquee.to.x - marquee.from.x), mh = Math.abs(marquee.to.y - marquee.from.y);
+      ctx.fillRect(mx, my, mw, mh);
+      ctx.strokeRect(mx, my, mw, mh);
+      ctx.restore();
+    }
+
+    // tile layout origin of the selected room: a crosshair with a draggable flag
+    const layoutRoom = isObjectMode ? undefined : getRoom(plan, selectedRoom);
+    if (layoutRoom?.floor.layout) {
+      const [ox, oy] = worldToCanvas(layoutRoom.floor.layout.origin, cx, cy);
+      const originFlag = { x: ox + ORIGIN_FLAG_PX, y: oy - ORIGIN_FLAG_PX };
+      ctx.save();
+      ctx.strokeStyle = '#6a1b9a';
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      ctx.moveTo(ox - 8, oy); ctx.lineTo(ox + 8, oy);
+      ctx.moveTo(ox, oy - 8); ctx.lineTo(ox, oy + 8);
+      ctx.moveTo(ox, oy); ctx.lineTo(originFlag.x, originFlag.y);
+      ctx.stroke();
+      ctx.fillStyle = '#8e24aa';
+      ctx.fillRect(originFlag.x - 5, originFlag.y - 5, 10, 10);
+      ctx.restore();
+    }
+
+    // while typing a length, ring the endpoint(s) that will move
+    const measureRoom = measure?.kind === 'length' ? getRoom(plan, measure.edge.roomId) : undefined;
+    if (measure?.kind === 'length' && measureRoom && measure.edge.index < loopIds(measureRoom, measure.edge.hole).length) {
+      const [a, b] = edgeVertexIds(measureRoom, measure.edge.index, measure.edge.hole);
+      const moving = lengthAnchor === 'start' ? [a] : lengthAnchor === 'end' ? [b] : [a, b];
+      ctx.strokeStyle = '#ff8c00';
+      ctx.lineWidth = 2;
+      for (const id of moving) {
+        const [x, y] = worldToCanvas(plan.vertices[id], cx, cy);
+        ctx.beginPath();
+        ctx.arc(x, y, POINT_R_PX + 5, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    }
+
+    // interior angle of the selected vertex, clickable to type an exact angle
+    angleLabelRef.current = null;
+    const angleRoom = selectedVertex !== null ? angleRoomFor(plan, getRoom(plan, selectedRoom), selectedVertex) : undefined;
+    if (selectedVertex !== null && angleRoom) {
+      const idx = angleRoom.vertexIds.indexOf(selectedVertex);
+      const pts = roomPoints(plan, angleRoom);
+      const deg = interiorAngle(plan, angleRoom, idx);
+      const [lx, ly] = worldToCanvas(angleLabelPoint(pts, idx, deg, pxPerM), cx, cy);
+      angleLabelRef.current = drawLabel(ctx, `${deg.toFixed(1)}°`, lx, ly);
+    }
+    // every corner's interior angle of the valid rooms; the selected corner's label is the clickable one above
+    if (showAngles) {
+      plan.rooms.forEach(room => {
+        if (hasErrors(validation[room.id])) return;
+        const pts = roomPoints(plan, room);
+        room.vertexIds.forEach((id, i) => {
+          if (room === angleRoom && id === selectedVertex) return;
+          const deg = interiorAngle(plan, room, i);
+          drawLabel(ctx, `${deg.toFixed(1)}°`, ...worldToCanvas(angleLabelPoint(pts, i, deg, pxPerM), cx, cy));
+        });
+      });
+    }
+
+    // hole being drawn: corners so far plus the segment to the pointer
+    if (holeDraft && holeDraft.points.length > 0) {
+      const pts = holeCursor ? [...holeDraft.points, holeCursor] : holeDraft.points;
+      ctx.save();
+      ctx.strokeStyle = '#495057';
+      ctx.lineWidth = 1.5;
+      ctx.setLineDash([6, 4]);
+      ctx.beginPath();
+      pts.forEach((v, i) => {
+        const [x, y] = worldToCanvas(v, cx, cy);
+        if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+      });
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.fillStyle = '#495057';
+      holeDraft.points.forEach((v, i) => {
+        const [x, y] = worldToCanvas(v, cx, cy);
+        ctx.beginPath();
+        ctx.arc(x, y, i === 0 && holeDraft.points.length >= 3 ? POINT_R_PX : 4, 0, Math.PI * 2);
+        ctx.fill();
+      });
+      ctx.restore();
+    }
+
+    // room being drawn, with the length and corner angle of the edge to the pointer
+    if (roomDraft && roomDraft.length > 0) {
+      const pts = roomCursor ? [...roomDraft, roomCursor] : roomDraft;
+      ctx.save();
+      ctx.strokeStyle = '#1976d2';
+      ctx.lineWidth = 2;
+      ctx.setLineDash([6, 4]);
+      ctx.beginPath();
+      pts.forEach((v, i) => {
+        const [x, y] = worldToCanvas(v, cx, cy);
+        if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+      });
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.fillStyle = '#1976d2';
+      roomDraft.forEach((v, i) => {
+        const [x, y] = worldToCanvas(v, cx, cy);
+        ctx.beginPath();
+        ctx.arc(x, y, i === 0 && roomDraft.length >= 3 ? POINT_R_PX : 4, 0, Math.PI * 2);
+        ctx.fill();
+      });
+      ctx.restore();
+      const last = roomDraft[roomDraft.length - 1];
+      if (roomCursor && Math.hypot(roomCursor.x - last.x, roomCursor.y - last.y) > 1e-9) {
+        // the first edge reads its direction; later ones the corner they make with the previous edge
+        const dir = Math.atan2(roomCursor.y - last.y, roomCursor.x - last.x);
+        const prev = roomDraft[roomDraft.length - 2];
+        let deg = ((dir * 180) / Math.PI + 360) % 360;
+        if (prev) {
+          const turn = Math.abs(Math.atan2(prev.y - last.y, prev.x - last.x) - dir) * (180 / Math.PI);
+          deg = turn > 180 ? 360 - turn : turn;
+        }
+        const len = Math.hypot(roomCursor.x - last.x, roomCursor.y - last.y);
+        drawLabel(ctx, `${formatLength(len, units)} · ${deg.toFixed(1)}°`, ...worldToCanvas({ x: (last.x + roomCursor.x) / 2, y: (last.y + roomCursor.y) / 2 }, cx, cy));
+      }
+    }
+
+    // underlay calibration: the reference line being picked
+    const calibEnd = calibration?.b ?? calibCursor;
+    if (calibration?.a && calibEnd) {
+      ctx.save();
+      ctx.strokeStyle = '#e8590c';
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      const [ax, ay] = worldToCanvas(calibration.a, cx, cy);
+      const [bx, by] = worldToCanvas(calibEnd, cx, cy);
+      ctx.moveTo(ax, ay);
+      ctx.lineTo(bx, by);
+      for (const [x, y] of [[ax, ay], [bx, by]]) {
+        ctx.moveTo(x - 6, y - 6); ctx.lineTo(x + 6, y + 6);
+        ctx.moveTo(x - 6, y + 6); ctx.lineTo(x + 6, y - 6);
+      }
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    // walk-from-here marker: on the pointer until placed, then turning toward it
+    if (walkDrop && (walkDrop.at || walkDrop.cursor)) {
+      const [x, y] = worldToCanvas((walkDrop.at ?? walkDrop.cursor)!, cx, cy);
+      const aim = walkDrop.at && walkDrop.cursor ? worldToCanvas(walkDrop.cursor, cx, cy) : null;
+      drawWalker(ctx, x, y, aim && Math.hypot(aim[0] - x, aim[1] - y) > 1 ? Math.atan2(aim[1] - y, aim[0] - x) : -Math.PI / 2);
+      if (walkDrop.at) drawLabel(ctx, 'Click the way to face', x, y - 30);
+    }
+
+    // tape measure: distance and direction between two points
+    if (tape) {
+      const [ax, ay] = worldToCanvas(tape.a, cx, cy);
+      const [bx, by] = worldToCanvas(tape.b, cx, cy);
+      ctx.save();
+      ctx.strokeStyle = '#0b7285';
+      ctx.fillStyle = '#0b7285';
+      ctx.lineWidth = 1.5;
+      ctx.setLineDash([8, 4]);
+      ctx.beginPath();
+      ctx.moveTo(ax, ay);
+      ctx.lineTo(bx, by);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      for (const [x, y] of [[ax, ay], [bx, by]]) {
+        ctx.beginPath();
+        ctx.arc(x, y, 4, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      ctx.restore();
+      const dx = tape.b.x - tape.a.x, dy = tape.b.y - tape.a.y;
+      const dir = ((Math.atan2(dy, dx) * 180) / Math.PI + 360) % 360;
+      drawLabel(ctx, `${formatLength(Math.hypot(dx, dy), units)} · ${dir.toFixed(1)}°`, (ax + bx) / 2, (ay + by) / 2 - 16);
+    }
+
+    // active snap: dashed guides, a ring on the snapped point and the snap names
+    if (snapHint && snapHint.label) {
+      ctx.save();
+      ctx.strokeStyle = '#d6336c';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([5, 4]);
+      ctx.beginPath();
+      for (const g of snapHint.guides) {
+        const [x1, y1] = worldToCanvas(g.from, cx, cy);
+        const [x2, y2] = worldToCanvas(g.to, cx, cy);
+        ctx.moveTo(x1, y1);
+        ctx.lineTo(x2, y2);
+      }
+      ctx.stroke();
+      ctx.setLineDash([]);
+      const [sx, sy] = worldToCanvas(snapHint.point, cx, cy);
+      ctx.beginPath();
+      ctx.arc(sx, sy, POINT_R_PX + 4, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.restore();
+      drawLabel(ctx, snapHint.label, sx, sy - POINT_R_PX - 18);
+    }
+
     // object selection outline
-    if (isObjectMode && objectSelected && vertices.length > 1) {
+    const objRoom = getRoom(plan, selectedRoom);
+    if (isObjectMode && objectSelected && objRoom) {
       ctx.save();
       ctx.strokeStyle = '#8a2be2';
       ctx.lineWidth = 2;
       ctx.setLineDash([6, 6]);
       ctx.beginPath();
-      vertices.forEach((v, i) => {
+      roomPoints(plan, objRoom).forEach((v, i) => {
         const [x, y] = worldToCanvas(v, cx, cy);
         if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
       });
@@ -150,9 +901,13 @@ export default function Floor2D({ vertices, onMove, onInsert, onDelete }: Props)
       ctx.restore();
     }
 
-    // draw area label (bottom-left)
-    const areaM2 = computePolygonAreaM2(vertices);
-    const areaText = `${areaM2.toFixed(2)} m²`;
+    // draw area label (bottom-left): selected room, else the whole plan; invalid outlines have no meaningful area
+    const areaM2 = objRoom
+      ? roomArea(plan, objRoom)
+      : plan.rooms.reduce((s, r) => s + (hasErrors(validation[r.id]) ? 0 : roomArea(plan, r)), 0);
+    const areaText = objRoom
+      ? `${objRoom.name}: ${hasErrors(validation[objRoom.id]) ? 'invalid outline' : formatArea(areaM2, units)}`
+      : `Total: ${formatArea(areaM2, units)}`;
     const padX = 8, padY = 6;
     ctx.font = '13px system-ui, -apple-system, Segoe UI, Roboto';
     const metrics = ctx.measureText(areaText);
@@ -170,7 +925,33 @@ export default function Floor2D({ vertices, onMove, onInsert, onDelete }: Props)
     ctx.textBaseline = 'middle';
     ctx.textAlign = 'left';
     ctx.fillText(areaText, bx + padX, by + boxH / 2 + 1);
-  }, [vertices, offset, selectedEdge, selectedVertex, hoverEdge, hoverVertex, isAddMode, addPreview, isObjectMode, objectSelected, pxPerM, containerSize.w, containerSize.h]);
+
+    // warning badge next to the area box: a refused move or tool action, else the first problem found
+    const problems = [
+      ...plan.rooms.flatMap(r => (validation[r.id]?.issues ?? []).map(x => ({ text: `${r.name}: ${x.message}`, isError: x.severity === 'error' }))),
+      ...plan.furniture.flatMap(f => (furnitureIssues[f.id] ?? []).map(m => ({ text: `${f.name}: ${m}`, isError: false }))),
+    ];
+    const errors = problems.filter(p => p.isError);
+    const first = errors[0] ?? problems[0];
+    const notice = blockedReason ? `Move blocked · ${blockedReason}` : toolError;
+    if (notice || first) {
+      const more = (errors.length || problems.length) - 1;
+      const badgeText = notice
+        ? `⚠ ${notice}`
+        : `⚠ ${first.text}${more > 0 ? ` (+${more} more)` : ''}`;
+      const isError = !!notice || errors.length > 0;
+      const badgeX = bx + boxW + 8;
+      const badgeW = ctx.measureText(badgeText).width + padX * 2;
+      ctx.fillStyle = isError ? '#fff5f5' : '#fff9db';
+      ctx.strokeStyle = isError ? '#e03131' : '#f08c00';
+      ctx.beginPath();
+      ctx.rect(badgeX, by, badgeW, boxH);
+      ctx.fill();
+      ctx.stroke();
+      ctx.fillStyle = isError ? '#c92a2a' : '#8a5a00';
+      ctx.fillText(badgeText, badgeX + padX, by + boxH / 2 + 1);
+    }
+  }, [plan, units, walls, tilePlans, offset, selectedEdge, selectedVertex, selectedRoom, selectedOpening, placePreview, selectedFurniture, furniturePreview, furnitureIssues, selectedLight, lightPreview, hoverEdge, hoverVertex, isAddMode, addPreview, isObjectMode, objectSelected, measure, lengthAnchor, snap, snapHint, validation, blockedReason, toolError, holeDraft, holeCursor, roomDraft, roomCursor, selectedAnnotation, annotDraft, annotCursor, tape, walkDrop, showAngles, groupVertices, groupEdges, groupPivot, marquee, underlay, calibration, calibCursor, pxPerM, containerSize.w, containerSize.h]);
 
   // Track container size changes (e.g., when splitter moves) and trigger redraw
   useEffect(() => {
@@ -192,11 +973,15 @@ export default function Floor2D({ vertices, onMove, onInsert, onDelete }: Props)
   function canvasToWorld(x: number, y: number, cx: number, cy: number): Vec2 {
     return { x: (x - cx) / pxPerM, y: (cy - y) / pxPerM };
   }
+  function viewCenter(): { cx: number; cy: number } {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { cx: rect.width / 2 + offset.x, cy: rect.height / 2 + offset.y };
+  }
 
-  function drawGrid(ctx: CanvasRenderingContext2D, w: number, h: number, cx: number, cy: number) {
-    ctx.strokeStyle = '#eee';
+  function drawGrid(ctx: CanvasRenderingContext2D, w: number, h: number, cx: number, cy: number, stepM: number, color: string) {
+    ctx.strokeStyle = color;
     ctx.lineWidth = 1;
-    const step = pxPerM;
+    const step = stepM * pxPerM;
     const startX = -Math.ceil(cx / step) * step;
     const startY = -Math.ceil(cy / step) * step;
     for (let x = startX; x < w; x += step) {
@@ -207,7 +992,7 @@ export default function Floor2D({ vertices, onMove, onInsert, onDelete }: Props)
     }
   }
 
-  function drawLabel(ctx: CanvasRenderingContext2D, text: string, x: number, y: number) {
+  function drawLabel(ctx: CanvasRenderingContext2D, text: string, x: number, y: number): LabelRect {
     ctx.font = '12px system-ui, -apple-system, Segoe UI, Roboto';
     ctx.textBaseline = 'middle';
     ctx.textAlign = 'center';
@@ -224,50 +1009,442 @@ export default function Floor2D({ vertices, onMove, onInsert, onDelete }: Props)
     ctx.stroke();
     ctx.fillStyle = '#333';
     ctx.fillText(text, x, y + 1);
+    return { x: x - w / 2, y: y - h / 2, w, h };
   }
 
-  function getNearestIndex(px: number, py: number): number | null {
-    const canvas = canvasRef.current!;
-    const rect = canvas.getBoundingClientRect();
-    const cx = rect.width / 2 + offset.x;
-    const cy = rect.height / 2 + offset.y;
-    let best = -1, bestD2 = (POINT_R_PX + 6) ** 2;
-    vertices.forEach((v, i) => {
+  // topmost (last placed) item whose footprint contains the point
+  function getFurnitureAt(p: Vec2): string | null {
+    for (let i = plan.furniture.length - 1; i >= 0; i--) {
+      if (pointInPolygon(p, furnitureFootprint(plan.furniture[i]))) return plan.furniture[i].id;
+    }
+    return null;
+  }
+
+  // catalog item centered under the pointer, on the grid unless Alt is held
+  function furnitureAt(catalogId: string, p: Vec2, free: boolean): Omit<FurnitureItem, 'id'> | null {
+    const c = getCatalogItem(catalogId);
+    if (!c) return null;
+    return furnitureFromCatalog(c, free ? p : snapToGrid(p));
+  }
+
+  // new fitting at `p` (on the grid unless Alt is held); ceiling and spot lights hang just under the ceiling of their room
+  function lightAt(kind: LightKind, p: Vec2, free: boolean): Omit<LightFixture, 'id'> {
+    const at = free ? p : snapToGrid(p);
+    const room = getRoom(plan, getRoomAt(at));
+    const d = LIGHT_DEFAULTS[kind];
+    const height = room && kind !== 'point' ? Math.max(0, room.wall.height - (kind === 'ceiling' ? 0.05 : 0.1)) : d.height;
+    return { kind, x: at.x, y: at.y, lumens: d.lumens, temperature: d.temperature, beam: d.beam, height };
+  }
+
+  // topmost light fitting whose symbol is under the pointer
+  function getLightAt(px: number, py: number): string | null {
+    const { cx, cy } = viewCenter();
+    for (let i = plan.lights.length - 1; i >= 0; i--) {
+      const [x, y] = worldToCanvas(plan.lights[i], cx, cy);
+      if (Math.hypot(px - x, py - y) <= LIGHT_PX + 3) return plan.lights[i].id;
+    }
+    return null;
+  }
+
+  // canvas position of the selected room's tile origin grip, or null when it has no layout
+  function tileOriginFlag(cx: number, cy: number): { x: number; y: number } | null {
+    const layout = selRoom?.floor.layout;
+    if (!layout || isObjectMode) return null;
+    const [ox, oy] = worldToCanvas(layout.origin, cx, cy);
+    return { x: ox + ORIGIN_FLAG_PX, y: oy - ORIGIN_FLAG_PX };
+  }
+
+  function snapToGrid(p: Vec2): Vec2 {
+    const step = snap.gridStep;
+    if (!snap.enabled.grid || !(step > 0)) return p;
+    return { x: Math.round(p.x / step) * step, y: Math.round(p.y / step) * step };
+  }
+
+  // Object Mode gesture from the drag start to `p`: a translation, or a rotation about the object center
+  function objectGesture(p: Vec2, tool: 'translate' | 'rotate'): { apply: (v: Vec2) => Vec2; angle: number } {
+    const start = objectDragStartRef.current!;
+    const center = objectCenterRef.current!;
+    if (tool === 'translate') {
+      const dx = p.x - start.x, dy = p.y - start.y;
+      return { apply: v => ({ x: v.x + dx, y: v.y + dy }), angle: 0 };
+    }
+    const dA = Math.atan2(p.y - center.y, p.x - center.x) - (objectStartAngleRef.current ?? 0);
+    const sinA = Math.sin(dA), cosA = Math.cos(dA);
+    return {
+      apply: v => ({
+        x: cosA * (v.x - center.x) - sinA * (v.y - center.y) + center.x,
+        y: sinA * (v.x - center.x) + cosA * (v.y - center.y) + center.y,
+      }),
+      angle: dA,
+    };
+  }
+
+  // starts a move (or, with the Object Mode rotate tool, a turn) of a furniture item
+  function startFurnitureDrag(id: string, p: Vec2) {
+    const item = plan.furniture.find(f => f.id === id)!;
+    setSelectedFurniture(id);
+    setSelectedVertex(null);
+    setSelectedEdge(null);
+    setSelectedOpening(null);
+    objectDragStartRef.current = p;
+    objectCenterRef.current = { x: item.x, y: item.y };
+    objectStartAngleRef.current = Math.atan2(p.y - item.y, p.x - item.x);
+    originalFurnitureRef.current = item;
+    onEditStart?.();
+  }
+
+  function getNearestOpening(px: number, py: number): string | null {
+    const { cx, cy } = viewCenter();
+    let best: string | null = null, bestD = 10;
+    for (const o of plan.openings) {
+      const f = openingFrame(plan, o);
+      const [x1, y1] = worldToCanvas(framePoint(f, f.s0), cx, cy);
+      const [x2, y2] = worldToCanvas(framePoint(f, f.s1), cx, cy);
+      const d = pointToSegmentDistance(px, py, x1, y1, x2, y2);
+      if (d < bestD) { bestD = d; best = o.id; }
+    }
+    return best;
+  }
+
+  // opening of the active kind centered under the pointer on the nearest edge
+  function openingAt(kind: OpeningKind, px: number, py: number): Omit<Opening, 'id'> | null {
+    const edge = getNearestEdge(px, py, false);
+    if (!edge) return null;
+    const room = getRoom(plan, edge.roomId)!;
+    const [a, b] = edgeVertexIds(room, edge.index);
+    const pa = plan.vertices[a], pb = plan.vertices[b];
+    const { cx, cy } = viewCenter();
+    const p = projectPointOnSegment(canvasToWorld(px, py, cx, cy), pa, pb);
+    const len = Math.hypot(pb.x - pa.x, pb.y - pa.y);
+    const defaults = OPENING_DEFAULTS[kind];
+    const offset = clampOpeningOffset(len, defaults.width, Math.hypot(p.x - pa.x, p.y - pa.y));
+    return { kind, a, b, offset, ...defaults, hinge: 'a', opensTo: 'left' };
+  }
+
+  function getNearestVertex(px: number, py: number): string | null {
+    const { cx, cy } = viewCenter();
+    let best: string | null = null, bestD2 = (POINT_R_PX + 6) ** 2;
+    Object.entries(plan.vertices).forEach(([id, v]) => {
       const [vx, vy] = worldToCanvas(v, cx, cy);
       const d2 = (vx - px) ** 2 + (vy - py) ** 2;
-      if (d2 <= bestD2) { bestD2 = d2; best = i; }
+      if (d2 <= bestD2) { bestD2 = d2; best = id; }
     });
-    return best >= 0 ? best : null;
+    return best;
   }
 
-  function getNearestEdge(px: number, py: number): number | null {
-    const canvas = canvasRef.current!;
-    const rect = canvas.getBoundingClientRect();
-    const cx = rect.width / 2 + offset.x;
-    const cy = rect.height / 2 + offset.y;
+  // edges of the selected room win ties, so a shared wall picks the room being edited;
+  // hole edges count unless only walls are wanted (e.g. to host an opening)
+  function getNearestEdge(px: number, py: number, withHoles = true): EdgeRef | null {
+    const { cx, cy } = viewCenter();
     const threshold = 10;
-    let bestEdge = -1;
+    let bestEdge: EdgeRef | null = null;
     let bestD = threshold;
-    for (let i = 0; i < vertices.length; i++) {
-      const j = (i + 1) % vertices.length;
-      const [x1, y1] = worldToCanvas(vertices[i], cx, cy);
-      const [x2, y2] = worldToCanvas(vertices[j], cx, cy);
-      const d = pointToSegmentDistance(px, py, x1, y1, x2, y2);
-      if (d <= bestD) { bestD = d; bestEdge = i; }
+    const rooms = [...plan.rooms].sort((a, b) => (a.id === selectedRoom ? -1 : b.id === selectedRoom ? 1 : 0));
+    for (const room of rooms) {
+      for (const hole of [undefined, ...(withHoles ? room.holes.map((_, h) => h) : [])]) {
+        for (let i = 0; i < loopIds(room, hole).length; i++) {
+          const [a, b] = edgeVertexIds(room, i, hole);
+          const [x1, y1] = worldToCanvas(plan.vertices[a], cx, cy);
+          const [x2, y2] = worldToCanvas(plan.vertices[b], cx, cy);
+          const d = pointToSegmentDistance(px, py, x1, y1, x2, y2);
+          if (d < bestD) { bestD = d; bestEdge = { roomId: room.id, index: i, hole }; }
+        }
+      }
+    }
+    return bestEdge;
+  }
+
+  // topmost (last drawn) room containing the point; its holes do not count
+  function getRoomAt(p: Vec2): string | null {
+    for (let i = plan.rooms.length - 1; i >= 0; i--) {
+      const room = plan.rooms[i];
+      if (pointInPolygon(p, roomPoints(plan, room)) && !room.holes.some((_, h) => pointInPolygon(p, holePoints(plan, room, h)))) return room.id;
+    }
+    return null;
+  }
+
+  function edgePoints(edge: EdgeRef): [Vec2, Vec2] {
+    const room = getRoom(plan, edge.roomId)!;
+    const [a, b] = edgeVertexIds(room, edge.index, edge.hole);
+    return [plan.vertices[a], plan.vertices[b]];
+  }
+
+  // free pointer snapped to the grid and guides (no dragged vertex); Alt skips snapping
+  function snappedPointer(p: Vec2, free: boolean): Vec2 {
+    if (free) { setSnapHint(null); return p; }
+    const s = snapVertex(plan, '', p, snap, SNAP_PX / pxPerM);
+    setSnapHint(s);
+    return s.point;
+  }
+
+  // the first corner picks the room; clicking it again (or Enter) closes the hole
+  function addHoleCorner(p: Vec2, px: number, py: number) {
+    if (!holeDraft) return;
+    const { points } = holeDraft;
+    if (points.length === 0) {
+      const roomId = getRoomAt(p);
+      setToolError(roomId ? null : 'Start the hole inside a room');
+      if (roomId) setHoleDraft({ roomId, points: [p] });
+      return;
+    }
+    const { cx, cy } = viewCenter();
+    const [fx, fy] = worldToCanvas(points[0], cx, cy);
+    if (points.length >= 3 && Math.hypot(px - fx, py - fy) <= POINT_R_PX + 4) {
+      closeHole(holeDraft);
+      return;
+    }
+    setToolError(null);
+    setHoleDraft({ ...holeDraft, points: [...points, p] });
+  }
+
+  function closeHole(draft: HoleDraft) {
+    const err = holeDraftError(plan, draft);
+    setToolError(err);
+    if (err || !onAddHole || !draft.roomId) return;
+    onAddHole(draft.roomId, draft.points);
+    setSelectedRoom(draft.roomId);
+    exitHoleTool();
+  }
+
+  function exitHoleTool() {
+    setHoleDraft(null);
+    setHoleCursor(null);
+    setSnapHint(null);
+  }
+
+  // next corner of the drawn room: snapped like a dragged vertex, or with Shift at a multiple of the angle step from the last corner
+  function roomCorner(px: number, py: number, free: boolean, straight: boolean): Vec2 {
+    const { cx, cy } = viewCenter();
+    const p = canvasToWorld(px, py, cx, cy);
+    const last = roomDraft?.[roomDraft.length - 1];
+    if (!straight || !last) return snappedPointer(p, free);
+    setSnapHint(null);
+    const step = (snap.angleStep * Math.PI) / 180;
+    const a = Math.round(Math.atan2(p.y - last.y, p.x - last.x) / step) * step;
+    const len = (p.x - last.x) * Math.cos(a) + (p.y - last.y) * Math.sin(a);
+    return { x: last.x + Math.cos(a) * len, y: last.y + Math.sin(a) * len };
+  }
+
+  // clicking the first corner again (or Enter) closes the room
+  function addRoomCorner(p: Vec2, px: number, py: number) {
+    if (!roomDraft) return;
+    if (roomDraft.length >= 3) {
+      const { cx, cy } = viewCenter();
+      const [fx, fy] = worldToCanvas(roomDraft[0], cx, cy);
+      if (Math.hypot(px - fx, py - fy) <= POINT_R_PX + 4) {
+        closeRoomDraft(roomDraft);
+        return;
+      }
     }
-    return bestEdge >= 0 ? bestEdge : null;
+    setToolError(null);
+    setRoomDraft([...roomDraft, p]);
+  }
+
+  // drawn clockwise or not, rooms are stored counterclockwise
+  function closeRoomDraft(points: Vec2[]) {
+    const reason = outlineRejectReason(points);
+    const err = points.length < 3 ? 'A room needs at least 3 corners' : reason && `Room rejected · ${reason}`;
+    setToolError(err);
+    if (err || !onAddRoom) return;
+    const id = onAddRoom(signedArea(points) < 0 ? [...points].reverse() : points);
+    setSelectedRoom(id);
+    setSelectedVertex(null);
+    setSelectedEdge(null);
+    exitRoomTool();
+  }
+
+  function exitRoomTool() {
+    setRoomDraft(null);
+    setRoomCursor(null);
+    setSnapHint(null);
   }
 
-  function pointToSegmentDistance(px: number, py: number, x1: number, y1: number, x2: number, y2: number) {
-    const vx = x2 - x1, vy = y2 - y1;
-    const wx = px - x1, wy = py - y1;
-    const c1 = vx * wx + vy * wy;
-    if (c1 <= 0) return Math.hypot(px - x1, py - y1);
-    const c2 = vx * vx + vy * vy;
-    if (c2 <= c1) return Math.hypot(px - x2, py - y2);
-    const b = c1 / c2;
-    const bx = x1 + b * vx, by = y1 + b * vy;
-    return Math.hypot(px - bx, py - by);
+  function cancelFurniturePlacement() {
+    setPlaceFurniture(null);
+    setFurniturePreview(null);
+  }
+
+  function cancelLightPlacement() {
+    setPlaceLight(null);
+    setLightPreview(null);
+  }
+
+  function exitWalkDrop() {
+    setWalkDrop(null);
+  }
+
+  function exitAnnotationTool() {
+    setAnnotTool(null);
+    setAnnotDraft(null);
+    setAnnotCursor(null);
+    setTape(null);
+    setSnapHint(null);
+  }
+
+  function toggleAnnotTool(tool: AnnotationTool) {
+    const next = annotTool === tool ? null : tool;
+    exitAnnotationTool();
+    setAnnotTool(next);
+    if (!next) return;
+    setIsBoxSelect(false);
+    setIsAddMode(false);
+    setPlaceKind(null);
+    setPlacePreview(null);
+    exitHoleTool();
+    exitRoomTool();
+    cancelFurniturePlacement();
+    cancelLightPlacement();
+    exitWalkDrop();
+  }
+
+  function exitUnderlayTools() {
+    setIsUnderlayMove(false);
+    setCalibration(null);
+    setCalibCursor(null);
+  }
+
+  // a new underlay starts centered in the view, 80% of its width across, until it is calibrated
+  function openUnderlayFile(file: File) {
+    loadUnderlayFile(file).then(
+      source => {
+        const rect = canvasRef.current!.getBoundingClientRect();
+        const { cx, cy } = viewCenter();
+        setUnderlay(placeUnderlay(source, canvasToWorld(rect.width / 2, rect.height / 2, cx, cy), (rect.width * 0.8) / pxPerM));
+        setUnderlayError(null);
+        exitUnderlayTools();
+      },
+      (err: Error) => setUnderlayError(`Could not open ${file.name}: ${err.message}`),
+    );
+  }
+
+  function showUnderlayPage(page: number) {
+    const pdf = underlay?.source.pdf;
+    if (!underlay || !pdf) return;
+    renderPdfPage(pdf.data, page, underlay.source.name).then(
+      source => { setUnderlay(u => u && { ...u, source }); setUnderlayError(null); },
+      (err: Error) => setUnderlayError(`Could not show page ${page}: ${err.message}`),
+    );
+  }
+
+  function clearGroup() {
+    setGroupVertices([]);
+    setGroupEdges([]);
+    setGroupPivot(null);
+  }
+
+  // numeric group edits are refused, like typed lengths, when they would make a room self-intersect,
+  // and like drags when blocking is on and they would break a room
+  function applyGroupMoves(moves: Record<string, Vec2>): string | null {
+    if (Object.keys(moves).length === 0) return null;
+    if (!movesKeepRoomsSimple(plan, moves)) return 'That would make a room self-intersect or cut through a hole.';
+    const reason = blockInvalid ? invalidMoveReason(plan, moves) : null;
+    if (reason) return reason;
+    onMoveVertices(moves);
+    return null;
+  }
+
+  function applyGroupTransform(t: GroupTransform, choice: PivotChoice): string | null {
+    if (!groupBox) return null;
+    const about = choice === 'marker' ? pivot! : pivotPoint(groupBox, choice);
+    return applyGroupMoves(transformMoves(plan, groupIds, t, about));
+  }
+
+  // a box drawn over the canvas selects the vertices inside it and the edges with both ends inside
+  function finishMarquee(m: { from: Vec2; to: Vec2; add: boolean }) {
+    const { cx, cy } = viewCenter();
+    const x0 = Math.min(m.from.x, m.to.x), x1 = Math.max(m.from.x, m.to.x);
+    const y0 = Math.min(m.from.y, m.to.y), y1 = Math.max(m.from.y, m.to.y);
+    const inside = (id: string) => {
+      const [x, y] = worldToCanvas(plan.vertices[id], cx, cy);
+      return x >= x0 && x <= x1 && y >= y0 && y <= y1;
+    };
+    const vertices = Object.keys(plan.vertices).filter(inside);
+    const edges: EdgeRef[] = plan.rooms.flatMap(room => [undefined, ...room.holes.map((_, h) => h)].flatMap(hole =>
+      loopIds(room, hole).map((_, index) => ({ roomId: room.id, index, hole })).filter(e => edgeVertexIds(room, e.index, e.hole).every(inside))));
+    if (m.add) {
+      setGroupVertices(g => [...new Set([...g, ...vertices])]);
+      setGroupEdges(g => [...g, ...edges.filter(e => !g.some(x => sameEdge(x, e)))]);
+    } else {
+      setGroupVertices(vertices);
+      setGroupEdges(edges);
+      setGroupPivot(null);
+    }
+    setSelectedVertex(null);
+    setSelectedEdge(null);
+  }
+
+  // Shift-click: toggles the vertex or edge in the group; the single selection joins the group first
+  function toggleInGroup(press: ShiftPress) {
+    let vertices = groupVertices, edges = groupEdges;
+    if (press.prevVertex !== null && press.prevVertex !== press.vertex && !vertices.includes(press.prevVertex)) vertices = [...vertices, press.prevVertex];
+    if (press.prevEdge && !sameEdge(press.prevEdge, press.edge) && !edges.some(e => sameEdge(e, press.prevEdge))) edges = [...edges, press.prevEdge];
+    if (press.vertex !== null) {
+      vertices = vertices.includes(press.vertex) ? vertices.filter(id => id !== press.vertex) : [...vertices, press.vertex];
+    } else if (press.edge) {
+      edges = edges.some(e => sameEdge(e, press.edge)) ? edges.filter(e => !sameEdge(e, press.edge)) : [...edges, press.edge];
+    }
+    setGroupVertices(vertices);
+    setGroupEdges(edges);
+    setSelectedVertex(null);
+    setSelectedEdge(null);
+  }
+
+  // a measured point: a corner under the pointer pins it, else the snapped pointer (Alt: free)
+  function annotationEndAt(px: number, py: number, free: boolean): AnnotationEnd {
+    const vId = getNearestVertex(px, py);
+    if (vId !== null) {
+      setSnapHint(null);
+      return { vertexId: vId, at: { ...plan.vertices[vId] } };
+    }
+    const { cx, cy } = viewCenter();
+    return { vertexId: null, at: snappedPointer(canvasToWorld(px, py, cx, cy), free) };
+  }
+
+  // one click of the active annotation tool; new annotations are selected so their text can be typed
+  function placeAnnotation(px: number, py: number, free: boolean) {
+    const { cx, cy } = viewCenter();
+    const end = annotationEndAt(px, py, free);
+    const p = endPoint(plan, end);
+    const add = (a: Annotation) => {
+      onAddAnnotation?.(a);
+      setSelectedAnnotation(a.id);
+      exitAnnotationTool();
+    };
+    if (annotTool === 'tape') {
+      setTape(!tape || tape.done ? { a: p, b: p, done: false } : { ...tape, b: p, done: true });
+    } else if (annotTool === 'note') {
+      add({ id: createId('annotation'), kind: 'note', at: p, text: 'Note' });
+    } else if (annotTool === 'leader') {
+      if (annotDraft?.kind !== 'leader') setAnnotDraft({ kind: 'leader', tip: p });
+      else add({ id: createId('annotation'), kind: 'leader', at: p, tip: annotDraft.tip, text: 'Note' });
+    } else if (annotTool === 'dimension') {
+      if (annotDraft?.kind !== 'dimension') setAnnotDraft({ kind: 'dimension', a: end, b: null });
+      else if (!annotDraft.b) {
+        const a = endPoint(plan, annotDraft.a);
+        if (Math.hypot(p.x - a.x, p.y - a.y) > 1e-6) setAnnotDraft({ ...annotDraft, b: end });
+      } else {
+        const offset = dimensionOffsetAt(plan, annotDraft.a, annotDraft.b, canvasToWorld(px, py, cx, cy));
+        add({ id: createId('annotation'), kind: 'dimension', a: annotDraft.a, b: annotDraft.b, offset });
+      }
+    }
+  }
+
+  // topmost annotation under the pointer: a leader's tip, a label, or a dimension or leader line
+  function annotationAt(px: number, py: number): { annotation: Annotation; part: AnnotationDrag['part'] } | null {
+    const { cx, cy } = viewCenter();
+    for (const a of [...plan.annotations].reverse()) {
+      if (a.kind === 'leader') {
+        const [tx, ty] = worldToCanvas(a.tip, cx, cy);
+        if (Math.hypot(px - tx, py - ty) <= POINT_R_PX) return { annotation: a, part: 'tip' };
+      }
+      if (annotationLabelsRef.current.some(l => l.id === a.id && inRect(l.rect, px, py))) return { annotation: a, part: 'body' };
+      const line = annotationShape(plan, a, units).lines[0];
+      if (!line) continue;
+      const [x1, y1] = worldToCanvas(line[0], cx, cy);
+      const [x2, y2] = worldToCanvas(line[1], cx, cy);
+      if (pointToSegmentDistance(px, py, x1, y1, x2, y2) <= 6) return { annotation: a, part: 'body' };
+    }
+    return null;
   }
 
   function onPointerDown(e: React.PointerEvent) {
@@ -275,21 +1452,45 @@ export default function Floor2D({ vertices, onMove, onInsert, onDelete }: Props)
     const rect = canvas.getBoundingClientRect();
     const px = e.clientX - rect.left;
     const py = e.clientY - rect.top;
+    const { cx, cy } = viewCenter();
+    setMeasure(null);
     if (e.button === 2 || e.button === 1) {
       setIsPanning(true);
       lastPanRef.current = { x: px, y: py };
       return;
     }
+    // underlay calibration picks two free points; the distance is typed once both are set
+    if (calibration) {
+      const p = canvasToWorld(px, py, cx, cy);
+      if (!calibration.a) setCalibration({ a: p, b: null });
+      else if (!calibration.b) setCalibration({ ...calibration, b: p });
+      return;
+    }
+    if (isUnderlayMove && underlay && !underlay.locked) {
+      dragUnderlayRef.current = { start: canvasToWorld(px, py, cx, cy), center: underlay.center };
+      return;
+    }
+    if (holeDraft) {
+      addHoleCorner(snappedPointer(canvasToWorld(px, py, cx, cy), e.altKey), px, py);
+      return;
+    }
+    if (roomDraft) {
+      addRoomCorner(roomCorner(px, py, e.altKey, e.shiftKey), px, py);
+      return;
+    }
+    if (annotTool) {
+      placeAnnotation(px, py, e.altKey);
+      return;
+    }
+    setSelectedAnnotation(null);
+    setSelectedLight(null);
     if (isAddMode) {
-      const eIdx = getNearestEdge(px, py);
-      if (eIdx !== null && onInsert) {
-        const rect = canvas.getBoundingClientRect();
-        const cx = rect.width / 2 + offset.x;
-        const cy = rect.height / 2 + offset.y;
-        const i = eIdx, j = (i + 1) % vertices.length;
+      const edge = getNearestEdge(px, py);
+      if (edge !== null && onInsert) {
+        const [a, b] = edgePoints(edge);
         const pWorld = canvasToWorld(px, py, cx, cy);
-        const proj = projectPointOnSegment(pWorld, vertices[i], vertices[j]);
-        onInsert(j, proj);
+        const proj = projectPointOnSegment(pWorld, a, b);
+        onInsert(edge.roomId, edge.index, proj, edge.hole);
         setIsAddMode(false);
         setAddPreview(null);
         setHoverEdge(null);
@@ -297,16 +1498,75 @@ export default function Floor2D({ vertices, onMove, onInsert, onDelete }: Props)
       }
     }
 
+    if (placeFurniture) {
+      const item = furnitureAt(placeFurniture, canvasToWorld(px, py, cx, cy), e.altKey);
+      if (item && onAddFurniture) {
+        setSelectedFurniture(onAddFurniture(item));
+        setSelectedVertex(null);
+        setSelectedEdge(null);
+        setSelectedOpening(null);
+        cancelFurniturePlacement();
+      }
+      return;
+    }
+
+    if (walkDrop) {
+      const p = canvasToWorld(px, py, cx, cy);
+      if (!walkDrop.at) {
+        setWalkDrop({ at: e.altKey ? p : snapToGrid(p), cursor: p });
+        return;
+      }
+      const dx = p.x - walkDrop.at.x, dy = p.y - walkDrop.at.y;
+      onWalkFrom?.({ at: walkDrop.at, heading: Math.hypot(dx, dy) * pxPerM > 1 ? Math.atan2(dy, dx) : Math.PI / 2 });
+      exitWalkDrop();
+      return;
+    }
+
+    if (placeLight) {
+      if (onAddLight) {
+        setSelectedLight(onAddLight(lightAt(placeLight, canvasToWorld(px, py, cx, cy), e.altKey)));
+        setSelectedVertex(null);
+        setSelectedEdge(null);
+        setSelectedOpening(null);
+        setSelectedFurniture(null);
+        cancelLightPlacement();
+      }
+      return;
+    }
+
+    if (placeKind) {
+      const o = openingAt(placeKind, px, py);
+      if (o && onAddOpening) {
+        const id = onAddOpening(o);
+        setSelectedOpening(id);
+        setSelectedVertex(null);
+        setSelectedEdge(null);
+        setPlaceKind(null);
+        setPlacePreview(null);
+      }
+      return;
+    }
+
     if (isObjectMode) {
-      setObjectSelected(true);
-      const rect2 = canvas.getBoundingClientRect();
-      const cx2 = rect2.width / 2 + offset.x;
-      const cy2 = rect2.height / 2 + offset.y;
-      const p = canvasToWorld(px, py, cx2, cy2);
+      const p = canvasToWorld(px, py, cx, cy);
+      // furniture sits on top of the rooms and takes the gesture first
+      const fId = getFurnitureAt(p);
+      if (fId !== null) {
+        setObjectSelected(false);
+        startFurnitureDrag(fId, p);
+        return;
+      }
+      setSelectedFurniture(null);
+      const roomId = getRoomAt(p);
+      const room = getRoom(plan, roomId);
+      setSelectedRoom(roomId);
+      setObjectSelected(!!room);
+      if (!room) return;
       objectDragStartRef.current = p;
-      const center = getCentroid(vertices);
+      const center = getCentroid(roomPoints(plan, room));
       objectCenterRef.current = center;
-      originalVertsRef.current = vertices.map(v => ({ x: v.x, y: v.y }));
+      originalVertsRef.current = Object.fromEntries([...room.vertexIds, ...room.holes.flat()].map(id => [id, { ...plan.vertices[id] }]));
+      onEditStart?.();
       if (objectTool === 'rotate') {
         objectStartAngleRef.current = Math.atan2(p.y - center.y, p.x - center.x);
       } else {
@@ -314,30 +1574,137 @@ export default function Floor2D({ vertices, onMove, onInsert, onDelete }: Props)
       }
       return;
     }
-    const vIdx = getNearestIndex(px, py);
-    if (vIdx !== null) {
-      setDragIndex(vIdx);
-      setSelectedVertex(vIdx);
+    const flag = tileOriginFlag(cx, cy);
+    if (flag && Math.hypot(px - flag.x, py - flag.y) <= POINT_R_PX) {
+      dragOriginRef.current = selRoom!.id;
+      onEditStart?.();
+      return;
+    }
+    const vId = getNearestVertex(px, py);
+    // group: the pivot marker, then a plain drag on any grouped vertex or edge moves them all
+    if (pivot) {
+      const [gx, gy] = worldToCanvas(pivot, cx, cy);
+      if (Math.hypot(px - gx, py - gy) <= POINT_R_PX) {
+        dragPivotRef.current = true;
+        return;
+      }
+      const gEdge = vId === null ? getNearestEdge(px, py) : null;
+      const onGroup = vId !== null ? groupIds.includes(vId) : gEdge !== null && groupEdges.some(g => sameEdge(g, gEdge));
+      if (onGroup && !e.shiftKey && !isBoxSelect) {
+        dragGroupRef.current = { start: canvasToWorld(px, py, cx, cy), original: Object.fromEntries(groupIds.map(id => [id, { ...plan.vertices[id] }])) };
+        onEditStart?.();
+        return;
+      }
+    }
+    // Shift on a vertex or edge defers to the release (click toggles, drag moves); Shift elsewhere or the box tool draws a box
+    if (e.shiftKey || isBoxSelect) {
+      const edge = vId === null ? getNearestEdge(px, py) : null;
+      if (!e.shiftKey || (vId === null && edge === null)) {
+        setMarquee({ from: { x: px, y: py }, to: { x: px, y: py }, add: e.shiftKey });
+        return;
+      }
+      shiftPressRef.current = { px, py, vertex: vId, edge, prevVertex: selectedVertex, prevEdge: selectedEdge };
+    } else if (groupIds.length > 0) {
+      clearGroup();
+    }
+    const hitLight = vId === null ? getLightAt(px, py) : null;
+    if (hitLight) {
+      const light = plan.lights.find(l => l.id === hitLight)!;
+      const p = canvasToWorld(px, py, cx, cy);
+      setSelectedLight(hitLight);
+      setSelectedVertex(null);
+      setSelectedEdge(null);
+      setSelectedOpening(null);
+      setSelectedFurniture(null);
+      dragLightRef.current = { id: hitLight, grab: { x: p.x - light.x, y: p.y - light.y } };
+      onEditStart?.();
+      return;
+    }
+    const hitAnnotation = vId === null ? annotationAt(px, py) : null;
+    if (hitAnnotation) {
+      setSelectedAnnotation(hitAnnotation.annotation.id);
+      setSelectedVertex(null);
+      setSelectedEdge(null);
+      setSelectedOpening(null);
+      setSelectedFurniture(null);
+      dragAnnotationRef.current = { original: hitAnnotation.annotation, part: hitAnnotation.part, start: canvasToWorld(px, py, cx, cy) };
+      onEditStart?.();
+      return;
+    }
+    // clicking a length or angle label opens the inline editor
+    if (vId === null && selectedVertex !== null && angleLabelRef.current && inRect(angleLabelRef.current, px, py)) {
+      setMeasure({ kind: 'angle', vertexId: selectedVertex });
+      return;
+    }
+    const hitLabel = vId === null ? lengthLabelsRef.current.find(l => inRect(l.rect, px, py)) : undefined;
+    if (hitLabel) {
+      setSelectedEdge(hitLabel.edge);
+      setSelectedRoom(hitLabel.edge.roomId);
+      setSelectedVertex(null);
+      setSelectedOpening(null);
+      setSelectedFurniture(null);
+      setMeasure({ kind: 'length', edge: hitLabel.edge });
+      return;
+    }
+    const oId = vId === null ? getNearestOpening(px, py) : null;
+    if (oId !== null) {
+      const o = plan.openings.find(op => op.id === oId)!;
+      const f = openingFrame(plan, o);
+      const p = canvasToWorld(px, py, cx, cy);
+      const s = (p.x - f.start.x) * f.dir.x + (p.y - f.start.y) * f.dir.y;
+      setSelectedOpening(oId);
+      setSelectedVertex(null);
+      setSelectedEdge(null);
+      setSelectedFurniture(null);
+      dragOpeningRef.current = { id: oId, grab: s - f.center };
+      onEditStart?.();
+      return;
+    }
+    setSelectedOpening(null);
+    const fId = vId === null ? getFurnitureAt(canvasToWorld(px, py, cx, cy)) : null;
+    if (fId !== null) {
+      startFurnitureDrag(fId, canvasToWorld(px, py, cx, cy));
+      return;
+    }
+    setSelectedFurniture(null);
+    if (vId !== null) {
+      setDragVertex(vId);
+      setSelectedVertex(vId);
       setDragEdge(null);
       setSelectedEdge(null);
       prevPointerWorldRef.current = null;
+      onEditStart?.();
       return;
     }
-    const eIdx = getNearestEdge(px, py);
-    if (eIdx !== null) {
-      setSelectedEdge(eIdx);
-      setDragEdge(eIdx);
-      const cx = rect.width / 2 + offset.x;
-      const cy = rect.height / 2 + offset.y;
+    const edge = getNearestEdge(px, py);
+    if (edge !== null) {
+      setSelectedEdge(edge);
+      setSelectedVertex(null);
+      setSelectedRoom(edge.roomId);
+      setDragEdge(edge);
       prevPointerWorldRef.current = canvasToWorld(px, py, cx, cy);
+      onEditStart?.();
       return;
     }
-    // empty click -> clear selection and start panning
     setSelectedVertex(null);
     setSelectedEdge(null);
+    // click inside a room selects it
+    const roomId = getRoomAt(canvasToWorld(px, py, cx, cy));
+    setSelectedRoom(roomId);
+    if (roomId !== null) return;
+    // empty click -> clear selection and start panning
     setIsPanning(true);
     lastPanRef.current = { x: px, y: py };
   }
+  // live drag edits; with blocking on, a move that would break a room is dropped
+  function dragMoves(moves: Record<string, Vec2>): boolean {
+    const reason = blockInvalid ? invalidMoveReason(plan, moves) : null;
+    setBlockedReason(reason);
+    if (reason) return false;
+    onMoveVertices(moves);
+    return true;
+  }
+
   function onPointerMove(e: React.PointerEvent) {
     const canvas = canvasRef.current!;
     const rect = canvas.getBoundingClientRect();
@@ -353,65 +1720,186 @@ export default function Floor2D({ vertices, onMove, onInsert, onDelete }: Props)
       }
       return;
     }
+    const { cx, cy } = viewCenter();
+
+    if (marquee) {
+      setMarquee({ ...marquee, to: { x: px, y: py } });
+      return;
+    }
+    const underlayDrag = dragUnderlayRef.current;
+    if (underlayDrag) {
+      const p = canvasToWorld(px, py, cx, cy);
+      setUnderlay(u => u && { ...u, center: { x: underlayDrag.center.x + p.x - underlayDrag.start.x, y: underlayDrag.center.y + p.y - underlayDrag.start.y } });
+      return;
+    }
+    if (calibration) {
+      setCalibCursor(calibration.a && !calibration.b ? canvasToWorld(px, py, cx, cy) : null);
+      return;
+    }
+    // a Shift-press only becomes a drag once the pointer really moves
+    const press = shiftPressRef.current;
+    if (press) {
+      if (Math.hypot(px - press.px, py - press.py) < 4) return;
+      shiftPressRef.current = null;
+    }
+
+    // pivot marker: catches on any vertex and the group bounds' corners, midpoints and center, else the grid (Alt: free)
+    if (dragPivotRef.current && groupBox) {
+      const p = canvasToWorld(px, py, cx, cy);
+      const near = [...Object.values(plan.vertices), ...boundsSnapPoints(groupBox)]
+        .filter(v => Math.hypot(v.x - p.x, v.y - p.y) * pxPerM <= SNAP_PX)
+        .sort((a, b) => Math.hypot(a.x - p.x, a.y - p.y) - Math.hypot(b.x - p.x, b.y - p.y))[0];
+      setGroupPivot(near ? { ...near } : e.altKey ? p : snapToGrid(p));
+      return;
+    }
+    // group move: the offset steps by the grid (Alt: free), and the custom pivot travels along
+    const groupDrag = dragGroupRef.current;
+    if (groupDrag) {
+      const p = canvasToWorld(px, py, cx, cy);
+      const raw = { x: p.x - groupDrag.start.x, y: p.y - groupDrag.start.y };
+      const d = e.altKey ? raw : snapToGrid(raw);
+      const moves = Object.fromEntries(Object.entries(groupDrag.original).map(([id, v]) => [id, { x: v.x + d.x, y: v.y + d.y }]));
+      const first = Object.keys(moves)[0];
+      const shift = first ? { x: moves[first].x - plan.vertices[first].x, y: moves[first].y - plan.vertices[first].y } : { x: 0, y: 0 };
+      if (dragMoves(moves) && groupPivot) setGroupPivot({ x: groupPivot.x + shift.x, y: groupPivot.y + shift.y });
+      return;
+    }
+
+    // light drag: the fitting keeps its grab offset and lands on the grid unless Alt is held
+    const lightDrag = dragLightRef.current;
+    if (lightDrag) {
+      const p = canvasToWorld(px, py, cx, cy);
+      const at = { x: p.x - lightDrag.grab.x, y: p.y - lightDrag.grab.y };
+      onUpdateLight(lightDrag.id, e.altKey ? at : snapToGrid(at));
+      return;
+    }
+
+    // annotation drag: a dimension line follows the pointer across its measured line; text and tips move with it
+    const annotDrag = dragAnnotationRef.current;
+    if (annotDrag) {
+      const p = canvasToWorld(px, py, cx, cy);
+      const a = annotDrag.original;
+      const move = (v: Vec2): Vec2 => ({ x: v.x + p.x - annotDrag.start.x, y: v.y + p.y - annotDrag.start.y });
+      if (a.kind === 'dimension') onUpdateAnnotation({ ...a, offset: dimensionOffsetAt(plan, a.a, a.b, p) });
+      else if (a.kind === 'leader' && annotDrag.part === 'tip') onUpdateAnnotation({ ...a, tip: move(a.tip) });
+      else onUpdateAnnotation({ ...a, at: move(a.at) });
+      return;
+    }
+
+    // annotation tools: the next point under the pointer, or the dimension line's place once both ends are set
+    if (annotTool) {
+      if (annotDraft?.kind === 'dimension' && annotDraft.b) {
+        setAnnotCursor(canvasToWorld(px, py, cx, cy));
+        return;
+      }
+      const p = endPoint(plan, annotationEndAt(px, py, e.altKey));
+      setAnnotCursor(p);
+      if (tape && !tape.done) setTape({ ...tape, b: p });
+      return;
+    }
+
+    // tile origin drag: catches on the room's corners, else the grid (Alt: free)
+    const originRoom = getRoom(plan, dragOriginRef.current);
+    if (originRoom?.floor.layout) {
+      const grip = canvasToWorld(px, py, cx, cy);
+      const p = { x: grip.x - ORIGIN_FLAG_PX / pxPerM, y: grip.y - ORIGIN_FLAG_PX / pxPerM };
+      const corner = [...originRoom.vertexIds, ...originRoom.holes.flat()]
+        .map(id => plan.vertices[id])
+        .find(v => Math.hypot(v.x - p.x, v.y - p.y) * pxPerM <= SNAP_PX);
+      const origin = e.altKey ? p : corner ? { ...corner } : snapToGrid(p);
+      onUpdateFloor(originRoom.id, { layout: { ...originRoom.floor.layout, origin } });
+      return;
+    }
+
+    // furniture drag: always a move outside Object Mode; the center snaps to the grid, turns to the angle step (Alt: free)
+    const furniture = originalFurnitureRef.current;
+    if (furniture && objectDragStartRef.current) {
+      const p = canvasToWorld(px, py, cx, cy);
+      const tool = isObjectMode ? objectTool : 'translate';
+      const { apply, angle } = objectGesture(p, tool);
+      if (tool === 'translate') {
+        const c = apply(furniture);
+        onUpdateFurniture(furniture.id, e.altKey ? { x: c.x, y: c.y } : snapToGrid(c));
+      } else {
+        let deg = furniture.rotation + (angle * 180) / Math.PI;
+        if (snap.enabled.angle && snap.angleStep > 0 && !e.altKey) deg = Math.round(deg / snap.angleStep) * snap.angleStep;
+        onUpdateFurniture(furniture.id, { rotation: ((deg % 360) + 360) % 360 });
+      }
+      return;
+    }
 
     // object transform drag
     if (isObjectMode && objectSelected && objectDragStartRef.current) {
-      const rect2 = canvas.getBoundingClientRect();
-      const cx2 = rect2.width / 2 + offset.x;
-      const cy2 = rect2.height / 2 + offset.y;
-      const p = canvasToWorld(px, py, cx2, cy2);
-      const center = objectCenterRef.current!;
-      const originals = originalVertsRef.current!;
-      if (objectTool === 'translate') {
-        const dx = p.x - objectDragStartRef.current.x;
-        const dy = p.y - objectDragStartRef.current.y;
-        originals.forEach((ov, i) => {
-          onMove(i, { x: ov.x + dx, y: ov.y + dy });
-        });
-      } else if (objectTool === 'rotate') {
-        const startA = objectStartAngleRef.current ?? 0;
-        const currA = Math.atan2(p.y - center.y, p.x - center.x);
-        const dA = currA - startA;
-        const sinA = Math.sin(dA), cosA = Math.cos(dA);
-        originals.forEach((ov, i) => {
-          const rx = cosA * (ov.x - center.x) - sinA * (ov.y - center.y) + center.x;
-          const ry = sinA * (ov.x - center.x) + cosA * (ov.y - center.y) + center.y;
-          onMove(i, { x: rx, y: ry });
-        });
-      }
+      const p = canvasToWorld(px, py, cx, cy);
+      const { apply } = objectGesture(p, objectTool);
+      const moves: Record<string, Vec2> = {};
+      for (const [id, ov] of Object.entries(originalVertsRef.current!)) moves[id] = apply(ov);
+      dragMoves(moves);
+      return;
+    }
+    const dragOpening = dragOpeningRef.current;
+    if (dragOpening) {
+      const o = plan.openings.find(op => op.id === dragOpening.id);
+      if (!o) return;
+      const f = openingFrame(plan, o);
+      const p = canvasToWorld(px, py, cx, cy);
+      const s = (p.x - f.start.x) * f.dir.x + (p.y - f.start.y) * f.dir.y - dragOpening.grab;
+      onUpdateOpening(o.id, { offset: clampOpeningOffset(f.wallLength, o.width, s) });
+      return;
+    }
+    if (placeKind) {
+      setPlacePreview(openingAt(placeKind, px, py));
+      return;
+    }
+    if (placeFurniture) {
+      setFurniturePreview(furnitureAt(placeFurniture, canvasToWorld(px, py, cx, cy), e.altKey));
+      return;
+    }
+    if (walkDrop) {
+      setWalkDrop({ ...walkDrop, cursor: canvasToWorld(px, py, cx, cy) });
+      return;
+    }
+    if (placeLight) {
+      setLightPreview(lightAt(placeLight, canvasToWorld(px, py, cx, cy), e.altKey));
+      return;
+    }
+    if (holeDraft) {
+      setHoleCursor(snappedPointer(canvasToWorld(px, py, cx, cy), e.altKey));
+      return;
+    }
+    if (roomDraft) {
+      setRoomCursor(roomCorner(px, py, e.altKey, e.shiftKey));
       return;
     }
     // hover detection when not dragging
-    const hv = getNearestIndex(px, py);
+    const hv = getNearestVertex(px, py);
     setHoverVertex(hv);
     const he = hv !== null ? null : getNearestEdge(px, py);
     setHoverEdge(he);
     if (isAddMode && he !== null) {
-      const cx = rect.width / 2 + offset.x;
-      const cy = rect.height / 2 + offset.y;
-      const i = he, j = (i + 1) % vertices.length;
+      const [a, b] = edgePoints(he);
       const pWorld = canvasToWorld(px, py, cx, cy);
-      const proj = projectPointOnSegment(pWorld, vertices[i], vertices[j]);
+      const proj = projectPointOnSegment(pWorld, a, b);
       setAddPreview({ edge: he, p: proj });
     } else if (isAddMode) {
       setAddPreview(null);
     }
-    const cx = rect.width / 2 + offset.x;
-    const cy = rect.height / 2 + offset.y;
     if (dragEdge !== null) {
       const prev = prevPointerWorldRef.current;
       const curr = canvasToWorld(px, py, cx, cy);
       if (!prev) { prevPointerWorldRef.current = curr; return; }
       let dx = curr.x - prev.x;
       let dy = curr.y - prev.y;
-      const i = dragEdge;
-      const j = (i + 1) % vertices.length;
+      const room = getRoom(plan, dragEdge.roomId);
+      if (!room) return;
+      const [i, j] = edgeVertexIds(room, dragEdge.index, dragEdge.hole);
+      const vi = plan.vertices[i], vj = plan.vertices[j];
       // project delta: default move perpendicular to edge; Ctrl => axis constrained
       if (e.ctrlKey) {
         if (Math.abs(dx) > Math.abs(dy)) dy = 0; else dx = 0;
       } else {
-        const ex = vertices[j].x - vertices[i].x;
-        const ey = vertices[j].y - vertices[i].y;
+        const ex = vj.x - vi.x;
+        const ey = vj.y - vi.y;
         const len = Math.hypot(ex, ey) || 1;
         // normal (perpendicular) unit
         const nx = -ey / len;
@@ -420,60 +1908,95 @@ export default function Floor2D({ vertices, onMove, onInsert, onDelete }: Props)
         dx = nx * proj;
         dy = ny * proj;
       }
-      onMove(i, { x: vertices[i].x + dx, y: vertices[i].y + dy });
-      onMove(j, { x: vertices[j].x + dx, y: vertices[j].y + dy });
-      prevPointerWorldRef.current = curr;
-      return;
-    }
-    if (dragIndex === null) return;
-    let target = canvasToWorld(px, py, cx, cy);
-    // Shift+drag: keep adjacent edges axis-aligned (horizontal/vertical)
-    if (e.shiftKey && vertices.length >= 2) {
-      const n = vertices.length;
-      const prev = vertices[(dragIndex - 1 + n) % n];
-      const next = vertices[(dragIndex + 1) % n];
-      const candidates: Vec2[] = [
-        { x: target.x, y: prev.y }, // align horizontally with prev
-        { x: prev.x, y: target.y }, // align vertically with prev
-        { x: target.x, y: next.y }, // align horizontally with next
-        { x: next.x, y: target.y }, // align vertically with next
-      ];
-      let best = candidates[0];
-      let bestD2 = (best.x - target.x) ** 2 + (best.y - target.y) ** 2;
-      for (let i = 1; i < candidates.length; i++) {
-        const c = candidates[i];
+      // a refused step keeps the previous pointer, so the edge catches up once valid again
+      if (dragMoves({
+        [i]: { x: vi.x + dx, y: vi.y + dy },
+        [j]: { x: vj.x + dx, y: vj.y + dy },
+      })) prevPointerWorldRef.current = curr;
+      return;
+    }
+    if (dragVertex === null) return;
+    const pointer = canvasToWorld(px, py, cx, cy);
+    let target = pointer;
+    // Shift+drag: keep adjacent edges axis-aligned (horizontal/vertical), across every room using the vertex
+    if (e.shiftKey) {
+      const candidates: Vec2[] = [];
+      for (const ids of plan.rooms.flatMap(r => [r.vertexIds, ...r.holes])) {
+        const k = ids.indexOf(dragVertex);
+        if (k < 0) continue;
+        const n = ids.length;
+        const prev = plan.vertices[ids[(k - 1 + n) % n]];
+        const next = plan.vertices[ids[(k + 1) % n]];
+        candidates.push(
+          { x: target.x, y: prev.y }, // align horizontally with prev
+          { x: prev.x, y: target.y }, // align vertically with prev
+          { x: target.x, y: next.y }, // align horizontally with next
+          { x: next.x, y: target.y }, // align vertically with next
+        );
+      }
+      let best = target;
+      let bestD2 = Infinity;
+      for (const c of candidates) {
         const d2 = (c.x - target.x) ** 2 + (c.y - target.y) ** 2;
         if (d2 < bestD2) { best = c; bestD2 = d2; }
       }
       target = best;
     }
-    onMove(dragIndex, target);
 
-    // When dragged near another vertex, snap and prepare to merge
-    const MERGE_SNAP_PX = 10;
-    const [tx, ty] = worldToCanvas(target, cx, cy);
-    let candidate: number | null = null;
+    // When dragged near another vertex, snap and prepare to merge; checked at the pointer
+    // itself (unless Shift-aligned) so the other snaps never pull away from a vertex
+    const [tx, ty] = worldToCanvas(e.shiftKey ? target : pointer, cx, cy);
+    let candidate: string | null = null;
     let bestD = MERGE_SNAP_PX;
-    for (let i = 0; i < vertices.length; i++) {
-      if (i === dragIndex) continue;
-      const [vx, vy] = worldToCanvas(vertices[i], cx, cy);
+    for (const [id, v] of Object.entries(plan.vertices)) {
+      if (id === dragVertex) continue;
+      const [vx, vy] = worldToCanvas(v, cx, cy);
       const d = Math.hypot(vx - tx, vy - ty);
-      if (d <= bestD) { bestD = d; candidate = i; }
+      if (d <= bestD) { bestD = d; candidate = id; }
     }
     mergeCandidateRef.current = candidate;
+    // grid/guide snapping; Alt drags freely
+    if (candidate === null && !e.shiftKey && !e.altKey) {
+      const s = snapVertex(plan, dragVertex, pointer, snap, SNAP_PX / pxPerM);
+      target = s.point;
+      setSnapHint(s);
+    } else {
+      setSnapHint(null);
+    }
+    // visual snap while dragging; landing on a merge candidate is always allowed
     if (candidate !== null) {
-      // visual snap while dragging
-      onMove(dragIndex, { x: vertices[candidate].x, y: vertices[candidate].y });
+      setBlockedReason(null);
+      onMoveVertices({ [dragVertex]: { ...plan.vertices[candidate] } });
+    } else {
+      dragMoves({ [dragVertex]: target });
     }
   }
   function onPointerUp() {
-    // If we have a merge candidate, merge by deleting the dragged vertex
-    if (dragIndex !== null && mergeCandidateRef.current !== null) {
-      onDelete(dragIndex);
+    if (marquee) finishMarquee(marquee);
+    if (shiftPressRef.current) toggleInGroup(shiftPressRef.current);
+    // If we have a merge candidate, merge the dragged vertex into it
+    if (dragVertex !== null && mergeCandidateRef.current !== null) {
+      onMergeVertex(dragVertex, mergeCandidateRef.current);
+      setSelectedVertex(mergeCandidateRef.current);
+    }
+    if (dragVertex !== null || dragEdge !== null || objectDragStartRef.current || dragOpeningRef.current || dragOriginRef.current || dragAnnotationRef.current || dragGroupRef.current || dragLightRef.current) {
+      onEditEnd?.();
     }
+    dragOpeningRef.current = null;
+    dragOriginRef.current = null;
+    dragAnnotationRef.current = null;
+    dragLightRef.current = null;
+    dragGroupRef.current = null;
+    dragUnderlayRef.current = null;
+    dragPivotRef.current = false;
+    shiftPressRef.current = null;
+    setMarquee(null);
+    originalFurnitureRef.current = null;
     mergeCandidateRef.current = null;
-    setDragIndex(null);
+    setDragVertex(null);
     setDragEdge(null);
+    setSnapHint(null);
+    setBlockedReason(null);
     setIsPanning(false);
     lastPanRef.current = null;
     prevPointerWorldRef.current = null;
@@ -498,85 +2021,604 @@ export default function Floor2D({ vertices, onMove, onInsert, onDelete }: Props)
     const newPy = newCy - worldBefore.y * nextScale;
     setOffset(o => ({ x: o.x + (px - newPx), y: o.y + (py - newPy) }));
   }
-  function projectPointOnSegment(p: Vec2, a: Vec2, b: Vec2): Vec2 {
-    const abx = b.x - a.x; const aby = b.y - a.y;
-    const apx = p.x - a.x; const apy = p.y - a.y;
-    const ab2 = abx * abx + aby * aby || 1;
-    let t = (apx * abx + apy * aby) / ab2;
-    t = Math.max(0, Math.min(1, t));
-    return { x: a.x + abx * t, y: a.y + aby * t };
+
+  // new square room centered in the current view
+  function addRoomAtViewCenter() {
+    if (!onAddRoom) return;
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const { cx, cy } = viewCenter();
+    const c = canvasToWorld(rect.width / 2, rect.height / 2, cx, cy);
+    const h = NEW_ROOM_SIZE_M / 2;
+    const id = onAddRoom([
+      { x: c.x - h, y: c.y - h },
+      { x: c.x + h, y: c.y - h },
+      { x: c.x + h, y: c.y + h },
+      { x: c.x - h, y: c.y + h },
+    ]);
+    setSelectedRoom(id);
+    setSelectedVertex(null);
+    setSelectedEdge(null);
   }
 
-  function getCentroid(pts: Vec2[]): Vec2 {
-    if (pts.length === 0) return { x: 0, y: 0 };
-    const sx = pts.reduce((s, v) => s + v.x, 0);
-    const sy = pts.reduce((s, v) => s + v.y, 0);
-    return { x: sx / pts.length, y: sy / pts.length };
+  // template outline moved to the middle of the current view
+  function addTemplateRoom(points: Vec2[]) {
+    setIsTemplateOpen(false);
+    if (!onAddRoom) return;
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const { cx, cy } = viewCenter();
+    const c = canvasToWorld(rect.width / 2, rect.height / 2, cx, cy);
+    const id = onAddRoom(points.map(p => ({ x: p.x + c.x, y: p.y + c.y })));
+    setSelectedRoom(id);
+    setSelectedVertex(null);
+    setSelectedEdge(null);
+  }
+
+  function openDxfFile(file: File) {
+    file.text().then(
+      text => setDxfImport({ fileName: file.name, result: parseDxf(text) }),
+      (err: Error) => setDxfImport({ fileName: file.name, result: { ok: false, errors: [`Could not read the file: ${err.message}`] } }),
+    );
+  }
+
+  // adds the picked DXF outline as a room and fits the view to it
+  function importDxfOutline(points: Vec2[]) {
+    setDxfImport(null);
+    if (!onAddRoom) return;
+    const id = onAddRoom(points);
+    setSelectedRoom(id);
+    setSelectedVertex(null);
+    setSelectedEdge(null);
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const xs = points.map(p => p.x), ys = points.map(p => p.y);
+    const minX = Math.min(...xs), maxX = Math.max(...xs), minY = Math.min(...ys), maxY = Math.max(...ys);
+    const fit = Math.min((rect.width * 0.7) / Math.max(maxX - minX, 1e-6), (rect.height * 0.7) / Math.max(maxY - minY, 1e-6));
+    const px = Math.max(MIN_PX_PER_M, Math.min(MAX_PX_PER_M, fit));
+    onViewChange({ pxPerM: px, offset: { x: -((minX + maxX) / 2) * px, y: ((minY + maxY) / 2) * px } });
   }
 
+  // inline length/angle editor: position and handlers for the current target
+  function renderMeasureEditor() {
+    if (!canvasRef.current) return null;
+    const { cx, cy } = viewCenter();
+    // both calibration points are set: the real distance between them rescales the underlay
+    if (calibration?.a && calibration.b && underlay) {
+      const { a, b } = calibration;
+      const [x, y] = worldToCanvas({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }, cx, cy);
+      return (
+        <MeasureEditor
+          key="calibration"
+          x={x}
+          y={y}
+          label="Real distance between the points"
+          unit="m"
+          units={units}
+          value={Math.hypot(b.x - a.x, b.y - a.y)}
+          onSubmit={(len) => {
+            if (!(len > 0)) return 'Distance must be greater than 0.';
+            if (Math.hypot(b.x - a.x, b.y - a.y) < 1e-9) return 'Pick two different points.';
+            setUnderlay(calibrateUnderlay(underlay, a, b, len));
+            exitUnderlayTools();
+            return null;
+          }}
+          onCancel={exitUnderlayTools}
+        />
+      );
+    }
+    if (measure === null) return null;
+    if (measure.kind === 'length') {
+      const { edge } = measure;
+      const [a, b] = edgePoints(edge);
+      const [x, y] = worldToCanvas({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }, cx, cy);
+      return (
+        <MeasureEditor
+          key={`length-${edge.roomId}-${edge.index}`}
+          x={x}
+          y={y}
+          label="Edge length"
+          unit="m"
+          units={units}
+          value={Math.hypot(b.x - a.x, b.y - a.y)}
+          anchor={lengthAnchor}
+          onAnchorChange={setLengthAnchor}
+          onSubmit={(len) => {
+            if (!(len > 0)) return 'Length must be greater than 0.';
+            const moves = edgeLengthMoves(plan, edge.roomId, edge.index, len, lengthAnchor, edge.hole);
+            if (!movesKeepRoomsSimple(plan, moves)) return 'That length would make a room self-intersect or cut through a hole.';
+            onMoveVertices(moves);
+            setMeasure(null);
+            return null;
+          }}
+          onCancel={() => setMeasure(null)}
+        />
+      );
+    }
+    const room = angleRoomFor(plan, selRoom, measure.vertexId);
+    if (!room) return null;
+    const idx = room.vertexIds.indexOf(measure.vertexId);
+    const [x, y] = worldToCanvas(plan.vertices[measure.vertexId], cx, cy);
+    return (
+      <MeasureEditor
+        key={`angle-${room.id}-${measure.vertexId}`}
+        x={x}
+        y={y}
+        label={`Interior angle · ${room.name}`}
+        unit="°"
+        value={interiorAngle(plan, room, idx)}
+        onSubmit={(deg) => {
+          if (!(deg > 0 && deg < 360)) return 'Angle must be between 0° and 360°.';
+          const moves = angleMoves(plan, room.id, idx, deg);
+          if (!movesKeepRoomsSimple(plan, moves)) return 'That angle would make a room self-intersect or cut through a hole.';
+          onMoveVertices(moves);
+          setMeasure(null);
+          return null;
+        }}
+        onCancel={() => setMeasure(null)}
+      />
+    );
+  }
+
+  const selEdgeRoom = selectedEdge ? getRoom(plan, selectedEdge.roomId) : undefined;
+  const selWall = selEdgeRoom && selectedEdge && selectedEdge.hole === undefined && selectedEdge.index < selEdgeRoom.vertexIds.length
+    ? walls.find(w => w.key === edgeKey(...edgeVertexIds(selEdgeRoom, selectedEdge.index)))
+    : undefined;
+
   useEffect(() => {
     const onKey = (ev: KeyboardEvent) => {
-      if ((ev.key === 'Delete' || ev.key === 'Backspace') && selectedVertex !== null && vertices.length > 3) {
-        onDelete(selectedVertex);
+      const t = ev.target as HTMLElement | null;
+      if (t && (t.tagName === 'INPUT' || t.tagName === 'TEXTAREA')) return;
+      // hole tool: Enter closes, Backspace/Delete drops the last corner, Escape cancels
+      if (holeDraft) {
+        if (ev.key === 'Escape') { setHoleDraft(null); setHoleCursor(null); setToolError(null); }
+        else if (ev.key === 'Backspace' || ev.key === 'Delete') setHoleDraft({ ...holeDraft, points: holeDraft.points.slice(0, -1) });
+        else if (ev.key === 'Enter') {
+          const err = holeDraftError(plan, holeDraft);
+          setToolError(err);
+          if (!err && onAddHole && holeDraft.roomId) {
+            onAddHole(holeDraft.roomId, holeDraft.points);
+            setSelectedRoom(holeDraft.roomId);
+            setHoleDraft(null);
+            setHoleCursor(null);
+            setSnapHint(null);
+          }
+        }
+        return;
+      }
+      // draw-room tool: Enter closes, Backspace/Delete drops the last corner, Escape cancels
+      if (roomDraft) {
+        if (ev.key === 'Escape') { setRoomDraft(null); setRoomCursor(null); setSnapHint(null); setToolError(null); }
+        else if (ev.key === 'Backspace' || ev.key === 'Delete') setRoomDraft(roomDraft.slice(0, -1));
+        else if (ev.key === 'Enter') {
+          const reason = outlineRejectReason(roomDraft);
+          const err = roomDraft.length < 3 ? 'A room needs at least 3 corners' : reason && `Room rejected · ${reason}`;
+          setToolError(err);
+          if (!err && onAddRoom) {
+            const id = onAddRoom(signedArea(roomDraft) < 0 ? [...roomDraft].reverse() : roomDraft);
+            setSelectedRoom(id);
+            setSelectedVertex(null);
+            setSelectedEdge(null);
+            setRoomDraft(null);
+            setRoomCursor(null);
+            setSnapHint(null);
+          }
+        }
+        return;
+      }
+      // Enter types an exact length for the selected edge or angle for the selected vertex
+      if (ev.key === 'Enter') {
+        if (selectedEdge !== null) setMeasure({ kind: 'length', edge: selectedEdge });
+        else if (selectedVertex !== null) setMeasure({ kind: 'angle', vertexId: selectedVertex });
+        return;
+      }
+      if (ev.key === 'Escape' && placeFurniture) {
+        cancelFurniturePlacement();
+        return;
+      }
+      if (ev.key === 'Escape' && walkDrop) {
+        setWalkDrop(null);
+        return;
+      }
+      if (ev.key === 'Escape' && placeLight) {
+        setPlaceLight(null);
+        setLightPreview(null);
+        return;
+      }
+      if (ev.key === 'Escape' && (calibration || isUnderlayMove)) {
+        setCalibration(null);
+        setCalibCursor(null);
+        setIsUnderlayMove(false);
+        return;
+      }
+      if (ev.key === 'Escape' && (groupVertices.length > 0 || groupEdges.length > 0)) {
+        setGroupVertices([]);
+        setGroupEdges([]);
+        setGroupPivot(null);
+        return;
+      }
+      // Escape drops the dimension or leader being placed, then the tool
+      if (ev.key === 'Escape' && annotTool) {
+        if (annotDraft) setAnnotDraft(null);
+        else { setAnnotTool(null); setAnnotCursor(null); setTape(null); setSnapHint(null); }
+        return;
+      }
+      if (ev.key !== 'Delete' && ev.key !== 'Backspace') return;
+      if (selectedLight !== null) {
+        onDeleteLight(selectedLight);
+      } else if (selectedAnnotation !== null) {
+        onDeleteAnnotation(selectedAnnotation);
+      } else if (selectedFurniture !== null) {
+        onDeleteFurniture(selectedFurniture);
+      } else if (selectedOpening !== null) {
+        onDeleteOpening(selectedOpening);
+      } else if (selectedVertex !== null) {
+        onDeleteVertex(selectedVertex);
+      } else if (selectedRoom !== null && selectedEdge === null) {
+        onDeleteRoom(selectedRoom);
       }
     };
     window.addEventListener('keydown', onKey);
     return () => window.removeEventListener('keydown', onKey);
-  }, [selectedVertex, vertices.length, onDelete]);
+  }, [plan, holeDraft, onAddHole, roomDraft, onAddRoom, placeFurniture, placeLight, walkDrop, calibration, isUnderlayMove, groupVertices, groupEdges, annotTool, annotDraft, selectedLight, onDeleteLight, selectedAnnotation, onDeleteAnnotation, selectedFurniture, selectedOpening, selectedVertex, selectedRoom, selectedEdge, onDeleteFurniture, onDeleteOpening, onDeleteVertex, onDeleteRoom]);
 
   return (
     <div ref={containerRef} style={{ height: '100%', display: 'flex', flexDirection: 'column', minWidth: 0, minHeight: 0 }}>
       <HeaderBar
         onExportPNG={() => {
           const canvas = canvasRef.current; if (!canvas) return;
-          const url = canvas.toDataURL('image/png');
-          const a = document.createElement('a'); a.href = url; a.download = 'blueprint-2d.png'; a.click();
+          downloadUrl(canvas.toDataURL('image/png'), 'blueprint-2d.png');
         }}
+        onExportDXF={() => {
+          downloadBlob(new Blob([exportDxf(plan, units)], { type: 'application/dxf' }), 'blueprint-2d.dxf');
+        }}
+        onPrint={() => setIsPrintOpen(true)}
+        onImportDXF={onAddRoom ? () => dxfInputRef.current?.click() : undefined}
+        snap={snap}
+        onSnapChange={setSnap}
+        blockInvalid={blockInvalid}
+        toggleBlockInvalid={() => setBlockInvalid(b => !b)}
         isAddMode={isAddMode}
-        toggleAddMode={() => setIsAddMode(m => !m)}
+        toggleAddMode={() => { setIsAddMode(m => !m); setIsBoxSelect(false); setPlaceKind(null); setPlacePreview(null); exitHoleTool(); exitRoomTool(); cancelFurniturePlacement(); cancelLightPlacement(); exitWalkDrop(); exitAnnotationTool(); }}
         isObjectMode={isObjectMode}
-        toggleObjectMode={() => { setIsObjectMode(m => !m); setObjectSelected(false); }}
+        toggleObjectMode={() => { setIsObjectMode(m => !m); setObjectSelected(false); exitAnnotationTool(); setIsBoxSelect(false); clearGroup(); }}
         objectTool={objectTool}
         setObjectTool={setObjectTool}
+        onAddRoom={onAddRoom ? addRoomAtViewCenter : undefined}
+        isRoomDraw={onAddRoom ? roomDraft !== null : undefined}
+        toggleRoomDraw={() => {
+          if (roomDraft) exitRoomTool();
+          else { setRoomDraft([]); setIsBoxSelect(false); setIsAddMode(false); setPlaceKind(null); setPlacePreview(null); exitHoleTool(); cancelFurniturePlacement(); cancelLightPlacement(); exitWalkDrop(); exitAnnotationTool(); }
+          setToolError(null);
+        }}
+        onOpenTemplates={onAddRoom ? () => setIsTemplateOpen(true) : undefined}
+        placeKind={onAddOpening ? placeKind : undefined}
+        togglePlaceKind={(k) => { setPlaceKind(c => (c === k ? null : k)); setIsBoxSelect(false); setPlacePreview(null); setIsAddMode(false); exitHoleTool(); exitRoomTool(); cancelFurniturePlacement(); cancelLightPlacement(); exitWalkDrop(); exitAnnotationTool(); }}
+        isHoleMode={onAddHole ? holeDraft !== null : undefined}
+        toggleHoleMode={() => {
+          if (holeDraft) exitHoleTool();
+          else { setHoleDraft({ roomId: null, points: [] }); setIsBoxSelect(false); setIsAddMode(false); setPlaceKind(null); setPlacePreview(null); exitRoomTool(); cancelFurniturePlacement(); cancelLightPlacement(); exitWalkDrop(); exitAnnotationTool(); }
+          setToolError(null);
+        }}
+        isCatalogOpen={onAddFurniture ? isCatalogOpen : undefined}
+        toggleCatalog={() => { setIsCatalogOpen(o => !o); cancelFurniturePlacement(); cancelLightPlacement(); exitWalkDrop(); }}
+        placeLight={onAddLight ? placeLight : undefined}
+        togglePlaceLight={(k) => { setPlaceLight(c => (c === k ? null : k)); setLightPreview(null); setIsBoxSelect(false); setIsAddMode(false); setPlaceKind(null); setPlacePreview(null); exitHoleTool(); exitRoomTool(); cancelFurniturePlacement(); exitWalkDrop(); exitAnnotationTool(); }}
+        isWalkDrop={onWalkFrom ? walkDrop !== null : undefined}
+        toggleWalkDrop={() => {
+          if (walkDrop) exitWalkDrop();
+          else { setWalkDrop({ at: null, cursor: null }); setIsBoxSelect(false); setIsAddMode(false); setPlaceKind(null); setPlacePreview(null); exitHoleTool(); exitRoomTool(); cancelFurniturePlacement(); cancelLightPlacement(); exitAnnotationTool(); }
+        }}
+        isUnderlayOpen={isUnderlayOpen}
+        toggleUnderlay={() => { setIsUnderlayOpen(o => !o); exitUnderlayTools(); }}
+        isBoxSelect={isBoxSelect}
+        toggleBoxSelect={() => { setIsBoxSelect(b => !b); setIsAddMode(false); setPlaceKind(null); setPlacePreview(null); exitHoleTool(); exitRoomTool(); cancelFurniturePlacement(); cancelLightPlacement(); exitWalkDrop(); exitAnnotationTool(); setIsObjectMode(false); }}
+        annotTool={annotTool}
+        canAnnotate={!!onAddAnnotation}
+        toggleAnnotTool={toggleAnnotTool}
+        showAngles={showAngles}
+        toggleShowAngles={() => setShowAngles(a => !a)}
+        onUndo={onUndo}
+        onRedo={onRedo}
+        canUndo={!!canUndo}
+        canRedo={!!canRedo}
       />
-      <canvas
-        ref={canvasRef}
-        style={{ width: '100%', height: '100%', display: 'block', cursor: isPanning ? 'grabbing' : isObjectMode ? (objectTool === 'rotate' ? 'crosshair' : 'move') : (hoverVertex !== null || hoverEdge !== null) ? 'pointer' : 'grab' }}
-        onPointerDown={onPointerDown}
-        onPointerMove={onPointerMove}
-        onPointerUp={onPointerUp}
-        onWheel={onWheel}
-        onContextMenu={(e) => e.preventDefault()}
-      />
+      <div style={{ position: 'relative', flex: 1, minHeight: 0 }}>
+        <canvas
+          ref={canvasRef}
+          style={{ width: '100%', height: '100%', display: 'block', cursor: isPanning ? 'grabbing' : isUnderlayMove ? 'move' : calibration || placeKind || holeDraft || roomDraft || placeFurniture || placeLight || walkDrop || annotTool || isBoxSelect ? 'crosshair' : isObjectMode ? (objectTool === 'rotate' ? 'crosshair' : 'move') : (hoverVertex !== null || hoverEdge !== null) ? 'pointer' : 'grab' }}
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+          onWheel={onWheel}
+          onContextMenu={(e) => e.preventDefault()}
+        />
+        {renderMeasureEditor()}
+        <input
+          ref={underlayInputRef}
+          type="file"
+          accept={UNDERLAY_ACCEPT}
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) openUnderlayFile(file);
+            e.target.value = '';
+          }}
+        />
+        <input
+          ref={dxfInputRef}
+          type="file"
+          accept=".dxf"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) openDxfFile(file);
+            e.target.value = '';
+          }}
+        />
+        {dxfImport && (
+          <DxfImportDialog
+            fileName={dxfImport.fileName}
+            result={dxfImport.result}
+            units={units}
+            onImport={importDxfOutline}
+            onClose={() => setDxfImport(null)}
+          />
+        )}
+        {isCatalogOpen && (
+          <div style={{ position: 'absolute', left: 12, top: 12, bottom: 56, display: 'flex', alignItems: 'flex-start' }}>
+            <FurnitureCatalog
+              activeId={placeFurniture}
+              units={units}
+              onPick={(id) => {
+                setPlaceFurniture(c => (c === id ? null : id));
+                setFurniturePreview(null);
+                setIsAddMode(false);
+                setPlaceKind(null);
+                setPlacePreview(null);
+                exitHoleTool();
+                exitRoomTool();
+                exitAnnotationTool();
+                setIsBoxSelect(false);
+              }}
+              onClose={() => { setIsCatalogOpen(false); cancelFurniturePlacement(); }}
+            />
+          </div>
+        )}
+        {isTransformOpen && groupBox && (
+          <TransformDialog
+            count={groupIds.length}
+            units={units}
+            hasMarker={groupPivot !== null}
+            onApply={applyGroupTransform}
+            onClose={() => setIsTransformOpen(false)}
+          />
+        )}
+        {isTemplateOpen && (
+          <RoomTemplateDialog
+            units={units}
+            onAdd={addTemplateRoom}
+            onClose={() => setIsTemplateOpen(false)}
+          />
+        )}
+        {isPrintOpen && <PrintExportDialog plan={plan} projectName={projectName ?? ''} units={units} onClose={() => setIsPrintOpen(false)} />}
+        <div style={{ position: 'absolute', right: 12, top: 12 }}>
+          {isUnderlayOpen && (
+            <UnderlayPanel
+              underlay={underlay}
+              error={underlayError}
+              isMoving={isUnderlayMove}
+              isCalibrating={calibration !== null}
+              units={units}
+              onLoad={() => underlayInputRef.current?.click()}
+              onChange={(patch) => {
+                setUnderlay(u => u && (patch.rotation !== undefined ? rotateUnderlay({ ...u, ...patch }, patch.rotation) : { ...u, ...patch }));
+                if (patch.locked) exitUnderlayTools();
+              }}
+              onPage={showUnderlayPage}
+              onToggleMove={() => { setCalibration(null); setCalibCursor(null); setIsUnderlayMove(m => !m); }}
+              onCalibrate={() => { setIsUnderlayMove(false); setCalibCursor(null); setCalibration(c => (c ? null : { a: null, b: null })); }}
+              onRemove={() => { setUnderlay(null); exitUnderlayTools(); }}
+            />
+          )}
+          {selRoom && (
+            <RoomPanel
+              key={selRoom.id}
+              name={selRoom.name}
+              areaM2={roomArea(plan, selRoom)}
+              holeAreasM2={selRoom.holes.map((_, h) => computePolygonAreaM2(holePoints(plan, selRoom, h)))}
+              wall={selRoom.wall}
+              units={units}
+              onRename={(name) => onUpdateRoom(selRoom.id, { name })}
+              onWallChange={(wall) => onUpdateRoom(selRoom.id, { wall })}
+              onDeleteHole={(h) => onDeleteHole(selRoom.id, h)}
+              onDelete={() => onDeleteRoom(selRoom.id)}
+            />
+          )}
+          {selRoom && (
+            <TileLayoutPanel
+              key={`tiles-${selRoom.id}`}
+              layout={selRoom.floor.layout}
+              angle={selRoom.floor.angle}
+              tiles={tilePlans.get(selRoom.id) ?? null}
+              startOrigin={plan.vertices[selRoom.vertexIds[0]]}
+              units={units}
+              onChange={(layout) => onUpdateFloor(selRoom.id, { layout })}
+              onAngleChange={(angle) => onUpdateFloor(selRoom.id, { angle })}
+            />
+          )}
+          {selOpening && (
+            <OpeningPanel
+              key={selOpening.id}
+              opening={selOpening}
+              units={units}
+              onChange={(patch) => onUpdateOpening(selOpening.id, patch)}
+              onDelete={() => onDeleteOpening(selOpening.id)}
+            />
+          )}
+          {selFurniture && (
+            <FurniturePanel
+              key={selFurniture.id}
+              item={selFurniture}
+              warnings={furnitureIssues[selFurniture.id] ?? []}
+              units={units}
+              onChange={(patch) => onUpdateFurniture(selFurniture.id, patch)}
+              onDelete={() => onDeleteFurniture(selFurniture.id)}
+            />
+          )}
+          {selLight && (
+            <LightPanel
+              key={selLight.id}
+              light={selLight}
+              units={units}
+              onChange={(patch) => onUpdateLight(selLight.id, patch)}
+              onDelete={() => onDeleteLight(selLight.id)}
+            />
+          )}
+          {groupBox && (
+            <GroupPanel
+              vertexCount={groupIds.length}
+              edgeCount={groupEdges.length}
+              size={{ x: groupBox.maxX - groupBox.minX, y: groupBox.maxY - groupBox.minY }}
+              pieces={groupPieces(plan, groupVertices, groupEdges).length}
+              units={units}
+              onAlign={(side) => setToolError(applyGroupMoves(alignMoves(plan, groupPieces(plan, groupVertices, groupEdges), side)))}
+              onDistribute={(axis) => setToolError(applyGroupMoves(distributeMoves(plan, groupPieces(plan, groupVertices, groupEdges), axis)))}
+              onMirror={(axis) => setToolError(applyGroupTransform({ kind: 'mirror', axis }, 'marker'))}
+              onTransform={() => setIsTransformOpen(true)}
+              onClear={clearGroup}
+            />
+          )}
+          {selAnnotation && (
+            <AnnotationPanel
+              key={selAnnotation.id}
+              annotation={selAnnotation}
+              length={selAnnotation.kind === 'dimension' ? dimensionLength(plan, selAnnotation) : null}
+              units={units}
+              onChange={onUpdateAnnotation}
+              onDelete={() => onDeleteAnnotation(selAnnotation.id)}
+            />
+          )}
+          {selWall && (
+            <WallPanel
+              key={selWall.key}
+              lengthM={Math.hypot(plan.vertices[selWall.b].x - plan.vertices[selWall.a].x, plan.vertices[selWall.b].y - plan.vertices[selWall.a].y)}
+              inherited={inheritedWallSpec(plan, selWall.roomIds)}
+              override={plan.wallOverrides[selWall.key]}
+              units={units}
+              onChange={(o) => onSetWallOverride(selWall.key, o)}
+            />
+          )}
+        </div>
+      </div>
     </div>
   );
 }
 
+const snapGlyphStyle: React.CSSProperties = { fontSize: 16, lineHeight: 1, color: '#333' };
+const snapSelectStyle: React.CSSProperties = { height: 28, fontSize: 12, borderRadius: 4, border: '1px solid #dcdfe3' };
+
 type HeaderBarProps = {
   onExportPNG: () => void;
+  onExportDXF: () => void;
+  onPrint: () => void;
+  onImportDXF?: () => void;
+  snap: SnapSettings;
+  onSnapChange: (s: SnapSettings) => void;
+  blockInvalid: boolean;
+  toggleBlockInvalid: () => void;
   isAddMode: boolean;
   toggleAddMode: () => void;
   isObjectMode: boolean;
   toggleObjectMode: () => void;
   objectTool: 'translate' | 'rotate';
   setObjectTool: (t: 'translate' | 'rotate') => void;
+  onAddRoom?: () => void;
+  isRoomDraw?: boolean; // undefined hides the draw-room tool
+  toggleRoomDraw: () => void;
+  onOpenTemplates?: () => void;
+  placeKind?: OpeningKind | null; // undefined hides the door/window tools
+  togglePlaceKind: (k: OpeningKind) => void;
+  isHoleMode?: boolean; // undefined hides the hole tool
+  toggleHoleMode: () => void;
+  isCatalogOpen?: boolean; // undefined hides the furniture catalog
+  toggleCatalog: () => void;
+  placeLight?: LightKind | null; // undefined hides the light tools
+  togglePlaceLight: (k: LightKind) => void;
+  isWalkDrop?: boolean; // undefined hides the walk-from-here tool
+  toggleWalkDrop: () => void;
+  isUnderlayOpen: boolean;
+  toggleUnderlay: () => void;
+  isBoxSelect: boolean;
+  toggleBoxSelect: () => void;
+  annotTool: AnnotationTool | null;
+  canAnnotate: boolean;
+  toggleAnnotTool: (tool: AnnotationTool) => void;
+  showAngles: boolean;
+  toggleShowAngles: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
 };
 
+const SNAP_TOGGLES: { kind: SnapKind; title: string; icon: React.ReactNode }[] = [
+  { kind: 'grid', title: 'Snap to grid', icon: <FiGrid style={{ fontSize: 16 }} /> },
+  { kind: 'midpoint', title: 'Snap to edge midpoints', icon: <span style={snapGlyphStyle}>½</span> },
+  { kind: 'extension', title: 'Snap to edge extensions', icon: <span style={snapGlyphStyle}>⋯</span> },
+  { kind: 'perpendicular', title: 'Snap perpendicular to the neighbouring edge', icon: <span style={snapGlyphStyle}>⊥</span> },
+  { kind: 'parallel', title: 'Snap parallel to other edges', icon: <span style={snapGlyphStyle}>∥</span> },
+  { kind: 'angle', title: 'Snap to angle increments', icon: <span style={snapGlyphStyle}>∠</span> },
+];
+
+const LIGHT_TOOLS: { kind: LightKind; icon: React.ReactNode }[] = [
+  { kind: 'ceiling', icon: <MdOutlineLight style={{ fontSize: 18 }} /> },
+  { kind: 'spot', icon: <MdOutlineHighlight style={{ fontSize: 18 }} /> },
+  { kind: 'point', icon: <MdOutlineLightbulb style={{ fontSize: 18 }} /> },
+];
+
 function HeaderBar(props: HeaderBarProps) {
-  const { onExportPNG, isAddMode, toggleAddMode, isObjectMode, toggleObjectMode,  objectTool, setObjectTool } = props;
+  const { onExportPNG, onExportDXF, onPrint, onImportDXF, snap, onSnapChange, blockInvalid, toggleBlockInvalid, isAddMode, toggleAddMode, isObjectMode, toggleObjectMode,  objectTool, setObjectTool, onAddRoom, isRoomDraw, toggleRoomDraw, onOpenTemplates, placeKind, togglePlaceKind, isHoleMode, toggleHoleMode, isCatalogOpen, toggleCatalog, placeLight, togglePlaceLight, isWalkDrop, toggleWalkDrop, isUnderlayOpen, toggleUnderlay, isBoxSelect, toggleBoxSelect, annotTool, canAnnotate, toggleAnnotTool, showAngles, toggleShowAngles, onUndo, onRedo, canUndo, canRedo } = props;
   const [hoverId, setHoverId] = useState<string | null>(null);
-  const IconBtn = ({ id, active, title, onClick, children }: { id: string; active?: boolean; title: string; onClick: () => void; children: React.ReactNode }) => (
+  const toggleSnap = (kind: SnapKind) => onSnapChange({ ...snap, enabled: { ...snap.enabled, [kind]: !snap.enabled[kind] } });
+  const IconBtn = ({ id, active, disabled, title, onClick, children }: { id: string; active?: boolean; disabled?: boolean; title: string; onClick: () => void; children: React.ReactNode }) => (
     <button
       title={title}
+      disabled={disabled}
       onMouseEnter={() => setHoverId(id)}
       onMouseLeave={() => setHoverId(h => h === id ? null : h)}
       onClick={onClick}
-      style={{ width: 40, height: 40, border: '1px solid #dcdfe3', borderRadius: 6, background: active ? '#e9ecef' : (hoverId === id ? '#f4f5f7' : '#ffffff'), display: 'inline-flex', alignItems: 'center', justifyContent: 'center', cursor: 'pointer' }}
+      style={{ width: 40, height: 40, border: '1px solid #dcdfe3', borderRadius: 6, background: active ? '#e9ecef' : (hoverId === id && !disabled ? '#f4f5f7' : '#ffffff'), opacity: disabled ? 0.45 : 1, display: 'inline-flex', alignItems: 'center', justifyContent: 'center', cursor: disabled ? 'default' : 'pointer' }}
     >{children}</button>
   );
   return (
-    <div style={{ padding: '6px 10px', borderBottom: '1px solid #e6e8eb', display: 'flex', alignItems: 'center', gap: 8, background: '#333333' }}>
+    <div style={{ padding: '6px 10px', borderBottom: '1px solid #e6e8eb', display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 8, background: '#333333' }}>
+      <IconBtn id="box" title={isBoxSelect ? 'Exit Box Select' : 'Box Select (drag a box around vertices and edges; Shift adds, Shift-click toggles one)'} onClick={toggleBoxSelect} active={isBoxSelect}><MdOutlineHighlightAlt style={{ fontSize: 18 }} /></IconBtn>
       <IconBtn id="add" title={isAddMode ? 'Exit Add Vertex' : 'Add Vertex'} onClick={toggleAddMode} active={isAddMode}><FiPlus style={{ fontSize: 16 }} /></IconBtn>
+      {onAddRoom && (
+        <IconBtn id="room" title="Add Room" onClick={onAddRoom}><FiSquare style={{ fontSize: 16 }} /></IconBtn>
+      )}
+      {isRoomDraw !== undefined && (
+        <IconBtn id="draw-room" title={isRoomDraw ? 'Exit Draw Room' : 'Draw Room (click corners; click the first corner or press Enter to close; Shift: angle steps, Alt: no snapping)'} onClick={toggleRoomDraw} active={isRoomDraw}><MdOutlinePolyline style={{ fontSize: 18 }} /></IconBtn>
+      )}
+      {onOpenTemplates && (
+        <IconBtn id="templates" title="Room from Template (rectangle, L, T, U, bay window)" onClick={onOpenTemplates}><MdOutlineSpaceDashboard style={{ fontSize: 18 }} /></IconBtn>
+      )}
+      {placeKind !== undefined && (
+        <>
+          <IconBtn id="door" title={placeKind === 'door' ? 'Exit Place Door' : 'Place Door'} onClick={() => togglePlaceKind('door')} active={placeKind === 'door'}><MdOutlineDoorFront style={{ fontSize: 18 }} /></IconBtn>
+          <IconBtn id="window" title={placeKind === 'window' ? 'Exit Place Window' : 'Place Window'} onClick={() => togglePlaceKind('window')} active={placeKind === 'window'}><MdOutlineWindow style={{ fontSize: 18 }} /></IconBtn>
+        </>
+      )}
+      {isHoleMode !== undefined && (
+        <IconBtn id="hole" title={isHoleMode ? 'Exit Draw Hole' : 'Draw Hole (click corners inside a room; click the first corner or press Enter to close)'} onClick={toggleHoleMode} active={isHoleMode}><FiMinusSquare style={{ fontSize: 16 }} /></IconBtn>
+      )}
+      {isCatalogOpen !== undefined && (
+        <IconBtn id="furniture" title={isCatalogOpen ? 'Close Furniture Catalog' : 'Furniture Catalog'} onClick={toggleCatalog} active={isCatalogOpen}><MdOutlineChair style={{ fontSize: 18 }} /></IconBtn>
+      )}
+      {placeLight !== undefined && LIGHT_TOOLS.map(({ kind, icon }) => (
+        <IconBtn key={kind} id={`light-${kind}`} title={placeLight === kind ? `Exit Place ${LIGHT_LABELS[kind]}` : `Place ${LIGHT_LABELS[kind]}`} onClick={() => togglePlaceLight(kind)} active={placeLight === kind}>{icon}</IconBtn>
+      ))}
+      {isWalkDrop !== undefined && (
+        <IconBtn id="walk" title={isWalkDrop ? 'Exit Walk from Here' : 'Walk from Here (click where to stand, then the way to face; the 3D view walks from there)'} onClick={toggleWalkDrop} active={isWalkDrop}><MdOutlineDirectionsWalk style={{ fontSize: 18 }} /></IconBtn>
+      )}
       <IconBtn id="obj" title={isObjectMode ? 'Exit Object Mode' : 'Object Mode'} onClick={toggleObjectMode} active={isObjectMode}><FiBox style={{ fontSize: 16 }} /></IconBtn>
       {isObjectMode && (
         <>
@@ -584,7 +2626,41 @@ function HeaderBar(props: HeaderBarProps) {
           <IconBtn id="rotate" title="Rotate" onClick={() => setObjectTool('rotate')} active={objectTool === 'rotate'}><FiRotateCw style={{ fontSize: 16 }} /></IconBtn>
         </>
       )}
+      <div style={{ width: 1, height: 28, background: '#555' }} />
+      <IconBtn id="tape" title={annotTool === 'tape' ? 'Exit Tape Measure' : 'Tape Measure (click two points; Alt: no snapping)'} onClick={() => toggleAnnotTool('tape')} active={annotTool === 'tape'}><MdOutlineStraighten style={{ fontSize: 18 }} /></IconBtn>
+      {canAnnotate && (
+        <>
+          <IconBtn id="dimension" title={annotTool === 'dimension' ? 'Exit Dimension Line' : 'Dimension Line (click two points, then where the line goes; ends on corners follow them)'} onClick={() => toggleAnnotTool('dimension')} active={annotTool === 'dimension'}><MdOutlineSquareFoot style={{ fontSize: 18 }} /></IconBtn>
+          <IconBtn id="note" title={annotTool === 'note' ? 'Exit Text Note' : 'Text Note'} onClick={() => toggleAnnotTool('note')} active={annotTool === 'note'}><FiType style={{ fontSize: 16 }} /></IconBtn>
+          <IconBtn id="leader" title={annotTool === 'leader' ? 'Exit Leader' : 'Leader (click the arrow tip, then the text)'} onClick={() => toggleAnnotTool('leader')} active={annotTool === 'leader'}><MdOutlineCallMade style={{ fontSize: 18 }} /></IconBtn>
+        </>
+      )}
+      <IconBtn id="angles" title={showAngles ? 'Hide corner angles' : 'Show corner angles'} onClick={toggleShowAngles} active={showAngles}><span style={snapGlyphStyle}>∡</span></IconBtn>
+      <div style={{ width: 1, height: 28, background: '#555' }} />
+      {SNAP_TOGGLES.map(({ kind, title, icon }) => (
+        <IconBtn key={kind} id={`snap-${kind}`} title={`${title} (hold Alt to drag freely)`} onClick={() => toggleSnap(kind)} active={snap.enabled[kind]}>{icon}</IconBtn>
+      ))}
+      <select title="Grid step" value={snap.gridStep} disabled={!snap.enabled.grid} onChange={(e) => onSnapChange({ ...snap, gridStep: Number(e.target.value) })} style={snapSelectStyle}>
+        {GRID_STEPS.map(s => <option key={s} value={s}>{Math.round(s * 100)} cm</option>)}
+      </select>
+      <select title="Angle increment" value={snap.angleStep} disabled={!snap.enabled.angle} onChange={(e) => onSnapChange({ ...snap, angleStep: Number(e.target.value) })} style={snapSelectStyle}>
+        {ANGLE_STEPS.map(s => <option key={s} value={s}>{s}°</option>)}
+      </select>
+      <IconBtn id="guard" title={blockInvalid ? 'Allow edits that make a room invalid' : 'Block edits that make a room invalid'} onClick={toggleBlockInvalid} active={blockInvalid}><FiShield style={{ fontSize: 16 }} /></IconBtn>
+      <div style={{ width: 1, height: 28, background: '#555' }} />
       <IconBtn id="png" title="Export PNG" onClick={onExportPNG}><FiImage style={{ fontSize: 16 }} /></IconBtn>
+      <IconBtn id="print" title="Export SVG / PDF at scale" onClick={onPrint}><FiPrinter style={{ fontSize: 16 }} /></IconBtn>
+      <IconBtn id="dxf-out" title="Export DXF" onClick={onExportDXF}><FiDownload style={{ fontSize: 16 }} /></IconBtn>
+      <IconBtn id="underlay" title={isUnderlayOpen ? 'Close Underlay' : 'Underlay image to trace over (PNG, JPG or PDF page)'} onClick={toggleUnderlay} active={isUnderlayOpen}><FiLayers style={{ fontSize: 16 }} /></IconBtn>
+      {onImportDXF && (
+        <IconBtn id="dxf-in" title="Import DXF outline" onClick={onImportDXF}><FiUpload style={{ fontSize: 16 }} /></IconBtn>
+      )}
+      {onUndo && onRedo && (
+        <>
+          <IconBtn id="undo" title="Undo (Ctrl+Z)" onClick={onUndo} disabled={!canUndo}><FiCornerUpLeft style={{ fontSize: 16 }} /></IconBtn>
+          <IconBtn id="redo" title="Redo (Ctrl+Shift+Z)" onClick={onRedo} disabled={!canRedo}><FiCornerUpRight style={{ fontSize: 16 }} /></IconBtn>
+        </>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
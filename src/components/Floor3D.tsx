@@ -1,32 +1,214 @@
 import { useEffect, useRef, useState } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
-import { FiCamera } from 'react-icons/fi';
-import { type Vec2 } from '../types';
+import { PointerLockControls } from 'three/examples/jsm/controls/PointerLockControls.js';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { FiBox, FiCamera, FiColumns, FiLink } from 'react-icons/fi';
+import { MdOutlineBookmarks, MdOutlineCalculate, MdOutlineDirectionsWalk, MdOutlineMap, MdOutlineWbSunny } from 'react-icons/md';
+import { type CameraView, type FloorFinish, type FloorPlan, type FurnitureItem, type LightFixture, type LightingPreset, type LightingSettings, type MaterialDef, type UnitSettings, type Vec2, type View2D, type Viewpoint } from '../types';
+import { downloadBlob, downloadUrl } from '../utils/download';
+import { getCatalogItem, type BoxPart } from '../utils/furniture';
+import { fixtureIntensity, kelvinToHex, LIGHTING_PRESETS, sunDirection, sunLight } from '../utils/lighting';
+import { floorUv } from '../utils/materials';
+import { createId, getRoom, holePoints, roomPoints } from '../utils/plan';
+import { fileBaseName } from '../utils/project';
+import { buildExportRoot, EXPORT_IGNORE, exportGltf, exportObjZip } from '../utils/sceneExport';
+import { paintTiles, roomTiles, type TilePlan } from '../utils/tiles';
+import { hasErrors, validateRoom } from '../utils/validation';
+import { DEFAULT_EYE_HEIGHT, RUN_SPEED, WALK_SPEED, clearSpot, walkObstacles, walkStep, type WalkStart } from '../utils/walk';
+import { buildWalls, wallPieces } from '../utils/walls';
+import { createZip, type ZipEntry } from '../utils/zip';
+import EstimateDialog from './EstimateDialog';
+import MaterialPicker from './MaterialPicker';
+import { LengthField, NumberField } from './PlanPanels';
 
-type Props = { vertices: Vec2[] };
+type Props = {
+  plan: FloorPlan;
+  projectName?: string; // names the exported model files
+  units: UnitSettings;
+  onUpdateFloor: (roomId: string, patch: Partial<FloorFinish>) => void;
+  onUpdateMaterial: (materialId: string, patch: Partial<MaterialDef>) => void; // every floor laid with it
+  lighting: LightingSettings;
+  onLightingChange: (lighting: LightingSettings) => void;
+  cameraView?: CameraView | null; // applied whenever a new view object is passed in
+  onCameraChange?: (view: CameraView) => void; // reported when an orbit gesture ends
+  walkStart?: WalkStart | null; // starts walking there whenever a new object is passed in
+  view2D: View2D; // the 2D canvas viewport, which the top view can follow
+  viewpoints: Viewpoint[];
+  onViewpointsChange: (viewpoints: Viewpoint[]) => void;
+};
 
-export default function Floor3D({ vertices }: Props) {
+type ModelFormat = 'glb' | 'gltf' | 'obj';
+type CameraPose = { position: THREE.Vector3; target: THREE.Vector3; fov: number };
+
+const TOP_VIEW_HEIGHT = 100; // the top view camera looks down from here
+const FLY_MS = 900; // length of the transition to a recalled viewpoint
+const SHOT_SIZES: { label: string; width: number; height: number }[] = [
+  { label: 'HD 1280 × 720', width: 1280, height: 720 },
+  { label: 'Full HD 1920 × 1080', width: 1920, height: 1080 },
+  { label: 'QHD 2560 × 1440', width: 2560, height: 1440 },
+  { label: '4K 3840 × 2160', width: 3840, height: 2160 },
+  { label: 'Square 2048 × 2048', width: 2048, height: 2048 },
+];
+
+// stand-in for catalog ids this build does not know
+const PLAIN_BOX: BoxPart = { min: [-0.5, -0.5, 0], max: [0.5, 0.5, 1], color: 0xadb5bd };
+// every shadow-casting light fitting renders the scene again (a point light six times), so only the first few cast
+const MAX_SHADOW_FIXTURES = 4;
+
+// point light, or a spot aimed straight down (a ceiling light is a spot as wide as a hemisphere), with a small glowing lamp
+function fixtureObject(l: LightFixture, castShadow: boolean): THREE.Object3D {
+  const color = kelvinToHex(l.temperature);
+  const holder = new THREE.Group();
+  holder.name = l.id;
+  holder.position.set(l.x, l.height, -l.y);
+  let light: THREE.PointLight | THREE.SpotLight;
+  if (l.kind === 'point') light = new THREE.PointLight(color, fixtureIntensity(l), 0, 2);
+  else {
+    const spot = new THREE.SpotLight(color, fixtureIntensity(l), 0, l.kind === 'ceiling' ? Math.PI / 2 * 0.95 : (Math.min(Math.max(l.beam, 1), 170) * Math.PI) / 360, l.kind === 'ceiling' ? 1 : 0.3, 2);
+    spot.target.position.set(0, -1, 0);
+    holder.add(spot.target);
+    light = spot;
+  }
+  light.castShadow = castShadow;
+  light.shadow.mapSize.set(512, 512);
+  light.shadow.bias = -0.002;
+  light.shadow.camera.near = 0.05;
+  holder.add(light);
+
+  const lampGeom = l.kind === 'ceiling' ? new THREE.CylinderGeometry(0.18, 0.18, 0.03, 24) : l.kind === 'spot' ? new THREE.CylinderGeometry(0.05, 0.07, 0.06, 16) : new THREE.SphereGeometry(0.06, 16, 12);
+  const lamp = new THREE.Mesh(lampGeom, new THREE.MeshBasicMaterial({ color }));
+  holder.add(lamp);
+  return holder;
+}
+
+const WALK_KEYS = new Set(['KeyW', 'KeyA', 'KeyS', 'KeyD', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'ShiftLeft', 'ShiftRight']);
+
+// plan step for the held walk keys: forward and back along where the camera looks, sideways across it
+function walkMove(camera: THREE.Camera, keys: Set<string>, dt: number): Vec2 {
+  const fwd = Number(keys.has('KeyW') || keys.has('ArrowUp')) - Number(keys.has('KeyS') || keys.has('ArrowDown'));
+  const side = Number(keys.has('KeyD') || keys.has('ArrowRight')) - Number(keys.has('KeyA') || keys.has('ArrowLeft'));
+  if (!fwd && !side) return { x: 0, y: 0 };
+  const dir = camera.getWorldDirection(new THREE.Vector3());
+  const len = Math.hypot(dir.x, dir.z) || 1;
+  const f = { x: dir.x / len, y: -dir.z / len };
+  const speed = ((keys.has('ShiftLeft') || keys.has('ShiftRight') ? RUN_SPEED : WALK_SPEED) * dt) / Math.hypot(fwd, side);
+  return { x: (f.x * fwd + f.y * side) * speed, y: (f.y * fwd - f.x * side) * speed };
+}
+
+// sizes the top view frustum for a view `w` × `h` pixels shown at `pxPerM`, like the 2D canvas
+function sizeTopView(ortho: THREE.OrthographicCamera, w: number, h: number, pxPerM: number) {
+  ortho.left = -w / 2 / pxPerM;
+  ortho.right = w / 2 / pxPerM;
+  ortho.top = h / 2 / pxPerM;
+  ortho.bottom = -h / 2 / pxPerM;
+  ortho.updateProjectionMatrix();
+}
+
+function dataUrlBytes(url: string): Uint8Array {
+  const bin = atob(url.slice(url.indexOf(',') + 1));
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes;
+}
+
+// repeating texture from `cache`, shared by url and color space
+function loadTexture(cache: Map<string, Promise<THREE.Texture>>, url: string, srgb: boolean, renderer: THREE.WebGLRenderer | null): Promise<THREE.Texture> {
+  const key = `${srgb ? 'srgb' : 'linear'}:${url}`;
+  let p = cache.get(key);
+  if (!p) {
+    p = new THREE.TextureLoader().loadAsync(url).then(tex => {
+      tex.wrapS = THREE.RepeatWrapping;
+      tex.wrapT = THREE.RepeatWrapping;
+      // only the albedo holds colors; normal, roughness and AO maps are raw data
+      if (srgb) tex.colorSpace = THREE.SRGBColorSpace;
+      tex.anisotropy = Math.min(8, renderer?.capabilities.getMaxAnisotropy?.() || 1);
+      return tex;
+    });
+    // forget failed loads so a corrected URL can be retried
+    p.catch(() => cache.delete(key));
+    cache.set(key, p);
+  }
+  return p;
+}
+
+// takes a selection glow out of the scene and frees it
+function disposeGlow(glow: THREE.Mesh) {
+  glow.removeFromParent();
+  (glow.material as THREE.Material).dispose();
+  glow.geometry.dispose();
+}
+
+// hands the camera from the orbit controls to a walker standing at `start`, looking level
+function beginWalk(camera: THREE.PerspectiveCamera, controls: OrbitControls, start: WalkStart, eyeHeight: number) {
+  controls.enabled = false;
+  camera.rotation.set(0, start.heading - Math.PI / 2, 0, 'YXZ');
+  camera.position.set(start.at.x, eyeHeight, -start.at.y);
+}
+
+export default function Floor3D({ plan, projectName, units, onUpdateFloor, onUpdateMaterial, lighting, onLightingChange, cameraView, onCameraChange, walkStart, view2D, viewpoints, onViewpointsChange }: Props) {
   const mountRef = useRef<HTMLDivElement | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const controlsRef = useRef<OrbitControls | null>(null);
-  const meshRef = useRef<THREE.Mesh | null>(null);
-  const materialRef = useRef<THREE.MeshStandardMaterial | null>(null);
+  // one floor mesh per room, keyed by room id
+  const meshesRef = useRef<Map<string, THREE.Mesh>>(new Map());
+  // floor material per room; loaded textures are shared by url and color space
+  const floorMaterialsRef = useRef<Map<string, THREE.MeshStandardMaterial>>(new Map());
+  const texturesRef = useRef<Map<string, Promise<THREE.Texture>>>(new Map());
+  // tile layout drawn on a transparent copy of the floor, per room
+  const tileOverlaysRef = useRef<Map<string, THREE.Mesh>>(new Map());
+  const wallsGroupRef = useRef<THREE.Group | null>(null);
+  const wallMaterialRef = useRef<THREE.MeshStandardMaterial | null>(null);
   const raycasterRef = useRef<THREE.Raycaster | null>(null);
   const pointerRef = useRef<THREE.Vector2 | null>(null);
   const outlineRef = useRef<THREE.Mesh | null>(null);
+  // furniture: one shared unit cube scaled per box part, materials by color, glTF scenes by url
+  const furnitureGroupRef = useRef<THREE.Group | null>(null);
+  const unitBoxRef = useRef<THREE.BoxGeometry | null>(null);
+  const furnitureMaterialsRef = useRef<Map<number, THREE.MeshStandardMaterial>>(new Map());
+  const modelsRef = useRef<Map<string, Promise<THREE.Object3D>>>(new Map());
+  // sky and sun set by the lighting panel; light fittings from the plan
+  const hemiRef = useRef<THREE.HemisphereLight | null>(null);
+  const sunRef = useRef<THREE.DirectionalLight | null>(null);
+  const fixturesGroupRef = useRef<THREE.Group | null>(null);
+  // walking: mouse look, held keys, the walker's plan position with the orbit view to return to (null while orbiting), what blocks it
+  const lookRef = useRef<PointerLockControls | null>(null);
+  const walkRef = useRef<{ at: Vec2; orbit: { position: THREE.Vector3; target: THREE.Vector3 } } | null>(null);
+  const keysRef = useRef<Set<string>>(new Set());
+  const obstaclesRef = useRef<Vec2[][]>([]);
+  // orthographic top view with its own pan and zoom, and the transition to a recalled viewpoint
+  const orthoRef = useRef<THREE.OrthographicCamera | null>(null);
+  const topControlsRef = useRef<OrbitControls | null>(null);
+  const flyRef = useRef<{ from: CameraPose; to: CameraPose; start: number } | null>(null);
   // no transform controls (move/rotate) per latest requirement
 
-  const [selected, setSelected] = useState<boolean>(false);
-  const [textureUrl, setTextureUrl] = useState<string>("");
-  // --- Preset textures for quick selection ---
-  const texturePresets = [
-    { name: 'Oak', url: '/texture/oak.jpg' },
-    { name: 'Hardwood', url: '/texture/hardwood.png' },
-    { name: 'Finewood', url: '/texture/finewood.jpg' },
-  ];
+  const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null);
+  const [showWalls, setShowWalls] = useState<boolean>(true);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState<boolean>(false);
+  const [isEstimateOpen, setIsEstimateOpen] = useState<boolean>(false);
+  const [isLightingOpen, setIsLightingOpen] = useState<boolean>(false);
+  const [isWalking, setIsWalking] = useState<boolean>(false);
+  const [eyeHeight, setEyeHeight] = useState<number>(DEFAULT_EYE_HEIGHT);
+  const [isTopView, setIsTopView] = useState<boolean>(false);
+  const [followPlan, setFollowPlan] = useState<boolean>(true);
+  const [isViewpointsOpen, setIsViewpointsOpen] = useState<boolean>(false);
+  const onCameraChangeRef = useRef(onCameraChange);
+  onCameraChangeRef.current = onCameraChange;
+  const eyeHeightRef = useRef(eyeHeight);
+  eyeHeightRef.current = eyeHeight;
+  const isTopViewRef = useRef(isTopView);
+  isTopViewRef.current = isTopView;
+  const view2DRef = useRef(view2D);
+  view2DRef.current = view2D;
+
+  const selectedRoomIdRef = useRef(selectedRoomId);
+  selectedRoomIdRef.current = selectedRoomId;
+
+  const selectedRoom = getRoom(plan, selectedRoomId);
+  if (selectedRoomId !== null && !selectedRoom) setSelectedRoomId(null);
+  const selected = !!selectedRoom;
 
   useEffect(() => {
     const mount = mountRef.current!;
@@ -38,6 +220,8 @@ export default function Floor3D({ vertices }: Props) {
     const renderer = new THREE.WebGLRenderer({ antialias: true });
     renderer.setSize(mount.clientWidth, mount.clientHeight);
     renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+    renderer.shadowMap.enabled = true;
+    renderer.shadowMap.type = THREE.PCFSoftShadowMap;
     mount.appendChild(renderer.domElement);
 
     const controls = new OrbitControls(camera, renderer.domElement);
@@ -46,13 +230,35 @@ export default function Floor3D({ vertices }: Props) {
     // keep camera above the floor (prevent underside views)
     controls.minPolarAngle = 0.05;
     controls.maxPolarAngle = Math.PI / 2 - 0.01;
+    // mouse look while walking; clicking the view captures the pointer, Esc releases it
+    const look = new PointerLockControls(camera, renderer.domElement);
+    look.minPolarAngle = 0.05;
+    look.maxPolarAngle = Math.PI - 0.05;
+    lookRef.current = look;
+    // top view: looking straight down with north (plan +y) up; pans and zooms unless it follows the 2D plan
+    const ortho = new THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, TOP_VIEW_HEIGHT * 2);
+    ortho.up.set(0, 0, -1);
+    ortho.position.set(0, TOP_VIEW_HEIGHT, 0);
+    sizeTopView(ortho, mount.clientWidth || 1, mount.clientHeight || 1, view2DRef.current.pxPerM);
+    const topControls = new OrbitControls(ortho, renderer.domElement);
+    topControls.enableRotate = false;
+    topControls.screenSpacePanning = true;
+    topControls.enabled = false;
+    orthoRef.current = ortho;
+    topControlsRef.current = topControls;
 
-    // lights
+    // sky and sun; colors, strength and the sun's position follow the lighting settings
     const hemi = new THREE.HemisphereLight(0xffffff, 0x888888, 0.9);
     scene.add(hemi);
-    const dir = new THREE.DirectionalLight(0xffffff, 0.8);
-    dir.position.set(5, 10, 5);
-    scene.add(dir);
+    const sun = new THREE.DirectionalLight(0xffffff, 0.8);
+    sun.position.set(5, 10, 5);
+    sun.shadow.mapSize.set(2048, 2048);
+    sun.shadow.bias = -0.0005;
+    sun.shadow.normalBias = 0.02;
+    scene.add(sun);
+    scene.add(sun.target);
+    hemiRef.current = hemi;
+    sunRef.current = sun;
 
     // large white ground plane (floor base)
     const groundGeom = new THREE.PlaneGeometry(50, 50);
@@ -60,6 +266,7 @@ export default function Floor3D({ vertices }: Props) {
     const groundMat = new THREE.MeshStandardMaterial({ color: 0xffffff });
     const ground = new THREE.Mesh(groundGeom, groundMat);
     ground.receiveShadow = true;
+    ground.userData[EXPORT_IGNORE] = true;
     scene.add(ground);
 
     sceneRef.current = scene;
@@ -69,6 +276,31 @@ export default function Floor3D({ vertices }: Props) {
     raycasterRef.current = new THREE.Raycaster();
     pointerRef.current = new THREE.Vector2();
 
+    const onControlsEnd = () => {
+      onCameraChangeRef.current?.({
+        position: camera.position.toArray() as CameraView['position'],
+        target: controls.target.toArray() as CameraView['target'],
+        fov: camera.fov,
+      });
+    };
+    controls.addEventListener('end', onControlsEnd);
+    // grabbing the view cuts a viewpoint transition short
+    const onControlsStart = () => { flyRef.current = null; };
+    controls.addEventListener('start', onControlsStart);
+
+    // walk keys are held while walking, except when typing in a field
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!walkRef.current || !WALK_KEYS.has(e.code)) return;
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select')) return;
+      e.preventDefault();
+      keysRef.current.add(e.code);
+    };
+    const onKeyUp = (e: KeyboardEvent) => keysRef.current.delete(e.code);
+    const onBlur = () => keysRef.current.clear();
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+
     // removed transform controls (move/rotate)
 
     const onResize = () => {
@@ -76,6 +308,7 @@ export default function Floor3D({ vertices }: Props) {
       renderer.setSize(w, h);
       camera.aspect = w / h;
       camera.updateProjectionMatrix();
+      sizeTopView(ortho, w, h, view2DRef.current.pxPerM);
     };
     window.addEventListener('resize', onResize);
 
@@ -84,10 +317,37 @@ export default function Floor3D({ vertices }: Props) {
     ro.observe(mount);
 
     let raf = 0;
+    let last = performance.now();
     const loop = () => {
       raf = requestAnimationFrame(loop);
-      controls.update();
-      renderer.render(scene, camera);
+      const now = performance.now();
+      const dt = Math.min((now - last) / 1000, 0.1); // a stalled tab does not send the walker flying
+      last = now;
+      const walk = walkRef.current;
+      const fly = flyRef.current;
+      if (isTopViewRef.current) {
+        topControls.update();
+      } else if (walk) {
+        const step = walkMove(camera, keysRef.current, dt);
+        if (step.x || step.y) walk.at = walkStep(walk.at, step, obstaclesRef.current);
+        camera.position.set(walk.at.x, eyeHeightRef.current, -walk.at.y);
+      } else if (fly) {
+        const t = Math.min((now - fly.start) / FLY_MS, 1);
+        const k = t * t * (3 - 2 * t); // ease in and out
+        camera.position.lerpVectors(fly.from.position, fly.to.position, k);
+        controls.target.lerpVectors(fly.from.target, fly.to.target, k);
+        camera.fov = fly.from.fov + (fly.to.fov - fly.from.fov) * k;
+        camera.updateProjectionMatrix();
+        camera.lookAt(controls.target);
+        if (t === 1) {
+          flyRef.current = null;
+          controls.update();
+          onControlsEnd();
+        }
+      } else {
+        controls.update();
+      }
+      renderer.render(scene, isTopViewRef.current ? ortho : camera);
     };
     loop();
 
@@ -95,54 +355,517 @@ export default function Floor3D({ vertices }: Props) {
       cancelAnimationFrame(raf);
       window.removeEventListener('resize', onResize);
       ro.disconnect();
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+      controls.removeEventListener('end', onControlsEnd);
+      controls.removeEventListener('start', onControlsStart);
       controls.dispose();
+      topControls.dispose();
+      look.dispose();
       renderer.dispose();
       mount.removeChild(renderer.domElement);
     };
   }, []);
 
   useEffect(() => {
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!cameraView || !camera || !controls) return;
+    // a restored view ends any walk or transition
+    flyRef.current = null;
+    if (walkRef.current) {
+      lookRef.current?.unlock();
+      walkRef.current = null;
+      controls.enabled = true;
+      setIsWalking(false);
+    }
+    camera.position.set(...cameraView.position);
+    controls.target.set(...cameraView.target);
+    camera.fov = cameraView.fov;
+    camera.updateProjectionMatrix();
+    controls.update();
+  }, [cameraView]);
+
+  // runs before the walk start below, so a walk dropped in together with a plan change sees its walls
+  useEffect(() => {
+    obstaclesRef.current = walkObstacles(plan);
+  }, [plan]);
+
+  useEffect(() => {
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!walkStart || !camera || !controls) return;
+    const at = clearSpot(walkStart.at, obstaclesRef.current);
+    walkRef.current = { at, orbit: walkRef.current?.orbit ?? { position: camera.position.clone(), target: controls.target.clone() } };
+    flyRef.current = null;
+    beginWalk(camera, controls, { ...walkStart, at }, eyeHeightRef.current);
+    setIsWalking(true);
+    setIsTopView(false);
+  }, [walkStart]);
+
+  // the top view takes the 2D canvas's scale and center while it follows the plan
+  useEffect(() => {
+    const mount = mountRef.current;
+    const ortho = orthoRef.current;
+    const topControls = topControlsRef.current;
+    if (!isTopView || !mount || !ortho || !topControls) return;
+    topControls.enabled = !followPlan;
+    if (!followPlan) return;
+    const x = -view2D.offset.x / view2D.pxPerM, y = view2D.offset.y / view2D.pxPerM;
+    ortho.zoom = 1;
+    sizeTopView(ortho, mount.clientWidth || 1, mount.clientHeight || 1, view2D.pxPerM);
+    ortho.position.set(x, TOP_VIEW_HEIGHT, -y);
+    topControls.target.set(x, 0, -y);
+    ortho.lookAt(topControls.target);
+  }, [isTopView, followPlan, view2D]);
+
+  // walks from the middle of the orbit view, facing the way the camera looks; the button again goes back to orbiting
+  function toggleWalk() {
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!camera || !controls) return;
+    const walk = walkRef.current;
+    if (walk) {
+      lookRef.current?.unlock();
+      walkRef.current = null;
+      keysRef.current.clear();
+      camera.position.copy(walk.orbit.position);
+      controls.target.copy(walk.orbit.target);
+      controls.enabled = true;
+      controls.update();
+      setIsWalking(false);
+      return;
+    }
+    const start: WalkStart = {
+      at: clearSpot({ x: controls.target.x, y: -controls.target.z }, obstaclesRef.current),
+      heading: Math.atan2(camera.position.z - controls.target.z, controls.target.x - camera.position.x),
+    };
+    walkRef.current = { at: start.at, orbit: { position: camera.position.clone(), target: controls.target.clone() } };
+    flyRef.current = null;
+    beginWalk(camera, controls, start, eyeHeight);
+    setIsWalking(true);
+    setIsTopView(false);
+  }
+
+  function toggleTopView() {
+    if (walkRef.current) toggleWalk();
+    flyRef.current = null;
+    setIsTopView(v => !v);
+  }
+
+  // the 3D camera as a view: while walking, looking at a point a meter ahead; none in the top view,
+  // where the perspective camera is not the one on screen
+  function currentView(): CameraView | null {
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!camera || !controls || isTopView) return null;
+    const target = walkRef.current ? camera.position.clone().add(camera.getWorldDirection(new THREE.Vector3())) : controls.target;
+    return { position: camera.position.toArray() as CameraView['position'], target: target.toArray() as CameraView['target'], fov: camera.fov };
+  }
+
+  function saveViewpoint() {
+    const view = currentView();
+    if (!view) return;
+    const used = new Set(viewpoints.map(v => v.name));
+    let n = viewpoints.length + 1;
+    while (used.has(`View ${n}`)) n++;
+    onViewpointsChange([...viewpoints, { id: createId('viewpoint'), name: `View ${n}`, ...view }]);
+  }
+
+  // glides the orbit camera to a saved viewpoint, leaving the walk or top view first
+  function flyTo(v: CameraView) {
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!camera || !controls) return;
+    if (walkRef.current) toggleWalk();
+    setIsTopView(false);
+    flyRef.current = {
+      from: { position: camera.position.clone(), target: controls.target.clone(), fov: camera.fov },
+      to: { position: new THREE.Vector3(...v.position), target: new THREE.Vector3(...v.target), fov: v.fov },
+      start: performance.now(),
+    };
+  }
+
+  // renders each viewpoint at `width` × `height` with a camera of its own; one image downloads as PNG, several as a zip
+  function exportShots(shots: Viewpoint[], width: number, height: number) {
+    const renderer = rendererRef.current;
+    const scene = sceneRef.current;
+    const camera = cameraRef.current;
+    if (!renderer || !scene || !camera || shots.length === 0) return;
+    const name = fileBaseName(projectName ?? '', 'room-3d');
+    const size = renderer.getSize(new THREE.Vector2());
+    const pixelRatio = renderer.getPixelRatio();
+    const shotCamera = camera.clone();
+    shotCamera.aspect = width / height;
+    const entries: ZipEntry[] = [];
+    renderer.setPixelRatio(1);
+    renderer.setSize(width, height, false);
+    try {
+      shots.forEach((v, i) => {
+        shotCamera.position.set(...v.position);
+        shotCamera.fov = v.fov;
+        shotCamera.updateProjectionMatrix();
+        shotCamera.lookAt(...v.target);
+        renderer.render(scene, shotCamera);
+        entries.push({ name: `${name}-${String(i + 1).padStart(2, '0')}-${fileBaseName(v.name, 'view')}.png`, data: dataUrlBytes(renderer.domElement.toDataURL('image/png')) });
+      });
+    } finally {
+      renderer.setPixelRatio(pixelRatio);
+      renderer.setSize(size.x, size.y);
+    }
+    const blob = entries.length === 1 ? new Blob([entries[0].data as BlobPart], { type: 'image/png' }) : createZip(entries);
+    downloadBlob(blob, entries.length === 1 ? entries[0].name : `${name}-viewpoints.zip`);
+  }
+
+  // floors without a material keep the translucent blue tint; the maps of a material fill in as they load
+  function applyFloorMaterial(material: THREE.MeshStandardMaterial, def: MaterialDef | null) {
+    const key = def ? JSON.stringify(def) : '';
+    if (material.userData.materialKey === key) return;
+    material.userData.materialKey = key;
+    material.map = material.normalMap = material.roughnessMap = material.aoMap = null;
+    material.color.set(def ? def.color : 0x1e90ff);
+    material.roughness = def ? def.roughness : 0.9;
+    material.metalness = def ? def.metalness : 0;
+    material.transparent = !def;
+    material.opacity = def ? 1.0 : 0.8;
+    material.needsUpdate = true;
+    if (!def) return;
+    const slots = [['albedo', 'map'], ['normal', 'normalMap'], ['roughness', 'roughnessMap'], ['ao', 'aoMap']] as const;
+    for (const [kind, slot] of slots) {
+      const url = def.maps[kind];
+      if (!url) continue;
+      loadTexture(texturesRef.current, url, kind === 'albedo', rendererRef.current).then(tex => {
+        if (material.userData.materialKey !== key) return;
+        material[slot] = tex;
+        material.needsUpdate = true;
+      }, () => {});
+    }
+  }
+
+  function loadModel(url: string): Promise<THREE.Object3D> {
+    let p = modelsRef.current.get(url);
+    if (!p) {
+      // forget failed loads so the model is tried again on the next rebuild
+      p = new GLTFLoader().loadAsync(url).then(gltf => gltf.scene).catch(e => {
+        modelsRef.current.delete(url);
+        throw e;
+      });
+      modelsRef.current.set(url, p);
+    }
+    return p;
+  }
+
+  // unit-space box part of an item; plan-local y runs along -z
+  function boxPartMesh(item: FurnitureItem, part: BoxPart): THREE.Mesh {
+    unitBoxRef.current ??= new THREE.BoxGeometry(1, 1, 1);
+    const materials = furnitureMaterialsRef.current;
+    let material = materials.get(part.color);
+    if (!material) {
+      material = new THREE.MeshStandardMaterial({ color: part.color, metalness: 0.0, roughness: 0.8 });
+      material.name = `Furniture ${part.color.toString(16).padStart(6, '0')}`;
+      materials.set(part.color, material);
+    }
+    const [x0, y0, z0] = part.min, [x1, y1, z1] = part.max;
+    const mesh = new THREE.Mesh(unitBoxRef.current, material);
+    mesh.scale.set((x1 - x0) * item.width, (z1 - z0) * item.height, (y1 - y0) * item.depth);
+    mesh.position.set(((x0 + x1) / 2) * item.width, ((z0 + z1) / 2) * item.height, -((y0 + y1) / 2) * item.depth);
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+    return mesh;
+  }
+
+  // copy of a loaded model stretched to the item's size, standing on the floor at its center;
+  // the copy owns its geometries and materials so it can be disposed without touching the cached model
+  function fitModel(src: THREE.Object3D, item: FurnitureItem): THREE.Object3D {
+    const model = src.clone(true);
+    model.traverse(o => {
+      if (!(o instanceof THREE.Mesh)) return;
+      o.geometry = o.geometry.clone();
+      o.material = Array.isArray(o.material) ? o.material.map(m => m.clone()) : o.material.clone();
+    });
+    const box = new THREE.Box3().setFromObject(model);
+    const size = box.getSize(new THREE.Vector3());
+    const center = box.getCenter(new THREE.Vector3());
+    model.position.set(-center.x, -box.min.y, -center.z);
+    const holder = new THREE.Group();
+    holder.add(model);
+    holder.scale.set(item.width / (size.x || 1), item.height / (size.y || 1), item.depth / (size.z || 1));
+    return holder;
+  }
+
+  async function exportModel(format: ModelFormat) {
+    setIsExportMenuOpen(false);
     const scene = sceneRef.current;
     if (!scene) return;
-    if (meshRef.current) {
-      const oldMesh = meshRef.current;
-      scene.remove(oldMesh);
-      oldMesh.geometry.dispose();
-      meshRef.current = null;
+    const name = fileBaseName(projectName ?? '', 'room-3d');
+    try {
+      const root = buildExportRoot(scene, name);
+      const blob = format === 'obj' ? await exportObjZip(root, name) : await exportGltf(root, format === 'glb');
+      downloadBlob(blob, `${name}.${format === 'obj' ? 'zip' : format}`);
+    } catch (err) {
+      window.alert(`3D export failed: ${(err as Error).message}`);
     }
-    if (vertices.length < 3) return;
+  }
+
+  function clearGlow() {
+    if (outlineRef.current) disposeGlow(outlineRef.current);
+    outlineRef.current = null;
+  }
+
+  // joints, cut pieces and slivers painted into a canvas stretched over the room's bounding box
+  function tileOverlay(shape: THREE.Shape, pts: { x: number; y: number }[], tiles: TilePlan, grout: number): THREE.Mesh {
+    const minX = Math.min(...pts.map(p => p.x)), maxX = Math.max(...pts.map(p => p.x));
+    const minY = Math.min(...pts.map(p => p.y)), maxY = Math.max(...pts.map(p => p.y));
+    const w = Math.max(maxX - minX, 0.01), h = Math.max(maxY - minY, 0.01);
+    const pxPerM = Math.min(128, 2048 / Math.max(w, h));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(w * pxPerM);
+    canvas.height = Math.ceil(h * pxPerM);
+    paintTiles(canvas.getContext('2d')!, tiles, p => [(p.x - minX) * pxPerM, (maxY - p.y) * pxPerM], 'rgba(40,40,40,0.75)', Math.max(1, grout * pxPerM));
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.anisotropy = Math.min(8, rendererRef.current?.capabilities.getMaxAnisotropy?.() || 1);
 
-    const shape = new THREE.Shape(vertices.map(v => new THREE.Vector2(v.x, v.y)));
     const geometry = new THREE.ShapeGeometry(shape, 1);
-    // Rotate to lie on XZ plane (y up)
+    const position = geometry.getAttribute('position');
+    const uv = geometry.getAttribute('uv');
+    for (let i = 0; i < position.count; i++) uv.setXY(i, (position.getX(i) - minX) / w, (position.getY(i) - minY) / h);
     geometry.rotateX(-Math.PI / 2);
+    const material = new THREE.MeshBasicMaterial({ map: texture, transparent: true, depthWrite: false, polygonOffset: true, polygonOffsetFactor: -1 });
+    const overlay = new THREE.Mesh(geometry, material);
+    overlay.position.y = 0.011;
+    overlay.renderOrder = 1;
+    overlay.userData[EXPORT_IGNORE] = true;
+    return overlay;
+  }
+
+  // yellow glow using a slightly scaled backside copy of the floor mesh
+  function showGlow(mesh: THREE.Mesh) {
+    if (outlineRef.current?.userData.roomId === mesh.userData.roomId) return;
+    if (outlineRef.current) disposeGlow(outlineRef.current);
+    const glowGeom = (mesh.geometry as THREE.BufferGeometry).clone();
+    const glowMat = new THREE.MeshBasicMaterial({ color: 0xffd54f, transparent: true, opacity: 0.35, side: THREE.BackSide });
+    const glow = new THREE.Mesh(glowGeom, glowMat);
+    glow.position.copy(mesh.position);
+    glow.rotation.copy(mesh.rotation);
+    glow.scale.copy(mesh.scale).multiplyScalar(1.02);
+    glow.renderOrder = 1;
+    glow.userData.roomId = mesh.userData.roomId;
+    glow.userData[EXPORT_IGNORE] = true;
+    sceneRef.current?.add(glow);
+    outlineRef.current = glow;
+  }
+
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+    const meshes = meshesRef.current;
+    meshes.forEach(oldMesh => {
+      scene.remove(oldMesh);
+      oldMesh.geometry.dispose();
+    });
+    meshes.clear();
+    clearGlow();
+    const overlays = tileOverlaysRef.current;
+    overlays.forEach(overlay => {
+      scene.remove(overlay);
+      overlay.geometry.dispose();
+      const material = overlay.material as THREE.MeshBasicMaterial;
+      material.map?.dispose();
+      material.dispose();
+    });
+    overlays.clear();
+
+    const materials = floorMaterialsRef.current;
+    for (const [roomId, material] of materials) {
+      if (!getRoom(plan, roomId)) { material.dispose(); materials.delete(roomId); }
+    }
+
+    for (const room of plan.rooms) {
+      const pts = roomPoints(plan, room);
+      // a crossing or degenerate outline would triangulate into garbage; its walls still show
+      if (pts.length < 3 || hasErrors(validateRoom(plan, room))) continue;
+      const shape = new THREE.Shape(pts.map(v => new THREE.Vector2(v.x, v.y)));
+      room.holes.forEach((_, h) => shape.holes.push(new THREE.Path(holePoints(plan, room, h).map(v => new THREE.Vector2(v.x, v.y)))));
+      const geometry = new THREE.ShapeGeometry(shape, 1);
+      // UVs in tiles of the laying pattern, so the texture has its real size on the floor
+      const position = geometry.getAttribute('position');
+      const uv = geometry.getAttribute('uv');
+      for (let i = 0; i < position.count; i++) uv.setXY(i, ...floorUv({ x: position.getX(i), y: position.getY(i) }, room.floor));
+      // Rotate to lie on XZ plane (y up)
+      geometry.rotateX(-Math.PI / 2);
+
+      let material = materials.get(room.id);
+      if (!material) {
+        material = new THREE.MeshStandardMaterial({
+          color: 0x1e90ff,
+          metalness: 0.0,
+          roughness: 0.9,
+          side: THREE.DoubleSide,
+          transparent: true,
+          opacity: 0.8,
+        });
+        materials.set(room.id, material);
+      }
+      material.name = `Floor ${room.name}`;
+      applyFloorMaterial(material, room.floor.material);
+
+      const mesh = new THREE.Mesh(geometry, material);
+      mesh.name = room.name;
+      mesh.userData.roomId = room.id;
+      // slightly lift above ground to avoid z-fighting
+      mesh.position.y = 0.01;
+      mesh.receiveShadow = true;
+      scene.add(mesh);
+      meshes.set(room.id, mesh);
 
-    const material = materialRef.current ?? new THREE.MeshStandardMaterial({
-      color: 0x1e90ff,
+      const layout = room.floor.layout;
+      const tiles = layout && roomTiles(plan, room);
+      if (layout && tiles && !tiles.tooMany) {
+        const overlay = tileOverlay(shape, pts, tiles, layout.grout);
+        overlay.name = `Tiles ${room.name}`;
+        scene.add(overlay);
+        overlays.set(room.id, overlay);
+      }
+    }
+
+    // keep the selected room highlighted across rebuilds (read from a ref: selecting needs no rebuild)
+    const selId = selectedRoomIdRef.current;
+    const sel = selId !== null ? meshes.get(selId) : undefined;
+    if (sel) showGlow(sel);
+  }, [plan]);
+
+  // walls: each plan wall outline extruded up to its height, with openings cut out
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+    if (wallsGroupRef.current) {
+      scene.remove(wallsGroupRef.current);
+      wallsGroupRef.current.traverse(o => { if (o instanceof THREE.Mesh) o.geometry.dispose(); });
+      wallsGroupRef.current = null;
+    }
+    if (!showWalls) return;
+
+    const material = wallMaterialRef.current ?? new THREE.MeshStandardMaterial({
+      color: 0xf2efe9,
       metalness: 0.0,
-      roughness: 0.9,
-      side: THREE.DoubleSide,
-      transparent: true,
-      opacity: 0.8,
+      roughness: 0.95,
     });
+    material.name = 'Wall';
+    wallMaterialRef.current = material;
 
-    const mesh = new THREE.Mesh(geometry, material);
-    // slightly lift above ground to avoid z-fighting
-    mesh.position.y = 0.01;
-    mesh.receiveShadow = true;
-    scene.add(mesh);
-    meshRef.current = mesh;
-    materialRef.current = material;
-    setSelected(false);
-
-    // update outline geometry if exists
-    if (outlineRef.current) {
-      scene.remove(outlineRef.current);
-      outlineRef.current.geometry.dispose();
-      (outlineRef.current.material as THREE.LineBasicMaterial).dispose();
-      outlineRef.current = null;
+    const group = new THREE.Group();
+    group.name = 'walls';
+    for (const w of buildWalls(plan)) {
+      // solid pieces around door/window openings
+      for (const piece of wallPieces(w, plan)) {
+        const shape = new THREE.Shape(piece.polygon.map(v => new THREE.Vector2(v.x, v.y)));
+        const geometry = new THREE.ExtrudeGeometry(shape, { depth: piece.top - piece.bottom, bevelEnabled: false });
+        // extrusion runs along +z; rotate so the plan lies on XZ and the wall rises along +y
+        geometry.rotateX(-Math.PI / 2);
+        geometry.translate(0, piece.bottom, 0);
+        const mesh = new THREE.Mesh(geometry, material);
+        mesh.name = `wall ${w.key}`;
+        mesh.castShadow = true;
+        mesh.receiveShadow = true;
+        group.add(mesh);
+      }
     }
-  }, [vertices]);
+    scene.add(group);
+    wallsGroupRef.current = group;
+  }, [plan, showWalls]);
+
+  // sky, ambient light and the sun for the preset and hour; the sun's shadow covers the whole plan
+  useEffect(() => {
+    const scene = sceneRef.current, hemi = hemiRef.current, sun = sunRef.current;
+    if (!scene || !hemi || !sun) return;
+    const preset = LIGHTING_PRESETS[lighting.preset];
+    scene.background = new THREE.Color(preset.background);
+    hemi.color.set(preset.sky);
+    hemi.groundColor.set(preset.ground);
+    hemi.intensity = preset.ambient;
+    const { intensity, color } = sunLight(lighting);
+    sun.intensity = intensity;
+    sun.color.set(color);
+    sun.visible = intensity > 0;
+    sun.castShadow = lighting.shadows;
+
+    const pts = Object.values(plan.vertices);
+    const xs = pts.map(p => p.x), ys = pts.map(p => p.y);
+    const cx = pts.length ? (Math.min(...xs) + Math.max(...xs)) / 2 : 0, cy = pts.length ? (Math.min(...ys) + Math.max(...ys)) / 2 : 0;
+    const r = (pts.length ? Math.hypot(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)) / 2 : 5) + 2;
+    // plan (x, y) is world (x, -z)
+    const d = sunDirection(lighting.hour);
+    sun.target.position.set(cx, 0, -cy);
+    sun.position.set(cx + d.x * r * 3, Math.max(d.up, 0.05) * r * 3, -cy - d.y * r * 3);
+    const cam = sun.shadow.camera;
+    cam.left = cam.bottom = -r;
+    cam.right = cam.top = r;
+    cam.near = 0.1;
+    cam.far = r * 6;
+    cam.updateProjectionMatrix();
+  }, [lighting, plan.vertices]);
+
+  // light fittings: a lamp and its light source each; like the other lights they are left out of exports
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+    const old = fixturesGroupRef.current;
+    if (old) {
+      scene.remove(old);
+      old.traverse(o => {
+        if (o instanceof THREE.Light) o.dispose();
+        if (o instanceof THREE.Mesh) { o.geometry.dispose(); (o.material as THREE.Material).dispose(); }
+      });
+    }
+    const group = new THREE.Group();
+    group.name = 'lights';
+    group.userData[EXPORT_IGNORE] = true;
+    plan.lights.forEach((l, i) => group.add(fixtureObject(l, lighting.shadows && i < MAX_SHADOW_FIXTURES)));
+    scene.add(group);
+    fixturesGroupRef.current = group;
+  }, [plan.lights, lighting.shadows]);
+
+  // furniture: catalog box parts, or a bundled glTF model (a plain box shows until it loads)
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+    const old = furnitureGroupRef.current;
+    if (old) {
+      scene.remove(old);
+      // box parts share the unit cube and the per-color materials; model copies own theirs
+      old.traverse(o => {
+        if (!(o instanceof THREE.Mesh) || o.geometry === unitBoxRef.current) return;
+        o.geometry.dispose();
+        (Array.isArray(o.material) ? o.material : [o.material]).forEach(m => m.dispose());
+      });
+    }
+    const group = new THREE.Group();
+    group.name = 'furniture';
+    for (const item of plan.furniture) {
+      const obj = new THREE.Group();
+      obj.name = item.name;
+      // plan (x, y) is world (x, -z); a counter-clockwise plan turn is a +y rotation
+      obj.position.set(item.x, 0, -item.y);
+      obj.rotation.y = (item.rotation * Math.PI) / 180;
+      const model = getCatalogItem(item.catalogId)?.model;
+      if (!model) obj.add(boxPartMesh(item, PLAIN_BOX));
+      else if (model.kind === 'box') model.parts.forEach(part => obj.add(boxPartMesh(item, part)));
+      else {
+        const placeholder = boxPartMesh(item, { ...PLAIN_BOX, color: model.color });
+        obj.add(placeholder);
+        loadModel(model.url).then(src => {
+          if (furnitureGroupRef.current !== group) return; // rebuilt while loading
+          obj.remove(placeholder);
+          obj.add(fitModel(src, item));
+        }, () => {});
+      }
+      group.add(obj);
+    }
+    scene.add(group);
+    furnitureGroupRef.current = group;
+  }, [plan]);
 
   useEffect(() => {
     const mount = mountRef.current;
@@ -153,82 +876,35 @@ export default function Floor3D({ vertices }: Props) {
     const pointer = pointerRef.current;
     if (!mount || !renderer || !camera || !scene || !raycaster || !pointer) return;
 
-    const onClick = (e: MouseEvent) => {
+    const pickRoom = (e: MouseEvent): THREE.Mesh | null => {
       const rect = renderer.domElement.getBoundingClientRect();
       pointer.x = ((e.clientX - rect.left) / rect.width) * 2 - 1;
       pointer.y = -((e.clientY - rect.top) / rect.height) * 2 + 1;
-      raycaster.setFromCamera(pointer, camera);
-      const mesh = meshRef.current;
-      if (!mesh) return;
-      const intersects = raycaster.intersectObject(mesh, true);
-      const hit = intersects.length > 0;
-      setSelected(hit);
-      const scene = sceneRef.current!;
-      // manage outline only (no transform controls)
-      if (hit && mesh) {
-        // remove previous glow
-        if (outlineRef.current) {
-          scene.remove(outlineRef.current);
-          const obj = outlineRef.current;
-          (obj.material as THREE.Material).dispose();
-          obj.geometry.dispose();
-          outlineRef.current = null;
-        }
-        // add yellow glow using slightly scaled backside mesh
-        const glowGeom = (mesh.geometry as THREE.BufferGeometry).clone();
-        const glowMat = new THREE.MeshBasicMaterial({ color: 0xffd54f, transparent: true, opacity: 0.35, side: THREE.BackSide });
-        const glow = new THREE.Mesh(glowGeom, glowMat);
-        glow.position.copy(mesh.position);
-        glow.rotation.copy(mesh.rotation);
-        glow.scale.copy(mesh.scale).multiplyScalar(1.02);
-        glow.renderOrder = 1;
-        scene.add(glow);
-        outlineRef.current = glow;
-      } else {
-        if (outlineRef.current) {
-          scene.remove(outlineRef.current);
-          const obj = outlineRef.current;
-          (obj.material as THREE.Material).dispose();
-          obj.geometry.dispose();
-          outlineRef.current = null;
-        }
+      raycaster.setFromCamera(pointer, isTopView ? orthoRef.current ?? camera : camera);
+      const intersects = raycaster.intersectObjects([...meshesRef.current.values()], false);
+      return intersects.length > 0 ? (intersects[0].object as THREE.Mesh) : null;
+    };
+
+    const onClick = (e: MouseEvent) => {
+      if (walkRef.current) {
+        lookRef.current?.lock();
+        return;
       }
+      const mesh = pickRoom(e);
+      setSelectedRoomId(mesh ? mesh.userData.roomId : null);
+      // manage outline only (no transform controls)
+      if (mesh) showGlow(mesh);
+      else clearGlow();
     };
     renderer.domElement.addEventListener('click', onClick);
 
     const onMove = (e: MouseEvent) => {
-      const rect = renderer.domElement.getBoundingClientRect();
-      pointer.x = ((e.clientX - rect.left) / rect.width) * 2 - 1;
-      pointer.y = -((e.clientY - rect.top) / rect.height) * 2 + 1;
-      raycaster.setFromCamera(pointer, camera);
-      const mesh = meshRef.current;
-      if (!mesh) return;
-      const intersects = raycaster.intersectObject(mesh, true);
-      const hit = intersects.length > 0;
-      const scene = sceneRef.current!;
-      if (hit) {
-        // show glow if not already shown
-        if (!outlineRef.current) {
-          const glowGeom = (mesh.geometry as THREE.BufferGeometry).clone();
-          const glowMat = new THREE.MeshBasicMaterial({ color: 0xffd54f, transparent: true, opacity: 0.35, side: THREE.BackSide });
-          const glow = new THREE.Mesh(glowGeom, glowMat);
-          glow.position.copy(mesh.position);
-          glow.rotation.copy(mesh.rotation);
-          glow.scale.copy(mesh.scale).multiplyScalar(1.02);
-          glow.renderOrder = 1;
-          scene.add(glow);
-          outlineRef.current = glow;
-        }
-      } else if (!selected) {
-        // only hide glow if not selected
-        if (outlineRef.current) {
-          scene.remove(outlineRef.current);
-          const obj = outlineRef.current;
-          (obj.material as THREE.Material).dispose();
-          obj.geometry.dispose();
-          outlineRef.current = null;
-        }
-      }
+      if (walkRef.current) return;
+      const mesh = pickRoom(e);
+      // hover glow, but never take it away from the selected room
+      if (selected) return;
+      if (mesh) showGlow(mesh);
+      else clearGlow();
     };
     renderer.domElement.addEventListener('mousemove', onMove);
 
@@ -239,52 +915,54 @@ export default function Floor3D({ vertices }: Props) {
   },);
 
 
-  useEffect(() => {
-    const material = materialRef.current;
-    if (!material) return;
-    if (!textureUrl) {
-      // clear texture
-      if (material.map) {
-        material.map.dispose();
-        material.map = null;
-      }
-      material.needsUpdate = true;
-      return;
-    }
-    const loader = new THREE.TextureLoader();
-    loader.load(
-      textureUrl,
-      (tex) => {
-        tex.wrapS = THREE.RepeatWrapping;
-        tex.wrapT = THREE.RepeatWrapping;
-        tex.anisotropy = Math.min(8, rendererRef.current?.capabilities.getMaxAnisotropy?.() || 1);
-        tex.repeat.set(2, 2);
-        material.map = tex;
-        material.color.set(0xffffff);
-        material.transparent = false;
-        material.opacity = 1.0;
-        material.needsUpdate = true;
-      },
-      undefined,
-      () => {
-      }
-    );
-  }, [textureUrl]);
-
   return (
     <div style={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
       <div style={{ padding: '6px 10px', borderBottom: '1px solid #e6e8eb', display: 'flex', alignItems: 'center', gap: 8, background: '#333333' }}>
         <div />
+        <button title={showWalls ? 'Hide walls' : 'Show walls'} style={{ width: 40, height: 40, border: '1px solid #dcdfe3', borderRadius: 6, background: showWalls ? '#e9ecef' : '#ffffff', display: 'inline-flex', alignItems: 'center', justifyContent: 'center', cursor: 'pointer' }} onClick={() => setShowWalls(v => !v)}><FiColumns style={{ fontSize: 16 }} /></button>
         <button title="Screenshot" style={{ width: 40, height: 40, border: '1px solid #dcdfe3', borderRadius: 6, display: 'inline-flex', alignItems: 'center', justifyContent: 'center', cursor: 'pointer' }} onClick={() => {
           const r = rendererRef.current; if (!r) return;
-          r.render(sceneRef.current!, cameraRef.current!);
-          const url = r.domElement.toDataURL('image/png');
-          const a = document.createElement('a');
-          a.href = url; a.download = 'screenshot-3d.png'; a.click();
+          r.render(sceneRef.current!, isTopView ? orthoRef.current! : cameraRef.current!);
+          downloadUrl(r.domElement.toDataURL('image/png'), 'screenshot-3d.png');
         }}><FiCamera style={{ fontSize: 16 }} /></button>
+        <div style={{ position: 'relative' }}>
+          <button title="Export 3D model" style={{ width: 40, height: 40, border: '1px solid #dcdfe3', borderRadius: 6, background: isExportMenuOpen ? '#e9ecef' : '#ffffff', display: 'inline-flex', alignItems: 'center', justifyContent: 'center', cursor: 'pointer' }} onClick={() => setIsExportMenuOpen(v => !v)}><FiBox style={{ fontSize: 16 }} /></button>
+          {isExportMenuOpen && (
+            <div style={{ position: 'absolute', top: 44, left: 0, zIndex: 10, minWidth: 200, background: '#fff', border: '1px solid #ddd', borderRadius: 6, boxShadow: '0 4px 12px rgba(0,0,0,0.15)', padding: 4 }}>
+              {([['glb', 'GLB (binary glTF)'], ['gltf', 'glTF (embedded)'], ['obj', 'OBJ + MTL (.zip)']] as [ModelFormat, string][]).map(([format, label]) => (
+                <button
+                  key={format}
+                  onClick={() => exportModel(format)}
+                  style={{ display: 'block', width: '100%', textAlign: 'left', padding: '6px 10px', border: 'none', background: 'none', fontSize: 13, color: '#333', cursor: 'pointer' }}
+                >{label}</button>
+              ))}
+            </div>
+          )}
+        </div>
+        <button title="Lighting and shadows" style={{ width: 40, height: 40, border: '1px solid #dcdfe3', borderRadius: 6, background: isLightingOpen ? '#e9ecef' : '#ffffff', display: 'inline-flex', alignItems: 'center', justifyContent: 'center', cursor: 'pointer' }} onClick={() => setIsLightingOpen(v => !v)}><MdOutlineWbSunny style={{ fontSize: 18 }} /></button>
+        <button title={isTopView ? 'Back to perspective view' : 'Top view (orthographic)'} style={{ width: 40, height: 40, border: '1px solid #dcdfe3', borderRadius: 6, background: isTopView ? '#e9ecef' : '#ffffff', display: 'inline-flex', alignItems: 'center', justifyContent: 'center', cursor: 'pointer' }} onClick={toggleTopView}><MdOutlineMap style={{ fontSize: 18 }} /></button>
+        {isTopView && (
+          <button title={followPlan ? 'Stop following the 2D plan (pan and zoom the top view freely)' : 'Follow the 2D plan\'s pan and zoom'} style={{ width: 40, height: 40, border: '1px solid #dcdfe3', borderRadius: 6, background: followPlan ? '#e9ecef' : '#ffffff', display: 'inline-flex', alignItems: 'center', justifyContent: 'center', cursor: 'pointer' }} onClick={() => setFollowPlan(f => !f)}><FiLink style={{ fontSize: 16 }} /></button>
+        )}
+        <button title="Viewpoints and screenshots" style={{ width: 40, height: 40, border: '1px solid #dcdfe3', borderRadius: 6, background: isViewpointsOpen ? '#e9ecef' : '#ffffff', display: 'inline-flex', alignItems: 'center', justifyContent: 'center', cursor: 'pointer' }} onClick={() => setIsViewpointsOpen(v => !v)}><MdOutlineBookmarks style={{ fontSize: 18 }} /></button>
+        <button title={isWalking ? 'Back to orbit view' : 'Walk through (or drop in from the 2D plan)'} style={{ width: 40, height: 40, border: '1px solid #dcdfe3', borderRadius: 6, background: isWalking ? '#e9ecef' : '#ffffff', display: 'inline-flex', alignItems: 'center', justifyContent: 'center', cursor: 'pointer' }} onClick={toggleWalk}><MdOutlineDirectionsWalk style={{ fontSize: 18 }} /></button>
+        <button title="Flooring estimate" style={{ width: 40, height: 40, border: '1px solid #dcdfe3', borderRadius: 6, background: isEstimateOpen ? '#e9ecef' : '#ffffff', display: 'inline-flex', alignItems: 'center', justifyContent: 'center', cursor: 'pointer' }} onClick={() => setIsEstimateOpen(true)}><MdOutlineCalculate style={{ fontSize: 18 }} /></button>
       </div>
+      {isEstimateOpen && <EstimateDialog plan={plan} projectName={projectName ?? ''} units={units} onUpdateMaterial={onUpdateMaterial} onClose={() => setIsEstimateOpen(false)} />}
       <div ref={mountRef} style={{ width: '100%', height: '100%', position: 'relative' }}>
-        {selected && (
+        {isViewpointsOpen && (
+          <ViewpointsPanel
+            viewpoints={viewpoints}
+            onSave={isTopView ? null : saveViewpoint}
+            onGo={flyTo}
+            onChange={onViewpointsChange}
+            onExport={exportShots}
+            onClose={() => setIsViewpointsOpen(false)}
+          />
+        )}
+        {isWalking && <WalkPanel eyeHeight={eyeHeight} units={units} onEyeHeight={setEyeHeight} onExit={toggleWalk} />}
+        {isLightingOpen && <LightingPanel lighting={lighting} fixtures={plan.lights.length} onChange={onLightingChange} onClose={() => setIsLightingOpen(false)} />}
+        {selectedRoom && (
           <div
             style={{
               position: 'absolute',
@@ -298,85 +976,30 @@ export default function Floor3D({ vertices }: Props) {
               fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
               fontSize: 14,
               backdropFilter: 'blur(5px)',
-              overflow: 'hidden',
+              maxHeight: 'calc(100% - 24px)',
+              overflowY: 'auto',
             }}
           >
             {/* Header */}
             <div style={{ padding: '12px 16px', borderBottom: '1px solid #eee' }}>
-              <div style={{ fontWeight: 600, fontSize: 16, marginBottom: 4 }}>Floor Properties</div>
+              <div style={{ fontWeight: 600, fontSize: 16, marginBottom: 4 }}>Floor Properties · {selectedRoom.name}</div>
               <div style={{ fontSize: 12, color: '#666' }}>Click outside the floor to hide</div>
             </div>
 
             {/* Content */}
             <div style={{ padding: '16px' }}>
-              {/* Presets */}
               <div style={{ marginBottom: 16 }}>
-                <label
-                  style={{
-                    display: 'block',
-                    fontSize: 12,
-                    fontWeight: 500,
-                    color: '#444',
-                    marginBottom: 4,
-                  }}
-                >
-                  Presets
-                </label>
-                <div
-                  style={{
-                    display: 'grid',
-                    gridTemplateColumns: 'repeat(3, 1fr)',
-                    gap: 8,
-                  }}
-                >
-                  {texturePresets.map((tex) => (
-                    <button
-                      key={tex.url}
-                      title={tex.name}
-                      onClick={() => setTextureUrl(tex.url)}
-                      style={{
-                        width: '100%',
-                        height: 60,
-                        border: '2px solid #ddd',
-                        borderRadius: 4,
-                        cursor: 'pointer',
-                        backgroundColor: '#f0f0f0',
-                        backgroundImage: `url(${tex.url})`,
-                        backgroundSize: 'cover',
-                        backgroundPosition: 'center',
-                      }}
-                    />
-                  ))}
-                </div>
-              </div>
-
-              {/* URL */}
-              <div style={{ marginBottom: 16 }}>
-                <label
-                  style={{
-                    display: 'block',
-                    fontSize: 12,
-                    fontWeight: 500,
-                    color: '#444',
-                    marginBottom: 4,
-                  }}
-                >
-                  Texture URL
-                </label>
-                <input
-                  value={textureUrl}
-                  onChange={(e) => setTextureUrl(e.target.value)}
-                  placeholder="/path/to/texture.jpg"
-                  style={{
-                    width: '100%',
-                    padding: '8px 10px',
-                    border: '1px solid #ccc',
-                    borderRadius: 4,
-                    fontSize: 13,
-                    boxSizing: 'border-box',
-                  }}
+                <MaterialPicker
+                  current={selectedRoom.floor.material}
+                  units={units}
+                  onPick={(m) => onUpdateFloor(selectedRoom.id, { material: m, tileSize: { ...m.tileSize } })}
                 />
               </div>
+
+              {/* Laying pattern: real tile size, board direction and start offset */}
+              {selectedRoom.floor.material && (
+                <FloorLayout key={selectedRoom.id} floor={selectedRoom.floor} units={units} onChange={(patch) => onUpdateFloor(selectedRoom.id, patch)} />
+              )}
             </div>
 
             {/* Footer */}
@@ -391,7 +1014,7 @@ export default function Floor3D({ vertices }: Props) {
               }}
             >
               <button
-                onClick={() => { setTextureUrl(''); }}
+                onClick={() => onUpdateFloor(selectedRoom.id, { material: null })}
                 style={{
                   padding: '6px 12px',
                   border: '1px solid #ccc',
@@ -406,7 +1029,7 @@ export default function Floor3D({ vertices }: Props) {
                 Clear
               </button>
               <button
-                onClick={() => setSelected(false)}
+                onClick={() => { setSelectedRoomId(null); clearGlow(); }}
                 style={{
                   padding: '6px 12px',
                   border: '1px solid #1e90ff',
@@ -426,4 +1049,134 @@ export default function Floor3D({ vertices }: Props) {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// hour as h:mm
+function formatHour(hour: number): string {
+  const m = Math.round(hour * 60);
+  return `${Math.floor(m / 60)}:${String(m % 60).padStart(2, '0')}`;
+}
+
+// environment preset, time of day and shadows of the 3D view; light fittings are placed on the plan
+function LightingPanel({ lighting, fixtures, onChange, onClose }: { lighting: LightingSettings; fixtures: number; onChange: (l: LightingSettings) => void; onClose: () => void }) {
+  const btn = (active: boolean): React.CSSProperties => ({ flex: 1, padding: '5px 6px', border: `1px solid ${active ? '#1976d2' : '#ccc'}`, borderRadius: 4, background: active ? '#e3f2fd' : '#fff', fontSize: 12, color: '#333', cursor: 'pointer' });
+  const up = sunDirection(lighting.hour).up > 0;
+  return (
+    <div style={{ position: 'absolute', left: 12, top: 12, width: 240, zIndex: 5, background: 'rgba(255,255,255,0.98)', border: '1px solid #ddd', borderRadius: 8, boxShadow: '0 4px 12px rgba(0,0,0,0.1)', padding: 12, fontSize: 13, color: '#333' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+        <span style={{ fontWeight: 600 }}>Lighting</span>
+        <button onClick={onClose} style={{ border: 'none', background: 'none', fontSize: 16, lineHeight: 1, color: '#666', cursor: 'pointer' }}>×</button>
+      </div>
+      <div style={{ display: 'flex', gap: 6 }}>
+        {(Object.keys(LIGHTING_PRESETS) as LightingPreset[]).map(p => (
+          <button key={p} style={btn(lighting.preset === p)} onClick={() => onChange({ ...lighting, preset: p, hour: LIGHTING_PRESETS[p].hour })}>{LIGHTING_PRESETS[p].label}</button>
+        ))}
+      </div>
+      <label style={{ display: 'block', fontSize: 12, fontWeight: 500, color: '#444', margin: '10px 0 4px' }}>
+        Time of day {formatHour(lighting.hour)}{up ? '' : ' · sun down'}
+      </label>
+      <input type="range" min={0} max={24} step={0.25} value={lighting.hour} onChange={(e) => onChange({ ...lighting, hour: Number(e.target.value) })} style={{ width: '100%' }} />
+      <label style={{ display: 'flex', alignItems: 'center', gap: 6, marginTop: 8 }}>
+        <input type="checkbox" checked={lighting.shadows} onChange={(e) => onChange({ ...lighting, shadows: e.target.checked })} /> Soft shadows
+      </label>
+      <div style={{ marginTop: 8, fontSize: 12, color: '#868e96' }}>
+        {fixtures === 0 ? 'No light fittings yet; place them with the bulb tool on the 2D plan.' : `${fixtures} light fitting${fixtures === 1 ? '' : 's'} from the 2D plan.`}
+      </div>
+    </div>
+  );
+}
+
+// saved cameras: recall, rename, delete, and render the checked ones at a chosen size
+function ViewpointsPanel({ viewpoints, onSave, onGo, onChange, onExport, onClose }: {
+  viewpoints: Viewpoint[];
+  onSave: (() => void) | null; // null while the view on screen cannot be saved
+  onGo: (v: Viewpoint) => void;
+  onChange: (viewpoints: Viewpoint[]) => void;
+  onExport: (shots: Viewpoint[], width: number, height: number) => void;
+  onClose: () => void;
+}) {
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+  const [sizeIndex, setSizeIndex] = useState(1);
+  const shots = viewpoints.filter(v => !skipped.has(v.id));
+  const btn: React.CSSProperties = { padding: '5px 10px', border: '1px solid #ccc', borderRadius: 4, background: '#fff', fontSize: 12, color: '#333', cursor: 'pointer' };
+  const toggleSkip = (id: string) => setSkipped(prev => {
+    const next = new Set(prev);
+    if (!next.delete(id)) next.add(id);
+    return next;
+  });
+  return (
+    <div style={{ position: 'absolute', right: 12, bottom: 12, width: 280, zIndex: 5, background: 'rgba(255,255,255,0.98)', border: '1px solid #ddd', borderRadius: 8, boxShadow: '0 4px 12px rgba(0,0,0,0.1)', padding: 12, fontSize: 13, color: '#333' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+        <span style={{ fontWeight: 600 }}>Viewpoints</span>
+        <button onClick={onClose} style={{ border: 'none', background: 'none', fontSize: 16, lineHeight: 1, color: '#666', cursor: 'pointer' }}>×</button>
+      </div>
+      {viewpoints.length === 0 && <div style={{ fontSize: 12, color: '#868e96' }}>No viewpoints yet; frame the view and save it.</div>}
+      <div style={{ maxHeight: 200, overflowY: 'auto' }}>
+        {viewpoints.map(v => (
+          <div key={v.id} style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 4 }}>
+            <input type="checkbox" title="Include in screenshots" checked={!skipped.has(v.id)} onChange={() => toggleSkip(v.id)} />
+            <input
+              key={v.name}
+              defaultValue={v.name}
+              onBlur={(e) => {
+                const name = e.target.value.trim();
+                if (name && name !== v.name) onChange(viewpoints.map(w => (w.id === v.id ? { ...w, name } : w)));
+                else e.target.value = v.name;
+              }}
+              onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+              style={{ flex: 1, minWidth: 0, padding: '4px 6px', border: '1px solid #ddd', borderRadius: 4, fontSize: 12 }}
+            />
+            <button style={btn} title="Go to this viewpoint" onClick={() => onGo(v)}>Go</button>
+            <button style={{ ...btn, padding: '5px 8px' }} title="Delete viewpoint" onClick={() => onChange(viewpoints.filter(w => w.id !== v.id))}>×</button>
+          </div>
+        ))}
+      </div>
+      <button
+        style={{ ...btn, width: '100%', marginTop: 4, opacity: onSave ? 1 : 0.5, cursor: onSave ? 'pointer' : 'default' }}
+        title={onSave ? undefined : 'Leave the top view to save a viewpoint'}
+        disabled={!onSave}
+        onClick={() => onSave?.()}
+      >Save current view</button>
+      <div style={{ borderTop: '1px solid #eee', marginTop: 10, paddingTop: 10 }}>
+        <label style={{ display: 'block', fontSize: 12, fontWeight: 500, color: '#444', marginBottom: 4 }}>Screenshot size</label>
+        <select value={sizeIndex} onChange={(e) => setSizeIndex(Number(e.target.value))} style={{ width: '100%', padding: '4px 6px', fontSize: 12, border: '1px solid #ddd', borderRadius: 4 }}>
+          {SHOT_SIZES.map((s, i) => <option key={s.label} value={i}>{s.label}</option>)}
+        </select>
+        <button
+          style={{ ...btn, width: '100%', marginTop: 8, background: '#1976d2', borderColor: '#1976d2', color: '#fff', opacity: shots.length ? 1 : 0.5, cursor: shots.length ? 'pointer' : 'default' }}
+          disabled={shots.length === 0}
+          onClick={() => onExport(shots, SHOT_SIZES[sizeIndex].width, SHOT_SIZES[sizeIndex].height)}
+        >{shots.length === 1 ? 'Export 1 screenshot' : `Export ${shots.length} screenshots`}</button>
+      </div>
+    </div>
+  );
+}
+
+// eye height and controls of the walkthrough
+function WalkPanel({ eyeHeight, units, onEyeHeight, onExit }: { eyeHeight: number; units: UnitSettings; onEyeHeight: (h: number) => void; onExit: () => void }) {
+  return (
+    <div style={{ position: 'absolute', left: 12, bottom: 12, width: 240, zIndex: 5, background: 'rgba(255,255,255,0.98)', border: '1px solid #ddd', borderRadius: 8, boxShadow: '0 4px 12px rgba(0,0,0,0.1)', padding: 12, fontSize: 13, color: '#333' }}>
+      <div style={{ fontWeight: 600 }}>Walking</div>
+      <LengthField label="Eye height" units={units} value={eyeHeight} min={0.3} onCommit={(v) => v !== undefined && onEyeHeight(v)} />
+      <div style={{ marginTop: 6, fontSize: 12, color: '#868e96' }}>
+        Click the view to look around with the mouse (Esc releases it). W A S D or the arrow keys walk, Shift runs; walls and furniture are solid.
+      </div>
+      <button onClick={onExit} style={{ marginTop: 10, width: '100%', padding: '6px 12px', border: '1px solid #ccc', borderRadius: 4, fontSize: 13, background: '#fff', color: '#333', cursor: 'pointer' }}>Back to orbit view</button>
+    </div>
+  );
+}
+
+// tile size, direction, offset and scale of the floor material; each field commits as one undo step
+function FloorLayout({ floor, units, onChange }: { floor: FloorFinish; units: UnitSettings; onChange: (patch: Partial<FloorFinish>) => void }) {
+  const { tileSize, offset } = floor;
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', columnGap: 8, marginTop: -8, fontSize: 13 }}>
+      <LengthField label="Tile length" units={units} value={tileSize.x} min={0.01} onCommit={(v) => v !== undefined && onChange({ tileSize: { ...tileSize, x: v } })} />
+      <LengthField label="Tile width" units={units} value={tileSize.y} min={0.01} onCommit={(v) => v !== undefined && onChange({ tileSize: { ...tileSize, y: v } })} />
+      <NumberField label="Direction (°)" value={floor.angle} onCommit={(v) => onChange({ angle: ((v ?? 0) % 360 + 360) % 360 })} />
+      <NumberField label="Scale" value={floor.scale} min={0.01} onCommit={(v) => onChange({ scale: v ?? 1 })} />
+      <LengthField label="Offset along" units={units} value={offset.x} onCommit={(v) => onChange({ offset: { ...offset, x: v ?? 0 } })} />
+      <LengthField label="Offset across" units={units} value={offset.y} onCommit={(v) => onChange({ offset: { ...offset, y: v ?? 0 } })} />
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react';
+import { FiPlus, FiX } from 'react-icons/fi';
+import { type MaterialDef, type UnitSettings } from '../types';
+import { filterMaterials, loadMaterialCatalog, readUserMaterials, writeUserMaterials } from '../utils/materials';
+import { createId } from '../utils/plan';
+import { formatLength } from '../utils/units';
+import { LengthField, NumberField } from './PlanPanels';
+
+const labelStyle: React.CSSProperties = { display: 'block', fontSize: 12, fontWeight: 500, color: '#444', marginBottom: 4 };
+const inputStyle: React.CSSProperties = { width: '100%', padding: '6px 8px', border: '1px solid #ccc', borderRadius: 4, fontSize: 13, boxSizing: 'border-box' };
+const smallBtnStyle: React.CSSProperties = { padding: '4px 10px', border: '1px solid #ccc', borderRadius: 4, fontSize: 12, cursor: 'pointer', backgroundColor: '#fff', color: '#333' };
+
+const MAP_FIELDS = [['albedo', 'Albedo map URL'], ['normal', 'Normal map URL'], ['roughness', 'Roughness map URL'], ['ao', 'AO map URL']] as const;
+
+type Props = {
+  current: MaterialDef | null;
+  units: UnitSettings;
+  onPick: (material: MaterialDef) => void;
+};
+
+// swatch: the thumbnail, else the albedo map, else the plain base color
+function swatchStyle(m: MaterialDef): React.CSSProperties {
+  const image = m.thumbnail ?? m.maps.albedo;
+  return {
+    backgroundColor: m.color,
+    backgroundImage: image ? `url(${image})` : undefined,
+    backgroundSize: 'cover',
+    backgroundPosition: 'center',
+  };
+}
+
+// Searchable grid of the bundled catalog plus the user's own materials, which can be added and removed here
+export default function MaterialPicker({ current, units, onPick }: Props) {
+  const [catalog, setCatalog] = useState<MaterialDef[]>([]);
+  const [catalogErrors, setCatalogErrors] = useState<string[]>([]);
+  const [userMaterials, setUserMaterials] = useState<MaterialDef[]>(() => readUserMaterials());
+  const [query, setQuery] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadMaterialCatalog().then(({ materials, errors }) => {
+      if (cancelled) return;
+      setCatalog(materials);
+      setCatalogErrors(errors);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  const setUser = (list: MaterialDef[]) => {
+    setUserMaterials(list);
+    writeUserMaterials(list);
+  };
+
+  const userIds = new Set(userMaterials.map(m => m.id));
+  const all = [...catalog.filter(m => !userIds.has(m.id)), ...userMaterials];
+  const shown = filterMaterials(all, query);
+
+  return (
+    <div>
+      <label style={labelStyle}>Material{current ? ` · ${current.name}` : ''}</label>
+      <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search wood, tile, stone…" style={inputStyle} />
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 8, marginTop: 8, maxHeight: 200, overflowY: 'auto' }}>
+        {shown.map(m => (
+          <div key={m.id} style={{ position: 'relative' }}>
+            <button
+              title={`${m.name} · ${formatLength(m.tileSize.x, units)} × ${formatLength(m.tileSize.y, units)}`}
+              onClick={() => onPick(m)}
+              style={{
+                ...swatchStyle(m),
+                width: '100%',
+                height: 52,
+                border: `2px solid ${m.id === current?.id ? '#1e90ff' : '#ddd'}`,
+                borderRadius: 4,
+                cursor: 'pointer',
+              }}
+            />
+            <div style={{ fontSize: 11, color: '#555', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{m.name}</div>
+            {userIds.has(m.id) && (
+              <button
+                title={`Remove ${m.name} from my materials`}
+                onClick={() => setUser(userMaterials.filter(u => u.id !== m.id))}
+                style={{ position: 'absolute', top: 2, right: 2, width: 18, height: 18, padding: 0, border: 'none', borderRadius: 9, background: 'rgba(0,0,0,0.55)', color: '#fff', display: 'inline-flex', alignItems: 'center', justifyContent: 'center', cursor: 'pointer' }}
+              ><FiX style={{ fontSize: 12 }} /></button>
+            )}
+          </div>
+        ))}
+        {shown.length === 0 && <div style={{ gridColumn: '1 / -1', fontSize: 12, color: '#868e96' }}>No matching materials</div>}
+      </div>
+      {catalogErrors.map(e => <div key={e} style={{ marginTop: 6, fontSize: 12, color: '#c92a2a' }}>⚠ {e}</div>)}
+      {isAdding ? (
+        <AddMaterialForm
+          units={units}
+          onAdd={(m) => { setUser([...userMaterials, m]); setIsAdding(false); onPick(m); }}
+          onCancel={() => setIsAdding(false)}
+        />
+      ) : (
+        <button onClick={() => setIsAdding(true)} style={{ ...smallBtnStyle, marginTop: 8, display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+          <FiPlus /> Add material
+        </button>
+      )}
+    </div>
+  );
+}
+
+// a user material from map URLs; it is saved in this browser and applied straight away
+function AddMaterialForm({ units, onAdd, onCancel }: { units: UnitSettings; onAdd: (m: MaterialDef) => void; onCancel: () => void }) {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState('#ffffff');
+  const [roughness, setRoughness] = useState(0.8);
+  const [tileSize, setTileSize] = useState({ x: 1, y: 1 });
+  const [maps, setMaps] = useState<MaterialDef['maps']>({});
+
+  const submit = () => {
+    const cleaned: MaterialDef['maps'] = {};
+    for (const [kind] of MAP_FIELDS) {
+      const url = maps[kind]?.trim();
+      if (url) cleaned[kind] = url;
+    }
+    onAdd({ id: createId('material'), name: name.trim(), color, roughness, metalness: 0, tileSize, maps: cleaned });
+  };
+
+  return (
+    <div style={{ marginTop: 10, paddingTop: 8, borderTop: '1px solid #eee', fontSize: 13 }}>
+      <label style={labelStyle}>Name</label>
+      <input value={name} onChange={(e) => setName(e.target.value)} placeholder="My tiles" style={inputStyle} />
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', columnGap: 8 }}>
+        <div style={{ marginTop: 8 }}>
+          <label style={labelStyle}>Base color</label>
+          <input type="color" value={color} onChange={(e) => setColor(e.target.value)} style={{ ...inputStyle, height: 31, padding: 2 }} />
+        </div>
+        <NumberField label="Roughness" value={roughness} min={0} onCommit={(v) => setRoughness(Math.min(1, v ?? 0.8))} />
+        <LengthField label="Tile length" units={units} value={tileSize.x} min={0.01} onCommit={(v) => v !== undefined && setTileSize(t => ({ ...t, x: v }))} />
+        <LengthField label="Tile width" units={units} value={tileSize.y} min={0.01} onCommit={(v) => v !== undefined && setTileSize(t => ({ ...t, y: v }))} />
+      </div>
+      {MAP_FIELDS.map(([kind, label]) => (
+        <div key={kind} style={{ marginTop: 8 }}>
+          <label style={labelStyle}>{label}</label>
+          <input
+            value={maps[kind] ?? ''}
+            onChange={(e) => setMaps(m => ({ ...m, [kind]: e.target.value }))}
+            placeholder="/path/to/map.jpg"
+            style={inputStyle}
+          />
+        </div>
+      ))}
+      <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end', marginTop: 10 }}>
+        <button onClick={onCancel} style={smallBtnStyle}>Cancel</button>
+        <button onClick={submit} disabled={!name.trim()} style={{ ...smallBtnStyle, border: '1px solid #1e90ff', backgroundColor: '#1e90ff', color: '#fff', opacity: name.trim() ? 1 : 0.5 }}>Add</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,607 @@
+import { useState } from 'react';
+import { type Annotation, type FurnitureItem, type LightFixture, type LightKind, type Opening, type TileLayout, type TilePattern, type UnitSettings, type Vec2, type WallSpec } from '../types';
+import { ANNOTATION_LABELS } from '../utils/annotations';
+import { evaluateExpression } from '../utils/expression';
+import { FURNITURE_CATALOG } from '../utils/furniture';
+import { kelvinToHex, LIGHT_LABELS, TEMPERATURE_PRESETS } from '../utils/lighting';
+import { type FurniturePatch, type LengthAnchor, type LightPatch, type OpeningPatch } from '../utils/plan';
+import { type AlignSide } from '../utils/selection';
+import { defaultTileLayout, TILE_PATTERN_LABELS, type TilePlan } from '../utils/tiles';
+import { type Underlay } from '../utils/underlay';
+import { fineUnits, formatArea, formatLength, formatLengthInput, lengthSymbol, parseLength } from '../utils/units';
+
+const panelStyle: React.CSSProperties = {
+  width: 220,
+  background: 'rgba(255,255,255,0.98)',
+  border: '1px solid #ddd',
+  borderRadius: 8,
+  boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
+  padding: 12,
+  fontSize: 13,
+  color: '#333',
+};
+const labelStyle: React.CSSProperties = { display: 'block', fontSize: 12, fontWeight: 500, color: '#444', marginBottom: 4 };
+const inputStyle: React.CSSProperties = { width: '100%', padding: '6px 8px', border: '1px solid #ccc', borderRadius: 4, fontSize: 13, boxSizing: 'border-box' };
+const smallBtnStyle: React.CSSProperties = { padding: '4px 10px', border: '1px solid #ccc', borderRadius: 4, fontSize: 12, cursor: 'pointer', backgroundColor: '#fff', color: '#333' };
+
+type NumberFieldProps = {
+  label: string;
+  value: number | undefined;
+  placeholder?: string;
+  min?: number;
+  onCommit: (v: number | undefined) => void; // undefined when the field is cleared
+};
+
+// Numeric input that commits on blur/Enter, so typing a value is a single undo step
+export function NumberField({ label, value, placeholder, min, onCommit }: NumberFieldProps) {
+  const shown = value === undefined ? '' : String(value);
+  const [draft, setDraft] = useState<string>(shown);
+  const [prevShown, setPrevShown] = useState<string>(shown);
+  if (shown !== prevShown) {
+    setPrevShown(shown);
+    setDraft(shown);
+  }
+  const commit = () => {
+    const trimmed = draft.trim();
+    if (trimmed === '') { if (value !== undefined) onCommit(undefined); return; }
+    const n = Number(trimmed);
+    if (!Number.isFinite(n) || (min !== undefined && n < min)) { setDraft(shown); return; }
+    if (n !== value) onCommit(n);
+  };
+  return (
+    <div style={{ marginTop: 8 }}>
+      <label style={labelStyle}>{label}</label>
+      <input
+        value={draft}
+        placeholder={placeholder}
+        inputMode="decimal"
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+        style={inputStyle}
+      />
+    </div>
+  );
+}
+
+type LengthFieldProps = {
+  label: string; // the unit is appended
+  units: UnitSettings;
+  value: number | undefined; // meters
+  placeholder?: string;
+  min?: number; // meters
+  onCommit: (v: number | undefined) => void; // meters; undefined when the field is cleared
+};
+
+// NumberField for lengths: shown in the project unit, accepts 12' 6 1/2", 3m 25cm or 3.2+0.25
+export function LengthField({ label, units, value, placeholder, min, onCommit }: LengthFieldProps) {
+  const shown = value === undefined ? '' : formatLengthInput(value, units);
+  const [draft, setDraft] = useState<string>(shown);
+  const [prevShown, setPrevShown] = useState<string>(shown);
+  if (shown !== prevShown) {
+    setPrevShown(shown);
+    setDraft(shown);
+  }
+  const commit = () => {
+    const trimmed = draft.trim();
+    if (trimmed === '') { if (value !== undefined) onCommit(undefined); return; }
+    if (trimmed === shown) return; // unchanged; the shown text may be rounded
+    const n = parseLength(trimmed, units);
+    if (n === null || (min !== undefined && n < min)) { setDraft(shown); return; }
+    onCommit(n);
+  };
+  return (
+    <div style={{ marginTop: 8 }}>
+      <label style={labelStyle}>{label} ({lengthSymbol(units)})</label>
+      <input
+        value={draft}
+        placeholder={placeholder}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+        style={inputStyle}
+      />
+    </div>
+  );
+}
+
+type RoomPanelProps = {
+  name: string;
+  areaM2: number; // floor area, holes already subtracted
+  holeAreasM2: number[];
+  wall: WallSpec;
+  units: UnitSettings;
+  onRename: (name: string) => void;
+  onWallChange: (wall: WallSpec) => void;
+  onDeleteHole: (hole: number) => void;
+  onDelete: () => void;
+};
+
+// Overlay for the selected room; the name is committed on blur/Enter so typing is one undo step
+export function RoomPanel({ name, areaM2, holeAreasM2, wall, units, onRename, onWallChange, onDeleteHole, onDelete }: RoomPanelProps) {
+  const [draft, setDraft] = useState<string>(name);
+  const commit = () => {
+    const trimmed = draft.trim();
+    if (trimmed && trimmed !== name) onRename(trimmed);
+    else setDraft(name);
+  };
+  return (
+    <div style={panelStyle}>
+      <label style={labelStyle}>Room name</label>
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+        style={inputStyle}
+      />
+      <LengthField label="Wall height" units={units} value={wall.height} min={0.1} onCommit={(v) => v !== undefined && onWallChange({ ...wall, height: v })} />
+      <LengthField label="Wall thickness" units={units} value={wall.thickness} min={0.01} onCommit={(v) => v !== undefined && onWallChange({ ...wall, thickness: v })} />
+      {holeAreasM2.length > 0 && (
+        <div style={{ marginTop: 8 }}>
+          <label style={labelStyle}>Holes</label>
+          {holeAreasM2.map((a, h) => (
+            <div key={h} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginTop: 4 }}>
+              <span>#{h + 1} · {formatArea(a, units)}</span>
+              <button onClick={() => onDeleteHole(h)} style={smallBtnStyle}>Remove</button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginTop: 10 }}>
+        <span>{formatArea(areaM2, units)}</span>
+        <button onClick={onDelete} style={{ ...smallBtnStyle, border: '1px solid #e57373', color: '#c62828' }}>Delete room</button>
+      </div>
+    </div>
+  );
+}
+
+type WallPanelProps = {
+  lengthM: number;
+  inherited: WallSpec; // what the wall gets from its rooms
+  override: Partial<WallSpec> | undefined;
+  units: UnitSettings;
+  onChange: (override: Partial<WallSpec> | null) => void;
+};
+
+// Per-edge wall overrides; empty fields fall back to the room settings
+export function WallPanel({ lengthM, inherited, override, units, onChange }: WallPanelProps) {
+  return (
+    <div style={{ ...panelStyle, marginTop: 8 }}>
+      <div style={{ fontWeight: 600, marginBottom: 2 }}>Wall · {formatLength(lengthM, units)}</div>
+      <LengthField
+        label="Height override"
+        units={units}
+        value={override?.height}
+        placeholder={`${formatLengthInput(inherited.height, units)} (room)`}
+        min={0.1}
+        onCommit={(v) => onChange({ ...override, height: v })}
+      />
+      <LengthField
+        label="Thickness override"
+        units={units}
+        value={override?.thickness}
+        placeholder={`${formatLengthInput(inherited.thickness, units)} (room)`}
+        min={0.01}
+        onCommit={(v) => onChange({ ...override, thickness: v })}
+      />
+      {override && (
+        <div style={{ marginTop: 10, textAlign: 'right' }}>
+          <button onClick={() => onChange(null)} style={smallBtnStyle}>Use room settings</button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+type OpeningPanelProps = {
+  opening: Opening;
+  units: UnitSettings;
+  onChange: (patch: OpeningPatch) => void;
+  onDelete: () => void;
+};
+
+const toggleBtnStyle = (active: boolean): React.CSSProperties => ({
+  ...smallBtnStyle,
+  flex: 1,
+  background: active ? '#e9ecef' : '#fff',
+  fontWeight: active ? 600 : 400,
+});
+
+// Size and swing of the selected door/window; drag it on the canvas to slide along the wall
+export function OpeningPanel({ opening, units, onChange, onDelete }: OpeningPanelProps) {
+  const isDoor = opening.kind === 'door';
+  return (
+    <div style={{ ...panelStyle, marginTop: 8 }}>
+      <div style={{ fontWeight: 600, marginBottom: 2 }}>{isDoor ? 'Door' : 'Window'}</div>
+      <LengthField label="Width" units={units} value={opening.width} min={0.1} onCommit={(v) => v !== undefined && onChange({ width: v })} />
+      <LengthField label="Height" units={units} value={opening.height} min={0.1} onCommit={(v) => v !== undefined && onChange({ height: v })} />
+      <LengthField label="Sill height" units={units} value={opening.sill} min={0} onCommit={(v) => onChange({ sill: v ?? 0 })} />
+      {isDoor && (
+        <>
+          <label style={{ ...labelStyle, marginTop: 8 }}>Hinge side</label>
+          <div style={{ display: 'flex', gap: 6 }}>
+            <button style={toggleBtnStyle(opening.hinge === 'a')} onClick={() => onChange({ hinge: 'a' })}>Start</button>
+            <button style={toggleBtnStyle(opening.hinge === 'b')} onClick={() => onChange({ hinge: 'b' })}>End</button>
+          </div>
+          <label style={{ ...labelStyle, marginTop: 8 }}>Opens to</label>
+          <div style={{ display: 'flex', gap: 6 }}>
+            <button style={toggleBtnStyle(opening.opensTo === 'left')} onClick={() => onChange({ opensTo: 'left' })}>Left</button>
+            <button style={toggleBtnStyle(opening.opensTo === 'right')} onClick={() => onChange({ opensTo: 'right' })}>Right</button>
+          </div>
+        </>
+      )}
+      <div style={{ marginTop: 10, textAlign: 'right' }}>
+        <button onClick={onDelete} style={{ ...smallBtnStyle, border: '1px solid #e57373', color: '#c62828' }}>Delete {isDoor ? 'door' : 'window'}</button>
+      </div>
+    </div>
+  );
+}
+
+type TileLayoutPanelProps = {
+  layout: TileLayout | null;
+  angle: number; // floor direction, shared with the material
+  tiles: TilePlan | null;
+  startOrigin: Vec2; // where a new layout starts
+  units: UnitSettings;
+  onChange: (layout: TileLayout | null) => void;
+  onAngleChange: (angle: number) => void;
+};
+
+// Tile/plank pattern of the selected room with its piece counts; drag the origin flag on the canvas to shift it
+export function TileLayoutPanel({ layout, angle, tiles, startOrigin, units, onChange, onAngleChange }: TileLayoutPanelProps) {
+  const set = (patch: Partial<TileLayout>) => layout && onChange({ ...layout, ...patch });
+  const fine = fineUnits(units);
+  return (
+    <div style={{ ...panelStyle, marginTop: 8 }}>
+      <label style={labelStyle}>Tile layout</label>
+      <select
+        value={layout?.pattern ?? ''}
+        onChange={(e) => {
+          const pattern = e.target.value as TilePattern | '';
+          if (!pattern) onChange(null);
+          else onChange(layout ? { ...layout, pattern } : defaultTileLayout(pattern, startOrigin));
+        }}
+        style={inputStyle}
+      >
+        <option value="">None</option>
+        {(Object.keys(TILE_PATTERN_LABELS) as TilePattern[]).map(p => <option key={p} value={p}>{TILE_PATTERN_LABELS[p]}</option>)}
+      </select>
+      {layout && (
+        <>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', columnGap: 8 }}>
+            <LengthField label="Length" units={units} value={layout.tile.x} min={0.01} onCommit={(v) => v !== undefined && set({ tile: { ...layout.tile, x: v } })} />
+            <LengthField label="Width" units={units} value={layout.tile.y} min={0.01} onCommit={(v) => v !== undefined && set({ tile: { ...layout.tile, y: v } })} />
+            <LengthField label="Grout" units={fine} value={layout.grout} min={0} onCommit={(v) => set({ grout: v ?? 0 })} />
+            <NumberField label="Direction (°)" value={angle} onCommit={(v) => onAngleChange(((v ?? 0) % 360 + 360) % 360)} />
+            {layout.pattern === 'running-bond' && (
+              <NumberField label="Row offset (× length)" value={layout.bondOffset} min={0} onCommit={(v) => set({ bondOffset: Math.min(1, v ?? 0.5) })} />
+            )}
+            <LengthField label="Sliver below" units={fine} value={layout.minCut} min={0} onCommit={(v) => set({ minCut: v ?? 0 })} />
+            <LengthField label="Origin x" units={units} value={layout.origin.x} onCommit={(v) => set({ origin: { ...layout.origin, x: v ?? 0 } })} />
+            <LengthField label="Origin y" units={units} value={layout.origin.y} onCommit={(v) => set({ origin: { ...layout.origin, y: v ?? 0 } })} />
+          </div>
+          {tiles?.tooMany ? (
+            <div style={{ marginTop: 8, fontSize: 12, color: '#c92a2a' }}>Too many pieces to lay out; use larger tiles.</div>
+          ) : tiles && (
+            <div style={{ marginTop: 8, fontSize: 12, lineHeight: 1.6 }}>
+              <div>{tiles.counts.full} full · {tiles.counts.cut} cut</div>
+              <div style={{ color: tiles.counts.sliver ? '#c92a2a' : '#868e96' }}>{tiles.counts.sliver} unusable sliver{tiles.counts.sliver === 1 ? '' : 's'}</div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+type FurniturePanelProps = {
+  item: FurnitureItem;
+  warnings: string[];
+  units: UnitSettings;
+  onChange: (patch: FurniturePatch) => void;
+  onDelete: () => void;
+};
+
+// Size and rotation of the selected furniture item; drag it on the canvas to move it
+export function FurniturePanel({ item, warnings, units, onChange, onDelete }: FurniturePanelProps) {
+  return (
+    <div style={{ ...panelStyle, marginTop: 8 }}>
+      <div style={{ fontWeight: 600, marginBottom: 2 }}>{item.name}</div>
+      <LengthField label="Width" units={units} value={item.width} min={0.05} onCommit={(v) => v !== undefined && onChange({ width: v })} />
+      <LengthField label="Depth" units={units} value={item.depth} min={0.05} onCommit={(v) => v !== undefined && onChange({ depth: v })} />
+      <LengthField label="Height" units={units} value={item.height} min={0.01} onCommit={(v) => v !== undefined && onChange({ height: v })} />
+      <NumberField label="Rotation (°)" value={+item.rotation.toFixed(1)} onCommit={(v) => onChange({ rotation: ((v ?? 0) % 360 + 360) % 360 })} />
+      {warnings.map(w => <div key={w} style={{ marginTop: 6, fontSize: 12, color: '#c92a2a' }}>⚠ {w}</div>)}
+      <div style={{ marginTop: 10, textAlign: 'right' }}>
+        <button onClick={onDelete} style={{ ...smallBtnStyle, border: '1px solid #e57373', color: '#c62828' }}>Delete item</button>
+      </div>
+    </div>
+  );
+}
+
+type LightPanelProps = {
+  light: LightFixture;
+  units: UnitSettings;
+  onChange: (patch: LightPatch) => void;
+  onDelete: () => void;
+};
+
+// Kind, mounting height, output and color of the selected light fitting; drag its symbol to move it
+export function LightPanel({ light, units, onChange, onDelete }: LightPanelProps) {
+  const preset = TEMPERATURE_PRESETS.find(t => t.kelvin === light.temperature);
+  return (
+    <div style={{ ...panelStyle, marginTop: 8 }}>
+      <div style={{ fontWeight: 600, marginBottom: 6 }}>{LIGHT_LABELS[light.kind]}</div>
+      <div style={{ display: 'flex', gap: 6 }}>
+        {(Object.keys(LIGHT_LABELS) as LightKind[]).map(k => (
+          <button key={k} style={toggleBtnStyle(light.kind === k)} onClick={() => onChange({ kind: k })}>{LIGHT_LABELS[k].split(' ')[0]}</button>
+        ))}
+      </div>
+      <LengthField label="Height above floor" units={units} value={light.height} min={0} onCommit={(v) => v !== undefined && onChange({ height: v })} />
+      <NumberField label="Output (lumens)" value={light.lumens} min={0} onCommit={(v) => v !== undefined && onChange({ lumens: v })} />
+      <label style={{ ...labelStyle, marginTop: 8 }}>Color temperature</label>
+      <div style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+        <span style={{ width: 18, height: 18, flex: 'none', borderRadius: '50%', border: '1px solid #ccc', background: kelvinToHex(light.temperature) }} />
+        <select value={preset ? light.temperature : ''} onChange={(e) => e.target.value && onChange({ temperature: Number(e.target.value) })} style={{ ...inputStyle, padding: '5px 4px' }}>
+          {!preset && <option value="">{light.temperature} K</option>}
+          {TEMPERATURE_PRESETS.map(t => <option key={t.kelvin} value={t.kelvin}>{t.label} · {t.kelvin} K</option>)}
+        </select>
+      </div>
+      <NumberField label="Kelvin" value={light.temperature} min={1000} onCommit={(v) => v !== undefined && onChange({ temperature: Math.min(v, 40000) })} />
+      {light.kind === 'spot' && (
+        <NumberField label="Beam angle (°)" value={light.beam} min={1} onCommit={(v) => v !== undefined && onChange({ beam: Math.min(v, 170) })} />
+      )}
+      <div style={{ marginTop: 10, textAlign: 'right' }}>
+        <button onClick={onDelete} style={{ ...smallBtnStyle, border: '1px solid #e57373', color: '#c62828' }}>Delete light</button>
+      </div>
+    </div>
+  );
+}
+
+type UnderlayPanelProps = {
+  underlay: Underlay | null;
+  error: string | null;
+  isMoving: boolean;
+  isCalibrating: boolean;
+  units: UnitSettings;
+  onLoad: () => void;
+  onChange: (patch: Partial<Pick<Underlay, 'rotation' | 'opacity' | 'locked'>>) => void;
+  onPage: (page: number) => void;
+  onToggleMove: () => void;
+  onCalibrate: () => void;
+  onRemove: () => void;
+};
+
+// Image or PDF page to trace over: opacity, rotation, lock, and the two-point calibration that sets its scale
+export function UnderlayPanel({ underlay: u, error, isMoving, isCalibrating, units, onLoad, onChange, onPage, onToggleMove, onCalibrate, onRemove }: UnderlayPanelProps) {
+  return (
+    <div style={{ ...panelStyle, marginBottom: 8 }}>
+      <div style={{ fontWeight: 600, marginBottom: 2 }}>Underlay</div>
+      {u ? (
+        <>
+          <div style={{ fontSize: 12, color: '#868e96', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={u.source.name}>
+            {u.source.name} · {formatLength(u.source.width * u.metersPerPx, units)} wide
+          </div>
+          {u.source.pdf && u.source.pdf.pages > 1 && (
+            <NumberField label={`PDF page (of ${u.source.pdf.pages})`} value={u.source.pdf.page} min={1} onCommit={(v) => v !== undefined && onPage(Math.min(Math.round(v), u.source.pdf!.pages))} />
+          )}
+          <label style={{ ...labelStyle, marginTop: 8 }}>Opacity {Math.round(u.opacity * 100)}%</label>
+          <input type="range" min={5} max={100} value={Math.round(u.opacity * 100)} onChange={(e) => onChange({ opacity: Number(e.target.value) / 100 })} style={{ width: '100%' }} />
+          {!u.locked && <NumberField label="Rotation (°)" value={+u.rotation.toFixed(2)} onCommit={(v) => onChange({ rotation: v ?? 0 })} />}
+          <label style={{ display: 'flex', alignItems: 'center', gap: 6, marginTop: 8 }}>
+            <input type="checkbox" checked={u.locked} onChange={(e) => onChange({ locked: e.target.checked })} /> Locked
+          </label>
+          {!u.locked && (
+            <div style={{ display: 'flex', gap: 6, marginTop: 8 }}>
+              <button style={{ ...smallBtnStyle, flex: 1, background: isMoving ? '#e3f2fd' : '#fff' }} onClick={onToggleMove}>{isMoving ? 'Done moving' : 'Move'}</button>
+              <button style={{ ...smallBtnStyle, flex: 1, background: isCalibrating ? '#e3f2fd' : '#fff' }} onClick={onCalibrate}>{isCalibrating ? 'Cancel' : 'Calibrate'}</button>
+            </div>
+          )}
+          {isCalibrating && <div style={{ marginTop: 6, fontSize: 12, color: '#868e96' }}>Click two points on the image whose distance you know, then type it.</div>}
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: 10 }}>
+            <button style={smallBtnStyle} onClick={onLoad}>Replace…</button>
+            <button onClick={onRemove} style={{ ...smallBtnStyle, border: '1px solid #e57373', color: '#c62828' }}>Remove</button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div style={{ fontSize: 12, color: '#868e96' }}>Trace rooms over a scanned plan or photo (PNG, JPG or a PDF page).</div>
+          <button style={{ ...smallBtnStyle, marginTop: 8 }} onClick={onLoad}>Load image or PDF…</button>
+        </>
+      )}
+      {error && <div style={{ marginTop: 6, fontSize: 12, color: '#c92a2a' }}>⚠ {error}</div>}
+    </div>
+  );
+}
+
+type GroupPanelProps = {
+  vertexCount: number;
+  edgeCount: number;
+  size: Vec2; // of the selection's bounds
+  pieces: number; // what align and distribute move as one
+  units: UnitSettings;
+  onAlign: (side: AlignSide) => void;
+  onDistribute: (axis: 'x' | 'y') => void;
+  onMirror: (axis: 'vertical' | 'horizontal') => void;
+  onTransform: () => void;
+  onClear: () => void;
+};
+
+// Commands for several selected vertices and edges; drag any of them to move them all, or the pivot marker to set the pivot
+export function GroupPanel({ vertexCount, edgeCount, size, pieces, units, onAlign, onDistribute, onMirror, onTransform, onClear }: GroupPanelProps) {
+  const grid: React.CSSProperties = { display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 6, marginTop: 4 };
+  return (
+    <div style={{ ...panelStyle, marginTop: 8 }}>
+      <div style={{ fontWeight: 600, marginBottom: 2 }}>
+        {vertexCount} vert{vertexCount === 1 ? 'ex' : 'ices'}{edgeCount > 0 && ` · ${edgeCount} edge${edgeCount === 1 ? '' : 's'}`}
+      </div>
+      <div style={{ fontSize: 12, color: '#868e96' }}>{formatLength(size.x, units)} × {formatLength(size.y, units)}</div>
+      <label style={{ ...labelStyle, marginTop: 8 }}>Align</label>
+      <div style={grid}>
+        <button style={smallBtnStyle} disabled={pieces < 2} onClick={() => onAlign('left')}>Left</button>
+        <button style={smallBtnStyle} disabled={pieces < 2} onClick={() => onAlign('right')}>Right</button>
+        <button style={smallBtnStyle} disabled={pieces < 2} onClick={() => onAlign('top')}>Top</button>
+        <button style={smallBtnStyle} disabled={pieces < 2} onClick={() => onAlign('bottom')}>Bottom</button>
+      </div>
+      <label style={{ ...labelStyle, marginTop: 8 }}>Distribute evenly</label>
+      <div style={grid}>
+        <button style={smallBtnStyle} disabled={pieces < 3} onClick={() => onDistribute('x')}>Horizontally</button>
+        <button style={smallBtnStyle} disabled={pieces < 3} onClick={() => onDistribute('y')}>Vertically</button>
+      </div>
+      <label style={{ ...labelStyle, marginTop: 8 }}>Mirror about the pivot</label>
+      <div style={grid}>
+        <button style={smallBtnStyle} onClick={() => onMirror('vertical')}>Left ↔ right</button>
+        <button style={smallBtnStyle} onClick={() => onMirror('horizontal')}>Top ↕ bottom</button>
+      </div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: 10 }}>
+        <button style={smallBtnStyle} onClick={onClear}>Clear selection</button>
+        <button style={smallBtnStyle} onClick={onTransform}>Transform…</button>
+      </div>
+    </div>
+  );
+}
+
+type AnnotationPanelProps = {
+  annotation: Annotation;
+  length: number | null; // what a dimension line measures
+  units: UnitSettings;
+  onChange: (annotation: Annotation) => void;
+  onDelete: () => void;
+};
+
+// Offset of the selected dimension line, or the text of a note or leader (committed on blur/Enter); drag it on the canvas to move it
+export function AnnotationPanel({ annotation, length, units, onChange, onDelete }: AnnotationPanelProps) {
+  const text = annotation.kind === 'dimension' ? '' : annotation.text;
+  const [draft, setDraft] = useState<string>(text);
+  const commit = () => {
+    const trimmed = draft.trim();
+    if (annotation.kind !== 'dimension' && trimmed && trimmed !== text) onChange({ ...annotation, text: trimmed });
+    else setDraft(text);
+  };
+  return (
+    <div style={{ ...panelStyle, marginTop: 8 }}>
+      <div style={{ fontWeight: 600, marginBottom: 2 }}>{ANNOTATION_LABELS[annotation.kind]}{length !== null && ` · ${formatLength(length, units)}`}</div>
+      {annotation.kind === 'dimension' ? (
+        <>
+          <LengthField label="Offset" units={units} value={annotation.offset} onCommit={(v) => onChange({ ...annotation, offset: v ?? 0 })} />
+          <div style={{ marginTop: 6, fontSize: 12, color: '#868e96' }}>
+            {[annotation.a, annotation.b].filter(e => e.vertexId !== null).length} of 2 ends on corners; those follow the corners when they move.
+          </div>
+        </>
+      ) : (
+        <>
+          <label style={{ ...labelStyle, marginTop: 8 }}>Text</label>
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+            style={inputStyle}
+          />
+        </>
+      )}
+      <div style={{ marginTop: 10, textAlign: 'right' }}>
+        <button onClick={onDelete} style={{ ...smallBtnStyle, border: '1px solid #e57373', color: '#c62828' }}>Delete {ANNOTATION_LABELS[annotation.kind].toLowerCase()}</button>
+      </div>
+    </div>
+  );
+}
+
+type FurnitureCatalogProps = {
+  activeId: string | null; // item being placed
+  units: UnitSettings;
+  onPick: (catalogId: string) => void;
+  onClose: () => void;
+};
+
+// Furniture and fixtures by category; picking one arms placement on the canvas
+export function FurnitureCatalog({ activeId, units, onPick, onClose }: FurnitureCatalogProps) {
+  const categories = [...new Set(FURNITURE_CATALOG.map(c => c.category))];
+  return (
+    <div style={{ ...panelStyle, width: 230, maxHeight: '100%', overflowY: 'auto', boxSizing: 'border-box' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <span style={{ fontWeight: 600 }}>Furniture</span>
+        <button onClick={onClose} style={smallBtnStyle}>Close</button>
+      </div>
+      {categories.map(cat => (
+        <div key={cat} style={{ marginTop: 8 }}>
+          <label style={labelStyle}>{cat}</label>
+          {FURNITURE_CATALOG.filter(c => c.category === cat).map(c => (
+            <button
+              key={c.id}
+              title={`Place ${c.name.toLowerCase()}; Escape cancels`}
+              onClick={() => onPick(c.id)}
+              style={{ ...toggleBtnStyle(c.id === activeId), display: 'flex', width: '100%', justifyContent: 'space-between', marginTop: 4, textAlign: 'left' }}
+            >
+              <span>{c.name}</span>
+              <span style={{ color: '#868e96' }}>{formatLength(c.width, units)} × {formatLength(c.depth, units)}</span>
+            </button>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+type MeasureEditorProps = {
+  x: number; // canvas position of the edited label
+  y: number;
+  label: string;
+  unit: string;
+  units?: UnitSettings; // set for lengths: typed and shown in the project unit instead of `unit`
+  value: number;
+  anchor?: LengthAnchor; // shown for lengths: which end of the edge moves
+  onAnchorChange?: (anchor: LengthAnchor) => void;
+  onSubmit: (value: number) => string | null; // returns an error to keep the editor open
+  onCancel: () => void;
+};
+
+// Inline editor for a typed length or angle; accepts expressions such as 3.2+0.25, and lengths such as 12' 6 1/2"
+export function MeasureEditor({ x, y, label, unit, units, value, anchor, onAnchorChange, onSubmit, onCancel }: MeasureEditorProps) {
+  const [draft, setDraft] = useState<string>(units ? formatLengthInput(value, units) : String(+value.toFixed(3)));
+  const [error, setError] = useState<string | null>(null);
+  const parsed = units ? parseLength(draft, units) : evaluateExpression(draft);
+  const preview = parsed === null ? null : units ? formatLengthInput(parsed, units) : String(+parsed.toFixed(4));
+  const suffix = units ? (units.length === 'ft-in' ? '' : lengthSymbol(units)) : unit;
+  const submit = () => {
+    if (parsed === null) { setError(units ? 'Enter a length such as 3.2+0.25, 3m 25cm or 12\' 6 1/2"' : 'Enter a number or an expression like 3.2+0.25'); return; }
+    setError(onSubmit(parsed));
+  };
+  return (
+    <div
+      style={{ ...panelStyle, width: 200, position: 'absolute', left: x, top: y, transform: 'translate(-50%, 12px)', padding: 8, zIndex: 5 }}
+    >
+      <label style={labelStyle}>{label}</label>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+        <input
+          autoFocus
+          value={draft}
+          onFocus={(e) => e.target.select()}
+          onChange={(e) => { setDraft(e.target.value); setError(null); }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') submit();
+            else if (e.key === 'Escape') onCancel();
+          }}
+          style={inputStyle}
+        />
+        <span style={{ color: '#666' }}>{suffix}</span>
+      </div>
+      {preview !== null && preview !== draft.trim() && (
+        <div style={{ marginTop: 4, fontSize: 12, color: '#666' }}>= {preview} {suffix}</div>
+      )}
+      {anchor && onAnchorChange && (
+        <div style={{ display: 'flex', gap: 6, marginTop: 6 }}>
+          <button style={toggleBtnStyle(anchor === 'start')} onClick={() => onAnchorChange('start')} title="Keep the end point, move the start">Start</button>
+          <button style={toggleBtnStyle(anchor === 'both')} onClick={() => onAnchorChange('both')} title="Move both ends symmetrically">Both</button>
+          <button style={toggleBtnStyle(anchor === 'end')} onClick={() => onAnchorChange('end')} title="Keep the start point, move the end">End</button>
+        </div>
+      )}
+      {error && <div style={{ marginTop: 6, fontSize: 12, color: '#c62828' }}>{error}</div>}
+      <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 6, marginTop: 8 }}>
+        <button style={smallBtnStyle} onClick={onCancel}>Cancel</button>
+        <button style={{ ...smallBtnStyle, background: '#1976d2', borderColor: '#1976d2', color: '#fff' }} onClick={submit}>Apply</button>
+      </div>
+    </div>
+  );
+}
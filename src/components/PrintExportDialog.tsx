@@ -0,0 +1,75 @@
+import { useMemo, useState } from 'react';
+import { type FloorPlan, type UnitSettings } from '../types';
+import { downloadBlob } from '../utils/download';
+import { fileBaseName } from '../utils/project';
+import { layoutSheet, PRINT_SCALES, sheetToPdf, sheetToSvg, type Orientation, type PaperSize } from '../utils/sheet';
+
+type Props = {
+  plan: FloorPlan;
+  projectName: string;
+  units: UnitSettings;
+  onClose: () => void;
+};
+
+const PREVIEW_W = 520;
+
+const btnStyle: React.CSSProperties = { padding: '6px 12px', border: '1px solid #ccc', borderRadius: 4, fontSize: 13, cursor: 'pointer', backgroundColor: '#fff', color: '#333' };
+const selectStyle: React.CSSProperties = { padding: '4px 6px', fontSize: 13 };
+
+// Vector export of the plan on a paper sheet at a chosen print scale
+export default function PrintExportDialog({ plan, projectName, units, onClose }: Props) {
+  const [paper, setPaper] = useState<PaperSize>('A4');
+  const [orientation, setOrientation] = useState<Orientation>('landscape');
+  const [scale, setScale] = useState<number>(50);
+  const [grid, setGrid] = useState<boolean>(true);
+  const [date] = useState<Date>(() => new Date());
+
+  const sheet = useMemo(
+    () => layoutSheet(plan, { paper, orientation, scale, grid, title: projectName, date, units }),
+    [plan, paper, orientation, scale, grid, projectName, date, units],
+  );
+  const svg = useMemo(() => sheetToSvg(sheet), [sheet]);
+
+  const download = (blob: Blob, ext: string) => {
+    downloadBlob(blob, `${fileBaseName(projectName, 'blueprint')}-1-${scale}-${paper}.${ext}`);
+  };
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, background: 'rgba(0,0,0,0.35)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 20 }}>
+      <div style={{ width: PREVIEW_W + 32, maxHeight: '90vh', overflow: 'auto', background: '#fff', borderRadius: 8, boxShadow: '0 8px 24px rgba(0,0,0,0.2)', padding: 16, fontSize: 13, color: '#333' }}>
+        <div style={{ fontWeight: 600, fontSize: 15, marginBottom: 10 }}>Export SVG / PDF</div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 10, flexWrap: 'wrap' }}>
+          <label>Paper <select value={paper} onChange={(e) => setPaper(e.target.value as PaperSize)} style={selectStyle}>
+            <option value="A4">A4</option>
+            <option value="A3">A3</option>
+          </select></label>
+          <label><select value={orientation} onChange={(e) => setOrientation(e.target.value as Orientation)} style={selectStyle}>
+            <option value="landscape">Landscape</option>
+            <option value="portrait">Portrait</option>
+          </select></label>
+          <label>Scale <select value={scale} onChange={(e) => setScale(Number(e.target.value))} style={selectStyle}>
+            {PRINT_SCALES.map(s => <option key={s} value={s}>1:{s}</option>)}
+          </select></label>
+          <label style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+            <input type="checkbox" checked={grid} onChange={(e) => setGrid(e.target.checked)} /> 1 m grid
+          </label>
+        </div>
+        {!sheet.fits && (
+          <div style={{ marginTop: 8, padding: '6px 8px', background: '#fff8e1', color: '#5d4037', border: '1px solid #ffe082', borderRadius: 4 }}>
+            The plan does not fit on {paper} at 1:{scale}; parts outside the drawing area are cut off. Try a smaller scale or a larger paper.
+          </div>
+        )}
+        <img
+          alt="Sheet preview"
+          src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`}
+          style={{ display: 'block', width: PREVIEW_W, height: (PREVIEW_W * sheet.height) / sheet.width, marginTop: 10, border: '1px solid #ddd', boxShadow: '0 1px 4px rgba(0,0,0,0.08)' }}
+        />
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8, marginTop: 12 }}>
+          <button style={btnStyle} onClick={onClose}>Close</button>
+          <button style={btnStyle} onClick={() => download(new Blob([svg], { type: 'image/svg+xml' }), 'svg')}>Download SVG</button>
+          <button style={{ ...btnStyle, background: '#1976d2', borderColor: '#1976d2', color: '#fff' }} onClick={() => download(sheetToPdf(sheet), 'pdf')}>Download PDF</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useRef, useState } from 'react';
+import { FiFolder, FiSave, FiX } from 'react-icons/fi';
+import { type LengthUnit, type UnitSettings } from '../types';
+import { INCH_FRACTIONS, LENGTH_UNIT_LABELS } from '../utils/units';
+
+type Props = {
+  name: string;
+  onRename: (name: string) => void;
+  units: UnitSettings;
+  onUnitsChange: (units: UnitSettings) => void;
+  onOpenFile: (file: File) => void;
+  onSave: () => void;
+  restoreFrom?: string | null; // savedAt of a restorable session; shows the restore banner
+  onRestore: () => void;
+  onDismissRestore: () => void;
+  errors: string[];
+  onDismissErrors: () => void;
+};
+
+const btnStyle: React.CSSProperties = { height: 32, padding: '0 10px', border: '1px solid #dcdfe3', borderRadius: 6, background: '#ffffff', display: 'inline-flex', alignItems: 'center', gap: 6, cursor: 'pointer', fontSize: 13, color: '#333' };
+const selectStyle: React.CSSProperties = { height: 32, padding: '0 6px', border: '1px solid #555', borderRadius: 6, background: '#1f1f1f', color: '#eee', fontSize: 13 };
+const bannerStyle: React.CSSProperties = { padding: '6px 12px', display: 'flex', alignItems: 'center', gap: 10, fontSize: 13 };
+
+export default function ProjectBar({ name, onRename, units, onUnitsChange, onOpenFile, onSave, restoreFrom, onRestore, onDismissRestore, errors, onDismissErrors }: Props) {
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [draft, setDraft] = useState<string>(name);
+  const [prevName, setPrevName] = useState<string>(name);
+  if (name !== prevName) {
+    setPrevName(name);
+    setDraft(name);
+  }
+
+  return (
+    <div>
+      <div style={{ padding: '6px 10px', borderBottom: '1px solid #444', display: 'flex', alignItems: 'center', gap: 8, background: '#2a2a2a' }}>
+        <input
+          value={draft}
+          title="Project name"
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={() => { const t = draft.trim(); if (t && t !== name) onRename(t); else setDraft(name); }}
+          onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+          style={{ width: 220, height: 32, padding: '0 8px', border: '1px solid #555', borderRadius: 6, background: '#1f1f1f', color: '#eee', fontSize: 13 }}
+        />
+        <button title="Open project (.json)" style={btnStyle} onClick={() => fileRef.current?.click()}><FiFolder /> Open</button>
+        <button title="Save project (.json)" style={btnStyle} onClick={onSave}><FiSave /> Save</button>
+        <select
+          title="Units for lengths and areas"
+          value={units.length}
+          onChange={(e) => onUnitsChange({ ...units, length: e.target.value as LengthUnit })}
+          style={{ ...selectStyle, marginLeft: 'auto' }}
+        >
+          {Object.entries(LENGTH_UNIT_LABELS).map(([unit, label]) => <option key={unit} value={unit}>{label}</option>)}
+        </select>
+        {units.length === 'ft-in' && (
+          <select
+            title="Round inches to"
+            value={units.fraction}
+            onChange={(e) => onUnitsChange({ ...units, fraction: Number(e.target.value) })}
+            style={selectStyle}
+          >
+            {INCH_FRACTIONS.map(f => <option key={f} value={f}>1/{f}"</option>)}
+          </select>
+        )}
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".json,application/json"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onOpenFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {restoreFrom && (
+        <div style={{ ...bannerStyle, background: '#fff8e1', color: '#5d4037', borderBottom: '1px solid #ffe082' }}>
+          <span>Restore your last session (autosaved {new Date(restoreFrom).toLocaleString()})?</span>
+          <button style={btnStyle} onClick={onRestore}>Restore</button>
+          <button style={btnStyle} onClick={onDismissRestore}>Start fresh</button>
+        </div>
+      )}
+      {errors.length > 0 && (
+        <div style={{ ...bannerStyle, alignItems: 'flex-start', background: '#ffebee', color: '#b71c1c', borderBottom: '1px solid #ef9a9a' }}>
+          <div style={{ flex: 1 }}>
+            <div style={{ fontWeight: 600 }}>Could not open the project:</div>
+            <ul style={{ margin: '2px 0 0 18px' }}>
+              {errors.slice(0, 8).map((err, i) => <li key={i}>{err}</li>)}
+              {errors.length > 8 && <li>…and {errors.length - 8} more</li>}
+            </ul>
+          </div>
+          <button title="Dismiss" style={{ ...btnStyle, width: 32, padding: 0, justifyContent: 'center' }} onClick={onDismissErrors}><FiX /></button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { type UnitSettings, type Vec2 } from '../types';
+import { defaultTemplateValues, TEMPLATE_LABELS, TEMPLATE_PARAMS, templateError, templateOutline, type RoomTemplate } from '../utils/templates';
+import { formatLength } from '../utils/units';
+import { LengthField } from './PlanPanels';
+
+type Props = {
+  units: UnitSettings;
+  onAdd: (points: Vec2[]) => void; // outline centered on (0, 0)
+  onClose: () => void;
+};
+
+const btnStyle: React.CSSProperties = { padding: '6px 12px', border: '1px solid #ccc', borderRadius: 4, fontSize: 13, cursor: 'pointer', backgroundColor: '#fff', color: '#333' };
+const toggleStyle = (active: boolean): React.CSSProperties => ({ ...btnStyle, padding: '6px 8px', background: active ? '#e3f2fd' : '#fff', borderColor: active ? '#1976d2' : '#ccc' });
+
+const PREVIEW_W = 328;
+const PREVIEW_H = 160;
+
+// outline scaled into the preview box, y up like the plan
+function previewPath(pts: Vec2[]): string {
+  const xs = pts.map(p => p.x), ys = pts.map(p => p.y);
+  const minX = Math.min(...xs), maxY = Math.max(...ys);
+  const k = Math.min((PREVIEW_W - 24) / (Math.max(...xs) - minX), (PREVIEW_H - 24) / (maxY - Math.min(...ys)));
+  const ox = (PREVIEW_W - (Math.max(...xs) - minX) * k) / 2, oy = (PREVIEW_H - (maxY - Math.min(...ys)) * k) / 2;
+  return pts.map((p, i) => `${i === 0 ? 'M' : 'L'}${(ox + (p.x - minX) * k).toFixed(1)},${(oy + (maxY - p.y) * k).toFixed(1)}`).join(' ') + ' Z';
+}
+
+// Picks a room shape, sets its dimensions and adds it in the middle of the view
+export default function RoomTemplateDialog({ units, onAdd, onClose }: Props) {
+  const [template, setTemplate] = useState<RoomTemplate>('rectangle');
+  const [values, setValues] = useState<Record<RoomTemplate, Record<string, number>>>(() => ({
+    rectangle: defaultTemplateValues('rectangle'),
+    'l-shape': defaultTemplateValues('l-shape'),
+    't-shape': defaultTemplateValues('t-shape'),
+    'u-shape': defaultTemplateValues('u-shape'),
+    bay: defaultTemplateValues('bay'),
+  }));
+  const v = values[template];
+  const error = templateError(template, v);
+  const outline = templateOutline(template, v);
+  const setValue = (key: string, n: number) => setValues(all => ({ ...all, [template]: { ...all[template], [key]: n } }));
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, background: 'rgba(0,0,0,0.35)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 20 }}>
+      <div style={{ width: 360, background: '#fff', borderRadius: 8, boxShadow: '0 8px 24px rgba(0,0,0,0.2)', padding: 16, fontSize: 13, color: '#333' }}>
+        <div style={{ fontWeight: 600, fontSize: 15, marginBottom: 10 }}>Room from template</div>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+          {(Object.keys(TEMPLATE_LABELS) as RoomTemplate[]).map(t => (
+            <button key={t} style={toggleStyle(template === t)} onClick={() => setTemplate(t)}>{TEMPLATE_LABELS[t]}</button>
+          ))}
+        </div>
+
+        <svg width={PREVIEW_W} height={PREVIEW_H} style={{ display: 'block', marginTop: 10, background: '#f8f9fa', border: '1px solid #e6e8eb', borderRadius: 4 }}>
+          {outline && <path d={previewPath(outline)} fill="#e3f2fd" stroke="#1976d2" strokeWidth={2} strokeLinejoin="round" />}
+        </svg>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', columnGap: 8 }}>
+          {TEMPLATE_PARAMS[template].map(p => (
+            <LengthField key={`${template}-${p.key}`} label={p.label} units={units} value={v[p.key]} min={0} onCommit={(n) => n !== undefined && setValue(p.key, n)} />
+          ))}
+        </div>
+        {outline && (
+          <div style={{ marginTop: 8, color: '#666' }}>
+            {outline.length} corners · {formatLength(Math.max(...outline.map(p => p.x)) - Math.min(...outline.map(p => p.x)), units)} × {formatLength(Math.max(...outline.map(p => p.y)) - Math.min(...outline.map(p => p.y)), units)} overall
+          </div>
+        )}
+        {error && <div style={{ marginTop: 8, color: '#c62828' }}>{error}</div>}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8, marginTop: 14 }}>
+          <button style={btnStyle} onClick={onClose}>Cancel</button>
+          <button
+            style={{ ...btnStyle, background: '#1976d2', borderColor: '#1976d2', color: '#fff', opacity: outline ? 1 : 0.5, cursor: outline ? 'pointer' : 'default' }}
+            disabled={!outline}
+            onClick={() => outline && onAdd(outline)}
+          >Add Room</button>
+        </div>
+      </div>
+    </div>
+  );
+}
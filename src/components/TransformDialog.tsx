@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { type UnitSettings } from '../types';
+import { PIVOT_LABELS, type GroupTransform, type PivotPreset } from '../utils/selection';
+import { LengthField, NumberField } from './PlanPanels';
+
+export type PivotChoice = PivotPreset | 'marker';
+
+type Props = {
+  count: number; // vertices the transform moves
+  units: UnitSettings;
+  hasMarker: boolean; // the pivot marker was dragged away from the center
+  onApply: (t: GroupTransform, pivot: PivotChoice) => string | null; // error message, or null once applied
+  onClose: () => void;
+};
+
+const btnStyle: React.CSSProperties = { padding: '6px 12px', border: '1px solid #ccc', borderRadius: 4, fontSize: 13, cursor: 'pointer', backgroundColor: '#fff', color: '#333' };
+const toggleStyle = (active: boolean): React.CSSProperties => ({ ...btnStyle, flex: 1, background: active ? '#e3f2fd' : '#fff', borderColor: active ? '#1976d2' : '#ccc' });
+
+const KIND_LABELS: Record<GroupTransform['kind'], string> = { move: 'Move', rotate: 'Rotate', scale: 'Scale', mirror: 'Mirror' };
+
+// Exact move, rotation, scale or mirror of the selected vertices and edges about a pivot
+export default function TransformDialog({ count, units, hasMarker, onApply, onClose }: Props) {
+  const [kind, setKind] = useState<GroupTransform['kind']>('move');
+  const [dx, setDx] = useState<number>(0);
+  const [dy, setDy] = useState<number>(0);
+  const [deg, setDeg] = useState<number>(90);
+  const [sx, setSx] = useState<number>(100);
+  const [sy, setSy] = useState<number>(100);
+  const [uniform, setUniform] = useState<boolean>(true);
+  const [axis, setAxis] = useState<'vertical' | 'horizontal'>('vertical');
+  const [pivot, setPivot] = useState<PivotChoice>(hasMarker ? 'marker' : 'center');
+  const [error, setError] = useState<string | null>(null);
+
+  const transform = (): GroupTransform => {
+    switch (kind) {
+      case 'move': return { kind, dx, dy };
+      case 'rotate': return { kind, deg };
+      case 'scale': return { kind, sx: sx / 100, sy: (uniform ? sx : sy) / 100 };
+      case 'mirror': return { kind, axis };
+    }
+  };
+  const apply = () => {
+    const err = onApply(transform(), pivot);
+    setError(err);
+    if (!err) onClose();
+  };
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, background: 'rgba(0,0,0,0.35)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 20 }}>
+      <div style={{ width: 360, background: '#fff', borderRadius: 8, boxShadow: '0 8px 24px rgba(0,0,0,0.2)', padding: 16, fontSize: 13, color: '#333' }}>
+        <div style={{ fontWeight: 600, fontSize: 15, marginBottom: 10 }}>Transform {count} vert{count === 1 ? 'ex' : 'ices'}</div>
+        <div style={{ display: 'flex', gap: 6 }}>
+          {(Object.keys(KIND_LABELS) as GroupTransform['kind'][]).map(k => (
+            <button key={k} style={toggleStyle(kind === k)} onClick={() => { setKind(k); setError(null); }}>{KIND_LABELS[k]}</button>
+          ))}
+        </div>
+
+        {kind === 'move' && (
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', columnGap: 8 }}>
+            <LengthField label="ΔX" units={units} value={dx} onCommit={(v) => setDx(v ?? 0)} />
+            <LengthField label="ΔY" units={units} value={dy} onCommit={(v) => setDy(v ?? 0)} />
+          </div>
+        )}
+        {kind === 'rotate' && <NumberField label="Angle (°, counterclockwise)" value={deg} onCommit={(v) => setDeg(v ?? 0)} />}
+        {kind === 'scale' && (
+          <>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', columnGap: 8 }}>
+              <NumberField label={uniform ? 'Scale (%)' : 'X (%)'} value={sx} min={0.1} onCommit={(v) => v !== undefined && setSx(v)} />
+              {!uniform && <NumberField label="Y (%)" value={sy} min={0.1} onCommit={(v) => v !== undefined && setSy(v)} />}
+            </div>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 6, marginTop: 8 }}>
+              <input type="checkbox" checked={uniform} onChange={(e) => setUniform(e.target.checked)} /> Same in X and Y
+            </label>
+          </>
+        )}
+        {kind === 'mirror' && (
+          <div style={{ display: 'flex', gap: 6, marginTop: 8 }}>
+            <button style={toggleStyle(axis === 'vertical')} onClick={() => setAxis('vertical')}>Left ↔ right</button>
+            <button style={toggleStyle(axis === 'horizontal')} onClick={() => setAxis('horizontal')}>Top ↕ bottom</button>
+          </div>
+        )}
+        {kind !== 'move' && (
+          <div style={{ marginTop: 8 }}>
+            <label style={{ display: 'block', fontSize: 12, fontWeight: 500, color: '#444', marginBottom: 4 }}>Pivot</label>
+            <select value={pivot} onChange={(e) => setPivot(e.target.value as PivotChoice)} style={{ width: '100%', padding: '5px 4px', fontSize: 13 }}>
+              {(Object.keys(PIVOT_LABELS) as PivotPreset[]).map(p => <option key={p} value={p}>{PIVOT_LABELS[p]}</option>)}
+              {hasMarker && <option value="marker">Pivot marker on the plan</option>}
+            </select>
+          </div>
+        )}
+        {error && <div style={{ marginTop: 8, color: '#c62828' }}>{error}</div>}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8, marginTop: 14 }}>
+          <button style={btnStyle} onClick={onClose}>Cancel</button>
+          <button style={{ ...btnStyle, background: '#1976d2', borderColor: '#1976d2', color: '#fff' }} onClick={apply}>Apply</button>
+        </div>
+      </div>
+    </div>
+  );
+}
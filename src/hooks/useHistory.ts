@@ -0,0 +1,96 @@
+import { useCallback, useReducer } from 'react';
+
+const MAX_HISTORY = 200;
+
+type HistoryState<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+  // snapshot taken when a gesture starts; edits until `commit` collapse into one step
+  base: T | null;
+};
+
+type Action<T> =
+  | { type: 'set'; updater: (prev: T) => T }
+  | { type: 'begin' }
+  | { type: 'commit' }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'reset'; value: T };
+
+function pushPast<T>(past: T[], value: T): T[] {
+  const next = [...past, value];
+  return next.length > MAX_HISTORY ? next.slice(next.length - MAX_HISTORY) : next;
+}
+
+function settle<T>(s: HistoryState<T>): HistoryState<T> {
+  if (s.base === null) return s;
+  if (s.base === s.present) return { ...s, base: null };
+  return { past: pushPast(s.past, s.base), present: s.present, future: [], base: null };
+}
+
+function reducer<T>(s: HistoryState<T>, a: Action<T>): HistoryState<T> {
+  switch (a.type) {
+    case 'set': {
+      const next = a.updater(s.present);
+      if (next === s.present) return s;
+      if (s.base !== null) return { ...s, present: next };
+      return { past: pushPast(s.past, s.present), present: next, future: [], base: null };
+    }
+    case 'begin':
+      return s.base !== null ? s : { ...s, base: s.present };
+    case 'commit':
+      return settle(s);
+    case 'undo': {
+      const c = settle(s);
+      if (c.past.length === 0) return c;
+      const prev = c.past[c.past.length - 1];
+      return { past: c.past.slice(0, -1), present: prev, future: [c.present, ...c.future], base: null };
+    }
+    case 'redo': {
+      const c = settle(s);
+      if (c.future.length === 0) return c;
+      const [next, ...rest] = c.future;
+      return { past: pushPast(c.past, c.present), present: next, future: rest, base: null };
+    }
+    case 'reset':
+      return { past: [], present: a.value, future: [], base: null };
+  }
+}
+
+/**
+ * Undoable state. Every `set` outside a transaction is its own step; wrap
+ * continuous gestures (drags, rotations) in `begin`/`commit` so the whole
+ * gesture is undone at once.
+ */
+export function useHistory<T>(initial: T | (() => T)) {
+  const [state, dispatch] = useReducer(
+    reducer as (s: HistoryState<T>, a: Action<T>) => HistoryState<T>,
+    undefined,
+    () => ({
+      past: [],
+      present: typeof initial === 'function' ? (initial as () => T)() : initial,
+      future: [],
+      base: null,
+    }),
+  );
+
+  const set = useCallback((updater: (prev: T) => T) => dispatch({ type: 'set', updater }), []);
+  const begin = useCallback(() => dispatch({ type: 'begin' }), []);
+  const commit = useCallback(() => dispatch({ type: 'commit' }), []);
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+  const reset = useCallback((value: T) => dispatch({ type: 'reset', value }), []);
+
+  return {
+    present: state.present,
+    set,
+    begin,
+    commit,
+    undo,
+    redo,
+    reset,
+    canUndo: state.past.length > 0 || (state.base !== null && state.base !== state.present),
+    canRedo: state.future.length > 0,
+  };
+}
@@ -1 +1,154 @@
-export type Vec2 = { x: number; y: number };
\ No newline at end of file
+export type Vec2 = { x: number; y: number };
+
+export type WallSpec = { height: number; thickness: number };
+
+// PBR surface from the material catalog (format in docs/materials.md); map values are image URLs
+export type MaterialDef = {
+  id: string;
+  name: string;
+  thumbnail?: string; // picker image; falls back to the albedo map, then the base color
+  color: string; // base color '#rrggbb', multiplied with the albedo map
+  roughness: number; // 0..1, multiplied with the roughness map
+  metalness: number; // 0..1
+  tileSize: Vec2; // meters covered by one copy of the maps, boards along x
+  maps: { albedo?: string; normal?: string; roughness?: string; ao?: string };
+  tags?: string[]; // extra search words
+  // quantity estimate inputs; missing ones leave boxes and cost open
+  pack?: MaterialPack;
+  price?: number; // per pack
+  waste?: number; // percent added to the floor area for cuts and breakage
+};
+
+// how much floor one pack covers: a stated area, or a number of planks of a given size
+export type MaterialPack =
+  | { kind: 'area'; area: number } // m² per pack
+  | { kind: 'planks'; count: number; length: number; width: number }; // planks per pack, plank size in meters
+
+// floor covering of a room: a copy of its catalog material, so projects open without the catalog;
+// a null material shows the plain tinted floor
+export type FloorFinish = {
+  material: MaterialDef | null;
+  tileSize: Vec2; // meters covered by one copy of the maps as laid; starts at the material's tileSize
+  angle: number; // board direction, degrees counter-clockwise from plan +x
+  offset: Vec2; // shift along (x) and across (y) the boards, meters
+  scale: number; // multiplies tileSize
+  layout: TileLayout | null; // tile/plank laying plan; null for none
+};
+
+export type TilePattern = 'grid' | 'running-bond' | 'herringbone' | 'diagonal';
+
+// pieces laid over the floor, in the floor's board direction (`angle`); diagonal turns the grid by 45°
+export type TileLayout = {
+  pattern: TilePattern;
+  tile: Vec2; // piece length (along the direction) and width, meters
+  grout: number; // joint width, meters
+  bondOffset: number; // running bond: shift of each row, as a fraction of the piece length
+  origin: Vec2; // plan point a piece corner sits on
+  minCut: number; // cut pieces narrower than this are unusable slivers, meters
+};
+
+export type Room = {
+  id: string;
+  name: string;
+  // outline as ordered vertex ids into FloorPlan.vertices; shared ids make shared walls
+  vertexIds: string[];
+  // interior cutouts (columns, shafts, voids): vertex id loops inside the outline; no walls, no floor
+  holes: string[][];
+  wall: WallSpec; // room-wide wall settings
+  floor: FloorFinish;
+};
+
+export type OpeningKind = 'door' | 'window';
+
+export type Opening = {
+  id: string;
+  kind: OpeningKind;
+  // host wall by its end vertices; `offset` is meters from `a` to the opening's center
+  a: string;
+  b: string;
+  offset: number;
+  width: number;
+  height: number;
+  sill: number; // bottom of the opening above the floor (0 for doors)
+  // door swing: hinge at the `a` or `b` end, leaf opening to the left or right of a -> b
+  hinge: 'a' | 'b';
+  opensTo: 'left' | 'right';
+};
+
+// placed furniture or fixture; `catalogId` picks its plan symbol and 3D model
+export type FurnitureItem = {
+  id: string;
+  catalogId: string;
+  name: string;
+  x: number; // footprint center
+  y: number;
+  rotation: number; // degrees, counter-clockwise
+  width: number; // along the item's local x
+  depth: number; // along its local y; the back is at +y
+  height: number;
+};
+
+// end of a dimension line: pinned to a plan vertex, which it follows, or a free point
+export type AnnotationEnd = { vertexId: string | null; at: Vec2 }; // `at` is used while vertexId is null
+
+export type DimensionAnnotation = {
+  id: string;
+  kind: 'dimension';
+  a: AnnotationEnd;
+  b: AnnotationEnd;
+  offset: number; // meters from the measured points to the dimension line, to the left of a -> b
+};
+export type NoteAnnotation = { id: string; kind: 'note'; at: Vec2; text: string };
+// note with an arrow from the text at `at` to `tip`
+export type LeaderAnnotation = { id: string; kind: 'leader'; at: Vec2; tip: Vec2; text: string };
+export type Annotation = DimensionAnnotation | NoteAnnotation | LeaderAnnotation;
+
+export type LightKind = 'point' | 'spot' | 'ceiling';
+
+// light fitting placed on the plan: a symbol in 2D, a light source in the 3D view
+export type LightFixture = {
+  id: string;
+  kind: LightKind;
+  x: number;
+  y: number;
+  height: number; // meters above the floor
+  lumens: number; // light output
+  temperature: number; // color temperature, kelvin
+  beam: number; // spot lights: full cone angle in degrees; point and ceiling lights ignore it
+};
+
+export type FloorPlan = {
+  vertices: Record<string, Vec2>;
+  rooms: Room[];
+  // per-wall overrides keyed by edgeKey(a, b)
+  wallOverrides: Record<string, Partial<WallSpec>>;
+  openings: Opening[];
+  furniture: FurnitureItem[];
+  annotations: Annotation[];
+  lights: LightFixture[];
+};
+
+// edge `index` of a room runs from vertexIds[index] to vertexIds[index + 1] (wrapping);
+// with `hole` set it is an edge of that hole's loop instead
+export type EdgeRef = { roomId: string; index: number; hole?: number };
+
+// unit for showing and typing lengths; the model itself is always in meters
+export type LengthUnit = 'm' | 'cm' | 'mm' | 'ft-in';
+// `fraction`: denominator feet-inches are rounded to, e.g. 16 for 1/16"
+export type UnitSettings = { length: LengthUnit; fraction: number };
+
+export type LightingPreset = 'daylight' | 'overcast' | 'evening';
+// sky and sun of the 3D view; `hour` (0–24, local solar time) places the sun, with north at plan +y
+export type LightingSettings = { preset: LightingPreset; hour: number; shadows: boolean };
+
+// 2D canvas viewport: world origin is offset from the canvas center, scaled by pxPerM
+export type View2D = { offset: Vec2; pxPerM: number };
+
+export type CameraView = {
+  position: [number, number, number];
+  target: [number, number, number];
+  fov: number;
+};
+
+// named 3D camera saved with the project
+export type Viewpoint = CameraView & { id: string; name: string };
@@ -0,0 +1,63 @@
+import { type Annotation, type AnnotationEnd, type DimensionAnnotation, type FloorPlan, type UnitSettings, type Vec2 } from '../types';
+import { formatLength } from './units';
+
+/**
+ * Dimension lines, notes and leaders over the plan. Each annotation comes down
+ * to lines, arrowheads and labels in plan coordinates, which the canvas, the
+ * print sheet and the DXF export each draw at their own sizes.
+ */
+
+export type AnnotationShape = {
+  lines: [Vec2, Vec2][];
+  arrows: { tip: Vec2; dir: Vec2 }[]; // dir: unit vector pointing into the tip
+  labels: { at: Vec2; text: string }[];
+};
+
+export const ANNOTATION_LABELS: Record<Annotation['kind'], string> = { dimension: 'Dimension', note: 'Note', leader: 'Leader' };
+
+const EXT_GAP = 0.05; // extension lines start this far from the measured point
+const EXT_OVERSHOOT = 0.1; // and run this far past the dimension line
+
+export function endPoint(plan: FloorPlan, end: AnnotationEnd): Vec2 {
+  return (end.vertexId !== null && plan.vertices[end.vertexId]) || end.at;
+}
+
+export function dimensionLength(plan: FloorPlan, d: DimensionAnnotation): number {
+  const p = endPoint(plan, d.a), q = endPoint(plan, d.b);
+  return Math.hypot(q.x - p.x, q.y - p.y);
+}
+
+// signed distance of `p` from the measured line, positive to the left of a -> b; the offset that puts the dimension line through `p`
+export function dimensionOffsetAt(plan: FloorPlan, a: AnnotationEnd, b: AnnotationEnd, p: Vec2): number {
+  const s = endPoint(plan, a), e = endPoint(plan, b);
+  const len = Math.hypot(e.x - s.x, e.y - s.y);
+  if (len < 1e-9) return 0;
+  return ((e.x - s.x) * (p.y - s.y) - (e.y - s.y) * (p.x - s.x)) / len;
+}
+
+export function annotationShape(plan: FloorPlan, a: Annotation, units: UnitSettings): AnnotationShape {
+  if (a.kind === 'note') return { lines: [], arrows: [], labels: [{ at: a.at, text: a.text }] };
+  if (a.kind === 'leader') {
+    const len = Math.hypot(a.tip.x - a.at.x, a.tip.y - a.at.y) || 1;
+    const dir = { x: (a.tip.x - a.at.x) / len, y: (a.tip.y - a.at.y) / len };
+    return { lines: [[a.at, a.tip]], arrows: [{ tip: a.tip, dir }], labels: [{ at: a.at, text: a.text }] };
+  }
+
+  const p = endPoint(plan, a.a), q = endPoint(plan, a.b);
+  const len = Math.hypot(q.x - p.x, q.y - p.y);
+  if (len < 1e-9) return { lines: [], arrows: [], labels: [{ at: p, text: formatLength(0, units) }] };
+  const dir = { x: (q.x - p.x) / len, y: (q.y - p.y) / len };
+  const out = (v: Vec2, t: number): Vec2 => ({ x: v.x - dir.y * t, y: v.y + dir.x * t });
+  const p2 = out(p, a.offset), q2 = out(q, a.offset);
+  const lines: [Vec2, Vec2][] = [[p2, q2]];
+  // extension lines from just off the measured points to just past the dimension line
+  const side = Math.sign(a.offset);
+  if (Math.abs(a.offset) > EXT_GAP) {
+    for (const v of [p, q]) lines.push([out(v, side * EXT_GAP), out(v, a.offset + side * EXT_OVERSHOOT)]);
+  }
+  return {
+    lines,
+    arrows: [{ tip: p2, dir: { x: -dir.x, y: -dir.y } }, { tip: q2, dir }],
+    labels: [{ at: { x: (p2.x + q2.x) / 2, y: (p2.y + q2.y) / 2 }, text: formatLength(len, units) }],
+  };
+}
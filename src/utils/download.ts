@@ -0,0 +1,15 @@
+// Saves a blob through a temporary link. The object URL is revoked on the next
+// task: revoking it right after click() can cancel large downloads in some browsers.
+export function downloadBlob(blob: Blob, name: string): void {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, name);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// saves a data: or object URL as `name`
+export function downloadUrl(url: string, name: string): void {
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  a.click();
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { type FloorPlan } from '../types';
+import { DXF_LAYERS, dxfToMeters, exportDxf, parseDxf, type DxfDrawing } from './dxf';
+import { addHole, addRoom } from './plan';
+import { DEFAULT_UNITS } from './units';
+
+// a DXF file from group code / value pairs
+function dxf(...groups: [number, string | number][]): string {
+  return groups.flatMap(([c, v]) => [String(c), String(v)]).join('\r\n') + '\r\n';
+}
+
+const entities = (...groups: [number, string | number][]) => dxf([0, 'SECTION'], [2, 'ENTITIES'], ...groups, [0, 'ENDSEC'], [0, 'EOF']);
+
+const square: [number, string | number][] = [[0, 'LWPOLYLINE'], [8, 'WALLS'], [90, 4], [70, 1], [10, 0], [20, 0], [10, 4], [20, 0], [10, 4], [20, 3], [10, 0], [20, 3]];
+
+function drawing(text: string): DxfDrawing {
+  const result = parseDxf(text);
+  if (!result.ok) throw new Error(result.errors.join('\n'));
+  return result.drawing;
+}
+
+describe('exportDxf', () => {
+  const empty: FloorPlan = { vertices: {}, rooms: [], wallOverrides: {}, openings: [], furniture: [], annotations: [], lights: [] };
+  const outline = [{ x: 0, y: 0 }, { x: 5, y: 0 }, { x: 5, y: 4 }, { x: 0, y: 4 }];
+  const column = [{ x: 2, y: 2 }, { x: 2.5, y: 2 }, { x: 2.5, y: 2.5 }, { x: 2, y: 2.5 }];
+  const plan = addHole(addRoom(empty, 'r1', outline, 'Kitchen'), 'r1', column);
+  const text = exportDxf(plan, DEFAULT_UNITS);
+
+  it('writes a complete file in meters with unique handles', () => {
+    expect(text.startsWith('0\r\nSECTION\r\n2\r\nHEADER\r\n')).toBe(true);
+    expect(text.endsWith('0\r\nEOF\r\n')).toBe(true);
+    const lines = text.split('\r\n');
+    const handles = lines.filter((_, i) => i % 2 === 1 && lines[i - 1] === '5');
+    expect(new Set(handles).size).toBe(handles.length);
+  });
+
+  it('reads back its outlines and holes on the outline layer', () => {
+    const d = drawing(text);
+    expect(d.unitsCode).toBe(6);
+    expect(d.polylines.map(p => p.layer)).toEqual([DXF_LAYERS.outline, DXF_LAYERS.outline]);
+    expect(d.polylines.map(p => p.points)).toEqual([outline, column]);
+  });
+
+  it('labels rooms with their name and area', () => {
+    expect(text).toContain('\r\nKitchen\r\n');
+    expect(text).toContain('19.75 m\\U+00B2');
+  });
+});
+
+describe('parseDxf', () => {
+  it('reads closed lightweight polylines and the drawing units', () => {
+    const d = drawing(dxf([0, 'SECTION'], [2, 'HEADER'], [9, '$INSUNITS'], [70, 4], [0, 'ENDSEC'], [0, 'SECTION'], [2, 'ENTITIES'], ...square, [0, 'ENDSEC'], [0, 'EOF']));
+    expect(d.unitsCode).toBe(4);
+    expect(d.polylines).toEqual([{ layer: 'WALLS', points: [{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 4, y: 3 }, { x: 0, y: 3 }] }]);
+    expect(d.warnings).toEqual([]);
+  });
+
+  it('reads old-style polylines and closes outlines that end where they start', () => {
+    const vertex = (x: number, y: number): [number, string | number][] => [[0, 'VERTEX'], [8, '0'], [10, x], [20, y]];
+    const d = drawing(entities(
+      [0, 'POLYLINE'], [8, 'ROOMS'], [66, 1], [70, 0],
+      ...vertex(0, 0), ...vertex(2, 0), ...vertex(2, 2), ...vertex(0, 0),
+      [0, 'SEQEND'], [8, 'ROOMS'],
+    ));
+    expect(d.polylines).toEqual([{ layer: 'ROOMS', points: [{ x: 0, y: 0 }, { x: 2, y: 0 }, { x: 2, y: 2 }] }]);
+  });
+
+  it('flattens arc segments onto their circle', () => {
+    // a half circle of radius 1 from (1, 0) round to (-1, 0), closed by the straight diameter
+    const d = drawing(entities([0, 'LWPOLYLINE'], [90, 2], [70, 1], [10, 1], [20, 0], [42, 1], [10, -1], [20, 0]));
+    const pts = d.polylines[0].points;
+    expect(pts.length).toBeGreaterThan(4);
+    for (const p of pts) expect(Math.hypot(p.x, p.y)).toBeCloseTo(1);
+    expect(pts.every(p => p.y >= -1e-9)).toBe(true);
+    expect(d.warnings).toEqual(['Arc segments in 1 polyline was approximated with straight segments.']);
+  });
+
+  it('reports what it skipped', () => {
+    const d = drawing(entities(
+      [0, 'LINE'], [10, 0], [20, 0], [11, 1], [21, 1],
+      [0, 'CIRCLE'], [10, 0], [20, 0], [40, 1],
+      [0, 'LINE'], [10, 0], [20, 0], [11, 1], [21, 1],
+      [0, 'LWPOLYLINE'], [90, 2], [70, 0], [10, 0], [20, 0], [10, 1], [20, 0],
+    ));
+    expect(d.polylines).toEqual([]);
+    expect(d.warnings).toEqual([
+      'Ignored unsupported entities: 2 LINE, 1 CIRCLE.',
+      'Skipped 1 open polyline; only closed outlines can become rooms.',
+      'No closed polylines found in the ENTITIES section.',
+    ]);
+  });
+
+  it('rejects files it cannot read', () => {
+    expect(parseDxf('AutoCAD Binary DXF\r\n')).toEqual({ ok: false, errors: ['Binary DXF is not supported; save the drawing as ASCII DXF.'] });
+    expect(parseDxf(dxf([0, 'EOF']))).toEqual({ ok: false, errors: ['Not a DXF file (no SECTION found).'] });
+    expect(parseDxf('hello\nworld\n').ok).toBe(false);
+  });
+});
+
+describe('dxfToMeters', () => {
+  it('scales by the drawing units, taking undeclared units as meters', () => {
+    expect(dxfToMeters([{ x: 1000, y: 2500 }], 4)).toEqual([{ x: 1, y: 2.5 }]);
+    expect(dxfToMeters([{ x: 2, y: 3 }], 0)).toEqual([{ x: 2, y: 3 }]);
+  });
+});
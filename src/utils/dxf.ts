@@ -0,0 +1,354 @@
+import { type FloorPlan, type UnitSettings, type Vec2 } from '../types';
+import { annotationShape } from './annotations';
+import { polygonCentroid } from './geometry';
+import { holePoints, roomArea, roomPoints } from './plan';
+import { formatArea, formatLength } from './units';
+import { buildWalls } from './walls';
+
+/**
+ * DXF (R2000, ASCII) import/export of the 2D plan. Plan coordinates are meters
+ * with y up, which is also the DXF convention, so no axis flip is needed.
+ */
+
+export const DXF_LAYERS = { outline: 'OUTLINE', dimensions: 'DIMENSIONS', labels: 'LABELS', annotations: 'ANNOTATIONS' } as const;
+
+// $INSUNITS codes -> meters per drawing unit
+export const DXF_UNITS: Record<number, { name: string; meters: number }> = {
+  1: { name: 'inches', meters: 0.0254 },
+  2: { name: 'feet', meters: 0.3048 },
+  3: { name: 'miles', meters: 1609.344 },
+  4: { name: 'millimeters', meters: 0.001 },
+  5: { name: 'centimeters', meters: 0.01 },
+  6: { name: 'meters', meters: 1 },
+  7: { name: 'kilometers', meters: 1000 },
+  8: { name: 'microinches', meters: 2.54e-8 },
+  9: { name: 'mils', meters: 2.54e-5 },
+  10: { name: 'yards', meters: 0.9144 },
+  11: { name: 'angstroms', meters: 1e-10 },
+  12: { name: 'nanometers', meters: 1e-9 },
+  13: { name: 'microns', meters: 1e-6 },
+  14: { name: 'decimeters', meters: 0.1 },
+};
+export const DXF_METERS = 6;
+
+const DIM_GAP = 0.3; // dimension line distance from the outer wall face
+const DIM_TEXT_H = 0.12;
+const NAME_TEXT_H = 0.25;
+const AREA_TEXT_H = 0.18;
+const NOTE_TEXT_H = 0.15;
+const ARROW = 0.1; // arrowhead length
+
+// --- export ---
+
+export function exportDxf(plan: FloorPlan, units: UnitSettings): string {
+  const out: string[] = [];
+  const pair = (code: number, value: string | number) => {
+    out.push(String(code), typeof value === 'number' ? num(value) : value);
+  };
+  let nextHandle = 0x10;
+  const handle = () => (nextHandle++).toString(16).toUpperCase();
+
+  // handles that other records point at are allocated up front
+  const ltypeTable = handle(), layerTable = handle(), styleTable = handle(), blockRecordTable = handle();
+  const modelRecord = handle(), paperRecord = handle(), rootDict = handle();
+
+  const entities: string[] = [];
+  const entity = (type: string, layer: string, subclass: string, body: [number, string | number][]) => {
+    const parts: [number, string | number][] = [[0, type], [5, handle()], [330, modelRecord], [100, 'AcDbEntity'], [8, layer], [100, subclass], ...body];
+    for (const [c, v] of parts) entities.push(String(c), typeof v === 'number' ? num(v) : v);
+  };
+  const line = (layer: string, p: Vec2, q: Vec2) => {
+    entity('LINE', layer, 'AcDbLine', [[10, p.x], [20, p.y], [30, 0], [11, q.x], [21, q.y], [31, 0]]);
+  };
+  // text centered (horizontally and vertically) on `at`
+  const text = (layer: string, at: Vec2, height: number, value: string, rotationDeg = 0) => {
+    entity('TEXT', layer, 'AcDbText', [
+      [10, at.x], [20, at.y], [30, 0], [40, height], [1, value], [50, rotationDeg], [72, 1],
+      [11, at.x], [21, at.y], [31, 0], [100, 'AcDbText'], [73, 2],
+    ]);
+  };
+
+  // room outlines and their holes, all closed polylines
+  for (const room of plan.rooms) {
+    for (const pts of [roomPoints(plan, room), ...room.holes.map((_, h) => holePoints(plan, room, h))]) {
+      const body: [number, string | number][] = [[90, pts.length], [70, 1], [43, 0]];
+      for (const p of pts) body.push([10, p.x], [20, p.y]);
+      entity('LWPOLYLINE', DXF_LAYERS.outline, 'AcDbPolyline', body);
+    }
+  }
+
+  // one aligned dimension per wall, on its outer side
+  for (const w of buildWalls(plan)) {
+    const a = plan.vertices[w.a], b = plan.vertices[w.b];
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    if (len < 1e-6) continue;
+    const dir = { x: (b.x - a.x) / len, y: (b.y - a.y) / len };
+    // left normal; flip to the right when that is the wall's outer face
+    const side = w.right >= w.left ? -1 : 1;
+    const n = { x: -dir.y * side, y: dir.x * side };
+    const face = Math.max(w.left, w.right);
+    const off = (p: Vec2, d: number) => ({ x: p.x + n.x * d, y: p.y + n.y * d });
+    const dimA = off(a, face + DIM_GAP), dimB = off(b, face + DIM_GAP);
+    line(DXF_LAYERS.dimensions, off(a, face + 0.05), off(a, face + DIM_GAP + 0.1));
+    line(DXF_LAYERS.dimensions, off(b, face + 0.05), off(b, face + DIM_GAP + 0.1));
+    line(DXF_LAYERS.dimensions, dimA, dimB);
+    // architectural ticks at both ends
+    const t = { x: (dir.x + n.x) * 0.05, y: (dir.y + n.y) * 0.05 };
+    for (const p of [dimA, dimB]) line(DXF_LAYERS.dimensions, { x: p.x - t.x, y: p.y - t.y }, { x: p.x + t.x, y: p.y + t.y });
+    // keep the text upright
+    let angle = (Math.atan2(dir.y, dir.x) * 180) / Math.PI;
+    if (angle > 90) angle -= 180;
+    else if (angle <= -90) angle += 180;
+    const mid = off({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }, face + DIM_GAP + DIM_TEXT_H);
+    text(DXF_LAYERS.dimensions, mid, DIM_TEXT_H, formatLength(len, units), angle);
+  }
+
+  for (const room of plan.rooms) {
+    const pts = roomPoints(plan, room);
+    const c = polygonCentroid(pts);
+    text(DXF_LAYERS.labels, { x: c.x, y: c.y + NAME_TEXT_H * 0.7 }, NAME_TEXT_H, room.name);
+    text(DXF_LAYERS.labels, { x: c.x, y: c.y - AREA_TEXT_H * 0.9 }, AREA_TEXT_H, formatArea(roomArea(plan, room), units).replace('²', '\\U+00B2'));
+  }
+
+  // dimension lines, notes and leaders; dimension text runs upright along its line, just above it
+  for (const a of plan.annotations) {
+    const shape = annotationShape(plan, a, units);
+    const layer = DXF_LAYERS.annotations;
+    for (const [p, q] of shape.lines) line(layer, p, q);
+    for (const { tip, dir } of shape.arrows) {
+      for (const s of [1, -1]) line(layer, tip, { x: tip.x - (dir.x - dir.y * s * 0.35) * ARROW, y: tip.y - (dir.y + dir.x * s * 0.35) * ARROW });
+    }
+    for (const l of shape.labels) {
+      const main = a.kind === 'dimension' ? shape.lines[0] : undefined;
+      let angle = main ? (Math.atan2(main[1].y - main[0].y, main[1].x - main[0].x) * 180) / Math.PI : 0;
+      if (angle > 90) angle -= 180;
+      else if (angle <= -90) angle += 180;
+      const th = (angle * Math.PI) / 180, lift = main ? NOTE_TEXT_H : 0;
+      text(layer, { x: l.at.x - Math.sin(th) * lift, y: l.at.y + Math.cos(th) * lift }, NOTE_TEXT_H, l.text, angle);
+    }
+  }
+
+  // TABLES
+  pair(0, 'SECTION'); pair(2, 'TABLES');
+  const table = (name: string, h: string, count: number) => {
+    pair(0, 'TABLE'); pair(2, name); pair(5, h); pair(330, '0'); pair(100, 'AcDbSymbolTable'); pair(70, count);
+  };
+  const record = (type: string, owner: string, subclass: string) => {
+    pair(0, type); pair(5, handle()); pair(330, owner); pair(100, 'AcDbSymbolTableRecord'); pair(100, subclass);
+  };
+  table('LTYPE', ltypeTable, 1);
+  record('LTYPE', ltypeTable, 'AcDbLinetypeTableRecord');
+  pair(2, 'CONTINUOUS'); pair(70, 0); pair(3, 'Solid line'); pair(72, 65); pair(73, 0); pair(40, 0);
+  pair(0, 'ENDTAB');
+  const layers: [string, number][] = [['0', 7], [DXF_LAYERS.outline, 7], [DXF_LAYERS.dimensions, 1], [DXF_LAYERS.labels, 5], [DXF_LAYERS.annotations, 3]];
+  table('LAYER', layerTable, layers.length);
+  for (const [name, color] of layers) {
+    record('LAYER', layerTable, 'AcDbLayerTableRecord');
+    pair(2, name); pair(70, 0); pair(62, color); pair(6, 'CONTINUOUS');
+  }
+  pair(0, 'ENDTAB');
+  table('STYLE', styleTable, 1);
+  record('STYLE', styleTable, 'AcDbTextStyleTableRecord');
+  pair(2, 'STANDARD'); pair(70, 0); pair(40, 0); pair(41, 1); pair(50, 0); pair(71, 0); pair(42, 0.2); pair(3, 'txt'); pair(4, '');
+  pair(0, 'ENDTAB');
+  table('BLOCK_RECORD', blockRecordTable, 2);
+  for (const [h, name] of [[modelRecord, '*Model_Space'], [paperRecord, '*Paper_Space']]) {
+    pair(0, 'BLOCK_RECORD'); pair(5, h); pair(330, blockRecordTable); pair(100, 'AcDbSymbolTableRecord'); pair(100, 'AcDbBlockTableRecord'); pair(2, name);
+  }
+  pair(0, 'ENDTAB');
+  pair(0, 'ENDSEC');
+
+  // BLOCKS
+  pair(0, 'SECTION'); pair(2, 'BLOCKS');
+  for (const [owner, name] of [[modelRecord, '*Model_Space'], [paperRecord, '*Paper_Space']]) {
+    pair(0, 'BLOCK'); pair(5, handle()); pair(330, owner); pair(100, 'AcDbEntity'); pair(8, '0'); pair(100, 'AcDbBlockBegin');
+    pair(2, name); pair(70, 0); pair(10, 0); pair(20, 0); pair(30, 0); pair(3, name); pair(1, '');
+    pair(0, 'ENDBLK'); pair(5, handle()); pair(330, owner); pair(100, 'AcDbEntity'); pair(8, '0'); pair(100, 'AcDbBlockEnd');
+  }
+  pair(0, 'ENDSEC');
+
+  pair(0, 'SECTION'); pair(2, 'ENTITIES');
+  out.push(...entities);
+  pair(0, 'ENDSEC');
+
+  pair(0, 'SECTION'); pair(2, 'OBJECTS');
+  pair(0, 'DICTIONARY'); pair(5, rootDict); pair(330, '0'); pair(100, 'AcDbDictionary'); pair(281, 1);
+  pair(0, 'ENDSEC');
+  pair(0, 'EOF');
+
+  // HEADER goes first but is written last, once $HANDSEED is known
+  const body = out.splice(0);
+  pair(0, 'SECTION'); pair(2, 'HEADER');
+  pair(9, '$ACADVER'); pair(1, 'AC1015');
+  pair(9, '$HANDSEED'); pair(5, handle());
+  pair(9, '$INSUNITS'); pair(70, DXF_METERS);
+  pair(9, '$MEASUREMENT'); pair(70, 1);
+  pair(0, 'ENDSEC');
+  return [...out, ...body].join('\r\n') + '\r\n';
+}
+
+function num(n: number): string {
+  return String(+n.toFixed(6));
+}
+
+// --- import ---
+
+export type DxfPolyline = {
+  layer: string;
+  points: Vec2[]; // drawing units; arcs already flattened
+};
+
+export type DxfDrawing = {
+  unitsCode: number; // $INSUNITS, 0 when the drawing does not declare units
+  polylines: DxfPolyline[]; // closed outlines only
+  warnings: string[]; // everything that was skipped or approximated
+};
+
+export type DxfParseResult = { ok: true; drawing: DxfDrawing } | { ok: false; errors: string[] };
+
+type Group = { code: number; value: string };
+
+export function parseDxf(text: string): DxfParseResult {
+  if (text.startsWith('AutoCAD Binary DXF')) {
+    return { ok: false, errors: ['Binary DXF is not supported; save the drawing as ASCII DXF.'] };
+  }
+  const lines = text.split(/\r?\n/);
+  const groups: Group[] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = Number(lines[i].trim());
+    if (!Number.isInteger(code)) return { ok: false, errors: [`Line ${i + 1}: expected a group code, found ${JSON.stringify(lines[i].slice(0, 40))}.`] };
+    groups.push({ code, value: lines[i + 1].trim() });
+  }
+  if (!groups.some(g => g.code === 0 && g.value === 'SECTION')) {
+    return { ok: false, errors: ['Not a DXF file (no SECTION found).'] };
+  }
+
+  let unitsCode = 0;
+  const polylines: DxfPolyline[] = [];
+  const unsupported = new Map<string, number>();
+  let openCount = 0, degenerateCount = 0, bulgedCount = 0;
+  const skip = (type: string) => unsupported.set(type, (unsupported.get(type) ?? 0) + 1);
+
+  // closes and cleans up a polyline; `bulges[i]` belongs to the segment starting at point i
+  const addPolyline = (layer: string, pts: Vec2[], bulges: number[], closed: boolean) => {
+    const same = (p: Vec2, q: Vec2) => Math.abs(p.x - q.x) < 1e-9 && Math.abs(p.y - q.y) < 1e-9;
+    if (!closed && pts.length > 3 && same(pts[0], pts[pts.length - 1])) {
+      pts = pts.slice(0, -1);
+      closed = true;
+    }
+    if (!closed) { openCount++; return; }
+    const flat: Vec2[] = [];
+    let bulged = false;
+    pts.forEach((p, i) => {
+      flat.push(p);
+      const b = bulges[i] ?? 0;
+      if (Math.abs(b) > 1e-9) {
+        bulged = true;
+        flat.push(...arcPoints(p, pts[(i + 1) % pts.length], b));
+      }
+    });
+    const clean = flat.filter((p, i) => !same(p, flat[(i + 1) % flat.length]));
+    if (clean.length < 3) { degenerateCount++; return; }
+    if (bulged) bulgedCount++;
+    polylines.push({ layer, points: clean });
+  };
+
+  let section = '';
+  let i = 0;
+  while (i < groups.length) {
+    const g = groups[i];
+    if (g.code === 0 && g.value === 'SECTION') {
+      section = groups[i + 1]?.code === 2 ? groups[i + 1].value : '';
+      i += 2;
+      continue;
+    }
+    if (g.code === 0 && g.value === 'ENDSEC') { section = ''; i++; continue; }
+
+    if (section === 'HEADER' && g.code === 9 && g.value === '$INSUNITS') {
+      const v = groups[i + 1];
+      if (v && v.code === 70) unitsCode = Number(v.value) || 0;
+      i += 2;
+      continue;
+    }
+
+    if (section === 'ENTITIES' && g.code === 0) {
+      const type = g.value;
+      const body = entityBody(groups, i + 1);
+      i += 1 + body.length;
+      const layer = body.find(b => b.code === 8)?.value ?? '0';
+      const flags = Number(body.find(b => b.code === 70)?.value ?? 0);
+
+      if (type === 'LWPOLYLINE') {
+        const pts: Vec2[] = [];
+        const bulges: number[] = [];
+        for (const b of body) {
+          if (b.code === 10) pts.push({ x: Number(b.value), y: 0 });
+          else if (b.code === 20 && pts.length) pts[pts.length - 1].y = Number(b.value);
+          else if (b.code === 42 && pts.length) bulges[pts.length - 1] = Number(b.value);
+        }
+        addPolyline(layer, pts, bulges, (flags & 1) === 1);
+      } else if (type === 'POLYLINE') {
+        // old-style polyline: VERTEX entities follow until SEQEND
+        const pts: Vec2[] = [];
+        const bulges: number[] = [];
+        while (i < groups.length && groups[i].code === 0 && groups[i].value === 'VERTEX') {
+          const vb = entityBody(groups, i + 1);
+          i += 1 + vb.length;
+          pts.push({ x: Number(vb.find(b => b.code === 10)?.value ?? 0), y: Number(vb.find(b => b.code === 20)?.value ?? 0) });
+          bulges.push(Number(vb.find(b => b.code === 42)?.value ?? 0));
+        }
+        if (groups[i]?.code === 0 && groups[i].value === 'SEQEND') i += 1 + entityBody(groups, i + 1).length;
+        if (flags & (16 | 64)) skip('POLYLINE (mesh)');
+        else addPolyline(layer, pts, bulges, (flags & 1) === 1);
+      } else {
+        skip(type);
+      }
+      continue;
+    }
+    i++;
+  }
+
+  const warnings: string[] = [];
+  if (unsupported.size > 0) {
+    const list = [...unsupported.entries()].sort((a, b) => b[1] - a[1]).map(([t, n]) => `${n} ${t}`);
+    warnings.push(`Ignored unsupported entities: ${list.join(', ')}.`);
+  }
+  if (openCount > 0) warnings.push(`Skipped ${openCount} open polyline${openCount > 1 ? 's' : ''}; only closed outlines can become rooms.`);
+  if (degenerateCount > 0) warnings.push(`Skipped ${degenerateCount} closed polyline${degenerateCount > 1 ? 's' : ''} with fewer than 3 distinct points.`);
+  if (bulgedCount > 0) warnings.push(`Arc segments in ${bulgedCount} polyline${bulgedCount > 1 ? 's were' : ' was'} approximated with straight segments.`);
+  if (polylines.length === 0) warnings.push('No closed polylines found in the ENTITIES section.');
+  return { ok: true, drawing: { unitsCode, polylines, warnings } };
+}
+
+// groups of one entity, up to (not including) the next code-0 group
+function entityBody(groups: Group[], start: number): Group[] {
+  let end = start;
+  while (end < groups.length && groups[end].code !== 0) end++;
+  return groups.slice(start, end);
+}
+
+// interior points of the arc from p to q; bulge = tan(sweep / 4), positive is counter-clockwise
+function arcPoints(p: Vec2, q: Vec2, bulge: number): Vec2[] {
+  const sweep = 4 * Math.atan(bulge);
+  const dx = q.x - p.x, dy = q.y - p.y;
+  const d = Math.hypot(dx, dy);
+  if (d < 1e-12) return [];
+  // center sits on the chord's left normal at (d/2)·cot(sweep/2) from the midpoint
+  const h = ((d / 2) * (1 - bulge * bulge)) / (2 * bulge);
+  const c = { x: (p.x + q.x) / 2 - (dy / d) * h, y: (p.y + q.y) / 2 + (dx / d) * h };
+  const r = Math.hypot(p.x - c.x, p.y - c.y);
+  const a0 = Math.atan2(p.y - c.y, p.x - c.x);
+  const steps = Math.max(2, Math.ceil(Math.abs(sweep) / (Math.PI / 12)));
+  const pts: Vec2[] = [];
+  for (let k = 1; k < steps; k++) {
+    const a = a0 + (sweep * k) / steps;
+    pts.push({ x: c.x + r * Math.cos(a), y: c.y + r * Math.sin(a) });
+  }
+  return pts;
+}
+
+// drawing-unit outline -> plan meters
+export function dxfToMeters(points: Vec2[], unitsCode: number): Vec2[] {
+  const s = DXF_UNITS[unitsCode]?.meters ?? 1;
+  return points.map(p => ({ x: p.x * s, y: p.y * s }));
+}
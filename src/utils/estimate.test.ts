@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { type FloorPlan, type MaterialDef, type Opening } from '../types';
+import { estimateCsv, estimatePlan, packArea } from './estimate';
+import { DEFAULT_FLOOR, DEFAULT_WALL } from './plan';
+import { DEFAULT_UNITS } from './units';
+
+const oak: MaterialDef = { id: 'oak', name: 'Oak, brushed', color: '#ffffff', roughness: 0.8, metalness: 0, tileSize: { x: 1.2, y: 0.2 }, maps: {}, pack: { kind: 'area', area: 2 }, price: 30, waste: 10 };
+
+const door = (id: string, a: string, b: string): Opening => ({ id, kind: 'door', a, b, offset: 1, width: 0.9, height: 2.1, sill: 0, hinge: 'a', opensTo: 'left' });
+
+// Living (4 × 3) and Study (3 × 3 with a 1 × 1 column) share the wall b–c, which has a door
+function twoRooms(material: MaterialDef | null = oak): FloorPlan {
+  const room = (id: string, name: string, vertexIds: string[], holes: string[][] = []) => ({ id, name, vertexIds, holes, wall: { ...DEFAULT_WALL }, floor: { ...DEFAULT_FLOOR, material } });
+  return {
+    vertices: {
+      a: { x: 0, y: 0 }, b: { x: 4, y: 0 }, c: { x: 4, y: 3 }, d: { x: 0, y: 3 }, e: { x: 7, y: 0 }, f: { x: 7, y: 3 },
+      h1: { x: 5, y: 1 }, h2: { x: 6, y: 1 }, h3: { x: 6, y: 2 }, h4: { x: 5, y: 2 },
+    },
+    rooms: [room('r1', 'Living', ['a', 'b', 'c', 'd']), room('r2', 'Study', ['b', 'e', 'f', 'c'], [['h1', 'h2', 'h3', 'h4']])],
+    wallOverrides: {},
+    openings: [door('o1', 'b', 'c'), { ...door('o2', 'a', 'b'), kind: 'window' }],
+    furniture: [],
+    annotations: [],
+    lights: [],
+  };
+}
+
+describe('packArea', () => {
+  it('reads area packs and plank packs', () => {
+    expect(packArea({ kind: 'area', area: 1.8 })).toBe(1.8);
+    expect(packArea({ kind: 'planks', count: 10, length: 1.2, width: 0.2 })).toBeCloseTo(2.4);
+  });
+});
+
+describe('estimatePlan', () => {
+  it('works out area, waste, packs, skirting and strips per room', () => {
+    const [living, study] = estimatePlan(twoRooms()).rooms;
+    expect(living).toMatchObject({ roomId: 'r1', area: 12, waste: 10, packs: 7, cost: 210, strips: 1 });
+    expect(living.orderArea).toBeCloseTo(13.2);
+    expect(living.skirting).toBeCloseTo(14 - 0.9);
+    // the column takes floor away but adds skirting; the shared door's strip is already counted
+    expect(study).toMatchObject({ roomId: 'r2', area: 8, packs: 5, cost: 150, strips: 0 });
+    expect(study.skirting).toBeCloseTo(12 + 4 - 0.9);
+  });
+
+  it('orders each material over all its rooms together', () => {
+    const est = estimatePlan(twoRooms());
+    expect(est.orders).toHaveLength(1);
+    expect(est.orders[0]).toMatchObject({ rooms: 2, packs: 11, cost: 330 });
+    expect(est.totals).toMatchObject({ area: 20, cost: 330, strips: 1 });
+    expect(est.totals.skirting).toBeCloseTo(28.2);
+  });
+
+  it('leaves packs and cost open without a material, a pack size or a price', () => {
+    expect(estimatePlan(twoRooms(null)).rooms[0]).toMatchObject({ waste: 10, packs: null, cost: null });
+    expect(estimatePlan(twoRooms(null)).orders).toEqual([]);
+    expect(estimatePlan(twoRooms({ ...oak, pack: undefined })).rooms[0]).toMatchObject({ packs: null, cost: null });
+    expect(estimatePlan(twoRooms({ ...oak, price: undefined })).rooms[0]).toMatchObject({ packs: 7, cost: null });
+  });
+
+  it('does not round an exact fit up', () => {
+    const plan = twoRooms({ ...oak, waste: 0, pack: { kind: 'area', area: 0.1 } });
+    expect(estimatePlan(plan).rooms[0].packs).toBe(120);
+  });
+});
+
+describe('estimateCsv', () => {
+  it('writes a line per room, the orders and a total, quoting where needed', () => {
+    const lines = estimateCsv(estimatePlan(twoRooms()), DEFAULT_UNITS).split('\r\n');
+    expect(lines[0]).toBe('Room,Material,Area (m²),Waste (%),Area incl. waste (m²),Pack,Packs,Price per pack,Cost,Skirting (m),Transition strips');
+    expect(lines[1]).toBe('Living,"Oak, brushed",12,10,13.2,2 m²,7,30,210,13.1,1');
+    expect(lines[3]).toBe('');
+    expect(lines[4]).toBe('Order: 2 rooms,"Oak, brushed",,,22,2 m²,11,30,330,,');
+    expect(lines[5]).toBe('Total,,20,,,,,,330,28.2,1');
+    expect(lines[6]).toBe('');
+  });
+
+  it('uses square feet and decimal feet in feet-inches projects', () => {
+    const header = estimateCsv(estimatePlan(twoRooms()), { length: 'ft-in', fraction: 16 }).split('\r\n')[0];
+    expect(header).toContain('Area (ft²)');
+    expect(header).toContain('Skirting (ft)');
+  });
+});
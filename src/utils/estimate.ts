@@ -0,0 +1,144 @@
+import { type FloorPlan, type MaterialDef, type MaterialPack, type UnitSettings } from '../types';
+import { edgeKey, holePoints, roomArea, roomPoints } from './plan';
+import { areaSymbol, formatLength, lengthColumnSymbol, toAreaUnit, toLengthColumn } from './units';
+
+/**
+ * Flooring quantities per room and the order per material: floor area plus
+ * waste, packs to buy and their cost, skirting length (every wall and hole
+ * edge minus door openings) and door transition strips.
+ */
+
+export const DEFAULT_WASTE = 10; // percent, when the material states none
+
+export type RoomEstimate = {
+  roomId: string;
+  name: string;
+  material: MaterialDef | null;
+  area: number; // m², outline minus holes
+  waste: number; // percent
+  orderArea: number; // area plus waste
+  packs: number | null; // null without a pack size
+  cost: number | null; // null without a pack size or price
+  skirting: number; // meters
+  strips: number; // doors; a door between two rooms counts for the first of them
+};
+
+// everything of one material, ordered together so part-used packs carry over between rooms
+export type MaterialOrder = {
+  material: MaterialDef;
+  rooms: number;
+  orderArea: number;
+  packs: number | null;
+  cost: number | null;
+};
+
+export type PlanEstimate = {
+  rooms: RoomEstimate[];
+  orders: MaterialOrder[];
+  totals: { area: number; cost: number; skirting: number; strips: number };
+};
+
+export function packArea(pack: MaterialPack): number {
+  return pack.kind === 'area' ? pack.area : pack.count * pack.length * pack.width;
+}
+
+function perimeter(pts: { x: number; y: number }[]): number {
+  return pts.reduce((s, p, i) => {
+    const q = pts[(i + 1) % pts.length];
+    return s + Math.hypot(q.x - p.x, q.y - p.y);
+  }, 0);
+}
+
+function order(material: MaterialDef, orderArea: number): { packs: number | null; cost: number | null } {
+  if (!material.pack) return { packs: null, cost: null };
+  // tolerance so an exact fit is not rounded up by float noise
+  const packs = Math.ceil(orderArea / packArea(material.pack) - 1e-9);
+  return { packs, cost: material.price === undefined ? null : packs * material.price };
+}
+
+export function estimatePlan(plan: FloorPlan): PlanEstimate {
+  const counted = new Set<string>();
+  const rooms = plan.rooms.map((room): RoomEstimate => {
+    const walls = new Set(room.vertexIds.map((id, i) => edgeKey(id, room.vertexIds[(i + 1) % room.vertexIds.length])));
+    const doors = plan.openings.filter(o => o.kind === 'door' && walls.has(edgeKey(o.a, o.b)));
+    const edges = perimeter(roomPoints(plan, room)) + room.holes.reduce((s, _, h) => s + perimeter(holePoints(plan, room, h)), 0);
+    const strips = doors.filter(o => !counted.has(o.id));
+    strips.forEach(o => counted.add(o.id));
+
+    const { material } = room.floor;
+    const area = roomArea(plan, room);
+    const waste = material?.waste ?? DEFAULT_WASTE;
+    const orderArea = area * (1 + waste / 100);
+    return {
+      roomId: room.id,
+      name: room.name,
+      material,
+      area,
+      waste,
+      orderArea,
+      ...(material ? order(material, orderArea) : { packs: null, cost: null }),
+      skirting: Math.max(0, edges - doors.reduce((s, o) => s + o.width, 0)),
+      strips: strips.length,
+    };
+  });
+
+  const byMaterial = new Map<string, RoomEstimate[]>();
+  for (const r of rooms) {
+    if (!r.material) continue;
+    byMaterial.set(r.material.id, [...(byMaterial.get(r.material.id) ?? []), r]);
+  }
+  const orders = [...byMaterial.values()].map((list): MaterialOrder => {
+    const orderArea = list.reduce((s, r) => s + r.orderArea, 0);
+    return { material: list[0].material!, rooms: list.length, orderArea, ...order(list[0].material!, orderArea) };
+  });
+
+  return {
+    rooms,
+    orders,
+    totals: {
+      area: rooms.reduce((s, r) => s + r.area, 0),
+      cost: orders.reduce((s, o) => s + (o.cost ?? 0), 0),
+      skirting: rooms.reduce((s, r) => s + r.skirting, 0),
+      strips: rooms.reduce((s, r) => s + r.strips, 0),
+    },
+  };
+}
+
+function packLabel(pack: MaterialPack | undefined, units: UnitSettings): string {
+  if (!pack) return '';
+  const area = `${+toAreaUnit(packArea(pack), units).toFixed(3)} ${areaSymbol(units)}`;
+  return pack.kind === 'area'
+    ? area
+    : `${pack.count} × ${formatLength(pack.length, units)} × ${formatLength(pack.width, units)} (${area})`;
+}
+
+function csvField(v: string | number | null): string {
+  const s = v === null ? '' : typeof v === 'number' ? String(+v.toFixed(2)) : v;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/**
+ * Bill of materials: one line per room, then the order per material (packs
+ * rounded up over all its rooms together) and a total line. Areas and
+ * skirting are in the project unit (decimal feet for feet-inches).
+ */
+export function estimateCsv(est: PlanEstimate, units: UnitSettings): string {
+  const area = (m2: number) => toAreaUnit(m2, units);
+  const len = (m: number) => toLengthColumn(m, units);
+  const a = areaSymbol(units);
+  const rows: (string | number | null)[][] = [
+    ['Room', 'Material', `Area (${a})`, 'Waste (%)', `Area incl. waste (${a})`, 'Pack', 'Packs', 'Price per pack', 'Cost', `Skirting (${lengthColumnSymbol(units)})`, 'Transition strips'],
+  ];
+  for (const r of est.rooms) {
+    const m = r.material;
+    rows.push([r.name, m?.name ?? '', area(r.area), r.waste, area(r.orderArea), packLabel(m?.pack, units), r.packs, m?.price ?? null, r.cost, len(r.skirting), r.strips]);
+  }
+  rows.push([]);
+  for (const o of est.orders) {
+    const m = o.material;
+    rows.push([`Order: ${o.rooms} room${o.rooms === 1 ? '' : 's'}`, m.name, null, null, area(o.orderArea), packLabel(m.pack, units), o.packs, m.price ?? null, o.cost, null, null]);
+  }
+  const t = est.totals;
+  rows.push(['Total', '', area(t.area), null, null, '', null, null, t.cost, len(t.skirting), t.strips]);
+  return rows.map(r => r.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression } from './expression';
+
+describe('evaluateExpression', () => {
+  it.each([
+    ['3.2', 3.2],
+    ['3.2+0.25', 3.45],
+    ['(4.5 - 0.1) / 2', 2.2],
+    ['2 + 3 * 4', 14],
+    ['(2 + 3) * 4', 20],
+    ['10 - 4 - 3', 3],
+    ['-2 * -3', 6],
+    ['+1', 1],
+    ['1.5e-1', 0.15],
+    ['3.', 3],
+    ['3.*2', 6],
+    ['.5+1', 1.5],
+  ])('%s = %s', (src, value) => {
+    expect(evaluateExpression(src)).toBeCloseTo(value, 10);
+  });
+
+  it.each(['', ' ', '3..2', '1 +', '(1 + 2', '1 + 2)', '2 3', 'abc', '1/0', '.'])('rejects %j', src => {
+    expect(evaluateExpression(src)).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Evaluates simple arithmetic typed into numeric fields, e.g. `3.2+0.25` or
+ * `(4.5 - 0.1) / 2`: decimal numbers, + - * /, unary minus and parentheses.
+ * Returns null for anything else or a non-finite result.
+ */
+export function evaluateExpression(src: string): number | null {
+  const tokens = src.match(/\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?|[-+*/()]|\S/gi) ?? [];
+  let pos = 0;
+  const peek = () => tokens[pos];
+
+  // expr := term (('+' | '-') term)*
+  const expr = (): number | null => {
+    let v = term();
+    while (v !== null && (peek() === '+' || peek() === '-')) {
+      const op = tokens[pos++];
+      const r = term();
+      if (r === null) return null;
+      v = op === '+' ? v + r : v - r;
+    }
+    return v;
+  };
+  // term := factor (('*' | '/') factor)*
+  const term = (): number | null => {
+    let v = factor();
+    while (v !== null && (peek() === '*' || peek() === '/')) {
+      const op = tokens[pos++];
+      const r = factor();
+      if (r === null) return null;
+      v = op === '*' ? v * r : v / r;
+    }
+    return v;
+  };
+  // factor := number | '-' factor | '+' factor | '(' expr ')'
+  const factor = (): number | null => {
+    const t = tokens[pos++];
+    if (t === undefined) return null;
+    if (t === '-') { const v = factor(); return v === null ? null : -v; }
+    if (t === '+') return factor();
+    if (t === '(') {
+      const v = expr();
+      if (tokens[pos++] !== ')') return null;
+      return v;
+    }
+    const n = Number(t);
+    return Number.isFinite(n) ? n : null;
+  };
+
+  if (tokens.length === 0) return null;
+  const v = expr();
+  return v !== null && pos === tokens.length && Number.isFinite(v) ? v : null;
+}
@@ -0,0 +1,291 @@
+import { type FloorPlan, type FurnitureItem, type Vec2 } from '../types';
+import { pointInPolygon, segmentsIntersect } from './geometry';
+import { holePoints, roomPoints } from './plan';
+
+/**
+ * Furniture and fixture catalog. Symbols and box models are given in unit
+ * coordinates of the footprint (x and y in -0.5..0.5, height in 0..1) so they
+ * stretch with the item's dimensions; the back of an item is at +y.
+ */
+
+// unit-space box: min/max as [x, y, z] with z up
+export type BoxPart = { min: [number, number, number]; max: [number, number, number]; color: number };
+
+export type FurnitureModel =
+  | { kind: 'box'; parts: BoxPart[] }
+  // glTF scene with +y up and the item's back toward -z, stretched to the item's size;
+  // `color` tints the box shown until (or if never) the model loads
+  | { kind: 'gltf'; url: string; color: number };
+
+export type CatalogCategory = 'Living' | 'Bedroom' | 'Dining' | 'Kitchen' | 'Bathroom' | 'Office' | 'Decor';
+
+export type CatalogItem = {
+  id: string;
+  name: string;
+  category: CatalogCategory;
+  width: number;
+  depth: number;
+  height: number;
+  round?: boolean; // plan outline drawn as an ellipse; overlap checks still use the rectangle
+  symbol: [number, number][][]; // plan detail polylines inside the outline
+  model: FurnitureModel;
+};
+
+const WOOD = 0xb08968;
+const DARK_WOOD = 0x7f5539;
+const FABRIC = 0x8d99ae;
+const CUSHION = 0xadb5bd;
+const LINEN = 0xf1f3f5;
+const CERAMIC = 0xf8f9fa;
+const STEEL = 0xced4da;
+const COUNTER = 0xe9ecef;
+
+// closed polyline approximating an ellipse
+function ellipse(cx: number, cy: number, rx: number, ry: number, n = 24): [number, number][] {
+  return Array.from({ length: n + 1 }, (_, i) => {
+    const t = (i / n) * Math.PI * 2;
+    return [cx + Math.cos(t) * rx, cy + Math.sin(t) * ry];
+  });
+}
+
+function rect(x0: number, y0: number, x1: number, y1: number): [number, number][] {
+  return [[x0, y0], [x1, y0], [x1, y1], [x0, y1], [x0, y0]];
+}
+
+function box(x0: number, y0: number, z0: number, x1: number, y1: number, z1: number, color: number): BoxPart {
+  return { min: [x0, y0, z0], max: [x1, y1, z1], color };
+}
+
+// four legs inset from the corners, under a top starting at `top`
+function legs(inset: number, size: number, top: number, color: number): BoxPart[] {
+  const a = -0.5 + inset, b = 0.5 - inset - size;
+  return [[a, a], [b, a], [a, b], [b, b]].map(([x, y]) => box(x, y, 0, x + size, y + size, top, color));
+}
+
+export const FURNITURE_CATALOG: CatalogItem[] = [
+  {
+    id: 'sofa-3', name: 'Sofa (3 seats)', category: 'Living', width: 2.1, depth: 0.9, height: 0.85,
+    symbol: [rect(-0.5, 0.28, 0.5, 0.5), rect(-0.5, -0.5, -0.42, 0.28), rect(0.42, -0.5, 0.5, 0.28), [[-0.14, -0.5], [-0.14, 0.28]], [[0.14, -0.5], [0.14, 0.28]]],
+    model: { kind: 'box', parts: [
+      box(-0.5, -0.5, 0, 0.5, 0.5, 0.45, FABRIC),
+      box(-0.5, 0.28, 0.45, 0.5, 0.5, 1, FABRIC),
+      box(-0.5, -0.5, 0.45, -0.42, 0.28, 0.7, FABRIC),
+      box(0.42, -0.5, 0.45, 0.5, 0.28, 0.7, FABRIC),
+      box(-0.42, -0.48, 0.45, 0.42, 0.28, 0.55, CUSHION),
+    ] },
+  },
+  {
+    id: 'armchair', name: 'Armchair', category: 'Living', width: 0.85, depth: 0.85, height: 0.85,
+    symbol: [rect(-0.5, 0.28, 0.5, 0.5), rect(-0.5, -0.5, -0.3, 0.28), rect(0.3, -0.5, 0.5, 0.28)],
+    model: { kind: 'box', parts: [
+      box(-0.5, -0.5, 0, 0.5, 0.5, 0.45, FABRIC),
+      box(-0.5, 0.28, 0.45, 0.5, 0.5, 1, FABRIC),
+      box(-0.5, -0.5, 0.45, -0.3, 0.28, 0.7, FABRIC),
+      box(0.3, -0.5, 0.45, 0.5, 0.28, 0.7, FABRIC),
+    ] },
+  },
+  {
+    id: 'coffee-table', name: 'Coffee table', category: 'Living', width: 1.1, depth: 0.6, height: 0.42,
+    symbol: [rect(-0.42, -0.36, 0.42, 0.36)],
+    model: { kind: 'box', parts: [box(-0.5, -0.5, 0.88, 0.5, 0.5, 1, WOOD), ...legs(0.04, 0.06, 0.88, DARK_WOOD)] },
+  },
+  {
+    id: 'tv-unit', name: 'TV unit', category: 'Living', width: 1.8, depth: 0.45, height: 0.5,
+    symbol: [[[-0.17, -0.5], [-0.17, 0.5]], [[0.17, -0.5], [0.17, 0.5]]],
+    model: { kind: 'box', parts: [box(-0.5, -0.5, 0.1, 0.5, 0.5, 1, DARK_WOOD), box(-0.48, -0.45, 0, 0.48, 0.45, 0.1, 0x343a40)] },
+  },
+  {
+    id: 'bed-double', name: 'Double bed', category: 'Bedroom', width: 1.6, depth: 2.1, height: 1.0,
+    symbol: [rect(-0.5, 0.45, 0.5, 0.5), rect(-0.44, 0.27, -0.04, 0.41), rect(0.04, 0.27, 0.44, 0.41), [[-0.5, 0.12], [0.5, 0.12]]],
+    model: { kind: 'box', parts: [
+      box(-0.5, -0.5, 0, 0.5, 0.45, 0.25, DARK_WOOD),
+      box(-0.48, -0.48, 0.25, 0.48, 0.45, 0.5, LINEN),
+      box(-0.5, 0.45, 0, 0.5, 0.5, 1, DARK_WOOD),
+      box(-0.44, 0.27, 0.5, -0.04, 0.41, 0.62, CERAMIC),
+      box(0.04, 0.27, 0.5, 0.44, 0.41, 0.62, CERAMIC),
+    ] },
+  },
+  {
+    id: 'bed-single', name: 'Single bed', category: 'Bedroom', width: 0.9, depth: 2.0, height: 1.0,
+    symbol: [rect(-0.5, 0.45, 0.5, 0.5), rect(-0.4, 0.27, 0.4, 0.41), [[-0.5, 0.12], [0.5, 0.12]]],
+    model: { kind: 'box', parts: [
+      box(-0.5, -0.5, 0, 0.5, 0.45, 0.25, DARK_WOOD),
+      box(-0.47, -0.48, 0.25, 0.47, 0.45, 0.5, LINEN),
+      box(-0.5, 0.45, 0, 0.5, 0.5, 1, DARK_WOOD),
+      box(-0.4, 0.27, 0.5, 0.4, 0.41, 0.62, CERAMIC),
+    ] },
+  },
+  {
+    id: 'nightstand', name: 'Nightstand', category: 'Bedroom', width: 0.45, depth: 0.4, height: 0.55,
+    symbol: [[[-0.5, -0.1], [0.5, -0.1]]],
+    model: { kind: 'box', parts: [box(-0.5, -0.5, 0, 0.5, 0.5, 1, WOOD)] },
+  },
+  {
+    id: 'wardrobe', name: 'Wardrobe', category: 'Bedroom', width: 1.2, depth: 0.6, height: 2.1,
+    symbol: [[[-0.5, -0.5], [0, 0.5], [0.5, -0.5]], [[0, -0.5], [0, 0.5]]],
+    model: { kind: 'box', parts: [box(-0.5, -0.5, 0, 0.5, 0.5, 1, WOOD), box(-0.003, -0.51, 0.05, 0.003, -0.5, 0.95, DARK_WOOD)] },
+  },
+  {
+    id: 'dining-table', name: 'Dining table', category: 'Dining', width: 1.6, depth: 0.9, height: 0.75,
+    symbol: [],
+    model: { kind: 'box', parts: [box(-0.5, -0.5, 0.95, 0.5, 0.5, 1, WOOD), ...legs(0.03, 0.05, 0.95, DARK_WOOD)] },
+  },
+  {
+    id: 'round-table', name: 'Round table', category: 'Dining', width: 1.0, depth: 1.0, height: 0.75, round: true,
+    symbol: [ellipse(0, 0, 0.08, 0.08, 12)],
+    model: { kind: 'gltf', url: '/models/round-table.gltf', color: WOOD },
+  },
+  {
+    id: 'chair', name: 'Chair', category: 'Dining', width: 0.45, depth: 0.5, height: 0.9,
+    symbol: [rect(-0.5, 0.36, 0.5, 0.5)],
+    model: { kind: 'box', parts: [
+      box(-0.5, -0.5, 0.46, 0.5, 0.5, 0.52, WOOD),
+      box(-0.5, 0.36, 0.52, 0.5, 0.5, 1, WOOD),
+      ...legs(0, 0.1, 0.46, DARK_WOOD),
+    ] },
+  },
+  {
+    id: 'kitchen-island', name: 'Kitchen island', category: 'Kitchen', width: 1.8, depth: 0.9, height: 0.9,
+    symbol: [rect(-0.46, -0.42, 0.46, 0.42), ellipse(-0.2, 0, 0.05, 0.1, 12), ellipse(0.2, 0, 0.05, 0.1, 12)],
+    model: { kind: 'box', parts: [box(-0.47, -0.44, 0, 0.47, 0.44, 0.96, 0xf8f9fa), box(-0.5, -0.5, 0.96, 0.5, 0.5, 1, COUNTER)] },
+  },
+  {
+    id: 'counter', name: 'Counter (60 cm)', category: 'Kitchen', width: 0.6, depth: 0.6, height: 0.9,
+    symbol: [[[-0.5, -0.42], [0.5, -0.42]]],
+    model: { kind: 'box', parts: [box(-0.5, -0.42, 0, 0.5, 0.5, 0.96, 0xf8f9fa), box(-0.5, -0.5, 0.96, 0.5, 0.5, 1, COUNTER)] },
+  },
+  {
+    id: 'fridge', name: 'Fridge', category: 'Kitchen', width: 0.6, depth: 0.65, height: 1.85,
+    symbol: [[[-0.5, -0.5], [0.5, 0.5]], [[0.5, -0.5], [-0.5, 0.5]]],
+    model: { kind: 'box', parts: [box(-0.5, -0.5, 0, 0.5, 0.5, 1, STEEL)] },
+  },
+  {
+    id: 'bathtub', name: 'Bathtub', category: 'Bathroom', width: 1.7, depth: 0.75, height: 0.55,
+    symbol: [ellipse(0, 0, 0.44, 0.36, 32), ellipse(-0.34, 0, 0.02, 0.05, 8)],
+    model: { kind: 'box', parts: [box(-0.5, -0.5, 0, 0.5, 0.5, 1, CERAMIC)] },
+  },
+  {
+    id: 'shower', name: 'Shower tray', category: 'Bathroom', width: 0.9, depth: 0.9, height: 0.05,
+    symbol: [[[-0.5, -0.5], [0.5, 0.5]], [[0.5, -0.5], [-0.5, 0.5]], ellipse(0, 0, 0.06, 0.06, 12)],
+    model: { kind: 'box', parts: [box(-0.5, -0.5, 0, 0.5, 0.5, 1, CERAMIC)] },
+  },
+  {
+    id: 'wc', name: 'Toilet', category: 'Bathroom', width: 0.4, depth: 0.7, height: 0.8,
+    symbol: [rect(-0.5, 0.25, 0.5, 0.5), ellipse(0, -0.12, 0.42, 0.36, 20)],
+    model: { kind: 'box', parts: [box(-0.4, -0.5, 0, 0.4, 0.25, 0.5, CERAMIC), box(-0.5, 0.25, 0, 0.5, 0.5, 1, CERAMIC)] },
+  },
+  {
+    id: 'washbasin', name: 'Washbasin', category: 'Bathroom', width: 0.6, depth: 0.45, height: 0.85,
+    symbol: [ellipse(0, -0.05, 0.36, 0.32, 20)],
+    model: { kind: 'box', parts: [box(-0.5, -0.5, 0.82, 0.5, 0.5, 1, CERAMIC), box(-0.15, 0.1, 0, 0.15, 0.5, 0.82, CERAMIC)] },
+  },
+  {
+    id: 'desk', name: 'Desk', category: 'Office', width: 1.4, depth: 0.7, height: 0.75,
+    symbol: [],
+    model: { kind: 'box', parts: [
+      box(-0.5, -0.5, 0.95, 0.5, 0.5, 1, WOOD),
+      box(-0.5, -0.45, 0, -0.47, 0.45, 0.95, DARK_WOOD),
+      box(0.47, -0.45, 0, 0.5, 0.45, 0.95, DARK_WOOD),
+    ] },
+  },
+  {
+    id: 'bookshelf', name: 'Bookshelf', category: 'Office', width: 0.9, depth: 0.35, height: 1.9,
+    symbol: [[[-0.5, -0.2], [0.5, -0.2]]],
+    model: { kind: 'box', parts: [
+      box(-0.5, -0.5, 0, 0.5, 0.5, 0.03, WOOD),
+      box(-0.5, -0.5, 0.97, 0.5, 0.5, 1, WOOD),
+      box(-0.5, -0.5, 0, -0.46, 0.5, 1, WOOD),
+      box(0.46, -0.5, 0, 0.5, 0.5, 1, WOOD),
+      box(-0.46, 0.42, 0.03, 0.46, 0.5, 0.97, WOOD),
+      ...[0.25, 0.5, 0.75].map(z => box(-0.46, -0.5, z - 0.015, 0.46, 0.42, z + 0.015, WOOD)),
+    ] },
+  },
+  {
+    id: 'plant', name: 'Potted plant', category: 'Decor', width: 0.5, depth: 0.5, height: 1.1, round: true,
+    symbol: [ellipse(0, 0, 0.3, 0.3, 16), [[-0.2, -0.2], [0.2, 0.2]], [[0.2, -0.2], [-0.2, 0.2]]],
+    model: { kind: 'gltf', url: '/models/potted-plant.gltf', color: 0x2f9e44 },
+  },
+];
+
+export function getCatalogItem(id: string): CatalogItem | undefined {
+  return FURNITURE_CATALOG.find(c => c.id === id);
+}
+
+// plan item with the catalog's name and dimensions, centered at `at`
+export function furnitureFromCatalog(c: CatalogItem, at: Vec2, rotation = 0): Omit<FurnitureItem, 'id'> {
+  return { catalogId: c.id, name: c.name, x: at.x, y: at.y, rotation, width: c.width, depth: c.depth, height: c.height };
+}
+
+// unit-space point of the footprint to plan coordinates
+export function furniturePoint(item: Pick<FurnitureItem, 'x' | 'y' | 'rotation' | 'width' | 'depth'>, u: number, v: number): Vec2 {
+  const r = (item.rotation * Math.PI) / 180;
+  const lx = u * item.width, ly = v * item.depth;
+  return { x: item.x + lx * Math.cos(r) - ly * Math.sin(r), y: item.y + lx * Math.sin(r) + ly * Math.cos(r) };
+}
+
+// footprint corners, counter-clockwise
+export function furnitureFootprint(item: Pick<FurnitureItem, 'x' | 'y' | 'rotation' | 'width' | 'depth'>): Vec2[] {
+  return [[-0.5, -0.5], [0.5, -0.5], [0.5, 0.5], [-0.5, 0.5]].map(([u, v]) => furniturePoint(item, u, v));
+}
+
+// items flush against a wall or each other are fine: contact within this is not a clash
+const CONTACT_M = 1e-3;
+
+// footprint pulled in by CONTACT_M on every side
+function innerFootprint(item: FurnitureItem): Vec2[] {
+  const w = Math.max(item.width - 2 * CONTACT_M, 0), d = Math.max(item.depth - 2 * CONTACT_M, 0);
+  return furnitureFootprint({ ...item, width: w, depth: d });
+}
+
+// separating axis test for two convex quads; touching does not count
+function quadsOverlap(a: Vec2[], b: Vec2[]): boolean {
+  for (const poly of [a, b]) {
+    for (let i = 0; i < poly.length; i++) {
+      const p = poly[i], q = poly[(i + 1) % poly.length];
+      const nx = -(q.y - p.y), ny = q.x - p.x;
+      const project = (pts: Vec2[]) => pts.map(v => v.x * nx + v.y * ny);
+      const pa = project(a), pb = project(b);
+      if (Math.max(...pa) <= Math.min(...pb) || Math.max(...pb) <= Math.min(...pa)) return false;
+    }
+  }
+  return true;
+}
+
+function crossesLoop(pts: Vec2[], loop: Vec2[]): boolean {
+  for (let i = 0; i < pts.length; i++) {
+    for (let j = 0; j < loop.length; j++) {
+      if (segmentsIntersect(pts[i], pts[(i + 1) % pts.length], loop[j], loop[(j + 1) % loop.length])) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Placement warnings per item id: footprints overlapping each other, and
+ * footprints not fully inside the floor of the room holding their center
+ * (sticking through the outline or into a hole). Items without warnings are
+ * left out.
+ */
+export function furnitureWarnings(plan: FloorPlan): Record<string, string[]> {
+  const out: Record<string, string[]> = {};
+  const warn = (id: string, message: string) => (out[id] ??= []).push(message);
+  const inner = plan.furniture.map(innerFootprint);
+
+  plan.furniture.forEach((item, i) => {
+    const pts = inner[i];
+    const room = plan.rooms.find(r => pointInPolygon(item, roomPoints(plan, r)));
+    if (!room) warn(item.id, 'Outside every room');
+    else {
+      const outline = roomPoints(plan, room);
+      const holes = room.holes.map((_, h) => holePoints(plan, room, h));
+      const inside = pts.every(p => pointInPolygon(p, outline)) && !crossesLoop(pts, outline);
+      const clear = holes.every(h => !crossesLoop(pts, h) && !pts.some(p => pointInPolygon(p, h)) && !h.some(p => pointInPolygon(p, pts)));
+      if (!inside) warn(item.id, `Sticks out of ${room.name}`);
+      else if (!clear) warn(item.id, `Overlaps a hole in ${room.name}`);
+    }
+    plan.furniture.forEach((other, j) => {
+      if (j !== i && quadsOverlap(pts, inner[j])) warn(item.id, `Overlaps ${other.name}`);
+    });
+  });
+  return out;
+}
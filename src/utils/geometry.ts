@@ -0,0 +1,94 @@
+import { type Vec2 } from '../types';
+
+export function computePolygonAreaM2(pts: Vec2[]): number {
+  return Math.abs(signedArea(pts));
+}
+
+// shoelace; positive for counter-clockwise (y up)
+export function signedArea(pts: Vec2[]): number {
+  if (pts.length < 3) return 0;
+  let sum = 0;
+  for (let i = 0; i < pts.length; i++) {
+    const j = (i + 1) % pts.length;
+    sum += pts[i].x * pts[j].y - pts[j].x * pts[i].y;
+  }
+  return sum * 0.5;
+}
+
+export function getCentroid(pts: Vec2[]): Vec2 {
+  if (pts.length === 0) return { x: 0, y: 0 };
+  const sx = pts.reduce((s, v) => s + v.x, 0);
+  const sy = pts.reduce((s, v) => s + v.y, 0);
+  return { x: sx / pts.length, y: sy / pts.length };
+}
+
+// area-weighted centroid; falls back to the vertex average for degenerate shapes
+export function polygonCentroid(pts: Vec2[]): Vec2 {
+  const a = signedArea(pts);
+  if (Math.abs(a) < 1e-9) return getCentroid(pts);
+  let cx = 0, cy = 0;
+  for (let i = 0; i < pts.length; i++) {
+    const j = (i + 1) % pts.length;
+    const f = pts[i].x * pts[j].y - pts[j].x * pts[i].y;
+    cx += (pts[i].x + pts[j].x) * f;
+    cy += (pts[i].y + pts[j].y) * f;
+  }
+  return { x: cx / (6 * a), y: cy / (6 * a) };
+}
+
+export function pointInPolygon(p: Vec2, pts: Vec2[]): boolean {
+  let inside = false;
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+    const a = pts[i], b = pts[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+export function pointToSegmentDistance(px: number, py: number, x1: number, y1: number, x2: number, y2: number) {
+  const vx = x2 - x1, vy = y2 - y1;
+  const wx = px - x1, wy = py - y1;
+  const c1 = vx * wx + vy * wy;
+  if (c1 <= 0) return Math.hypot(px - x1, py - y1);
+  const c2 = vx * vx + vy * vy;
+  if (c2 <= c1) return Math.hypot(px - x2, py - y2);
+  const b = c1 / c2;
+  const bx = x1 + b * vx, by = y1 + b * vy;
+  return Math.hypot(px - bx, py - by);
+}
+
+export function projectPointOnSegment(p: Vec2, a: Vec2, b: Vec2): Vec2 {
+  const abx = b.x - a.x; const aby = b.y - a.y;
+  const apx = p.x - a.x; const apy = p.y - a.y;
+  const ab2 = abx * abx + aby * aby || 1;
+  let t = (apx * abx + apy * aby) / ab2;
+  t = Math.max(0, Math.min(1, t));
+  return { x: a.x + abx * t, y: a.y + aby * t };
+}
+
+// true if segments p1-p2 and q1-q2 cross or touch
+export function segmentsIntersect(p1: Vec2, p2: Vec2, q1: Vec2, q2: Vec2): boolean {
+  const eps = 1e-9;
+  const cross = (o: Vec2, a: Vec2, b: Vec2) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+  const onSeg = (o: Vec2, a: Vec2, b: Vec2) =>
+    Math.min(o.x, a.x) - eps <= b.x && b.x <= Math.max(o.x, a.x) + eps && Math.min(o.y, a.y) - eps <= b.y && b.y <= Math.max(o.y, a.y) + eps;
+  const d1 = cross(q1, q2, p1), d2 = cross(q1, q2, p2), d3 = cross(p1, p2, q1), d4 = cross(p1, p2, q2);
+  if (((d1 > eps && d2 < -eps) || (d1 < -eps && d2 > eps)) && ((d3 > eps && d4 < -eps) || (d3 < -eps && d4 > eps))) return true;
+  return (Math.abs(d1) <= eps && onSeg(q1, q2, p1)) || (Math.abs(d2) <= eps && onSeg(q1, q2, p2))
+    || (Math.abs(d3) <= eps && onSeg(p1, p2, q1)) || (Math.abs(d4) <= eps && onSeg(p1, p2, q2));
+}
+
+// no zero-length edges and no two non-adjacent edges touching
+export function isSimplePolygon(pts: Vec2[]): boolean {
+  const n = pts.length;
+  if (n < 3) return false;
+  for (let i = 0; i < n; i++) {
+    const a = pts[i], b = pts[(i + 1) % n];
+    if (Math.hypot(b.x - a.x, b.y - a.y) < 1e-9) return false;
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue; // first and last edges share vertex 0
+      if (segmentsIntersect(a, b, pts[j], pts[(j + 1) % n])) return false;
+    }
+  }
+  return Math.abs(signedArea(pts)) > 1e-9;
+}
@@ -0,0 +1,99 @@
+import { type LightFixture, type LightingPreset, type LightingSettings, type LightKind } from '../types';
+
+/**
+ * Lighting of the 3D view: the sky and sun presets, where the sun stands at a
+ * given hour, and how bright placed light fittings come out. Light fittings
+ * are rated in lumens and kelvin like real lamps; the view has no exposure
+ * control, so their candela are scaled down by a fixed factor to sit next to
+ * the ambient light.
+ */
+
+export const LIGHT_LABELS: Record<LightKind, string> = { point: 'Point light', spot: 'Spot light', ceiling: 'Ceiling light' };
+
+export const LIGHT_DEFAULTS: Record<LightKind, Pick<LightFixture, 'height' | 'lumens' | 'temperature' | 'beam'>> = {
+  point: { height: 1.5, lumens: 800, temperature: 2700, beam: 60 }, // a lamp on a table or stand
+  spot: { height: 2.4, lumens: 350, temperature: 3000, beam: 60 },
+  ceiling: { height: 2.6, lumens: 1600, temperature: 3000, beam: 60 },
+};
+
+export const TEMPERATURE_PRESETS: { kelvin: number; label: string }[] = [
+  { kelvin: 2200, label: 'Candle' },
+  { kelvin: 2700, label: 'Warm white' },
+  { kelvin: 3000, label: 'Soft white' },
+  { kelvin: 4000, label: 'Neutral' },
+  { kelvin: 5000, label: 'Cool white' },
+  { kelvin: 6500, label: 'Daylight' },
+];
+
+export type LightingPresetDef = {
+  label: string;
+  hour: number; // picking the preset moves the sun here
+  sky: string; // hemisphere light colors
+  ground: string;
+  ambient: number; // hemisphere light intensity
+  sun: number; // sun intensity with the sun high in the sky
+  sunKelvin: number;
+  background: string;
+};
+
+export const LIGHTING_PRESETS: Record<LightingPreset, LightingPresetDef> = {
+  daylight: { label: 'Daylight', hour: 13, sky: '#dde8f5', ground: '#8a8275', ambient: 0.9, sun: 1.8, sunKelvin: 5600, background: '#f6f8fb' },
+  overcast: { label: 'Overcast', hour: 12, sky: '#d9dde2', ground: '#7a766f', ambient: 1.3, sun: 0.35, sunKelvin: 6500, background: '#dfe3e8' },
+  evening: { label: 'Evening', hour: 19, sky: '#4b5878', ground: '#3b332b', ambient: 0.25, sun: 1.2, sunKelvin: 3200, background: '#2f3447' },
+};
+
+export const DEFAULT_LIGHTING: LightingSettings = { preset: 'daylight', hour: 13, shadows: true };
+
+const SUNRISE = 6;
+const SUNSET = 20;
+const NOON_ELEVATION = 60; // degrees
+const SCENE_PER_LUX = 0.04; // scene light units per lux
+
+// scene brightness of the sun relative to its full strength: none below the horizon, full from about 24° up
+function sunStrength(elevation: number): number {
+  return Math.min(1, Math.max(0, Math.sin((elevation * Math.PI) / 180) * 2.5));
+}
+
+/**
+ * Unit vector from the ground toward the sun in plan axes (x east, y north) plus
+ * `up`: rising in the east at SUNRISE, in the south at midday, setting in the west.
+ */
+export function sunDirection(hour: number): { x: number; y: number; up: number; elevation: number } {
+  const t = (hour - SUNRISE) / (SUNSET - SUNRISE);
+  const elevation = NOON_ELEVATION * Math.sin(Math.PI * t);
+  const el = (elevation * Math.PI) / 180, az = -Math.PI * t; // from east (+x) clockwise through south (-y)
+  return { x: Math.cos(az) * Math.cos(el), y: Math.sin(az) * Math.cos(el), up: Math.sin(el), elevation };
+}
+
+// sun intensity and color for the settings; a low sun is dimmer and redder
+export function sunLight(settings: LightingSettings): { intensity: number; color: string } {
+  const preset = LIGHTING_PRESETS[settings.preset];
+  const k = sunStrength(sunDirection(settings.hour).elevation);
+  return { intensity: preset.sun * k, color: kelvinToHex(2000 + (preset.sunKelvin - 2000) * k) };
+}
+
+/** Candela along the light's axis: lumens spread over a sphere, a hemisphere (ceiling) or the spot's cone. */
+export function fixtureCandela(light: LightFixture): number {
+  const half = (Math.min(Math.max(light.beam, 1), 179) * Math.PI) / 360;
+  const solidAngle = light.kind === 'point' ? 4 * Math.PI : light.kind === 'ceiling' ? 2 * Math.PI : 2 * Math.PI * (1 - Math.cos(half));
+  return light.lumens / solidAngle;
+}
+
+export function fixtureIntensity(light: LightFixture): number {
+  return fixtureCandela(light) * SCENE_PER_LUX;
+}
+
+// radius of a spot light's beam on the floor, meters
+export function beamRadius(light: Pick<LightFixture, 'height' | 'beam'>): number {
+  return light.height * Math.tan((Math.min(Math.max(light.beam, 1), 170) * Math.PI) / 360);
+}
+
+/** Approximate color of a black body at `kelvin` (1000–40000 K) as '#rrggbb'. */
+export function kelvinToHex(kelvin: number): string {
+  const t = Math.min(Math.max(kelvin, 1000), 40000) / 100;
+  const r = t <= 66 ? 255 : 329.698727446 * Math.pow(t - 60, -0.1332047592);
+  const g = t <= 66 ? 99.4708025861 * Math.log(t) - 161.1195681661 : 288.1221695283 * Math.pow(t - 60, -0.0755148492);
+  const b = t >= 66 ? 255 : t <= 19 ? 0 : 138.5177312231 * Math.log(t - 10) - 305.0447927307;
+  const hex = (v: number) => Math.round(Math.min(Math.max(v, 0), 255)).toString(16).padStart(2, '0');
+  return `#${hex(r)}${hex(g)}${hex(b)}`;
+}
@@ -0,0 +1,127 @@
+import { type FloorFinish, type MaterialDef, type Vec2 } from '../types';
+
+/**
+ * Floor material library: the bundled JSON catalog plus the user's own entries
+ * kept in localStorage. See docs/materials.md for the catalog format.
+ */
+export const MATERIAL_CATALOG_URL = '/materials/catalog.json';
+export const MATERIAL_CATALOG_FORMAT = 'room-blueprint-materials';
+const USER_MATERIALS_KEY = 'room-blueprint:materials';
+
+export type MaterialCatalog = { materials: MaterialDef[]; errors: string[] };
+
+const MAP_KINDS = ['albedo', 'normal', 'roughness', 'ao'] as const;
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+// every problem with one material entry, with its JSON path
+export function materialDefErrors(v: unknown, path: string): string[] {
+  if (!isObj(v)) return [`${path} must be an object.`];
+  const errors: string[] = [];
+  const num = (key: string, min: number, max?: number) => {
+    const n = v[key];
+    if (typeof n !== 'number' || !Number.isFinite(n) || n < min || (max !== undefined && n > max)) {
+      errors.push(`${path}.${key} must be a number ${max === undefined ? `of at least ${min}` : `from ${min} to ${max}`}.`);
+    }
+  };
+  for (const key of ['id', 'name']) if (typeof v[key] !== 'string' || !v[key]) errors.push(`${path}.${key} must be a non-empty string.`);
+  if (v.thumbnail !== undefined && typeof v.thumbnail !== 'string') errors.push(`${path}.thumbnail must be a string.`);
+  if (typeof v.color !== 'string' || !/^#[0-9a-f]{6}$/i.test(v.color)) errors.push(`${path}.color must be a color like "#c8b39a".`);
+  num('roughness', 0, 1);
+  num('metalness', 0, 1);
+  const t = v.tileSize;
+  if (!isObj(t) || !(typeof t.x === 'number' && t.x >= 0.01) || !(typeof t.y === 'number' && t.y >= 0.01)) {
+    errors.push(`${path}.tileSize must be { x, y } in meters, each at least 0.01.`);
+  }
+  if (!isObj(v.maps)) errors.push(`${path}.maps must be an object.`);
+  else for (const [key, url] of Object.entries(v.maps)) {
+    if (!(MAP_KINDS as readonly string[]).includes(key)) errors.push(`${path}.maps.${key} is not one of ${MAP_KINDS.join(', ')}.`);
+    else if (typeof url !== 'string') errors.push(`${path}.maps.${key} must be a URL string.`);
+  }
+  if (v.tags !== undefined && !(Array.isArray(v.tags) && v.tags.every(s => typeof s === 'string'))) errors.push(`${path}.tags must be an array of strings.`);
+  if (v.price !== undefined) num('price', 0);
+  if (v.waste !== undefined) num('waste', 0, 100);
+  const pack = v.pack;
+  if (pack !== undefined) {
+    const positive = (key: string) => isObj(pack) && typeof pack[key] === 'number' && Number.isFinite(pack[key]) && pack[key] > 0;
+    if (!isObj(pack) || !(pack.kind === 'area' ? positive('area') : pack.kind === 'planks' && ['count', 'length', 'width'].every(positive))) {
+      errors.push(`${path}.pack must be { kind: "area", area } or { kind: "planks", count, length, width } with positive numbers.`);
+    }
+  }
+  return errors;
+}
+
+// valid entries are kept even when others are rejected; duplicate ids keep the first
+export function parseMaterialCatalog(text: string): MaterialCatalog {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    return { materials: [], errors: [`Not a valid JSON file: ${(err as Error).message}`] };
+  }
+  if (!isObj(raw) || raw.format !== MATERIAL_CATALOG_FORMAT || !Array.isArray(raw.materials)) {
+    return { materials: [], errors: [`Not a material catalog (needs "format": "${MATERIAL_CATALOG_FORMAT}" and a "materials" array).`] };
+  }
+  const materials: MaterialDef[] = [];
+  const errors: string[] = [];
+  raw.materials.forEach((m: unknown, i: number) => {
+    const problems = materialDefErrors(m, `materials[${i}]`);
+    if (problems.length > 0) errors.push(...problems);
+    else if (materials.some(d => d.id === (m as MaterialDef).id)) errors.push(`materials[${i}].id "${(m as MaterialDef).id}" is used twice.`);
+    else materials.push(m as MaterialDef);
+  });
+  return { materials, errors };
+}
+
+export async function loadMaterialCatalog(url = MATERIAL_CATALOG_URL): Promise<MaterialCatalog> {
+  try {
+    const res = await fetch(url);
+    if (!res.ok) return { materials: [], errors: [`Could not load ${url} (HTTP ${res.status}).`] };
+    return parseMaterialCatalog(await res.text());
+  } catch (err) {
+    return { materials: [], errors: [`Could not load ${url}: ${(err as Error).message}`] };
+  }
+}
+
+// user entries that no longer validate are dropped
+export function readUserMaterials(): MaterialDef[] {
+  try {
+    const list: unknown = JSON.parse(localStorage.getItem(USER_MATERIALS_KEY) ?? '[]');
+    return Array.isArray(list) ? list.filter((m): m is MaterialDef => materialDefErrors(m, '').length === 0) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function writeUserMaterials(materials: MaterialDef[]): void {
+  try {
+    localStorage.setItem(USER_MATERIALS_KEY, JSON.stringify(materials));
+  } catch {
+    // storage full or unavailable; the entries last for this session
+  }
+}
+
+// case-insensitive match of every word against the name, id and tags
+export function filterMaterials(materials: MaterialDef[], query: string): MaterialDef[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return materials;
+  return materials.filter(m => {
+    const text = [m.name, m.id, ...(m.tags ?? [])].join(' ').toLowerCase();
+    return words.every(w => text.includes(w));
+  });
+}
+
+/**
+ * Texture coordinates of plan point `p`: measured along and across the board
+ * direction, shifted by the offset and divided by the scaled tile size, so one
+ * unit of u/v is one copy of the maps on the floor.
+ */
+export function floorUv(p: Vec2, floor: FloorFinish): [number, number] {
+  const a = (floor.angle * Math.PI) / 180;
+  const cos = Math.cos(a), sin = Math.sin(a);
+  const along = p.x * cos + p.y * sin - floor.offset.x;
+  const across = -p.x * sin + p.y * cos - floor.offset.y;
+  return [along / (floor.tileSize.x * floor.scale), across / (floor.tileSize.y * floor.scale)];
+}
@@ -0,0 +1,31 @@
+import { type FloorPlan, type Opening, type Vec2 } from '../types';
+
+export type OpeningFrame = {
+  start: Vec2; // position of opening.a
+  dir: Vec2; // unit vector a -> b
+  normal: Vec2; // unit normal on the left of a -> b
+  wallLength: number;
+  center: number; // offset of the center, clamped so the opening fits the wall
+  s0: number; // span along a -> b
+  s1: number;
+};
+
+// keeps an opening of `width` inside a wall of length `len`
+export function clampOpeningOffset(len: number, width: number, offset: number): number {
+  if (len <= width) return len / 2;
+  return Math.max(width / 2, Math.min(len - width / 2, offset));
+}
+
+export function openingFrame(plan: FloorPlan, o: Opening): OpeningFrame {
+  const a = plan.vertices[o.a], b = plan.vertices[o.b];
+  const len = Math.hypot(b.x - a.x, b.y - a.y);
+  const dir = len > 0 ? { x: (b.x - a.x) / len, y: (b.y - a.y) / len } : { x: 1, y: 0 };
+  const center = clampOpeningOffset(len, o.width, o.offset);
+  const half = Math.min(o.width, len) / 2;
+  return { start: a, dir, normal: { x: -dir.y, y: dir.x }, wallLength: len, center, s0: center - half, s1: center + half };
+}
+
+// point `s` meters along the host wall and `n` meters to its left
+export function framePoint(f: OpeningFrame, s: number, n = 0): Vec2 {
+  return { x: f.start.x + f.dir.x * s + f.normal.x * n, y: f.start.y + f.dir.y * s + f.normal.y * n };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { type FloorPlan, type Vec2 } from '../types';
+import { addHole, addRoom, edgeLengthMoves, movesKeepRoomsSimple } from './plan';
+
+const square = (x: number, y: number, size: number): Vec2[] => [{ x, y }, { x: x + size, y }, { x: x + size, y: y + size }, { x, y: y + size }];
+
+function roomPlan(outline: Vec2[], ...holes: Vec2[][]): FloorPlan {
+  const empty: FloorPlan = { vertices: {}, rooms: [], wallOverrides: {}, openings: [], furniture: [], annotations: [], lights: [] };
+  return holes.reduce((plan, h) => addHole(plan, 'r1', h), addRoom(empty, 'r1', outline));
+}
+
+describe('movesKeepRoomsSimple', () => {
+  it('accepts a resize that keeps everything simple', () => {
+    const plan = roomPlan(square(0, 0, 4), square(1, 1, 1));
+    expect(movesKeepRoomsSimple(plan, edgeLengthMoves(plan, 'r1', 0, 5, 'start'))).toBe(true);
+  });
+
+  it('rejects a self-intersecting outline', () => {
+    const plan = roomPlan(square(0, 0, 4));
+    expect(movesKeepRoomsSimple(plan, { [plan.rooms[0].vertexIds[2]]: { x: -1, y: 2 } })).toBe(false);
+  });
+
+  it('rejects an outline pulled in across a hole', () => {
+    const plan = roomPlan(square(0, 0, 4), [{ x: 2.5, y: 1 }, { x: 3.5, y: 1 }, { x: 3.5, y: 2 }, { x: 2.5, y: 2 }]);
+    expect(movesKeepRoomsSimple(plan, edgeLengthMoves(plan, 'r1', 0, 3, 'end'))).toBe(false);
+  });
+
+  it('rejects a hole moved out of the room', () => {
+    const plan = roomPlan(square(0, 0, 4), square(1, 1, 1));
+    const ids = plan.rooms[0].holes[0];
+    const moves = Object.fromEntries(ids.map(id => [id, { x: plan.vertices[id].x + 5, y: plan.vertices[id].y }]));
+    expect(movesKeepRoomsSimple(plan, moves)).toBe(false);
+  });
+
+  it('rejects a hole moved onto another hole', () => {
+    const plan = roomPlan(square(0, 0, 4), square(0.5, 0.5, 1), square(2.5, 2.5, 1));
+    const ids = plan.rooms[0].holes[1];
+    const moves = Object.fromEntries(ids.map(id => [id, { x: plan.vertices[id].x - 1.7, y: plan.vertices[id].y - 1.7 }]));
+    expect(movesKeepRoomsSimple(plan, moves)).toBe(false);
+  });
+
+  it('ignores rooms the moves do not touch', () => {
+    const plan = roomPlan(square(0, 0, 4), square(5, 5, 1));
+    expect(movesKeepRoomsSimple(plan, { elsewhere: { x: 9, y: 9 } })).toBe(true);
+  });
+});
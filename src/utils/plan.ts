@@ -0,0 +1,382 @@
+import { type Annotation, type AnnotationEnd, type FloorFinish, type FloorPlan, type FurnitureItem, type LightFixture, type MaterialDef, type Opening, type OpeningKind, type Room, type Vec2, type WallSpec } from '../types';
+import { computePolygonAreaM2, isSimplePolygon, pointInPolygon, segmentsIntersect, signedArea } from './geometry';
+
+export const DEFAULT_WALL: WallSpec = { height: 2.7, thickness: 0.15 };
+
+export const DEFAULT_FLOOR: FloorFinish = { material: null, tileSize: { x: 1, y: 1 }, angle: 0, offset: { x: 0, y: 0 }, scale: 1, layout: null };
+
+export const OPENING_DEFAULTS: Record<OpeningKind, Pick<Opening, 'width' | 'height' | 'sill'>> = {
+  door: { width: 0.9, height: 2.1, sill: 0 },
+  window: { width: 1.2, height: 1.2, sill: 0.9 },
+};
+
+export function createId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createDefaultPlan(): FloorPlan {
+  const plan: FloorPlan = { vertices: {}, rooms: [], wallOverrides: {}, openings: [], furniture: [], annotations: [], lights: [] };
+  return addRoom(plan, createId('room'), [
+    { x: -2, y: -1.5 },
+    { x:  2, y: -1.5 },
+    { x:  2, y:  1.5 },
+    { x: -2, y:  1.5 },
+  ]);
+}
+
+export function getRoom(plan: FloorPlan, roomId: string | null): Room | undefined {
+  return roomId === null ? undefined : plan.rooms.find(r => r.id === roomId);
+}
+
+export function roomPoints(plan: FloorPlan, room: Room): Vec2[] {
+  return room.vertexIds.map(id => plan.vertices[id]);
+}
+
+// vertex ids of the room outline, or of hole `hole` when given
+export function loopIds(room: Room, hole?: number): string[] {
+  return hole === undefined ? room.vertexIds : room.holes[hole] ?? [];
+}
+
+export function holePoints(plan: FloorPlan, room: Room, hole: number): Vec2[] {
+  return loopIds(room, hole).map(id => plan.vertices[id]);
+}
+
+// floor area: the outline minus its holes
+export function roomArea(plan: FloorPlan, room: Room): number {
+  const holes = room.holes.reduce((s, _, h) => s + computePolygonAreaM2(holePoints(plan, room, h)), 0);
+  return computePolygonAreaM2(roomPoints(plan, room)) - holes;
+}
+
+export function edgeVertexIds(room: Room, index: number, hole?: number): [string, string] {
+  const ids = loopIds(room, hole);
+  return [ids[index], ids[(index + 1) % ids.length]];
+}
+
+// order-independent key of the wall between two vertices
+export function edgeKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+// index of edge a->b (either direction) in the room, or -1
+export function findEdge(room: Room, a: string, b: string): number {
+  const ids = room.vertexIds;
+  const n = ids.length;
+  for (let i = 0; i < n; i++) {
+    const j = (i + 1) % n;
+    if ((ids[i] === a && ids[j] === b) || (ids[i] === b && ids[j] === a)) return i;
+  }
+  return -1;
+}
+
+export function addRoom(plan: FloorPlan, roomId: string, points: Vec2[], name?: string): FloorPlan {
+  const vertices = { ...plan.vertices };
+  const vertexIds = points.map(p => {
+    const id = createId('v');
+    vertices[id] = { x: p.x, y: p.y };
+    return id;
+  });
+  const room: Room = { id: roomId, name: name ?? nextRoomName(plan), vertexIds, holes: [], wall: { ...DEFAULT_WALL }, floor: { ...DEFAULT_FLOOR } };
+  return { ...plan, vertices, rooms: [...plan.rooms, room] };
+}
+
+// appends a hole loop to the room; callers check it with holeRejectReason first
+export function addHole(plan: FloorPlan, roomId: string, points: Vec2[]): FloorPlan {
+  if (!getRoom(plan, roomId) || points.length < 3) return plan;
+  const vertices = { ...plan.vertices };
+  const ids = points.map(p => {
+    const id = createId('v');
+    vertices[id] = { x: p.x, y: p.y };
+    return id;
+  });
+  return { ...plan, vertices, rooms: plan.rooms.map(r => (r.id === roomId ? { ...r, holes: [...r.holes, ids] } : r)) };
+}
+
+export function deleteHole(plan: FloorPlan, roomId: string, hole: number): FloorPlan {
+  const room = getRoom(plan, roomId);
+  if (!room || !room.holes[hole]) return plan;
+  return prune(updateRoomLoops(plan, roomId, room.vertexIds, room.holes.filter((_, h) => h !== hole)));
+}
+
+function updateRoomLoops(plan: FloorPlan, roomId: string, vertexIds: string[], holes: string[][]): FloorPlan {
+  return { ...plan, rooms: plan.rooms.map(r => (r.id === roomId ? { ...r, vertexIds, holes } : r)) };
+}
+
+function nextRoomName(plan: FloorPlan): string {
+  let n = plan.rooms.length + 1;
+  while (plan.rooms.some(r => r.name === `Room ${n}`)) n++;
+  return `Room ${n}`;
+}
+
+export type RoomPatch = Partial<Omit<Room, 'id' | 'vertexIds' | 'holes'>>;
+
+export function updateRoom(plan: FloorPlan, roomId: string, patch: RoomPatch): FloorPlan {
+  return { ...plan, rooms: plan.rooms.map(r => (r.id === roomId ? { ...r, ...patch } : r)) };
+}
+
+export function updateFloor(plan: FloorPlan, roomId: string, patch: Partial<FloorFinish>): FloorPlan {
+  return { ...plan, rooms: plan.rooms.map(r => (r.id === roomId ? { ...r, floor: { ...r.floor, ...patch } } : r)) };
+}
+
+// every floor laid with the material gets the change, so rooms sharing a material stay alike
+export function updateMaterial(plan: FloorPlan, materialId: string, patch: Partial<MaterialDef>): FloorPlan {
+  return {
+    ...plan,
+    rooms: plan.rooms.map(r => (r.floor.material?.id === materialId ? { ...r, floor: { ...r.floor, material: { ...r.floor.material, ...patch } } } : r)),
+  };
+}
+
+// `null` (or an empty override) clears the wall back to its rooms' settings
+export function setWallOverride(plan: FloorPlan, key: string, override: Partial<WallSpec> | null): FloorPlan {
+  const wallOverrides = { ...plan.wallOverrides };
+  const clean: Partial<WallSpec> = {};
+  if (override?.height !== undefined) clean.height = override.height;
+  if (override?.thickness !== undefined) clean.thickness = override.thickness;
+  if (Object.keys(clean).length === 0) delete wallOverrides[key];
+  else wallOverrides[key] = clean;
+  return { ...plan, wallOverrides };
+}
+
+export function deleteRoom(plan: FloorPlan, roomId: string): FloorPlan {
+  const rooms = plan.rooms.filter(r => r.id !== roomId);
+  if (rooms.length === plan.rooms.length) return plan;
+  return prune({ ...plan, rooms });
+}
+
+export function moveVertices(plan: FloorPlan, moves: Record<string, Vec2>): FloorPlan {
+  const vertices = { ...plan.vertices };
+  let changed = false;
+  for (const id of Object.keys(moves)) {
+    if (!(id in vertices)) continue;
+    vertices[id] = moves[id];
+    changed = true;
+  }
+  return changed ? { ...plan, vertices } : plan;
+}
+
+export type LengthAnchor = 'start' | 'end' | 'both'; // which end of the edge moves
+
+// new vertex positions that resize edge `index` of the room to `length` along its current direction
+export function edgeLengthMoves(plan: FloorPlan, roomId: string, index: number, length: number, anchor: LengthAnchor, hole?: number): Record<string, Vec2> {
+  const room = getRoom(plan, roomId);
+  if (!room) return {};
+  const [a, b] = edgeVertexIds(room, index, hole);
+  const pa = plan.vertices[a], pb = plan.vertices[b];
+  const len = Math.hypot(pb.x - pa.x, pb.y - pa.y);
+  if (len < 1e-9) return {};
+  const dx = (pb.x - pa.x) / len, dy = (pb.y - pa.y) / len;
+  if (anchor === 'end') return { [b]: { x: pa.x + dx * length, y: pa.y + dy * length } };
+  if (anchor === 'start') return { [a]: { x: pb.x - dx * length, y: pb.y - dy * length } };
+  const mx = (pa.x + pb.x) / 2, my = (pa.y + pb.y) / 2, h = length / 2;
+  return { [a]: { x: mx - dx * h, y: my - dy * h }, [b]: { x: mx + dx * h, y: my + dy * h } };
+}
+
+// interior angle in degrees at position `index` of the room's vertex list
+export function interiorAngle(plan: FloorPlan, room: Room, index: number): number {
+  const pts = roomPoints(plan, room);
+  const n = pts.length;
+  const prev = pts[(index - 1 + n) % n], v = pts[index], next = pts[(index + 1) % n];
+  const toPrev = Math.atan2(prev.y - v.y, prev.x - v.x);
+  const toNext = Math.atan2(next.y - v.y, next.x - v.x);
+  // CCW rooms have their interior counter-clockwise from the outgoing edge
+  const sweep = signedArea(pts) >= 0 ? toPrev - toNext : toNext - toPrev;
+  const deg = (sweep * 180) / Math.PI;
+  return ((deg % 360) + 360) % 360;
+}
+
+// moves the vertex after `index` so the interior angle becomes `deg`; the incoming edge stays put
+export function angleMoves(plan: FloorPlan, roomId: string, index: number, deg: number): Record<string, Vec2> {
+  const room = getRoom(plan, roomId);
+  if (!room) return {};
+  const pts = roomPoints(plan, room);
+  const n = pts.length;
+  const prev = pts[(index - 1 + n) % n], v = pts[index], next = pts[(index + 1) % n];
+  const len = Math.hypot(next.x - v.x, next.y - v.y);
+  const toPrev = Math.atan2(prev.y - v.y, prev.x - v.x);
+  const rad = (deg * Math.PI) / 180;
+  const toNext = signedArea(pts) >= 0 ? toPrev - rad : toPrev + rad;
+  return { [room.vertexIds[(index + 1) % n]]: { x: v.x + Math.cos(toNext) * len, y: v.y + Math.sin(toNext) * len } };
+}
+
+function loopsTouch(a: Vec2[], b: Vec2[]): boolean {
+  return a.some((p, i) => b.some((q, j) => segmentsIntersect(p, a[(i + 1) % a.length], q, b[(j + 1) % b.length])));
+}
+
+// hole `k` lies strictly inside the outline, clear of the other holes
+function holeFits(outer: Vec2[], holes: Vec2[][], k: number): boolean {
+  const h = holes[k];
+  return !loopsTouch(h, outer) && pointInPolygon(h[0], outer)
+    && holes.every((o, j) => j === k || (!loopsTouch(h, o) && !pointInPolygon(h[0], o) && !pointInPolygon(o[0], h)));
+}
+
+/**
+ * True when every room touched by the moves keeps a simple (non self-intersecting)
+ * outline and holes, and no hole that fit before leaves the outline or runs into
+ * another hole.
+ */
+export function movesKeepRoomsSimple(plan: FloorPlan, moves: Record<string, Vec2>): boolean {
+  const moved = moveVertices(plan, moves);
+  return plan.rooms.every(r => {
+    const loops = [r.vertexIds, ...r.holes];
+    if (!loops.some(ids => ids.some(id => id in moves))) return true;
+    if (!loops.every(ids => !ids.some(id => id in moves) || isSimplePolygon(ids.map(id => moved.vertices[id])))) return false;
+    const [outerBefore, ...holesBefore] = loops.map(ids => ids.map(id => plan.vertices[id]));
+    const [outerAfter, ...holesAfter] = loops.map(ids => ids.map(id => moved.vertices[id]));
+    return holesAfter.every((_, k) => !holeFits(outerBefore, holesBefore, k) || holeFits(outerAfter, holesAfter, k));
+  });
+}
+
+/**
+ * Inserts a new vertex on edge `index` of the room (of its hole `hole` if given).
+ * Other rooms sharing the same wall get the vertex too, so the wall stays shared;
+ * hole edges are never shared.
+ */
+export function insertVertex(plan: FloorPlan, roomId: string, index: number, v: Vec2, hole?: number): FloorPlan {
+  const room = getRoom(plan, roomId);
+  if (!room) return plan;
+  const [a, b] = edgeVertexIds(room, index, hole);
+  const id = createId('v');
+  if (hole !== undefined) {
+    const ids = room.holes[hole].slice();
+    ids.splice(index + 1, 0, id);
+    const next = { ...plan, vertices: { ...plan.vertices, [id]: v } };
+    return updateRoomLoops(next, roomId, room.vertexIds, room.holes.map((h, k) => (k === hole ? ids : h)));
+  }
+  const rooms = plan.rooms.map(r => {
+    const e = findEdge(r, a, b);
+    if (e < 0) return r;
+    const next = r.vertexIds.slice();
+    next.splice(e + 1, 0, id);
+    return { ...r, vertexIds: next };
+  });
+  // both halves of a split wall keep its override
+  const wallOverrides = { ...plan.wallOverrides };
+  const override = wallOverrides[edgeKey(a, b)];
+  if (override) {
+    delete wallOverrides[edgeKey(a, b)];
+    wallOverrides[edgeKey(a, id)] = { ...override };
+    wallOverrides[edgeKey(id, b)] = { ...override };
+  }
+  // openings on the split wall move to whichever half holds their center
+  const openings = plan.openings.map(o => {
+    if (edgeKey(o.a, o.b) !== edgeKey(a, b)) return o;
+    const from = plan.vertices[o.a];
+    const split = Math.hypot(v.x - from.x, v.y - from.y);
+    if (o.offset < split) return { ...o, b: id };
+    return { ...o, a: id, offset: o.offset - split };
+  });
+  return { ...plan, vertices: { ...plan.vertices, [id]: v }, rooms, wallOverrides, openings };
+}
+
+export function addOpening(plan: FloorPlan, opening: Opening): FloorPlan {
+  return { ...plan, openings: [...plan.openings, opening] };
+}
+
+export type OpeningPatch = Partial<Omit<Opening, 'id' | 'kind'>>;
+
+export function updateOpening(plan: FloorPlan, id: string, patch: OpeningPatch): FloorPlan {
+  return { ...plan, openings: plan.openings.map(o => (o.id === id ? { ...o, ...patch } : o)) };
+}
+
+export function deleteOpening(plan: FloorPlan, id: string): FloorPlan {
+  const openings = plan.openings.filter(o => o.id !== id);
+  return openings.length === plan.openings.length ? plan : { ...plan, openings };
+}
+
+export function addFurniture(plan: FloorPlan, item: FurnitureItem): FloorPlan {
+  return { ...plan, furniture: [...plan.furniture, item] };
+}
+
+export type FurniturePatch = Partial<Omit<FurnitureItem, 'id' | 'catalogId'>>;
+
+export function updateFurniture(plan: FloorPlan, id: string, patch: FurniturePatch): FloorPlan {
+  return { ...plan, furniture: plan.furniture.map(f => (f.id === id ? { ...f, ...patch } : f)) };
+}
+
+export function deleteFurniture(plan: FloorPlan, id: string): FloorPlan {
+  const furniture = plan.furniture.filter(f => f.id !== id);
+  return furniture.length === plan.furniture.length ? plan : { ...plan, furniture };
+}
+
+export function addLight(plan: FloorPlan, light: LightFixture): FloorPlan {
+  return { ...plan, lights: [...plan.lights, light] };
+}
+
+export type LightPatch = Partial<Omit<LightFixture, 'id'>>;
+
+export function updateLight(plan: FloorPlan, id: string, patch: LightPatch): FloorPlan {
+  return { ...plan, lights: plan.lights.map(l => (l.id === id ? { ...l, ...patch } : l)) };
+}
+
+export function deleteLight(plan: FloorPlan, id: string): FloorPlan {
+  const lights = plan.lights.filter(l => l.id !== id);
+  return lights.length === plan.lights.length ? plan : { ...plan, lights };
+}
+
+export function addAnnotation(plan: FloorPlan, annotation: Annotation): FloorPlan {
+  return { ...plan, annotations: [...plan.annotations, annotation] };
+}
+
+// replaces the annotation with the same id
+export function updateAnnotation(plan: FloorPlan, annotation: Annotation): FloorPlan {
+  return { ...plan, annotations: plan.annotations.map(a => (a.id === annotation.id ? annotation : a)) };
+}
+
+export function deleteAnnotation(plan: FloorPlan, id: string): FloorPlan {
+  const annotations = plan.annotations.filter(a => a.id !== id);
+  return annotations.length === plan.annotations.length ? plan : { ...plan, annotations };
+}
+
+// applies `f` to both ends of every dimension
+function mapAnnotationEnds(plan: FloorPlan, f: (end: AnnotationEnd) => AnnotationEnd): FloorPlan {
+  const annotations = plan.annotations.map(a => (a.kind === 'dimension' ? { ...a, a: f(a.a), b: f(a.b) } : a));
+  return { ...plan, annotations };
+}
+
+// removes the vertex from every room and hole using it; refused if any loop would drop below 3 vertices
+export function deleteVertex(plan: FloorPlan, id: string): FloorPlan {
+  if (plan.rooms.some(r => [r.vertexIds, ...r.holes].some(ids => ids.includes(id) && ids.length <= 3))) return plan;
+  const drop = (ids: string[]) => (ids.includes(id) ? ids.filter(v => v !== id) : ids);
+  const rooms = plan.rooms.map(r => ({ ...r, vertexIds: drop(r.vertexIds), holes: r.holes.map(drop) }));
+  return prune({ ...plan, rooms });
+}
+
+/**
+ * Merges vertex `fromId` into `intoId`. Rooms that already contain `intoId` simply
+ * drop `fromId`; other rooms are rewired to `intoId`, which is how two rooms come
+ * to share a corner. Refused if any room would drop below 3 vertices.
+ */
+export function mergeVertex(plan: FloorPlan, fromId: string, intoId: string): FloorPlan {
+  if (fromId === intoId) return plan;
+  // null when the loop would drop below 3 vertices
+  const mergeLoop = (loop: string[]): string[] | null => {
+    if (!loop.includes(fromId)) return loop;
+    let ids = loop.includes(intoId) ? loop.filter(v => v !== fromId) : loop.map(v => (v === fromId ? intoId : v));
+    ids = ids.filter((v, i) => v !== ids[(i + 1) % ids.length]);
+    return ids.length < 3 ? null : ids;
+  };
+  const rooms: Room[] = [];
+  for (const r of plan.rooms) {
+    const vertexIds = mergeLoop(r.vertexIds);
+    const holes = r.holes.map(mergeLoop);
+    if (!vertexIds || holes.some(h => h === null)) return plan;
+    rooms.push({ ...r, vertexIds, holes: holes as string[][] });
+  }
+  const merged = mapAnnotationEnds(plan, end => (end.vertexId === fromId ? { ...end, vertexId: intoId } : end));
+  return prune({ ...merged, rooms });
+}
+
+// drops vertices, wall overrides and openings whose wall no room refers to any more;
+// dimensions pinned to a dropped vertex stay where it was
+function prune(plan: FloorPlan): FloorPlan {
+  const used = new Set(plan.rooms.flatMap(r => [...r.vertexIds, ...r.holes.flat()]));
+  const vertices: Record<string, Vec2> = {};
+  for (const id of Object.keys(plan.vertices)) if (used.has(id)) vertices[id] = plan.vertices[id];
+  const edges = new Set(plan.rooms.flatMap(r => r.vertexIds.map((_, i) => edgeKey(...edgeVertexIds(r, i)))));
+  const wallOverrides: Record<string, Partial<WallSpec>> = {};
+  for (const key of Object.keys(plan.wallOverrides)) if (edges.has(key)) wallOverrides[key] = plan.wallOverrides[key];
+  const openings = plan.openings.filter(o => edges.has(edgeKey(o.a, o.b)));
+  const detached = mapAnnotationEnds(plan, end => (
+    end.vertexId !== null && !used.has(end.vertexId) ? { vertexId: null, at: { ...(plan.vertices[end.vertexId] ?? end.at) } } : end
+  ));
+  return { ...detached, vertices, wallOverrides, openings };
+}
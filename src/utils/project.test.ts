@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_LIGHTING } from './lighting';
+import { createDefaultPlan } from './plan';
+import { createProjectFile, parseProject, PROJECT_VERSION, serializeProject } from './project';
+import { DEFAULT_UNITS } from './units';
+
+// a version-1 project: one square room floored with a built-in texture and one with a custom URL
+function v1Doc(): Record<string, unknown> {
+  const floor = (textureUrl: string) => ({ textureUrl });
+  return {
+    format: 'room-blueprint',
+    version: 1,
+    name: 'Old flat',
+    savedAt: '2024-01-01T00:00:00.000Z',
+    plan: {
+      vertices: { a: { x: 0, y: 0 }, b: { x: 4, y: 0 }, c: { x: 4, y: 3 }, d: { x: 0, y: 3 }, e: { x: 8, y: 0 }, f: { x: 8, y: 3 } },
+      rooms: [
+        { id: 'r1', name: 'Living', vertexIds: ['a', 'b', 'c', 'd'], wall: { height: 2.7, thickness: 0.15 }, floor: floor('/texture/oak.jpg') },
+        { id: 'r2', name: 'Study', vertexIds: ['b', 'e', 'f', 'c'], wall: { height: 2.7, thickness: 0.15 }, floor: floor('https://example.com/stone.png') },
+      ],
+      wallOverrides: {},
+      openings: [],
+    },
+    view: { view2D: { offset: { x: 0, y: 0 }, pxPerM: 80 }, camera: null },
+  };
+}
+
+function parse(doc: unknown) {
+  const result = parseProject(JSON.stringify(doc));
+  if (!result.ok) throw new Error(result.errors.join('\n'));
+  return result.project;
+}
+
+describe('parseProject', () => {
+  it('reads back a saved project unchanged', () => {
+    const project = createProjectFile('Home', createDefaultPlan(), DEFAULT_UNITS, DEFAULT_LIGHTING, { offset: { x: 1, y: 2 }, pxPerM: 60 }, null, []);
+    expect(parseProject(serializeProject(project))).toEqual({ ok: true, project });
+  });
+
+  it('upgrades a v1 project to the current version', () => {
+    const project = parse(v1Doc());
+    expect(project.version).toBe(PROJECT_VERSION);
+    expect(project.units).toEqual(DEFAULT_UNITS);
+    expect(project.lighting).toEqual(DEFAULT_LIGHTING);
+    expect(project.view.viewpoints).toEqual([]);
+    const { plan } = project;
+    expect(plan.furniture).toEqual([]);
+    expect(plan.annotations).toEqual([]);
+    expect(plan.lights).toEqual([]);
+    expect(plan.rooms.map(r => r.holes)).toEqual([[], []]);
+  });
+
+  it('turns v1 floor textures into materials with their tile size', () => {
+    const [living, study] = parse(v1Doc()).plan.rooms;
+    expect(living.floor).toEqual({
+      material: { id: 'oak', name: 'Oak', color: '#ffffff', roughness: 0.9, metalness: 0, tileSize: { x: 2.4, y: 1.2 }, maps: { albedo: '/texture/oak.jpg' } },
+      tileSize: { x: 2.4, y: 1.2 },
+      angle: 0,
+      offset: { x: 0, y: 0 },
+      scale: 1,
+      layout: null,
+    });
+    expect(study.floor.material).toMatchObject({ id: 'url:https://example.com/stone.png', name: 'stone.png', maps: { albedo: 'https://example.com/stone.png' } });
+    expect(study.floor.tileSize).toEqual({ x: 0.5, y: 0.5 });
+  });
+
+  it('gives a floor without a texture no material', () => {
+    const doc = v1Doc();
+    (doc.plan as { rooms: { floor: unknown }[] }).rooms[0].floor = { textureUrl: '' };
+    expect(parse(doc).plan.rooms[0].floor.material).toBeNull();
+  });
+
+  it('upgrades from an intermediate version', () => {
+    const project = createProjectFile('Home', createDefaultPlan(), DEFAULT_UNITS, DEFAULT_LIGHTING, { offset: { x: 0, y: 0 }, pxPerM: 80 }, null, []);
+    const doc = JSON.parse(serializeProject({ ...project, version: 9 }));
+    delete doc.view.viewpoints;
+    expect(parse(doc).view.viewpoints).toEqual([]);
+  });
+
+  it('rejects files from a newer version', () => {
+    const result = parseProject(JSON.stringify({ ...v1Doc(), version: PROJECT_VERSION + 1 }));
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors[0]).toMatch(/newer version/);
+  });
+
+  it('rejects files that are not projects', () => {
+    expect(parseProject('{').ok).toBe(false);
+    expect(parseProject('{"format":"other","version":1}').ok).toBe(false);
+    expect(parseProject('{"format":"room-blueprint","version":0}')).toEqual({ ok: false, errors: ['"version" must be a positive integer.'] });
+  });
+
+  it('reports every broken reference with its path', () => {
+    const doc = v1Doc();
+    const rooms = (doc.plan as { rooms: { vertexIds: string[] }[] }).rooms;
+    rooms[0].vertexIds[2] = 'v_x';
+    rooms[1].vertexIds[0] = 'v_y';
+    const result = parseProject(JSON.stringify(doc));
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors).toContain('plan.rooms[0].vertexIds[2] refers to an unknown vertex "v_x".');
+    expect(result.errors.some(e => e.startsWith('plan.rooms[1].vertexIds[0]'))).toBe(true);
+  });
+});
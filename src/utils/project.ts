@@ -0,0 +1,364 @@
+import { type CameraView, type FloorPlan, type LightingSettings, type MaterialDef, type UnitSettings, type Vec2, type View2D, type Viewpoint } from '../types';
+import { DEFAULT_LIGHTING, LIGHT_LABELS, LIGHTING_PRESETS } from './lighting';
+import { materialDefErrors } from './materials';
+import { DEFAULT_UNITS, INCH_FRACTIONS, LENGTH_UNIT_LABELS } from './units';
+
+/**
+ * On-disk project format. See docs/project-format.md for the field-by-field
+ * description; bump PROJECT_VERSION and add a migration whenever it changes.
+ */
+export const PROJECT_FORMAT = 'room-blueprint';
+export const PROJECT_VERSION = 10;
+const AUTOSAVE_KEY = 'room-blueprint:autosave';
+
+export type ProjectFile = {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  name: string;
+  savedAt: string; // ISO 8601
+  plan: FloorPlan;
+  units: UnitSettings;
+  lighting: LightingSettings;
+  view: { view2D: View2D; camera: CameraView | null; viewpoints: Viewpoint[] };
+};
+
+export type ParseResult = { ok: true; project: ProjectFile } | { ok: false; errors: string[] };
+
+// migrations[n] upgrades a version-n document to version n + 1
+type RawDoc = Record<string, unknown>;
+
+// the floor texture presets built into v3/v4, by url
+const LEGACY_PRESETS: Record<string, { id: string; name: string; tileSize: Vec2 }> = {
+  '/texture/oak.jpg': { id: 'oak', name: 'Oak', tileSize: { x: 2.4, y: 1.2 } },
+  '/texture/hardwood.png': { id: 'hardwood', name: 'Hardwood', tileSize: { x: 1.2, y: 1.2 } },
+  '/texture/finewood.jpg': { id: 'finewood', name: 'Finewood', tileSize: { x: 0.8, y: 0.8 } },
+};
+
+// applies `f` to every room's floor object
+function mapFloors(doc: RawDoc, f: (floor: RawDoc) => RawDoc): RawDoc {
+  const plan = isObj(doc.plan) ? doc.plan : null;
+  if (!plan || !Array.isArray(plan.rooms)) return doc;
+  const rooms = plan.rooms.map((r: unknown) => (isObj(r) && isObj(r.floor) ? { ...r, floor: f(r.floor) } : r));
+  return { ...doc, plan: { ...plan, rooms } };
+}
+
+const migrations: Record<number, (doc: RawDoc) => RawDoc> = {
+  // v2: rooms gained interior holes
+  1: doc => {
+    const plan = isObj(doc.plan) ? doc.plan : null;
+    if (!plan || !Array.isArray(plan.rooms)) return doc;
+    return { ...doc, plan: { ...plan, rooms: plan.rooms.map((r: unknown) => (isObj(r) ? { ...r, holes: [] } : r)) } };
+  },
+  // v3: furniture and fixtures
+  2: doc => (isObj(doc.plan) ? { ...doc, plan: { ...doc.plan, furniture: [] } } : doc),
+  // v4: floor textures got a real-world tile size and laying direction; presets take their
+  // declared size, other textures keep the old look of two repeats per meter
+  3: doc => mapFloors(doc, floor => {
+    const url = typeof floor.textureUrl === 'string' ? floor.textureUrl : '';
+    const tileSize = LEGACY_PRESETS[url]?.tileSize ?? { x: 0.5, y: 0.5 };
+    return { ...floor, tileSize: { ...tileSize }, angle: 0, offset: { x: 0, y: 0 }, scale: 1 };
+  }),
+  // v5: the texture URL became a full PBR material
+  4: doc => mapFloors(doc, ({ textureUrl, ...floor }) => {
+    if (typeof textureUrl !== 'string' || !textureUrl) return { ...floor, material: null };
+    const preset = LEGACY_PRESETS[textureUrl];
+    const material: MaterialDef = {
+      id: preset?.id ?? `url:${textureUrl}`,
+      name: preset?.name ?? (textureUrl.split('/').pop() || 'Texture'),
+      color: '#ffffff',
+      roughness: 0.9,
+      metalness: 0,
+      tileSize: isObj(floor.tileSize) ? { ...(floor.tileSize as Vec2) } : { x: 0.5, y: 0.5 },
+      maps: { albedo: textureUrl },
+    };
+    return { ...floor, material };
+  }),
+  // v6: tile and plank layouts
+  5: doc => mapFloors(doc, floor => ({ ...floor, layout: null })),
+  // v7: project unit setting; older projects were shown in meters
+  6: doc => ({ ...doc, units: { ...DEFAULT_UNITS } }),
+  // v8: dimension lines, notes and leaders
+  7: doc => (isObj(doc.plan) ? { ...doc, plan: { ...doc.plan, annotations: [] } } : doc),
+  // v9: light fittings and the 3D lighting settings
+  8: doc => ({ ...(isObj(doc.plan) ? { ...doc, plan: { ...doc.plan, lights: [] } } : doc), lighting: { ...DEFAULT_LIGHTING } }),
+  // v10: saved 3D viewpoints
+  9: doc => (isObj(doc.view) ? { ...doc, view: { ...doc.view, viewpoints: [] } } : doc),
+};
+
+export function createProjectFile(name: string, plan: FloorPlan, units: UnitSettings, lighting: LightingSettings, view2D: View2D, camera: CameraView | null, viewpoints: Viewpoint[]): ProjectFile {
+  return { format: PROJECT_FORMAT, version: PROJECT_VERSION, name, savedAt: new Date().toISOString(), plan, units, lighting, view: { view2D, camera, viewpoints } };
+}
+
+export function serializeProject(project: ProjectFile): string {
+  return JSON.stringify(project, null, 2);
+}
+
+// project name made safe for a download file name
+export function fileBaseName(name: string, fallback = 'project'): string {
+  return name.replace(/[\\/:*?"<>|]+/g, '_').trim() || fallback;
+}
+
+export function parseProject(text: string): ParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    return { ok: false, errors: [`Not a valid JSON file: ${(err as Error).message}`] };
+  }
+  if (!isObj(raw) || raw.format !== PROJECT_FORMAT) {
+    return { ok: false, errors: ['Not a Room Blueprint project (missing "format": "room-blueprint").'] };
+  }
+  const version = raw.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { ok: false, errors: ['"version" must be a positive integer.'] };
+  }
+  if (version > PROJECT_VERSION) {
+    return { ok: false, errors: [`This project was saved by a newer version of the app (format v${version}, this app reads up to v${PROJECT_VERSION}).`] };
+  }
+  let doc: RawDoc = raw;
+  for (let v = version; v < PROJECT_VERSION; v++) doc = { ...migrations[v](doc), version: v + 1 };
+
+  const errors: string[] = [];
+  validateProject(doc, errors);
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, project: doc as ProjectFile };
+}
+
+// --- validation: collects every problem with a JSON path instead of stopping at the first ---
+
+function isObj(v: unknown): v is RawDoc {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function checkNumber(v: unknown, path: string, errors: string[], min?: number): void {
+  if (typeof v !== 'number' || !Number.isFinite(v)) errors.push(`${path} must be a number.`);
+  else if (min !== undefined && v < min) errors.push(`${path} must be at least ${min}.`);
+}
+
+function checkString(v: unknown, path: string, errors: string[]): void {
+  if (typeof v !== 'string') errors.push(`${path} must be a string.`);
+}
+
+function checkEnum(v: unknown, allowed: string[], path: string, errors: string[]): void {
+  if (typeof v !== 'string' || !allowed.includes(v)) errors.push(`${path} must be one of ${allowed.map(a => `"${a}"`).join(', ')}.`);
+}
+
+function checkVec2(v: unknown, path: string, errors: string[]): void {
+  if (!isObj(v)) { errors.push(`${path} must be an object with x and y.`); return; }
+  checkNumber(v.x, `${path}.x`, errors);
+  checkNumber(v.y, `${path}.y`, errors);
+}
+
+function checkTuple3(v: unknown, path: string, errors: string[]): void {
+  if (!Array.isArray(v) || v.length !== 3) { errors.push(`${path} must be an array of 3 numbers.`); return; }
+  v.forEach((n, i) => checkNumber(n, `${path}[${i}]`, errors));
+}
+
+function validateProject(doc: RawDoc, errors: string[]): void {
+  checkString(doc.name, 'name', errors);
+  validatePlan(doc.plan, 'plan', errors);
+  if (!isObj(doc.units)) errors.push('units must be an object.');
+  else {
+    checkEnum(doc.units.length, Object.keys(LENGTH_UNIT_LABELS), 'units.length', errors);
+    if (!INCH_FRACTIONS.includes(doc.units.fraction as number)) errors.push(`units.fraction must be one of ${INCH_FRACTIONS.join(', ')}.`);
+  }
+  if (!isObj(doc.lighting)) errors.push('lighting must be an object.');
+  else {
+    checkEnum(doc.lighting.preset, Object.keys(LIGHTING_PRESETS), 'lighting.preset', errors);
+    checkNumber(doc.lighting.hour, 'lighting.hour', errors, 0);
+    if (typeof doc.lighting.hour === 'number' && doc.lighting.hour > 24) errors.push('lighting.hour must be at most 24.');
+    if (typeof doc.lighting.shadows !== 'boolean') errors.push('lighting.shadows must be true or false.');
+  }
+  if (!isObj(doc.view)) { errors.push('view must be an object.'); return; }
+  const view2D = doc.view.view2D;
+  if (!isObj(view2D)) errors.push('view.view2D must be an object.');
+  else {
+    checkVec2(view2D.offset, 'view.view2D.offset', errors);
+    checkNumber(view2D.pxPerM, 'view.view2D.pxPerM', errors, 1);
+  }
+  const camera = doc.view.camera;
+  if (camera !== null) {
+    if (!isObj(camera)) errors.push('view.camera must be an object or null.');
+    else {
+      checkTuple3(camera.position, 'view.camera.position', errors);
+      checkTuple3(camera.target, 'view.camera.target', errors);
+      checkNumber(camera.fov, 'view.camera.fov', errors, 1);
+    }
+  }
+  if (!Array.isArray(doc.view.viewpoints)) errors.push('view.viewpoints must be an array.');
+  else doc.view.viewpoints.forEach((v: unknown, i: number) => {
+    const vp = `view.viewpoints[${i}]`;
+    if (!isObj(v)) { errors.push(`${vp} must be an object.`); return; }
+    checkString(v.id, `${vp}.id`, errors);
+    checkString(v.name, `${vp}.name`, errors);
+    checkTuple3(v.position, `${vp}.position`, errors);
+    checkTuple3(v.target, `${vp}.target`, errors);
+    checkNumber(v.fov, `${vp}.fov`, errors, 1);
+  });
+}
+
+function validatePlan(plan: unknown, path: string, errors: string[]): void {
+  if (!isObj(plan)) { errors.push(`${path} must be an object.`); return; }
+  const vertices = plan.vertices;
+  if (!isObj(vertices)) errors.push(`${path}.vertices must be an object of id -> {x, y}.`);
+  else for (const [id, v] of Object.entries(vertices)) checkVec2(v, `${path}.vertices["${id}"]`, errors);
+  const hasVertex = (id: unknown) => isObj(vertices) && typeof id === 'string' && id in vertices;
+
+  if (!Array.isArray(plan.rooms)) errors.push(`${path}.rooms must be an array.`);
+  else plan.rooms.forEach((r: unknown, i: number) => {
+    const rp = `${path}.rooms[${i}]`;
+    if (!isObj(r)) { errors.push(`${rp} must be an object.`); return; }
+    checkString(r.id, `${rp}.id`, errors);
+    checkString(r.name, `${rp}.name`, errors);
+    if (!Array.isArray(r.vertexIds) || r.vertexIds.length < 3) errors.push(`${rp}.vertexIds must list at least 3 vertex ids.`);
+    else r.vertexIds.forEach((id: unknown, k: number) => {
+      if (!hasVertex(id)) errors.push(`${rp}.vertexIds[${k}] refers to an unknown vertex ${JSON.stringify(id)}.`);
+    });
+    if (!Array.isArray(r.holes)) errors.push(`${rp}.holes must be an array.`);
+    else r.holes.forEach((h: unknown, j: number) => {
+      if (!Array.isArray(h) || h.length < 3) { errors.push(`${rp}.holes[${j}] must list at least 3 vertex ids.`); return; }
+      h.forEach((id: unknown, k: number) => {
+        if (!hasVertex(id)) errors.push(`${rp}.holes[${j}][${k}] refers to an unknown vertex ${JSON.stringify(id)}.`);
+      });
+    });
+    if (!isObj(r.wall)) errors.push(`${rp}.wall must be an object.`);
+    else {
+      checkNumber(r.wall.height, `${rp}.wall.height`, errors, 0);
+      checkNumber(r.wall.thickness, `${rp}.wall.thickness`, errors, 0);
+    }
+    if (!isObj(r.floor)) errors.push(`${rp}.floor must be an object.`);
+    else {
+      if (r.floor.material !== null) errors.push(...materialDefErrors(r.floor.material, `${rp}.floor.material`));
+      if (!isObj(r.floor.tileSize)) errors.push(`${rp}.floor.tileSize must be an object with x and y.`);
+      else {
+        checkNumber(r.floor.tileSize.x, `${rp}.floor.tileSize.x`, errors, 0.01);
+        checkNumber(r.floor.tileSize.y, `${rp}.floor.tileSize.y`, errors, 0.01);
+      }
+      checkNumber(r.floor.angle, `${rp}.floor.angle`, errors);
+      checkVec2(r.floor.offset, `${rp}.floor.offset`, errors);
+      checkNumber(r.floor.scale, `${rp}.floor.scale`, errors, 0.01);
+      const layout = r.floor.layout;
+      if (layout !== null) {
+        const lp = `${rp}.floor.layout`;
+        if (!isObj(layout)) errors.push(`${lp} must be an object or null.`);
+        else {
+          checkEnum(layout.pattern, ['grid', 'running-bond', 'herringbone', 'diagonal'], `${lp}.pattern`, errors);
+          if (!isObj(layout.tile)) errors.push(`${lp}.tile must be an object with x and y.`);
+          else {
+            checkNumber(layout.tile.x, `${lp}.tile.x`, errors, 0.01);
+            checkNumber(layout.tile.y, `${lp}.tile.y`, errors, 0.01);
+          }
+          checkNumber(layout.grout, `${lp}.grout`, errors, 0);
+          checkNumber(layout.bondOffset, `${lp}.bondOffset`, errors, 0);
+          checkVec2(layout.origin, `${lp}.origin`, errors);
+          checkNumber(layout.minCut, `${lp}.minCut`, errors, 0);
+        }
+      }
+    }
+  });
+
+  if (!isObj(plan.wallOverrides)) errors.push(`${path}.wallOverrides must be an object.`);
+  else for (const [key, o] of Object.entries(plan.wallOverrides)) {
+    const op = `${path}.wallOverrides["${key}"]`;
+    if (!isObj(o)) { errors.push(`${op} must be an object.`); continue; }
+    if (o.height !== undefined) checkNumber(o.height, `${op}.height`, errors, 0);
+    if (o.thickness !== undefined) checkNumber(o.thickness, `${op}.thickness`, errors, 0);
+  }
+
+  if (!Array.isArray(plan.openings)) errors.push(`${path}.openings must be an array.`);
+  else plan.openings.forEach((o: unknown, i: number) => {
+    const op = `${path}.openings[${i}]`;
+    if (!isObj(o)) { errors.push(`${op} must be an object.`); return; }
+    checkString(o.id, `${op}.id`, errors);
+    checkEnum(o.kind, ['door', 'window'], `${op}.kind`, errors);
+    if (!hasVertex(o.a)) errors.push(`${op}.a refers to an unknown vertex ${JSON.stringify(o.a)}.`);
+    if (!hasVertex(o.b)) errors.push(`${op}.b refers to an unknown vertex ${JSON.stringify(o.b)}.`);
+    checkNumber(o.offset, `${op}.offset`, errors);
+    checkNumber(o.width, `${op}.width`, errors, 0);
+    checkNumber(o.height, `${op}.height`, errors, 0);
+    checkNumber(o.sill, `${op}.sill`, errors, 0);
+    checkEnum(o.hinge, ['a', 'b'], `${op}.hinge`, errors);
+    checkEnum(o.opensTo, ['left', 'right'], `${op}.opensTo`, errors);
+  });
+
+  if (!Array.isArray(plan.furniture)) errors.push(`${path}.furniture must be an array.`);
+  else plan.furniture.forEach((f: unknown, i: number) => {
+    const fp = `${path}.furniture[${i}]`;
+    if (!isObj(f)) { errors.push(`${fp} must be an object.`); return; }
+    checkString(f.id, `${fp}.id`, errors);
+    checkString(f.catalogId, `${fp}.catalogId`, errors);
+    checkString(f.name, `${fp}.name`, errors);
+    checkNumber(f.x, `${fp}.x`, errors);
+    checkNumber(f.y, `${fp}.y`, errors);
+    checkNumber(f.rotation, `${fp}.rotation`, errors);
+    checkNumber(f.width, `${fp}.width`, errors, 0);
+    checkNumber(f.depth, `${fp}.depth`, errors, 0);
+    checkNumber(f.height, `${fp}.height`, errors, 0);
+  });
+
+  if (!Array.isArray(plan.annotations)) errors.push(`${path}.annotations must be an array.`);
+  else plan.annotations.forEach((a: unknown, i: number) => {
+    const ap = `${path}.annotations[${i}]`;
+    if (!isObj(a)) { errors.push(`${ap} must be an object.`); return; }
+    checkString(a.id, `${ap}.id`, errors);
+    checkEnum(a.kind, ['dimension', 'note', 'leader'], `${ap}.kind`, errors);
+    if (a.kind === 'dimension') {
+      for (const end of ['a', 'b'] as const) {
+        const e = a[end];
+        if (!isObj(e)) { errors.push(`${ap}.${end} must be an object with vertexId and at.`); continue; }
+        if (e.vertexId !== null && !hasVertex(e.vertexId)) errors.push(`${ap}.${end}.vertexId refers to an unknown vertex ${JSON.stringify(e.vertexId)}.`);
+        checkVec2(e.at, `${ap}.${end}.at`, errors);
+      }
+      checkNumber(a.offset, `${ap}.offset`, errors);
+    } else if (a.kind === 'note' || a.kind === 'leader') {
+      checkVec2(a.at, `${ap}.at`, errors);
+      if (a.kind === 'leader') checkVec2(a.tip, `${ap}.tip`, errors);
+      checkString(a.text, `${ap}.text`, errors);
+    }
+  });
+
+  if (!Array.isArray(plan.lights)) errors.push(`${path}.lights must be an array.`);
+  else plan.lights.forEach((l: unknown, i: number) => {
+    const lp = `${path}.lights[${i}]`;
+    if (!isObj(l)) { errors.push(`${lp} must be an object.`); return; }
+    checkString(l.id, `${lp}.id`, errors);
+    checkEnum(l.kind, Object.keys(LIGHT_LABELS), `${lp}.kind`, errors);
+    checkNumber(l.x, `${lp}.x`, errors);
+    checkNumber(l.y, `${lp}.y`, errors);
+    checkNumber(l.height, `${lp}.height`, errors, 0);
+    checkNumber(l.lumens, `${lp}.lumens`, errors, 0);
+    checkNumber(l.temperature, `${lp}.temperature`, errors, 1000);
+    checkNumber(l.beam, `${lp}.beam`, errors, 1);
+  });
+}
+
+// --- autosave (localStorage) ---
+
+export function writeAutosave(project: ProjectFile): void {
+  try {
+    localStorage.setItem(AUTOSAVE_KEY, serializeProject(project));
+  } catch {
+    // storage full or unavailable (private mode); autosave is best effort
+  }
+}
+
+// last autosaved session, or null if there is none or it no longer validates
+export function readAutosave(): ProjectFile | null {
+  let text: string | null = null;
+  try {
+    text = localStorage.getItem(AUTOSAVE_KEY);
+  } catch {
+    return null;
+  }
+  if (!text) return null;
+  const result = parseProject(text);
+  return result.ok ? result.project : null;
+}
+
+export function clearAutosave(): void {
+  try {
+    localStorage.removeItem(AUTOSAVE_KEY);
+  } catch {
+    // ignore
+  }
+}
@@ -0,0 +1,96 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js';
+import { createZip, type ZipEntry } from './zip';
+
+/**
+ * 3D export of the generated scene. The scene already follows the glTF
+ * conventions (meters, +Y up, plan +y along -Z), so geometry is written as-is;
+ * the OBJ uses the same axes and units.
+ */
+
+// objects flagged with userData.exportIgnore (ground plane, selection glow) are editor helpers
+export const EXPORT_IGNORE = 'exportIgnore';
+
+// shallow copy of the exportable content; geometries and materials are shared with the scene
+export function buildExportRoot(scene: THREE.Scene, name: string): THREE.Group {
+  const root = new THREE.Group();
+  root.name = name;
+  for (const child of scene.children) {
+    if (!child.visible || child.userData[EXPORT_IGNORE] || child instanceof THREE.Light || child instanceof THREE.Camera) continue;
+    root.add(child.clone());
+  }
+  root.updateMatrixWorld(true);
+  return root;
+}
+
+// .glb when `binary`, else a self-contained .gltf with data-URI buffers and images
+export async function exportGltf(root: THREE.Object3D, binary: boolean): Promise<Blob> {
+  const result = await new GLTFExporter().parseAsync(root, { binary, onlyVisible: true });
+  return binary
+    ? new Blob([result as ArrayBuffer], { type: 'model/gltf-binary' })
+    : new Blob([JSON.stringify(result)], { type: 'model/gltf+json' });
+}
+
+// OBJ + MTL + PNG textures, zipped
+export async function exportObjZip(root: THREE.Object3D, baseName: string): Promise<Blob> {
+  const fileName = baseName.replace(/\s+/g, '_'); // mtllib takes a single token
+  // OBJExporter writes `usemtl <material.name>`, so give every material a unique, space-free name
+  const names = new Map<THREE.Material, string>();
+  const used = new Set<string>();
+  const clones: THREE.Material[] = [];
+  root.traverse(o => {
+    if (!(o instanceof THREE.Mesh) || Array.isArray(o.material)) return;
+    const src = o.material as THREE.Material;
+    let name = names.get(src);
+    if (!name) {
+      const base = (src.name || 'material').replace(/[^\w-]+/g, '_');
+      name = base;
+      for (let i = 2; used.has(name); i++) name = `${base}_${i}`;
+      used.add(name);
+      names.set(src, name);
+    }
+    const m = src.clone();
+    m.name = name;
+    clones.push(m);
+    o.material = m;
+  });
+
+  const files: ZipEntry[] = [];
+  const enc = new TextEncoder();
+  const mtl: string[] = [];
+  const textureFiles = new Map<THREE.Texture, string | null>();
+  for (const [src, name] of names) {
+    const m = src as THREE.Material & { color?: THREE.Color; map?: THREE.Texture | null };
+    const c = m.color ? m.color.getRGB(new THREE.Color(), THREE.SRGBColorSpace) : new THREE.Color(1, 1, 1);
+    mtl.push(`newmtl ${name}`, `Kd ${c.r.toFixed(4)} ${c.g.toFixed(4)} ${c.b.toFixed(4)}`, 'Ka 0 0 0', 'Ks 0 0 0', 'Ns 10', 'illum 1');
+    if (m.transparent && m.opacity < 1) mtl.push(`d ${m.opacity.toFixed(3)}`);
+    if (m.map) {
+      let file = textureFiles.get(m.map);
+      if (file === undefined) {
+        const png = await textureToPng(m.map);
+        file = png ? `textures/${name}.png` : null;
+        if (png && file) files.push({ name: file, data: png });
+        textureFiles.set(m.map, file);
+      }
+      if (file) mtl.push(`map_Kd -s ${m.map.repeat.x} ${m.map.repeat.y} 1 ${file}`);
+    }
+    mtl.push('');
+  }
+
+  const obj = `# Room Blueprint export; units: meters, +Y up\nmtllib ${fileName}.mtl\n${new OBJExporter().parse(root)}`;
+  files.unshift({ name: `${fileName}.obj`, data: enc.encode(obj) }, { name: `${fileName}.mtl`, data: enc.encode(mtl.join('\n')) });
+  clones.forEach(m => m.dispose());
+  return createZip(files);
+}
+
+async function textureToPng(tex: THREE.Texture): Promise<Uint8Array | null> {
+  const img = tex.image as (CanvasImageSource & { width: number; height: number }) | undefined;
+  if (!img || !img.width || !img.height) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  canvas.getContext('2d')!.drawImage(img, 0, 0);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  return blob ? new Uint8Array(await blob.arrayBuffer()) : null;
+}
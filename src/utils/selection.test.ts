@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { type FloorPlan, type Vec2 } from '../types';
+import { DEFAULT_FLOOR, DEFAULT_WALL } from './plan';
+import { alignMoves, distributeMoves, groupBounds, groupPieces, groupVertexIds, pivotPoint, transformMoves } from './selection';
+
+// room r1 with corners a (0, 0), b (4, 0), c (4, 3), d (0, 3); loose points p, q
+const plan: FloorPlan = {
+  vertices: { a: { x: 0, y: 0 }, b: { x: 4, y: 0 }, c: { x: 4, y: 3 }, d: { x: 0, y: 3 }, p: { x: 6, y: 1 }, q: { x: 9, y: 2 } },
+  rooms: [{ id: 'r1', name: 'Room 1', vertexIds: ['a', 'b', 'c', 'd'], holes: [], wall: { ...DEFAULT_WALL }, floor: { ...DEFAULT_FLOOR } }],
+  wallOverrides: {},
+  openings: [],
+  furniture: [],
+  annotations: [],
+  lights: [],
+};
+
+function expectMoves(actual: Record<string, Vec2>, expected: Record<string, Vec2>) {
+  expect(Object.keys(actual).sort()).toEqual(Object.keys(expected).sort());
+  for (const [id, p] of Object.entries(expected)) {
+    expect(actual[id].x).toBeCloseTo(p.x, 9);
+    expect(actual[id].y).toBeCloseTo(p.y, 9);
+  }
+}
+
+describe('group vertices and bounds', () => {
+  it('collects selected vertices and edge ends once, skipping edges that are gone', () => {
+    const ids = groupVertexIds(plan, ['a', 'p'], [{ roomId: 'r1', index: 0 }, { roomId: 'r1', index: 9 }, { roomId: 'gone', index: 0 }]);
+    expect(ids.sort()).toEqual(['a', 'b', 'p']);
+  });
+
+  it('finds the bounds and their pivot points', () => {
+    const b = groupBounds(plan, ['a', 'c', 'p'])!;
+    expect(b).toEqual({ minX: 0, minY: 0, maxX: 6, maxY: 3 });
+    expect(pivotPoint(b, 'center')).toEqual({ x: 3, y: 1.5 });
+    expect(pivotPoint(b, 'top-left')).toEqual({ x: 0, y: 3 });
+    expect(pivotPoint(b, 'bottom-right')).toEqual({ x: 6, y: 0 });
+    expect(groupBounds(plan, [])).toBeNull();
+  });
+});
+
+describe('transformMoves', () => {
+  const ids = ['a', 'b'];
+
+  it('moves', () => {
+    expectMoves(transformMoves(plan, ids, { kind: 'move', dx: 1, dy: -2 }, { x: 0, y: 0 }), { a: { x: 1, y: -2 }, b: { x: 5, y: -2 } });
+  });
+
+  it('rotates counterclockwise about the pivot', () => {
+    expectMoves(transformMoves(plan, ids, { kind: 'rotate', deg: 90 }, { x: 0, y: 0 }), { a: { x: 0, y: 0 }, b: { x: 0, y: 4 } });
+  });
+
+  it('scales about the pivot', () => {
+    expectMoves(transformMoves(plan, ids, { kind: 'scale', sx: 0.5, sy: 2 }, { x: 2, y: 1 }), { a: { x: 1, y: -1 }, b: { x: 3, y: -1 } });
+  });
+
+  it('mirrors across a line through the pivot', () => {
+    expectMoves(transformMoves(plan, ids, { kind: 'mirror', axis: 'vertical' }, { x: 1, y: 0 }), { a: { x: 2, y: 0 }, b: { x: -2, y: 0 } });
+    expectMoves(transformMoves(plan, ids, { kind: 'mirror', axis: 'horizontal' }, { x: 0, y: 1 }), { a: { x: 0, y: 2 }, b: { x: 4, y: 2 } });
+  });
+});
+
+describe('groupPieces', () => {
+  it('joins edges that share a vertex and keeps loose vertices apart', () => {
+    const pieces = groupPieces(plan, ['p', 'q'], [{ roomId: 'r1', index: 0 }, { roomId: 'r1', index: 1 }]);
+    expect(pieces.map(p => p.sort()).sort()).toEqual([['a', 'b', 'c'], ['p'], ['q']]);
+  });
+});
+
+describe('alignMoves and distributeMoves', () => {
+  const pieces = [['a', 'd'], ['p'], ['q']]; // the left wall and two points
+
+  it('aligns each piece, unchanged in shape, to the outermost side', () => {
+    expectMoves(alignMoves(plan, pieces, 'right'), { a: { x: 9, y: 0 }, d: { x: 9, y: 3 }, p: { x: 9, y: 1 }, q: { x: 9, y: 2 } });
+    expectMoves(alignMoves(plan, pieces, 'top'), { a: { x: 0, y: 0 }, d: { x: 0, y: 3 }, p: { x: 6, y: 3 }, q: { x: 9, y: 3 } });
+  });
+
+  it('spaces centers evenly between the outer pieces', () => {
+    expectMoves(distributeMoves(plan, pieces, 'x'), { a: { x: 0, y: 0 }, d: { x: 0, y: 3 }, p: { x: 4.5, y: 1 }, q: { x: 9, y: 2 } });
+  });
+
+  it('needs three pieces to distribute', () => {
+    expect(distributeMoves(plan, [['p'], ['q']], 'x')).toEqual({});
+  });
+});
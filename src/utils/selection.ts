@@ -0,0 +1,140 @@
+import { type EdgeRef, type FloorPlan, type Vec2 } from '../types';
+import { edgeVertexIds, getRoom } from './plan';
+
+/**
+ * Group edits of several selected vertices and edges: the vertices they move,
+ * their bounds and pivot points, and the moves that transform, align or
+ * distribute them. Like the other move helpers, these only compute moves.
+ */
+
+export type GroupTransform =
+  | { kind: 'move'; dx: number; dy: number }
+  | { kind: 'rotate'; deg: number } // counterclockwise
+  | { kind: 'scale'; sx: number; sy: number }
+  | { kind: 'mirror'; axis: 'vertical' | 'horizontal' }; // the mirror line through the pivot
+
+export type AlignSide = 'left' | 'right' | 'top' | 'bottom';
+export type Bounds = { minX: number; minY: number; maxX: number; maxY: number };
+
+export type PivotPreset = 'center' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+export const PIVOT_LABELS: Record<PivotPreset, string> = {
+  center: 'Center of bounds',
+  'top-left': 'Top-left corner',
+  'top-right': 'Top-right corner',
+  'bottom-left': 'Bottom-left corner',
+  'bottom-right': 'Bottom-right corner',
+};
+
+// the edge's two vertices, or none when the edge no longer exists
+function edgeIds(plan: FloorPlan, edge: EdgeRef): string[] {
+  const room = getRoom(plan, edge.roomId);
+  if (!room) return [];
+  const loop = edge.hole === undefined ? room.vertexIds : room.holes[edge.hole];
+  return loop && edge.index < loop.length ? edgeVertexIds(room, edge.index, edge.hole) : [];
+}
+
+// every vertex the selection moves, once each
+export function groupVertexIds(plan: FloorPlan, vertexIds: string[], edges: EdgeRef[]): string[] {
+  return [...new Set([...vertexIds, ...edges.flatMap(e => edgeIds(plan, e))])].filter(id => plan.vertices[id]);
+}
+
+export function groupBounds(plan: FloorPlan, ids: string[]): Bounds | null {
+  if (ids.length === 0) return null;
+  const pts = ids.map(id => plan.vertices[id]);
+  return {
+    minX: Math.min(...pts.map(p => p.x)),
+    minY: Math.min(...pts.map(p => p.y)),
+    maxX: Math.max(...pts.map(p => p.x)),
+    maxY: Math.max(...pts.map(p => p.y)),
+  };
+}
+
+export function pivotPoint(b: Bounds, preset: PivotPreset): Vec2 {
+  switch (preset) {
+    case 'center': return { x: (b.minX + b.maxX) / 2, y: (b.minY + b.maxY) / 2 };
+    case 'top-left': return { x: b.minX, y: b.maxY };
+    case 'top-right': return { x: b.maxX, y: b.maxY };
+    case 'bottom-left': return { x: b.minX, y: b.minY };
+    case 'bottom-right': return { x: b.maxX, y: b.minY };
+  }
+}
+
+// points a dragged pivot catches on: the bounds' corners, side midpoints and center
+export function boundsSnapPoints(b: Bounds): Vec2[] {
+  const mx = (b.minX + b.maxX) / 2, my = (b.minY + b.maxY) / 2;
+  return [b.minX, mx, b.maxX].flatMap(x => [b.minY, my, b.maxY].map(y => ({ x, y })));
+}
+
+function transformPoint(p: Vec2, t: GroupTransform, pivot: Vec2): Vec2 {
+  const x = p.x - pivot.x, y = p.y - pivot.y;
+  switch (t.kind) {
+    case 'move': return { x: p.x + t.dx, y: p.y + t.dy };
+    case 'rotate': {
+      const a = (t.deg * Math.PI) / 180, c = Math.cos(a), s = Math.sin(a);
+      return { x: pivot.x + x * c - y * s, y: pivot.y + x * s + y * c };
+    }
+    case 'scale': return { x: pivot.x + x * t.sx, y: pivot.y + y * t.sy };
+    case 'mirror': return t.axis === 'vertical' ? { x: pivot.x - x, y: p.y } : { x: p.x, y: pivot.y - y };
+  }
+}
+
+export function transformMoves(plan: FloorPlan, ids: string[], t: GroupTransform, pivot: Vec2): Record<string, Vec2> {
+  return Object.fromEntries(ids.map(id => [id, transformPoint(plan.vertices[id], t, pivot)]));
+}
+
+/**
+ * Pieces that align and distribute as one: selected edges sharing a vertex
+ * form one piece, and each other selected vertex is a piece of its own.
+ */
+export function groupPieces(plan: FloorPlan, vertexIds: string[], edges: EdgeRef[]): string[][] {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const p = parent.get(id) ?? id;
+    if (p === id) return id;
+    const root = find(p);
+    parent.set(id, root);
+    return root;
+  };
+  for (const id of groupVertexIds(plan, vertexIds, edges)) parent.set(id, id);
+  for (const e of edges) {
+    const [a, b] = edgeIds(plan, e);
+    if (a && b) parent.set(find(a), find(b));
+  }
+  const pieces = new Map<string, string[]>();
+  for (const id of parent.keys()) pieces.set(find(id), [...(pieces.get(find(id)) ?? []), id]);
+  return [...pieces.values()];
+}
+
+// moves each piece, unchanged in shape, to the selection's outermost side
+export function alignMoves(plan: FloorPlan, pieces: string[][], side: AlignSide): Record<string, Vec2> {
+  const all = groupBounds(plan, pieces.flat());
+  if (!all) return {};
+  const moves: Record<string, Vec2> = {};
+  for (const piece of pieces) {
+    const b = groupBounds(plan, piece)!;
+    const dx = side === 'left' ? all.minX - b.minX : side === 'right' ? all.maxX - b.maxX : 0;
+    const dy = side === 'bottom' ? all.minY - b.minY : side === 'top' ? all.maxY - b.maxY : 0;
+    for (const id of piece) moves[id] = { x: plan.vertices[id].x + dx, y: plan.vertices[id].y + dy };
+  }
+  return moves;
+}
+
+// spaces the pieces' centers evenly between the first and the last along `axis`; needs three pieces
+export function distributeMoves(plan: FloorPlan, pieces: string[][], axis: 'x' | 'y'): Record<string, Vec2> {
+  if (pieces.length < 3) return {};
+  const center = (piece: string[]) => {
+    const b = groupBounds(plan, piece)!;
+    return axis === 'x' ? (b.minX + b.maxX) / 2 : (b.minY + b.maxY) / 2;
+  };
+  const sorted = pieces.map(piece => ({ piece, c: center(piece) })).sort((a, b) => a.c - b.c);
+  const first = sorted[0].c, step = (sorted[sorted.length - 1].c - first) / (sorted.length - 1);
+  const moves: Record<string, Vec2> = {};
+  sorted.forEach(({ piece, c }, i) => {
+    const d = first + step * i - c;
+    for (const id of piece) {
+      const v = plan.vertices[id];
+      moves[id] = axis === 'x' ? { x: v.x + d, y: v.y } : { x: v.x, y: v.y + d };
+    }
+  });
+  return moves;
+}
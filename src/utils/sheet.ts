@@ -0,0 +1,352 @@
+import { type FloorPlan, type UnitSettings, type Vec2 } from '../types';
+import { annotationShape } from './annotations';
+import { polygonCentroid } from './geometry';
+import { framePoint, openingFrame } from './openings';
+import { edgeKey, edgeVertexIds, holePoints, roomArea, roomPoints } from './plan';
+import { FOOT, formatArea, formatLength } from './units';
+import { buildWalls, wallPolygon } from './walls';
+
+/**
+ * Print sheet of the 2D plan at a true scale, laid out in millimeters on the
+ * paper (y down) independently of the editor viewport. The same sheet is
+ * rendered to SVG and to a single-page PDF.
+ */
+
+export type PaperSize = 'A4' | 'A3';
+export type Orientation = 'landscape' | 'portrait';
+
+export const PAPER_MM: Record<PaperSize, { w: number; h: number }> = {
+  A4: { w: 297, h: 210 },
+  A3: { w: 420, h: 297 },
+};
+export const PRINT_SCALES = [20, 50, 100, 200];
+
+export type SheetOptions = {
+  paper: PaperSize;
+  orientation: Orientation;
+  scale: number; // 1:scale
+  grid: boolean;
+  title: string;
+  date: Date;
+  units: UnitSettings; // of the labels, area box and scale bar
+};
+
+type Style = { stroke?: string; fill?: string; width?: number };
+type SheetItem =
+  | { type: 'path'; points: Vec2[]; closed: boolean; style: Style; clip?: boolean }
+  | { type: 'text'; at: Vec2; text: string; size: number; anchor: 'start' | 'middle' | 'end'; bold?: boolean; clip?: boolean };
+
+export type Sheet = {
+  width: number;
+  height: number;
+  frame: { x: number; y: number; w: number; h: number }; // drawing area; plan items are clipped to it
+  items: SheetItem[];
+  fits: boolean; // false when the plan overflows the drawing area at this scale
+};
+
+const MARGIN = 10;
+const BAND_H = 24; // bottom band holding the scale bar and the title block
+const TITLE_W = 100;
+const LABEL_PAD = 0.8;
+const ARROW_MM = 2;
+
+export function layoutSheet(plan: FloorPlan, opts: SheetOptions): Sheet {
+  const paper = PAPER_MM[opts.paper];
+  const W = opts.orientation === 'landscape' ? paper.w : paper.h;
+  const H = opts.orientation === 'landscape' ? paper.h : paper.w;
+  const items: SheetItem[] = [];
+  const path = (points: Vec2[], closed: boolean, style: Style, clip = false) => items.push({ type: 'path', points, closed, style, clip });
+  const text = (at: Vec2, t: string, size: number, anchor: 'start' | 'middle' | 'end' = 'start', bold = false, clip = false) => {
+    items.push({ type: 'text', at, text: t, size, anchor, bold, clip });
+  };
+  // text centered on `c` over a white box, like the canvas labels
+  const label = (c: Vec2, t: string, size: number, bold = false) => {
+    const w = textWidth(t, size, bold) + LABEL_PAD * 2, h = size + LABEL_PAD * 2;
+    path(rect(c.x - w / 2, c.y - h / 2, w, h), true, { fill: '#ffffff', stroke: '#bbbbbb', width: 0.1 }, true);
+    text({ x: c.x, y: c.y + size * 0.35 }, t, size, 'middle', bold, true);
+  };
+
+  const frame = { x: MARGIN + 5, y: MARGIN + 5, w: W - 2 * MARGIN - 10, h: H - 2 * MARGIN - BAND_H - 10 };
+  const walls = buildWalls(plan);
+
+  // plan -> paper: meters to millimeters at 1:scale, centered in the frame, y flipped
+  const k = 1000 / opts.scale;
+  const all = walls.flatMap(w => wallPolygon(w, plan)).concat(Object.values(plan.vertices));
+  const minX = Math.min(...all.map(p => p.x)), maxX = Math.max(...all.map(p => p.x));
+  const minY = Math.min(...all.map(p => p.y)), maxY = Math.max(...all.map(p => p.y));
+  const pcx = all.length ? (minX + maxX) / 2 : 0, pcy = all.length ? (minY + maxY) / 2 : 0;
+  const fcx = frame.x + frame.w / 2, fcy = frame.y + frame.h / 2;
+  const toPaper = (p: Vec2): Vec2 => ({ x: fcx + (p.x - pcx) * k, y: fcy - (p.y - pcy) * k });
+  const fits = !all.length || ((maxX - minX) * k <= frame.w && (maxY - minY) * k <= frame.h);
+
+  // 1 m grid aligned to whole plan meters
+  if (opts.grid) {
+    const gx0 = Math.ceil(pcx - frame.w / 2 / k), gx1 = Math.floor(pcx + frame.w / 2 / k);
+    const gy0 = Math.ceil(pcy - frame.h / 2 / k), gy1 = Math.floor(pcy + frame.h / 2 / k);
+    const grid: Style = { stroke: '#e4e4e4', width: 0.1 };
+    for (let x = gx0; x <= gx1; x++) {
+      const px = toPaper({ x, y: 0 }).x;
+      path([{ x: px, y: frame.y }, { x: px, y: frame.y + frame.h }], false, grid, true);
+    }
+    for (let y = gy0; y <= gy1; y++) {
+      const py = toPaper({ x: 0, y }).y;
+      path([{ x: frame.x, y: py }, { x: frame.x + frame.w, y: py }], false, grid, true);
+    }
+  }
+
+  for (const room of plan.rooms) path(roomPoints(plan, room).map(toPaper), true, { fill: '#f3f6fa' }, true);
+  // holes: blank cutout with a thin outline
+  for (const room of plan.rooms) {
+    room.holes.forEach((_, h) => path(holePoints(plan, room, h).map(toPaper), true, { fill: '#ffffff', stroke: '#555555', width: 0.25 }, true));
+  }
+  for (const w of walls) {
+    path(wallPolygon(w, plan).map(toPaper), true, { fill: '#d9dde2' }, true);
+    path([w.aLeft, w.bLeft].map(toPaper), false, { stroke: '#555555', width: 0.25 }, true);
+    path([w.aRight, w.bRight].map(toPaper), false, { stroke: '#555555', width: 0.25 }, true);
+  }
+
+  // openings: clear the wall band, then the same symbols as the canvas
+  const symbol: Style = { stroke: '#333333', width: 0.2 };
+  for (const o of plan.openings) {
+    const w = walls.find(wl => wl.key === edgeKey(o.a, o.b));
+    if (!w) continue;
+    const f = openingFrame(plan, o);
+    const left = o.a === w.a ? w.left : w.right, right = o.a === w.a ? w.right : w.left;
+    const pt = (s: number, n: number) => toPaper(framePoint(f, s, n));
+    path([pt(f.s0, -right - 0.01), pt(f.s1, -right - 0.01), pt(f.s1, left + 0.01), pt(f.s0, left + 0.01)], true, { fill: '#ffffff' }, true);
+    for (const s of [f.s0, f.s1]) path([pt(s, -right), pt(s, left)], false, symbol, true);
+    if (o.kind === 'window') {
+      for (const n of [left, -right, (left - right) / 2]) path([pt(f.s0, n), pt(f.s1, n)], false, symbol, true);
+    } else {
+      const side = o.opensTo === 'left' ? 1 : -1;
+      const face = side === 1 ? left : -right;
+      const hingeS = o.hinge === 'a' ? f.s0 : f.s1;
+      const toClosed = o.hinge === 'a' ? 1 : -1;
+      const width = f.s1 - f.s0;
+      path([pt(hingeS, face), pt(hingeS, face + side * width)], false, symbol, true);
+      const arc: Vec2[] = [];
+      for (let i = 0; i <= 16; i++) {
+        const th = (i / 16) * (Math.PI / 2);
+        arc.push(pt(hingeS + toClosed * width * Math.sin(th), face + side * width * Math.cos(th)));
+      }
+      path(arc, false, { ...symbol, width: 0.15 }, true);
+    }
+  }
+
+  // edge lengths, shared walls once
+  const labelled = new Set<string>();
+  for (const room of plan.rooms) {
+    for (let i = 0; i < room.vertexIds.length; i++) {
+      const [a, b] = edgeVertexIds(room, i);
+      const key = edgeKey(a, b);
+      if (labelled.has(key)) continue;
+      labelled.add(key);
+      const v1 = plan.vertices[a], v2 = plan.vertices[b];
+      label(toPaper({ x: (v1.x + v2.x) / 2, y: (v1.y + v2.y) / 2 }), formatLength(Math.hypot(v2.x - v1.x, v2.y - v1.y), opts.units), 2.2);
+    }
+  }
+  for (const room of plan.rooms) {
+    const pts = roomPoints(plan, room);
+    const c = toPaper(polygonCentroid(pts));
+    label({ x: c.x, y: c.y - 2.6 }, room.name, 3, true);
+    label({ x: c.x, y: c.y + 2.6 }, formatArea(roomArea(plan, room), opts.units), 2.6);
+  }
+
+  // dimension lines, notes and leaders; arrowheads keep their paper size at any scale
+  const note: Style = { stroke: '#1c5fa8', width: 0.2 };
+  for (const a of plan.annotations) {
+    const shape = annotationShape(plan, a, opts.units);
+    for (const line of shape.lines) path(line.map(toPaper), false, note, true);
+    for (const { tip, dir } of shape.arrows) {
+      const t = toPaper(tip), dx = dir.x, dy = -dir.y;
+      const back = { x: t.x - dx * ARROW_MM, y: t.y - dy * ARROW_MM };
+      const side = { x: -dy * ARROW_MM * 0.35, y: dx * ARROW_MM * 0.35 };
+      path([t, { x: back.x + side.x, y: back.y + side.y }, { x: back.x - side.x, y: back.y - side.y }], true, { fill: note.stroke }, true);
+    }
+    for (const l of shape.labels) label(toPaper(l.at), l.text, 2.4);
+  }
+
+  // sheet border and bottom band
+  path(rect(MARGIN, MARGIN, W - 2 * MARGIN, H - 2 * MARGIN), true, { stroke: '#000000', width: 0.5 });
+  const bandY = H - MARGIN - BAND_H;
+  path([{ x: MARGIN, y: bandY }, { x: W - MARGIN, y: bandY }], false, { stroke: '#000000', width: 0.35 });
+
+  // area box: per room and total, top-left of the drawing area
+  const areaRows = plan.rooms.length <= 10
+    ? plan.rooms.map(r => [r.name, formatArea(roomArea(plan, r), opts.units)])
+    : [];
+  const total = plan.rooms.reduce((s, r) => s + roomArea(plan, r), 0);
+  areaRows.push(['Total', formatArea(total, opts.units)]);
+  const rowH = 4;
+  const colW = Math.max(...areaRows.map(([n]) => textWidth(n, 2.6, true))) + 4;
+  const boxW = colW + Math.max(...areaRows.map(([, v]) => textWidth(v, 2.6))) + 4;
+  const boxX = frame.x, boxY = frame.y;
+  path(rect(boxX, boxY, boxW, areaRows.length * rowH + 2), true, { fill: '#ffffff', stroke: '#000000', width: 0.25 });
+  areaRows.forEach(([n, v], i) => {
+    const y = boxY + 1 + i * rowH + rowH * 0.7;
+    text({ x: boxX + 2, y }, n, 2.6, 'start', i === areaRows.length - 1);
+    text({ x: boxX + boxW - 2, y }, v, 2.6, 'end', i === areaRows.length - 1);
+  });
+
+  // north arrow (plan +y is north), top-right of the drawing area
+  const na = { x: frame.x + frame.w - 8, y: frame.y + 12 };
+  path([{ x: na.x, y: na.y - 7 }, { x: na.x + 3, y: na.y + 4 }, { x: na.x, y: na.y + 2 }], true, { fill: '#000000', stroke: '#000000', width: 0.2 });
+  path([{ x: na.x, y: na.y - 7 }, { x: na.x - 3, y: na.y + 4 }, { x: na.x, y: na.y + 2 }], true, { fill: '#ffffff', stroke: '#000000', width: 0.2 });
+  text({ x: na.x, y: na.y - 8.5 }, 'N', 3.5, 'middle', true);
+
+  // scale bar: largest round length (meters, or feet) that stays under 80 mm, split in 4 or 5
+  const imperial = opts.units.length === 'ft-in';
+  const unitM = imperial ? FOOT : 1;
+  const steps = imperial ? [1, 2, 5, 10, 20, 50, 100, 200] : [0.5, 1, 2, 5, 10, 20, 50];
+  const barN = steps.filter(n => n * unitM * k <= 80).pop() ?? steps[0];
+  const barM = barN * unitM;
+  const parts = barN === 2 || barN === 20 || barN === 200 ? 4 : 5;
+  const barX = MARGIN + 6, barY = bandY + 10, segW = (barM * k) / parts;
+  for (let i = 0; i < parts; i++) {
+    path(rect(barX + i * segW, barY, segW, 2), true, { fill: i % 2 ? '#ffffff' : '#000000', stroke: '#000000', width: 0.2 });
+  }
+  text({ x: barX, y: barY + 6 }, '0', 2.5, 'middle');
+  text({ x: barX + barM * k, y: barY + 6 }, imperial ? `${barN}'` : `${barN} m`, 2.5, 'middle');
+  text({ x: barX, y: barY - 2.5 }, `Scale 1:${opts.scale}`, 2.8, 'start', true);
+
+  // title block
+  const tx = W - MARGIN - TITLE_W;
+  path([{ x: tx, y: bandY }, { x: tx, y: H - MARGIN }], false, { stroke: '#000000', width: 0.35 });
+  path([{ x: tx, y: bandY + 12 }, { x: W - MARGIN, y: bandY + 12 }], false, { stroke: '#000000', width: 0.2 });
+  path([{ x: tx + TITLE_W / 2, y: bandY + 12 }, { x: tx + TITLE_W / 2, y: H - MARGIN }], false, { stroke: '#000000', width: 0.2 });
+  text({ x: tx + 3, y: bandY + 4 }, 'PROJECT', 2, 'start');
+  text({ x: tx + 3, y: bandY + 9.5 }, fitText(opts.title || 'Untitled', 4.5, TITLE_W - 6, true), 4.5, 'start', true);
+  text({ x: tx + 3, y: bandY + 16 }, 'SCALE', 2, 'start');
+  text({ x: tx + 3, y: bandY + 21 }, `1:${opts.scale} · ${opts.paper}`, 3.2, 'start');
+  text({ x: tx + TITLE_W / 2 + 3, y: bandY + 16 }, 'DATE', 2, 'start');
+  text({ x: tx + TITLE_W / 2 + 3, y: bandY + 21 }, isoDate(opts.date), 3.2, 'start');
+
+  return { width: W, height: H, frame, items, fits };
+}
+
+function rect(x: number, y: number, w: number, h: number): Vec2[] {
+  return [{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }];
+}
+
+function isoDate(d: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+// Helvetica advance widths (1/1000 em) for ASCII 32..126; bold is approximated
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+function textWidth(t: string, size: number, bold = false): number {
+  let w = 0;
+  for (const ch of t) {
+    const c = ch.charCodeAt(0);
+    w += c >= 32 && c <= 126 ? HELVETICA_WIDTHS[c - 32] : 556;
+  }
+  return (w / 1000) * size * (bold ? 1.06 : 1);
+}
+
+function fitText(t: string, size: number, maxW: number, bold = false): string {
+  if (textWidth(t, size, bold) <= maxW) return t;
+  while (t.length > 1 && textWidth(`${t}…`, size, bold) > maxW) t = t.slice(0, -1);
+  return `${t}…`;
+}
+
+function anchorX(item: Extract<SheetItem, { type: 'text' }>): number {
+  const w = textWidth(item.text, item.size, item.bold);
+  return item.anchor === 'middle' ? item.at.x - w / 2 : item.anchor === 'end' ? item.at.x - w : item.at.x;
+}
+
+// --- SVG ---
+
+export function sheetToSvg(sheet: Sheet): string {
+  const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  const n = (v: number) => String(+v.toFixed(3));
+  const render = (it: SheetItem): string => {
+    if (it.type === 'path') {
+      const d = it.points.map((p, i) => `${i ? 'L' : 'M'}${n(p.x)} ${n(p.y)}`).join(' ') + (it.closed ? ' Z' : '');
+      const s = it.style;
+      return `<path d="${d}" fill="${s.fill ?? 'none'}"${s.stroke ? ` stroke="${s.stroke}" stroke-width="${n(s.width ?? 0.25)}"` : ''}/>`;
+    }
+    // anchored by measured width so SVG and PDF place text identically
+    return `<text x="${n(anchorX(it))}" y="${n(it.at.y)}" font-size="${n(it.size)}"${it.bold ? ' font-weight="bold"' : ''}>${esc(it.text)}</text>`;
+  };
+  const f = sheet.frame;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${sheet.width}mm" height="${sheet.height}mm" viewBox="0 0 ${sheet.width} ${sheet.height}" font-family="Helvetica, Arial, sans-serif" stroke-linejoin="round" stroke-linecap="round">`,
+    `<defs><clipPath id="frame"><rect x="${n(f.x)}" y="${n(f.y)}" width="${n(f.w)}" height="${n(f.h)}"/></clipPath></defs>`,
+    `<rect width="${sheet.width}" height="${sheet.height}" fill="#ffffff"/>`,
+    `<g clip-path="url(#frame)">`,
+    ...sheet.items.filter(it => it.clip).map(render),
+    `</g>`,
+    ...sheet.items.filter(it => !it.clip).map(render),
+    `</svg>`,
+  ].join('\n');
+}
+
+// --- PDF ---
+
+const PT_PER_MM = 72 / 25.4;
+
+// Single-page PDF with the standard Helvetica fonts (WinAnsi; other characters print as '?')
+export function sheetToPdf(sheet: Sheet): Blob {
+  const n = (v: number) => String(+v.toFixed(2));
+  const X = (x: number) => n(x * PT_PER_MM);
+  const Y = (y: number) => n((sheet.height - y) * PT_PER_MM);
+  const rgb = (hex: string) => [1, 3, 5].map(i => n(parseInt(hex.slice(i, i + 2), 16) / 255)).join(' ');
+  const str = (s: string) => {
+    let out = '';
+    for (const ch of s) {
+      const c = ch === '…' ? 0x85 : ch.charCodeAt(0);
+      if (ch === '(' || ch === ')' || ch === '\\') out += `\\${ch}`;
+      else if (c >= 32 && c <= 126) out += ch;
+      else if (c <= 255 && ch.length === 1) out += `\\${c.toString(8).padStart(3, '0')}`;
+      else out += '?';
+    }
+    return `(${out})`;
+  };
+  const render = (it: SheetItem): string => {
+    if (it.type === 'path') {
+      const s = it.style;
+      const ops = it.points.map((p, i) => `${X(p.x)} ${Y(p.y)} ${i ? 'l' : 'm'}`).join(' ') + (it.closed ? ' h' : '');
+      const paint = s.fill && s.stroke ? 'B' : s.fill ? 'f' : 'S';
+      return `${s.fill ? `${rgb(s.fill)} rg ` : ''}${s.stroke ? `${rgb(s.stroke)} RG ${n((s.width ?? 0.25) * PT_PER_MM)} w ` : ''}${ops} ${paint}`;
+    }
+    return `BT /${it.bold ? 'F2' : 'F1'} ${n(it.size * PT_PER_MM)} Tf 0 g ${X(anchorX(it))} ${Y(it.at.y)} Td ${str(it.text)} Tj ET`;
+  };
+  const f = sheet.frame;
+  const content = [
+    '1 j 1 J',
+    `q ${X(f.x)} ${Y(f.y + f.h)} ${n(f.w * PT_PER_MM)} ${n(f.h * PT_PER_MM)} re W n`,
+    ...sheet.items.filter(it => it.clip).map(render),
+    'Q',
+    ...sheet.items.filter(it => !it.clip).map(render),
+  ].join('\n');
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${n(sheet.width * PT_PER_MM)} ${n(sheet.height * PT_PER_MM)}] /Contents 4 0 R /Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> >>`,
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+  // everything above is ASCII, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return new Blob([pdf], { type: 'application/pdf' });
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { type FloorPlan, type Vec2 } from '../types';
+import { addRoom } from './plan';
+import { DEFAULT_SNAP, snapVertex, type SnapKind, type SnapSettings } from './snap';
+
+// a 4 × 4 room; corner 2, at (4, 4), is the one being dragged
+const plan: FloorPlan = addRoom({ vertices: {}, rooms: [], wallOverrides: {}, openings: [], furniture: [], annotations: [], lights: [] }, 'r1', [
+  { x: 0, y: 0 }, { x: 4, y: 0 }, { x: 4, y: 4 }, { x: 0, y: 4 },
+]);
+const dragged = plan.rooms[0].vertexIds[2];
+
+function only(kinds: SnapKind[], rest: Partial<SnapSettings> = {}): SnapSettings {
+  const enabled = Object.fromEntries(Object.keys(DEFAULT_SNAP.enabled).map(k => [k, kinds.includes(k as SnapKind)])) as SnapSettings['enabled'];
+  return { ...DEFAULT_SNAP, ...rest, enabled };
+}
+
+function snap(p: Vec2, settings: SnapSettings) {
+  return snapVertex(plan, dragged, p, settings, 0.1);
+}
+
+function expectPoint(actual: Vec2, expected: Vec2) {
+  expect(actual.x).toBeCloseTo(expected.x, 9);
+  expect(actual.y).toBeCloseTo(expected.y, 9);
+}
+
+describe('snapVertex', () => {
+  it('leaves the point alone with every snap off', () => {
+    expect(snap({ x: 1.23, y: 2.37 }, only([]))).toEqual({ point: { x: 1.23, y: 2.37 }, label: '', guides: [] });
+  });
+
+  it('rounds to the grid when nothing else catches the point', () => {
+    const r = snap({ x: 1.23, y: 2.37 }, DEFAULT_SNAP);
+    expectPoint(r.point, { x: 1.2, y: 2.4 });
+    expect(r.label).toBe('');
+  });
+
+  it('catches the midpoint of an edge the dragged corner is not on', () => {
+    const r = snap({ x: 2.05, y: 0.03 }, DEFAULT_SNAP);
+    expect(r.point).toEqual({ x: 2, y: 0 });
+    expect(r.label).toBe('Midpoint');
+    expect(r.guides).toHaveLength(1);
+  });
+
+  it('locks onto the perpendicular at a neighbouring corner', () => {
+    const r = snap({ x: 4.03, y: 5.5 }, only(['perpendicular']));
+    expectPoint(r.point, { x: 4, y: 5.5 });
+    expect(r.label).toBe('Perpendicular');
+  });
+
+  it('pins the point where two guide lines cross', () => {
+    const r = snap({ x: 4.03, y: 4.02 }, only(['perpendicular']));
+    expectPoint(r.point, { x: 4, y: 4 });
+    expect(r.label).toBe('Perpendicular · Perpendicular');
+    expect(r.guides).toHaveLength(2);
+  });
+
+  it('follows the angle steps from a neighbouring corner, stepped along the grid', () => {
+    const free = snap({ x: 5.02, y: 1 }, only(['angle'], { angleStep: 45 }));
+    expectPoint(free.point, { x: 5.01, y: 1.01 });
+    expect(free.label).toBe('45°');
+    const stepped = snap({ x: 5.02, y: 1 }, only(['angle', 'grid'], { angleStep: 45 }));
+    expectPoint(stepped.point, { x: 5, y: 1 });
+    expect(stepped.label).toBe('45° · Grid');
+  });
+
+  it('extends an edge only beyond its ends', () => {
+    const r = snap({ x: 0.03, y: -1 }, only(['extension']));
+    expectPoint(r.point, { x: 0, y: -1 });
+    expect(r.label).toBe('Extension');
+    expect(snap({ x: 0.03, y: 2.5 }, only(['extension'])).label).toBe('');
+  });
+});
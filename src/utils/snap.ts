@@ -0,0 +1,192 @@
+import { type FloorPlan, type Vec2 } from '../types';
+import { edgeKey } from './plan';
+
+export type SnapKind = 'grid' | 'midpoint' | 'extension' | 'perpendicular' | 'parallel' | 'angle';
+
+export const SNAP_LABELS: Record<SnapKind, string> = {
+  grid: 'Grid',
+  midpoint: 'Midpoint',
+  extension: 'Extension',
+  perpendicular: 'Perpendicular',
+  parallel: 'Parallel',
+  angle: 'Angle',
+};
+
+export type SnapSettings = {
+  enabled: Record<SnapKind, boolean>;
+  gridStep: number; // meters
+  angleStep: number; // degrees
+};
+
+export const GRID_STEPS = [0.01, 0.05, 0.1, 0.25, 0.5];
+export const ANGLE_STEPS = [5, 15, 30, 45, 90];
+
+export const DEFAULT_SNAP: SnapSettings = {
+  enabled: { grid: true, midpoint: true, extension: true, perpendicular: true, parallel: true, angle: true },
+  gridStep: 0.1,
+  angleStep: 15,
+};
+
+// dashed helper segment shown while a snap is active, in world coordinates
+export type SnapGuide = { kind: SnapKind; from: Vec2; to: Vec2 };
+
+export type SnapResult = {
+  point: Vec2;
+  label: string; // active snaps, e.g. "Perpendicular · 45°"; empty when nothing snapped
+  guides: SnapGuide[];
+};
+
+// infinite line the dragged point may lock onto; `from` is where its guide starts
+type SnapLine = { kind: SnapKind; label: string; origin: Vec2; dir: Vec2; from: Vec2; ref?: [Vec2, Vec2] };
+
+const EPS = 1e-9;
+
+function unit(a: Vec2, b: Vec2): Vec2 | null {
+  const len = Math.hypot(b.x - a.x, b.y - a.y);
+  return len < EPS ? null : { x: (b.x - a.x) / len, y: (b.y - a.y) / len };
+}
+
+function lineDistance(p: Vec2, l: SnapLine): number {
+  return Math.abs((p.x - l.origin.x) * l.dir.y - (p.y - l.origin.y) * l.dir.x);
+}
+
+function projectOnLine(p: Vec2, l: SnapLine): Vec2 {
+  const t = (p.x - l.origin.x) * l.dir.x + (p.y - l.origin.y) * l.dir.y;
+  return { x: l.origin.x + l.dir.x * t, y: l.origin.y + l.dir.y * t };
+}
+
+function intersectLines(l1: SnapLine, l2: SnapLine): Vec2 | null {
+  const den = l1.dir.x * l2.dir.y - l1.dir.y * l2.dir.x;
+  if (Math.abs(den) < 1e-6) return null;
+  const t = ((l2.origin.x - l1.origin.x) * l2.dir.y - (l2.origin.y - l1.origin.y) * l2.dir.x) / den;
+  return { x: l1.origin.x + l1.dir.x * t, y: l1.origin.y + l1.dir.y * t };
+}
+
+function lineGuides(l: SnapLine, to: Vec2): SnapGuide[] {
+  const guides: SnapGuide[] = [{ kind: l.kind, from: l.from, to }];
+  if (l.ref) guides.push({ kind: l.kind, from: l.ref[0], to: l.ref[1] });
+  return guides;
+}
+
+/**
+ * Snaps a dragged vertex. Priority: edge midpoints, then the crossing of two
+ * guide lines, then a single guide line (stepped along the grid), then the grid.
+ * `tol` is the capture distance in meters.
+ */
+export function snapVertex(plan: FloorPlan, vertexId: string, p: Vec2, settings: SnapSettings, tol: number): SnapResult {
+  const { enabled, gridStep, angleStep } = settings;
+  const V = plan.vertices;
+
+  // every edge (walls and hole edges) once; the ones touching the dragged vertex move with it and are no reference
+  const edges = new Map<string, [string, string]>();
+  // neighbours of the dragged vertex, each with the far ends of its other edges
+  const anchors = new Map<string, Set<string>>();
+  for (const ids of plan.rooms.flatMap(r => [r.vertexIds, ...r.holes])) {
+    const n = ids.length;
+    for (let i = 0; i < n; i++) {
+      const a = ids[i], b = ids[(i + 1) % n];
+      if (a !== vertexId && b !== vertexId) edges.set(edgeKey(a, b), [a, b]);
+    }
+    const k = ids.indexOf(vertexId);
+    if (k < 0) continue;
+    const prev = ids[(k - 1 + n) % n];
+    const next = ids[(k + 1) % n];
+    for (const [anchor, far] of [[prev, ids[(k - 2 + n) % n]], [next, ids[(k + 2) % n]]]) {
+      if (anchor === vertexId) continue;
+      if (!anchors.has(anchor)) anchors.set(anchor, new Set());
+      if (far !== vertexId && far !== anchor) anchors.get(anchor)!.add(far);
+    }
+  }
+
+  if (enabled.midpoint) {
+    let best: SnapResult | null = null, bestD = tol;
+    for (const [a, b] of edges.values()) {
+      const m = { x: (V[a].x + V[b].x) / 2, y: (V[a].y + V[b].y) / 2 };
+      const d = Math.hypot(p.x - m.x, p.y - m.y);
+      if (d <= bestD) {
+        bestD = d;
+        best = { point: m, label: SNAP_LABELS.midpoint, guides: [{ kind: 'midpoint', from: V[a], to: V[b] }] };
+      }
+    }
+    if (best) return best;
+  }
+
+  const lines: SnapLine[] = [];
+  if (enabled.extension) {
+    // only beyond the ends: sliding along the wall itself is not an extension
+    for (const [a, b] of edges.values()) {
+      const dir = unit(V[a], V[b]);
+      if (!dir) continue;
+      const len = Math.hypot(V[b].x - V[a].x, V[b].y - V[a].y);
+      const t = (p.x - V[a].x) * dir.x + (p.y - V[a].y) * dir.y;
+      if (t > 0 && t < len) continue;
+      lines.push({ kind: 'extension', label: SNAP_LABELS.extension, origin: V[a], dir, from: t <= 0 ? V[a] : V[b] });
+    }
+  }
+  for (const [anchorId, fars] of anchors) {
+    const n = V[anchorId];
+    if (enabled.perpendicular) {
+      for (const farId of fars) {
+        const d = unit(n, V[farId]);
+        if (d) lines.push({ kind: 'perpendicular', label: SNAP_LABELS.perpendicular, origin: n, dir: { x: -d.y, y: d.x }, from: n });
+      }
+    }
+    if (enabled.parallel) {
+      for (const [a, b] of edges.values()) {
+        if (a === anchorId || b === anchorId) continue;
+        const dir = unit(V[a], V[b]);
+        if (dir) lines.push({ kind: 'parallel', label: SNAP_LABELS.parallel, origin: n, dir, from: n, ref: [V[a], V[b]] });
+      }
+    }
+    if (enabled.angle && angleStep > 0) {
+      for (let deg = 0; deg < 180 - EPS; deg += angleStep) {
+        const r = (deg * Math.PI) / 180;
+        const dir = { x: Math.cos(r), y: Math.sin(r) };
+        // label the side of the anchor the pointer is on, so it reads as the edge direction
+        const side = (p.x - n.x) * dir.x + (p.y - n.y) * dir.y >= 0 ? deg : deg + 180;
+        lines.push({ kind: 'angle', label: `${+side.toFixed(1)}°`, origin: n, dir, from: n });
+      }
+    }
+  }
+
+  const near = lines.map(l => ({ l, d: lineDistance(p, l) })).filter(c => c.d <= tol).sort((a, b) => a.d - b.d);
+  if (near.length > 0) {
+    const l1 = near[0].l;
+    // a second line crossing close by pins the point to the intersection
+    let cross: { l: SnapLine; q: Vec2 } | null = null, crossD = tol;
+    for (const { l } of near.slice(1)) {
+      const q = intersectLines(l1, l);
+      if (!q) continue;
+      const d = Math.hypot(q.x - p.x, q.y - p.y);
+      if (d <= crossD) { crossD = d; cross = { l, q }; }
+    }
+    if (cross) {
+      return { point: cross.q, label: `${l1.label} · ${cross.l.label}`, guides: [...lineGuides(l1, cross.q), ...lineGuides(cross.l, cross.q)] };
+    }
+    let q = projectOnLine(p, l1);
+    let label = l1.label;
+    if (enabled.grid && gridStep > 0) {
+      // step along the line: round the coordinate the line runs along most
+      const { origin: o, dir } = l1;
+      let stepped: Vec2;
+      if (Math.abs(dir.x) >= Math.abs(dir.y)) {
+        const x = Math.round(q.x / gridStep) * gridStep;
+        stepped = { x, y: o.y + ((x - o.x) * dir.y) / dir.x };
+      } else {
+        const y = Math.round(q.y / gridStep) * gridStep;
+        stepped = { x: o.x + ((y - o.y) * dir.x) / dir.y, y };
+      }
+      if (Math.hypot(stepped.x - q.x, stepped.y - q.y) <= tol) {
+        q = stepped;
+        label += ` · ${SNAP_LABELS.grid}`;
+      }
+    }
+    return { point: q, label, guides: lineGuides(l1, q) };
+  }
+
+  if (enabled.grid && gridStep > 0) {
+    const q = { x: Math.round(p.x / gridStep) * gridStep, y: Math.round(p.y / gridStep) * gridStep };
+    return { point: q, label: '', guides: [] };
+  }
+  return { point: p, label: '', guides: [] };
+}
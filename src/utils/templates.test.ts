@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { computePolygonAreaM2, isSimplePolygon, signedArea } from './geometry';
+import { defaultTemplateValues, TEMPLATE_PARAMS, templateError, templateOutline, type RoomTemplate } from './templates';
+
+const templates = Object.keys(TEMPLATE_PARAMS) as RoomTemplate[];
+
+describe('templateOutline', () => {
+  it.each(templates)('builds a simple counterclockwise %s centered on its bounds', t => {
+    const pts = templateOutline(t, defaultTemplateValues(t))!;
+    expect(isSimplePolygon(pts)).toBe(true);
+    expect(signedArea(pts)).toBeGreaterThan(0);
+    const xs = pts.map(p => p.x), ys = pts.map(p => p.y);
+    expect(Math.min(...xs) + Math.max(...xs)).toBeCloseTo(0);
+    expect(Math.min(...ys) + Math.max(...ys)).toBeCloseTo(0);
+  });
+
+  it('gives each shape its area', () => {
+    expect(computePolygonAreaM2(templateOutline('rectangle', { width: 4, depth: 3 })!)).toBeCloseTo(12);
+    expect(computePolygonAreaM2(templateOutline('l-shape', { width: 6, depth: 5, wing: 2.5, base: 2.5 })!)).toBeCloseTo(6 * 2.5 + 2.5 * 2.5);
+    expect(computePolygonAreaM2(templateOutline('t-shape', { width: 6, depth: 5, stem: 2, bar: 2 })!)).toBeCloseTo(6 * 2 + 2 * 3);
+    expect(computePolygonAreaM2(templateOutline('u-shape', { width: 6, depth: 5, wing: 2, base: 2 })!)).toBeCloseTo(6 * 2 + 2 * 2 * 3);
+    // trapezoid bay in front of the wall
+    expect(computePolygonAreaM2(templateOutline('bay', { width: 5, depth: 4, bay: 2.4, front: 1.2, projection: 0.8 })!)).toBeCloseTo(20 + ((2.4 + 1.2) / 2) * 0.8);
+  });
+
+  it('drops the wall pieces beside a bay as wide as the room', () => {
+    expect(templateOutline('bay', { width: 4, depth: 3, bay: 4, front: 2, projection: 1 })).toHaveLength(6);
+  });
+
+  it('is null for invalid dimensions', () => {
+    expect(templateOutline('rectangle', { width: 0, depth: 3 })).toBeNull();
+  });
+});
+
+describe('templateError', () => {
+  it.each([
+    ['rectangle', { width: -1, depth: 3 }, 'Width and depth must be greater than 0.'],
+    ['l-shape', { width: 6, depth: 5, wing: 6, base: 2 }, 'The side wing must be narrower than the width.'],
+    ['u-shape', { width: 6, depth: 5, wing: 3, base: 2 }, 'The two side wings must be narrower than the width.'],
+    ['u-shape', { width: 6, depth: 5, wing: 2, base: 5 }, 'The bottom depth must be less than the depth.'],
+    ['t-shape', { width: 6, depth: 5, stem: 7, bar: 2 }, 'The stem must be narrower than the width.'],
+    ['t-shape', { width: 6, depth: 5, stem: 2, bar: 0 }, 'The top bar must be shallower than the depth.'],
+    ['bay', { width: 5, depth: 4, bay: 6, front: 1, projection: 1 }, 'The bay opening must fit in the width.'],
+    ['bay', { width: 5, depth: 4, bay: 2, front: 3, projection: 1 }, 'The bay front must be no wider than its opening.'],
+    ['bay', { width: 5, depth: 4, bay: 2, front: 1, projection: 0 }, 'The bay projection must be greater than 0.'],
+  ] as [RoomTemplate, Record<string, number>, string][])('rejects a bad %s', (t, v, message) => {
+    expect(templateError(t, v)).toBe(message);
+  });
+
+  it('rejects missing dimensions', () => {
+    expect(templateError('l-shape', { width: 6, depth: 5 })).not.toBeNull();
+  });
+});
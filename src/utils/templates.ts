@@ -0,0 +1,114 @@
+import { type Vec2 } from '../types';
+
+/**
+ * Parametric room outlines. Each template has named dimensions in meters and
+ * builds a counterclockwise outline centered on the origin of its bounds; the
+ * caller moves it to where the room goes.
+ */
+
+export type RoomTemplate = 'rectangle' | 'l-shape' | 't-shape' | 'u-shape' | 'bay';
+
+export const TEMPLATE_LABELS: Record<RoomTemplate, string> = {
+  rectangle: 'Rectangle',
+  'l-shape': 'L-shape',
+  't-shape': 'T-shape',
+  'u-shape': 'U-shape',
+  bay: 'Bay window',
+};
+
+export type TemplateParam = { key: string; label: string; value: number };
+
+// dimensions each template asks for, with their starting values
+export const TEMPLATE_PARAMS: Record<RoomTemplate, TemplateParam[]> = {
+  rectangle: [
+    { key: 'width', label: 'Width', value: 4 },
+    { key: 'depth', label: 'Depth', value: 3 },
+  ],
+  'l-shape': [
+    { key: 'width', label: 'Width', value: 6 },
+    { key: 'depth', label: 'Depth', value: 5 },
+    { key: 'wing', label: 'Side wing width', value: 2.5 },
+    { key: 'base', label: 'Bottom wing depth', value: 2.5 },
+  ],
+  't-shape': [
+    { key: 'width', label: 'Width', value: 6 },
+    { key: 'depth', label: 'Depth', value: 5 },
+    { key: 'stem', label: 'Stem width', value: 2.5 },
+    { key: 'bar', label: 'Top bar depth', value: 2.5 },
+  ],
+  'u-shape': [
+    { key: 'width', label: 'Width', value: 6 },
+    { key: 'depth', label: 'Depth', value: 5 },
+    { key: 'wing', label: 'Side wing width', value: 2 },
+    { key: 'base', label: 'Bottom depth', value: 2 },
+  ],
+  bay: [
+    { key: 'width', label: 'Width', value: 5 },
+    { key: 'depth', label: 'Depth', value: 4 },
+    { key: 'bay', label: 'Bay opening', value: 2.4 },
+    { key: 'front', label: 'Bay front width', value: 1.2 },
+    { key: 'projection', label: 'Bay projection', value: 0.8 },
+  ],
+};
+
+export function defaultTemplateValues(t: RoomTemplate): Record<string, number> {
+  return Object.fromEntries(TEMPLATE_PARAMS[t].map(p => [p.key, p.value]));
+}
+
+/** Why the dimensions do not make a room, or null when they do. */
+export function templateError(t: RoomTemplate, v: Record<string, number>): string | null {
+  const { width: w, depth: d } = v;
+  if (!(w > 0) || !(d > 0)) return 'Width and depth must be greater than 0.';
+  switch (t) {
+    case 'rectangle': return null;
+    case 'l-shape':
+    case 'u-shape': {
+      const wings = t === 'u-shape' ? 2 * v.wing : v.wing;
+      if (!(v.wing > 0) || !(wings < w)) return t === 'u-shape' ? 'The two side wings must be narrower than the width.' : 'The side wing must be narrower than the width.';
+      if (!(v.base > 0) || !(v.base < d)) return 'The bottom depth must be less than the depth.';
+      return null;
+    }
+    case 't-shape':
+      if (!(v.stem > 0) || !(v.stem < w)) return 'The stem must be narrower than the width.';
+      if (!(v.bar > 0) || !(v.bar < d)) return 'The top bar must be shallower than the depth.';
+      return null;
+    case 'bay':
+      if (!(v.bay > 0) || !(v.bay <= w)) return 'The bay opening must fit in the width.';
+      if (!(v.front > 0) || !(v.front <= v.bay)) return 'The bay front must be no wider than its opening.';
+      if (!(v.projection > 0)) return 'The bay projection must be greater than 0.';
+      return null;
+  }
+}
+
+// outline with its bounds from (0, 0) up; the front wall is along y = 0
+function rawOutline(t: RoomTemplate, v: Record<string, number>): Vec2[] {
+  const { width: w, depth: d } = v;
+  const pt = (x: number, y: number): Vec2 => ({ x, y });
+  switch (t) {
+    case 'rectangle':
+      return [pt(0, 0), pt(w, 0), pt(w, d), pt(0, d)];
+    case 'l-shape':
+      return [pt(0, 0), pt(w, 0), pt(w, v.base), pt(v.wing, v.base), pt(v.wing, d), pt(0, d)];
+    case 't-shape': {
+      const s0 = (w - v.stem) / 2, s1 = (w + v.stem) / 2, y = d - v.bar;
+      return [pt(s0, 0), pt(s1, 0), pt(s1, y), pt(w, y), pt(w, d), pt(0, d), pt(0, y), pt(s0, y)];
+    }
+    case 'u-shape':
+      return [pt(0, 0), pt(w, 0), pt(w, d), pt(w - v.wing, d), pt(w - v.wing, v.base), pt(v.wing, v.base), pt(v.wing, d), pt(0, d)];
+    case 'bay': {
+      const b0 = (w - v.bay) / 2, b1 = (w + v.bay) / 2, f0 = (w - v.front) / 2, f1 = (w + v.front) / 2;
+      // a bay as wide as the wall has no wall pieces beside it
+      const pts = [pt(0, 0), pt(b0, 0), pt(f0, -v.projection), pt(f1, -v.projection), pt(b1, 0), pt(w, 0), pt(w, d), pt(0, d)];
+      return pts.filter((p, i) => i === 0 || Math.hypot(p.x - pts[i - 1].x, p.y - pts[i - 1].y) > 1e-9);
+    }
+  }
+}
+
+/** The template's outline, centered on its bounds; null when the dimensions are invalid. */
+export function templateOutline(t: RoomTemplate, v: Record<string, number>): Vec2[] | null {
+  if (templateError(t, v)) return null;
+  const pts = rawOutline(t, v);
+  const minX = Math.min(...pts.map(p => p.x)), maxX = Math.max(...pts.map(p => p.x));
+  const minY = Math.min(...pts.map(p => p.y)), maxY = Math.max(...pts.map(p => p.y));
+  return pts.map(p => ({ x: p.x - (minX + maxX) / 2, y: p.y - (minY + maxY) / 2 }));
+}
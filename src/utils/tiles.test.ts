@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { type TileLayout, type TilePattern, type Vec2 } from '../types';
+import { addRoom } from './plan';
+import { defaultTileLayout, layoutTiles, roomTiles } from './tiles';
+
+const rect = (x0: number, y0: number, x1: number, y1: number): Vec2[] => [{ x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 }];
+
+function layout(pattern: TilePattern, tile: Vec2, patch: Partial<TileLayout> = {}): TileLayout {
+  return { ...defaultTileLayout(pattern, { x: 0, y: 0 }), tile, grout: 0, ...patch };
+}
+
+describe('layoutTiles', () => {
+  it('fills a room that fits the grid with full tiles only', () => {
+    const tiles = layoutTiles(rect(0, 0, 2, 1), [], layout('grid', { x: 0.5, y: 0.5 }), 0);
+    expect(tiles.counts).toEqual({ full: 8, cut: 0, sliver: 0 });
+    expect(tiles.pieces).toHaveLength(8);
+    expect(tiles.tooMany).toBe(false);
+  });
+
+  it('tells cut pieces from slivers narrower than the minimum cut', () => {
+    expect(layoutTiles(rect(0, 0, 2.1, 1), [], layout('grid', { x: 0.5, y: 0.5 }), 0).counts).toEqual({ full: 8, cut: 2, sliver: 0 });
+    expect(layoutTiles(rect(0, 0, 2.03, 1), [], layout('grid', { x: 0.5, y: 0.5 }), 0).counts).toEqual({ full: 8, cut: 0, sliver: 2 });
+  });
+
+  it('leaves out the pieces a hole covers and cuts the ones it overlaps', () => {
+    const grid = layout('grid', { x: 0.5, y: 0.5 });
+    expect(layoutTiles(rect(0, 0, 2, 2), [rect(0.5, 0.5, 1, 1)], grid, 0).counts).toEqual({ full: 15, cut: 0, sliver: 0 });
+    expect(layoutTiles(rect(0, 0, 2, 2), [rect(0.5, 0.5, 0.75, 1)], grid, 0).counts).toEqual({ full: 15, cut: 1, sliver: 0 });
+  });
+
+  it('shifts every other row of a running bond', () => {
+    const tiles = layoutTiles(rect(0, 0, 2, 0.4), [], layout('running-bond', { x: 1, y: 0.2 }, { bondOffset: 0.5 }), 0);
+    expect(tiles.counts).toEqual({ full: 3, cut: 2, sliver: 0 });
+  });
+
+  it('lays pieces along the floor direction', () => {
+    const planks = layout('grid', { x: 1, y: 0.5 });
+    expect(layoutTiles(rect(0, 0, 1, 1.5), [], planks, 0).counts).toEqual({ full: 3, cut: 0, sliver: 0 });
+    expect(layoutTiles(rect(0, 0, 1, 1.5), [], planks, 90).counts).toEqual({ full: 2, cut: 2, sliver: 0 });
+  });
+
+  it.each(['herringbone', 'diagonal'] as const)('covers the room with %s pieces', pattern => {
+    const { counts } = layoutTiles(rect(0, 0, 3, 2), [], layout(pattern, { x: 0.6, y: 0.2 }), 0);
+    const pieceArea = 0.6 * 0.2;
+    expect(counts.full * pieceArea).toBeLessThanOrEqual(6);
+    expect((counts.full + counts.cut + counts.sliver) * pieceArea).toBeGreaterThan(6);
+    expect(counts.full).toBeGreaterThan(0);
+  });
+
+  it('gives up on layouts with too many pieces', () => {
+    const tiles = layoutTiles(rect(0, 0, 20, 20), [], layout('grid', { x: 0.01, y: 0.01 }), 0);
+    expect(tiles).toEqual({ pieces: [], counts: { full: 0, cut: 0, sliver: 0 }, tooMany: true });
+  });
+});
+
+describe('roomTiles', () => {
+  it('is null for a floor without a layout', () => {
+    const plan = addRoom({ vertices: {}, rooms: [], wallOverrides: {}, openings: [], furniture: [], annotations: [], lights: [] }, 'r1', rect(0, 0, 2, 1));
+    expect(roomTiles(plan, plan.rooms[0])).toBeNull();
+    const room = { ...plan.rooms[0], floor: { ...plan.rooms[0].floor, layout: layout('grid', { x: 0.5, y: 0.5 }) } };
+    expect(roomTiles(plan, room)?.counts.full).toBe(8);
+  });
+});
@@ -0,0 +1,175 @@
+import { type FloorPlan, type Room, type TileLayout, type TilePattern, type Vec2 } from '../types';
+import { signedArea } from './geometry';
+import { holePoints, roomPoints } from './plan';
+
+/**
+ * Tile and plank layouts: the pieces of a pattern laid from the layout origin
+ * in the floor direction, each clipped to the room (outline minus holes) and
+ * classed as full, cut, or a sliver too narrow to use.
+ */
+
+export const TILE_PATTERN_LABELS: Record<TilePattern, string> = {
+  grid: 'Straight grid',
+  'running-bond': 'Running bond',
+  herringbone: 'Herringbone',
+  diagonal: 'Diagonal',
+};
+
+// more pieces than this are not laid out (say, a small mosaic over a large hall)
+export const MAX_TILE_PIECES = 20000;
+
+export type TileKind = 'full' | 'cut' | 'sliver';
+export type TilePiece = { corners: Vec2[]; kind: TileKind }; // the whole piece, plan coordinates
+export type TileCounts = Record<TileKind, number>;
+export type TilePlan = { pieces: TilePiece[]; counts: TileCounts; tooMany: boolean };
+
+// fills of cut pieces and slivers in both views; full pieces show only their joints
+export const TILE_FILLS: Record<TileKind, string | null> = { full: null, cut: 'rgba(255,152,0,0.22)', sliver: 'rgba(211,47,47,0.45)' };
+
+// planks for the bonded patterns, square tiles for the grids
+export function defaultTileLayout(pattern: TilePattern, origin: Vec2): TileLayout {
+  const planks = pattern === 'running-bond' || pattern === 'herringbone';
+  return {
+    pattern,
+    tile: planks ? { x: 1.2, y: 0.2 } : { x: 0.6, y: 0.6 },
+    grout: planks ? 0 : 0.003,
+    bondOffset: 0.5,
+    origin: { ...origin },
+    minCut: 0.05,
+  };
+}
+
+// piece rectangle in the pattern frame (u along the direction, v across)
+type Rect = { x: number; y: number; w: number; h: number };
+type Bounds = { minX: number; minY: number; maxX: number; maxY: number };
+
+function bounds(pts: Vec2[]): Bounds {
+  return {
+    minX: Math.min(...pts.map(p => p.x)),
+    minY: Math.min(...pts.map(p => p.y)),
+    maxX: Math.max(...pts.map(p => p.x)),
+    maxY: Math.max(...pts.map(p => p.y)),
+  };
+}
+
+// rotation of the pattern frame against the floor direction; herringbone turns so its zigzag runs along it
+function patternAngle(pattern: TilePattern): number {
+  return pattern === 'diagonal' ? 45 : pattern === 'herringbone' ? -45 : 0;
+}
+
+// every piece that may touch `b`, or null when there would be too many
+function patternRects(layout: TileLayout, b: Bounds): Rect[] | null {
+  const { x: L, y: W } = layout.tile;
+  const pu = L + layout.grout, pv = W + layout.grout;
+  const rects: Rect[] = [];
+
+  if (layout.pattern === 'herringbone') {
+    // pairs of a lengthwise and a crosswise piece on the lattice k·(pv, pv) + m·(-pu, pu);
+    // each piece sits in the lower left of its grout-widened cell, so every joint is one grout wide
+    const det = 2 * pu * pv;
+    const ks = [b.minX, b.maxX].flatMap(x => [b.minY, b.maxY].map(y => ((x + y) * pu) / det));
+    const ms = [b.minX, b.maxX].flatMap(x => [b.minY, b.maxY].map(y => ((y - x) * pv) / det));
+    const k0 = Math.floor(Math.min(...ks)) - Math.ceil(pu / pv) - 2, k1 = Math.ceil(Math.max(...ks)) + 2;
+    const m0 = Math.floor(Math.min(...ms)) - 2, m1 = Math.ceil(Math.max(...ms)) + 2;
+    if ((k1 - k0 + 1) * (m1 - m0 + 1) * 2 > MAX_TILE_PIECES * 4) return null;
+    for (let m = m0; m <= m1; m++) {
+      for (let k = k0; k <= k1; k++) {
+        const x = k * pv - m * pu, y = k * pv + m * pu;
+        rects.push({ x, y, w: L, h: W }, { x: x + pu, y: y + pv - pu, w: W, h: L });
+      }
+    }
+    return rects;
+  }
+
+  const j0 = Math.floor(b.minY / pv) - 1, j1 = Math.ceil(b.maxY / pv);
+  const i0 = Math.floor(b.minX / pu) - 2, i1 = Math.ceil(b.maxX / pu) + 1;
+  if ((j1 - j0 + 1) * (i1 - i0 + 1) > MAX_TILE_PIECES * 4) return null;
+  for (let j = j0; j <= j1; j++) {
+    const shift = layout.pattern === 'running-bond' ? (((j * layout.bondOffset) % 1) + 1) % 1 * pu : 0;
+    for (let i = i0; i <= i1; i++) rects.push({ x: i * pu + shift, y: j * pv, w: L, h: W });
+  }
+  return rects;
+}
+
+// Sutherland–Hodgman against one side of an axis-aligned line; the subject may be concave
+function clipSide(pts: Vec2[], axis: 'x' | 'y', bound: number, keepAbove: boolean): Vec2[] {
+  const inside = (p: Vec2) => (keepAbove ? p[axis] >= bound : p[axis] <= bound);
+  const out: Vec2[] = [];
+  for (let i = 0; i < pts.length; i++) {
+    const a = pts[i], b = pts[(i + 1) % pts.length];
+    if (inside(a)) out.push(a);
+    if (inside(a) !== inside(b)) {
+      const t = (bound - a[axis]) / (b[axis] - a[axis]);
+      out.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+    }
+  }
+  return out;
+}
+
+function clipToRect(pts: Vec2[], r: Rect): Vec2[] {
+  let out = clipSide(pts, 'x', r.x, true);
+  out = clipSide(out, 'x', r.x + r.w, false);
+  out = clipSide(out, 'y', r.y, true);
+  return clipSide(out, 'y', r.y + r.h, false);
+}
+
+/**
+ * Lays `layout` over a room given as outline and hole points. `angle` is the
+ * floor direction in degrees. Pieces that only graze the room are left out.
+ */
+export function layoutTiles(outline: Vec2[], holes: Vec2[][], layout: TileLayout, angle: number): TilePlan {
+  const counts: TileCounts = { full: 0, cut: 0, sliver: 0 };
+  const a = ((angle + patternAngle(layout.pattern)) * Math.PI) / 180;
+  const cos = Math.cos(a), sin = Math.sin(a);
+  const o = layout.origin;
+  const toLocal = (p: Vec2): Vec2 => ({ x: (p.x - o.x) * cos + (p.y - o.y) * sin, y: -(p.x - o.x) * sin + (p.y - o.y) * cos });
+  const toPlan = (u: number, v: number): Vec2 => ({ x: o.x + u * cos - v * sin, y: o.y + u * sin + v * cos });
+
+  const local = outline.map(toLocal);
+  const localHoles = holes.map(h => h.map(toLocal));
+  const rects = local.length < 3 ? [] : patternRects(layout, bounds(local));
+  if (!rects) return { pieces: [], counts, tooMany: true };
+
+  const pieces: TilePiece[] = [];
+  for (const r of rects) {
+    const clipped = clipToRect(local, r);
+    if (clipped.length < 3) continue;
+    const area = Math.abs(signedArea(clipped)) - localHoles.reduce((s, h) => s + Math.abs(signedArea(clipToRect(h, r))), 0);
+    if (area < 1e-9) continue;
+    let kind: TileKind = 'full';
+    if (area < r.w * r.h * (1 - 1e-6)) {
+      // the narrower side of what is left of the piece
+      const c = bounds(clipped);
+      kind = Math.min(c.maxX - c.minX, c.maxY - c.minY) < layout.minCut ? 'sliver' : 'cut';
+    }
+    counts[kind]++;
+    if (pieces.length >= MAX_TILE_PIECES) return { pieces: [], counts: { full: 0, cut: 0, sliver: 0 }, tooMany: true };
+    pieces.push({ corners: [toPlan(r.x, r.y), toPlan(r.x + r.w, r.y), toPlan(r.x + r.w, r.y + r.h), toPlan(r.x, r.y + r.h)], kind });
+  }
+  return { pieces, counts, tooMany: false };
+}
+
+// the room's laid-out floor, or null when it has no layout
+export function roomTiles(plan: FloorPlan, room: Room): TilePlan | null {
+  const { layout, angle } = room.floor;
+  return layout && layoutTiles(roomPoints(plan, room), room.holes.map((_, h) => holePoints(plan, room, h)), layout, angle);
+}
+
+/**
+ * Draws the pieces' joints and the fills of cut pieces and slivers. The caller
+ * clips the context to the room first.
+ */
+export function paintTiles(ctx: CanvasRenderingContext2D, tiles: TilePlan, toCanvas: (p: Vec2) => [number, number], stroke: string, lineWidth: number): void {
+  ctx.save();
+  ctx.strokeStyle = stroke;
+  ctx.lineWidth = lineWidth;
+  for (const piece of tiles.pieces) {
+    ctx.beginPath();
+    piece.corners.forEach((p, i) => (i === 0 ? ctx.moveTo(...toCanvas(p)) : ctx.lineTo(...toCanvas(p))));
+    ctx.closePath();
+    const fill = TILE_FILLS[piece.kind];
+    if (fill) { ctx.fillStyle = fill; ctx.fill(); }
+    ctx.stroke();
+  }
+  ctx.restore();
+}
@@ -0,0 +1,101 @@
+import { type Vec2 } from '../types';
+
+/**
+ * A scanned plan or photo under the 2D grid to trace over. The image sits in
+ * plan meters: its center point, the meters one image pixel covers and a
+ * rotation, so it pans and zooms with the plan. It lives for the session only;
+ * the rooms traced over it are what the project keeps.
+ */
+
+export type UnderlaySource = {
+  image: CanvasImageSource;
+  width: number; // px
+  height: number;
+  name: string;
+  pdf?: { data: ArrayBuffer; page: number; pages: number }; // a PDF page can be switched
+};
+
+export type Underlay = {
+  source: UnderlaySource;
+  center: Vec2; // plan position of the image center
+  metersPerPx: number;
+  rotation: number; // degrees, counterclockwise
+  opacity: number; // 0–1
+  locked: boolean;
+};
+
+const PDF_RENDER_PX = 4000; // longer side of a rendered PDF page
+const MAX_IMAGE_PX = 8000; // larger images are scaled down to keep canvas memory in check
+
+export const UNDERLAY_ACCEPT = 'image/png,image/jpeg,image/webp,application/pdf,.pdf';
+
+/** Loads a PNG/JPG (or other browser image) file, or one page of a PDF. */
+export async function loadUnderlayFile(file: File, page = 1): Promise<UnderlaySource> {
+  const isPdf = file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+  if (isPdf) return renderPdfPage(await file.arrayBuffer(), page, file.name);
+  const bitmap = await createImageBitmap(file);
+  const k = Math.min(1, MAX_IMAGE_PX / Math.max(bitmap.width, bitmap.height));
+  if (k === 1) return { image: bitmap, width: bitmap.width, height: bitmap.height, name: file.name };
+  const small = await createImageBitmap(bitmap, { resizeWidth: Math.round(bitmap.width * k), resizeHeight: Math.round(bitmap.height * k), resizeQuality: 'high' });
+  bitmap.close();
+  return { image: small, width: small.width, height: small.height, name: file.name };
+}
+
+// pdf.js is only fetched once a PDF is opened
+export async function renderPdfPage(data: ArrayBuffer, page: number, name: string): Promise<UnderlaySource> {
+  const [pdfjs, worker] = await Promise.all([import('pdfjs-dist'), import('pdfjs-dist/build/pdf.worker.min.mjs?url')]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  // pdf.js takes over the buffer it is given, so it gets a copy and switching pages can reuse the original
+  const task = pdfjs.getDocument({ data: data.slice(0) });
+  try {
+    const doc = await task.promise;
+    const n = Math.min(Math.max(1, Math.round(page)), doc.numPages);
+    const p = await doc.getPage(n);
+    const base = p.getViewport({ scale: 1 });
+    const viewport = p.getViewport({ scale: PDF_RENDER_PX / Math.max(base.width, base.height) });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+    const ctx = canvas.getContext('2d')!;
+    // pages are often transparent; scans are traced on white
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    await p.render({ canvas, canvasContext: ctx, viewport }).promise;
+    return { image: canvas, width: canvas.width, height: canvas.height, name, pdf: { data, page: n, pages: doc.numPages } };
+  } finally {
+    await task.destroy();
+  }
+}
+
+// a new underlay centered on `center`, fitted to `widthM` meters across until it is calibrated
+export function placeUnderlay(source: UnderlaySource, center: Vec2, widthM: number): Underlay {
+  return { source, center: { ...center }, metersPerPx: widthM / source.width, rotation: 0, opacity: 0.5, locked: false };
+}
+
+/**
+ * Rescales the underlay about `a` so that the image points now at `a` and `b`
+ * come out `meters` apart; the traced plan is then in true meters.
+ */
+export function calibrateUnderlay(u: Underlay, a: Vec2, b: Vec2, meters: number): Underlay {
+  const k = meters / Math.hypot(b.x - a.x, b.y - a.y);
+  return { ...u, metersPerPx: u.metersPerPx * k, center: { x: a.x + (u.center.x - a.x) * k, y: a.y + (u.center.y - a.y) * k } };
+}
+
+// turns the underlay about its center, keeping the rotation within 0–360°
+export function rotateUnderlay(u: Underlay, deg: number): Underlay {
+  return { ...u, rotation: ((deg % 360) + 360) % 360 };
+}
+
+/** Draws the underlay; `toCanvas` maps plan meters to canvas pixels at `pxPerM`. */
+export function paintUnderlay(ctx: CanvasRenderingContext2D, u: Underlay, toCanvas: (p: Vec2) => [number, number], pxPerM: number): void {
+  const [x, y] = toCanvas(u.center);
+  const s = u.metersPerPx * pxPerM;
+  ctx.save();
+  ctx.globalAlpha = u.opacity;
+  ctx.translate(x, y);
+  ctx.rotate((-u.rotation * Math.PI) / 180); // canvas y points down
+  ctx.scale(s, s);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(u.source.image, -u.source.width / 2, -u.source.height / 2);
+  ctx.restore();
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { type UnitSettings } from '../types';
+import { formatArea, formatLength, formatLengthInput, fromAreaUnit, parseLength, toAreaUnit, toLengthColumn } from './units';
+
+const m: UnitSettings = { length: 'm', fraction: 16 };
+const cm: UnitSettings = { length: 'cm', fraction: 16 };
+const mm: UnitSettings = { length: 'mm', fraction: 16 };
+const ftIn: UnitSettings = { length: 'ft-in', fraction: 16 };
+
+describe('formatLength', () => {
+  it('labels metric lengths in the project unit', () => {
+    expect(formatLength(2.4, m)).toBe('2.40 m');
+    expect(formatLength(2.4, cm)).toBe('240.0 cm');
+    expect(formatLength(2.4, mm)).toBe('2400 mm');
+  });
+
+  it('labels feet and inches, rounded to the inch fraction', () => {
+    expect(formatLength(12 * 0.3048 + 6.5 * 0.0254, ftIn)).toBe('12\' 6 1/2"');
+    expect(formatLength(0.0254 * 3.25, ftIn)).toBe('3 1/4"');
+    expect(formatLength(0.3048, ftIn)).toBe('1\' 0"');
+    expect(formatLength(-0.0254 * 0.5, ftIn)).toBe('-1/2"');
+    expect(formatLength(0.0254 * 0.3, { length: 'ft-in', fraction: 4 })).toBe('1/4"');
+  });
+});
+
+describe('formatLengthInput', () => {
+  it('drops trailing zeros and the metric suffix', () => {
+    expect(formatLengthInput(2.4, m)).toBe('2.4');
+    expect(formatLengthInput(2.4, cm)).toBe('240');
+    expect(formatLengthInput(0.0125, mm)).toBe('12.5');
+  });
+});
+
+describe('parseLength', () => {
+  it('reads bare numbers and arithmetic in the project unit', () => {
+    expect(parseLength('3.2+0.25', m)).toBeCloseTo(3.45);
+    expect(parseLength('240', cm)).toBeCloseTo(2.4);
+    expect(parseLength('6', ftIn)).toBeCloseTo(6 * 0.0254);
+  });
+
+  it.each([
+    ['12\' 6 1/2"', 12 * 0.3048 + 6.5 * 0.0254],
+    ['12\'-6"', 12 * 0.3048 + 6 * 0.0254],
+    ['12\' 6', 12 * 0.3048 + 6 * 0.0254],
+    ['6-1/2"', 6.5 * 0.0254],
+    ['3/4"', 0.75 * 0.0254],
+    ['3m 25cm', 3.25],
+    ['2.4 m - 10 cm', 2.3],
+    ['5 ft', 5 * 0.3048],
+    ['12’ 6”', 12 * 0.3048 + 6 * 0.0254],
+  ])('reads %s', (text, meters) => {
+    expect(parseLength(text, m)).toBeCloseTo(meters, 9);
+  });
+
+  it.each(['', 'abc', '3 meters', '12\' x', '1/0"'])('rejects %j', text => {
+    expect(parseLength(text, m)).toBeNull();
+  });
+});
+
+describe('areas and columns', () => {
+  it('shows metric areas in m² and feet-inches areas in ft²', () => {
+    expect(formatArea(12, m)).toBe('12.00 m²');
+    expect(formatArea(0.3048 * 0.3048 * 100, ftIn)).toBe('100.00 ft²');
+  });
+
+  it('converts areas both ways', () => {
+    expect(fromAreaUnit(toAreaUnit(7.5, ftIn), ftIn)).toBeCloseTo(7.5);
+    expect(toAreaUnit(7.5, cm)).toBe(7.5);
+  });
+
+  it('gives table columns in the unit itself, or decimal feet', () => {
+    expect(toLengthColumn(2.4, cm)).toBeCloseTo(240);
+    expect(toLengthColumn(0.3048 * 2.5, ftIn)).toBeCloseTo(2.5);
+  });
+});
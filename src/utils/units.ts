@@ -0,0 +1,146 @@
+import { type LengthUnit, type UnitSettings } from '../types';
+import { evaluateExpression } from './expression';
+
+/**
+ * Showing and typing lengths in the project's unit. The plan stays in meters;
+ * these helpers only convert at the edges (labels, input fields, exports).
+ */
+
+export const LENGTH_UNIT_LABELS: Record<LengthUnit, string> = {
+  m: 'Meters',
+  cm: 'Centimeters',
+  mm: 'Millimeters',
+  'ft-in': 'Feet & inches',
+};
+
+export const INCH_FRACTIONS = [2, 4, 8, 16, 32, 64];
+export const DEFAULT_UNITS: UnitSettings = { length: 'm', fraction: 16 };
+
+const INCH = 0.0254;
+export const FOOT = 12 * INCH;
+const SQ_FT = FOOT * FOOT;
+
+// meters per unit of a typed suffix
+const SUFFIXES: Record<string, number> = { m: 1, cm: 0.01, mm: 0.001, ft: FOOT, "'": FOOT, in: INCH, '"': INCH };
+
+// meters per bare number: feet-inches takes plain numbers as inches
+function baseFactor(unit: LengthUnit): number {
+  return unit === 'ft-in' ? INCH : SUFFIXES[unit];
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+// e.g. 12' 6 1/2", rounded to 1/fraction of an inch
+function feetInches(m: number, fraction: number): string {
+  const sign = m < 0 ? '-' : '';
+  let n = Math.round((Math.abs(m) / INCH) * fraction); // in 1/fraction inches
+  const feet = Math.floor(n / (12 * fraction));
+  n -= feet * 12 * fraction;
+  const whole = Math.floor(n / fraction);
+  const num = n - whole * fraction;
+  const d = gcd(num, fraction);
+  const inches = num === 0 ? `${whole}` : `${whole ? `${whole} ` : ''}${num / d}/${fraction / d}`;
+  return feet ? `${sign}${feet}' ${inches}"` : `${sign}${inches}"`;
+}
+
+// label text for a length: 2.40 m, 240.0 cm, 2400 mm or 7' 10 1/2"
+export function formatLength(m: number, units: UnitSettings): string {
+  switch (units.length) {
+    case 'm': return `${m.toFixed(2)} m`;
+    case 'cm': return `${(m * 100).toFixed(1)} cm`;
+    case 'mm': return `${(m * 1000).toFixed(0)} mm`;
+    case 'ft-in': return feetInches(m, units.fraction);
+  }
+}
+
+// text for an input field: finer than the labels, without the metric suffix the field label states
+export function formatLengthInput(m: number, units: UnitSettings): string {
+  if (units.length === 'ft-in') return feetInches(m, units.fraction);
+  const digits = { m: 4, cm: 2, mm: 1 }[units.length];
+  return String(+(m / SUFFIXES[units.length]).toFixed(digits));
+}
+
+// for small measures such as joints: millimeters in metric projects
+export function fineUnits(units: UnitSettings): UnitSettings {
+  return units.length === 'ft-in' ? units : { ...units, length: 'mm' };
+}
+
+// what the field labels put in parentheses
+export function lengthSymbol(units: UnitSettings): string {
+  return units.length === 'ft-in' ? 'ft-in' : units.length;
+}
+
+// metric projects use m², feet-inches projects ft²
+export function areaSymbol(units: UnitSettings): string {
+  return units.length === 'ft-in' ? 'ft²' : 'm²';
+}
+
+export function toAreaUnit(m2: number, units: UnitSettings): number {
+  return units.length === 'ft-in' ? m2 / SQ_FT : m2;
+}
+
+export function fromAreaUnit(v: number, units: UnitSettings): number {
+  return units.length === 'ft-in' ? v * SQ_FT : v;
+}
+
+export function formatArea(m2: number, units: UnitSettings): string {
+  return `${toAreaUnit(m2, units).toFixed(2)} ${areaSymbol(units)}`;
+}
+
+// plain number for tables and CSV: the unit itself, or decimal feet for feet-inches
+export function toLengthColumn(m: number, units: UnitSettings): number {
+  return units.length === 'ft-in' ? m / FOOT : m / SUFFIXES[units.length];
+}
+
+export function lengthColumnSymbol(units: UnitSettings): string {
+  return units.length === 'ft-in' ? 'ft' : units.length;
+}
+
+// one quantity: a mixed number (6 1/2), a fraction or a decimal, with an optional unit
+const QUANTITY = /^(?:(\d+)\s+(\d+)\/(\d+)|(\d+)\/(\d+)|(\d*\.?\d+))\s*(mm|cm|m|ft|in|'|")?(?![a-z])/i;
+
+/**
+ * Parses a typed length to meters: arithmetic in the project unit
+ * (`3.2+0.25`), or quantities with units such as `12' 6 1/2"`, `12'-6"`,
+ * `6 1/2"`, `3m 25cm` or `2.4 m - 10 cm`. A number without a unit is in the
+ * project unit; after feet, or in a feet-inches project, it is inches.
+ * Returns null when the text is not a length.
+ */
+export function parseLength(text: string, units: UnitSettings): number | null {
+  const base = baseFactor(units.length);
+  const plain = evaluateExpression(text);
+  if (plain !== null) return plain * base;
+
+  const src = text
+    .replace(/[′’]/g, "'")
+    .replace(/[″”]/g, '"')
+    .replace(/'\s*-\s*(?=[\d.])/g, "' ") // 12'-6": the dash only separates feet and inches
+    .replace(/(\d)-(?=\d+\/\d)/g, '$1 ') // 6-1/2": whole and fraction
+    .trim();
+  let rest = src;
+  let total = 0;
+  let sign = 1;
+  let afterFeet = false;
+  let count = 0;
+  while (rest) {
+    const op = /^[+-]\s*/.exec(rest);
+    if (op) {
+      sign = op[0][0] === '-' ? -1 : 1;
+      rest = rest.slice(op[0].length);
+      afterFeet = false;
+    }
+    const q = QUANTITY.exec(rest);
+    if (!q) return null;
+    const value = q[1] !== undefined ? +q[1] + +q[2] / +q[3] : q[4] !== undefined ? +q[4] / +q[5] : +q[6];
+    const suffix = q[7]?.toLowerCase();
+    const factor: number = suffix ? SUFFIXES[suffix] : afterFeet ? INCH : base;
+    if (!Number.isFinite(value * factor)) return null;
+    total += sign * value * factor;
+    afterFeet = factor === FOOT;
+    count++;
+    rest = rest.slice(q[0].length).trimStart();
+  }
+  return count > 0 ? total : null;
+}
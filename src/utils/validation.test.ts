@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { type FloorPlan, type Vec2 } from '../types';
+import { DEFAULT_FLOOR, DEFAULT_WALL } from './plan';
+import { hasErrors, holeRejectReason, invalidMoveReason, outlineRejectReason, validateRoom } from './validation';
+
+// a single room from outline points `o0`, `o1`, …, with hole loops `h0-0`, `h0-1`, … when given
+function roomPlan(outline: Vec2[], holes: Vec2[][] = []): FloorPlan {
+  const vertices: Record<string, Vec2> = {};
+  outline.forEach((p, i) => { vertices[`o${i}`] = p; });
+  holes.forEach((h, k) => h.forEach((p, i) => { vertices[`h${k}-${i}`] = p; }));
+  return {
+    vertices,
+    rooms: [{
+      id: 'r1',
+      name: 'Room 1',
+      vertexIds: outline.map((_, i) => `o${i}`),
+      holes: holes.map((h, k) => h.map((_, i) => `h${k}-${i}`)),
+      wall: { ...DEFAULT_WALL },
+      floor: { ...DEFAULT_FLOOR },
+    }],
+    wallOverrides: {},
+    openings: [],
+    furniture: [],
+    annotations: [],
+    lights: [],
+  };
+}
+
+const square = (x: number, y: number, size: number): Vec2[] => [{ x, y }, { x: x + size, y }, { x: x + size, y: y + size }, { x, y: y + size }];
+
+describe('validateRoom', () => {
+  it('accepts a plain counter-clockwise square', () => {
+    const plan = roomPlan(square(0, 0, 4));
+    expect(validateRoom(plan, plan.rooms[0])).toEqual({ orientation: 'ccw', issues: [] });
+  });
+
+  it('reports clockwise outlines', () => {
+    const plan = roomPlan(square(0, 0, 4).reverse());
+    expect(validateRoom(plan, plan.rooms[0]).orientation).toBe('cw');
+  });
+
+  it('flags a self-intersecting outline', () => {
+    const plan = roomPlan([{ x: 0, y: 0 }, { x: 4, y: 4 }, { x: 4, y: 0 }, { x: 0, y: 4 }]);
+    const v = validateRoom(plan, plan.rooms[0]);
+    expect(hasErrors(v)).toBe(true);
+    expect(v.issues.map(i => i.kind)).toContain('intersection');
+  });
+
+  it('flags zero-length edges', () => {
+    const plan = roomPlan([...square(0, 0, 4), { x: 0, y: 4 }]);
+    expect(validateRoom(plan, plan.rooms[0]).issues.map(i => i.kind)).toContain('zero-length');
+  });
+
+  it('flags a hole that crosses the outline', () => {
+    const plan = roomPlan(square(0, 0, 4), [square(3, 1, 2)]);
+    const issues = validateRoom(plan, plan.rooms[0]).issues;
+    expect(issues).toContainEqual(expect.objectContaining({ kind: 'hole', hole: 0, severity: 'error' }));
+  });
+
+  it('accepts a hole well inside the outline', () => {
+    const plan = roomPlan(square(0, 0, 4), [square(1, 1, 1)]);
+    expect(hasErrors(validateRoom(plan, plan.rooms[0]))).toBe(false);
+  });
+});
+
+describe('outlineRejectReason', () => {
+  it('accepts a simple outline', () => {
+    expect(outlineRejectReason(square(0, 0, 2))).toBeNull();
+  });
+
+  it('rejects outlines with fewer than 3 corners or no area', () => {
+    expect(outlineRejectReason([{ x: 0, y: 0 }, { x: 1, y: 0 }])).not.toBeNull();
+    expect(outlineRejectReason([{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }])).not.toBeNull();
+  });
+});
+
+describe('holeRejectReason', () => {
+  const plan = roomPlan(square(0, 0, 4), [square(1, 1, 1)]);
+
+  it('accepts a new hole clear of the outline and the other holes', () => {
+    expect(holeRejectReason(plan, plan.rooms[0], square(2.5, 2.5, 1))).toBeNull();
+  });
+
+  it('rejects a new hole sticking out of the room', () => {
+    expect(holeRejectReason(plan, plan.rooms[0], square(3, 3, 2))).not.toBeNull();
+  });
+
+  it('rejects a new hole overlapping another hole', () => {
+    expect(holeRejectReason(plan, plan.rooms[0], square(1.5, 1.5, 1))).not.toBeNull();
+  });
+});
+
+describe('invalidMoveReason', () => {
+  it('allows moves that keep the room valid', () => {
+    const plan = roomPlan(square(0, 0, 4), [square(1, 1, 1)]);
+    expect(invalidMoveReason(plan, { o2: { x: 5, y: 5 } })).toBeNull();
+    expect(invalidMoveReason(plan, { 'h0-2': { x: 2.5, y: 2.5 } })).toBeNull();
+  });
+
+  it('blocks an outline corner dragged across the room', () => {
+    const plan = roomPlan(square(0, 0, 4));
+    expect(invalidMoveReason(plan, { o1: { x: -1, y: 5 } })).toMatch(/^Room 1: /);
+  });
+
+  it('blocks an outline flipped inside out', () => {
+    const plan = roomPlan([{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 2, y: 3 }]);
+    expect(invalidMoveReason(plan, { o2: { x: 2, y: -3 } })).toBe('Room 1: outline would turn inside out');
+  });
+
+  it('blocks a hole corner moved across the outline', () => {
+    const plan = roomPlan(square(0, 0, 4), [square(1, 1, 1)]);
+    expect(invalidMoveReason(plan, { 'h0-3': { x: 0, y: 5 } })).toBe('Room 1: hole crosses the room outline');
+  });
+
+  it('blocks an outline corner moved across a hole', () => {
+    const plan = roomPlan(square(0, 0, 4), [square(1, 1, 1)]);
+    expect(invalidMoveReason(plan, { o2: { x: 1.5, y: 1.5 } })).not.toBeNull();
+  });
+
+  it('lets an already broken room be edited as long as it gets no worse', () => {
+    const plan = roomPlan([{ x: 0, y: 0 }, { x: 4, y: 4 }, { x: 4, y: 0 }, { x: 0, y: 4 }]);
+    expect(invalidMoveReason(plan, { o1: { x: 5, y: 5 } })).toBeNull();
+  });
+
+  it('ignores rooms none of whose corners move', () => {
+    const plan = roomPlan(square(0, 0, 4));
+    plan.vertices.x = { x: 10, y: 10 };
+    expect(invalidMoveReason(plan, { x: { x: 2, y: 2 } })).toBeNull();
+  });
+});
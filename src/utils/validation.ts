@@ -0,0 +1,167 @@
+import { type FloorPlan, type Room, type Vec2 } from '../types';
+import { pointInPolygon, segmentsIntersect, signedArea } from './geometry';
+import { holePoints, moveVertices, roomPoints } from './plan';
+
+export type PolygonIssueKind = 'intersection' | 'overlap' | 'zero-length' | 'duplicate' | 'degenerate' | 'collinear' | 'hole';
+
+// `edges` are edge indices of the room outline, or of hole `hole` when set (edge i runs from vertex i to i + 1)
+export type PolygonIssue = { kind: PolygonIssueKind; severity: 'error' | 'warning'; edges: number[]; hole?: number; message: string };
+
+export type RoomValidation = {
+  orientation: 'ccw' | 'cw' | null; // null for a zero-area outline
+  issues: PolygonIssue[];
+};
+
+const MIN_EDGE_M = 1e-3;
+const MIN_AREA_M2 = 1e-6;
+// turns flatter than this are flagged as near-collinear (or as overlapping when they fold back)
+const COLLINEAR_SIN = Math.sin((1 * Math.PI) / 180);
+
+function near(a: Vec2, b: Vec2): boolean {
+  return Math.hypot(a.x - b.x, a.y - b.y) < MIN_EDGE_M;
+}
+
+export function validateRoom(plan: FloorPlan, room: Room): RoomValidation {
+  const pts = roomPoints(plan, room);
+  const area = signedArea(pts);
+  const holes = room.holes.map((_, h) => holePoints(plan, room, h));
+  return {
+    orientation: Math.abs(area) < MIN_AREA_M2 ? null : area > 0 ? 'ccw' : 'cw',
+    issues: [
+      ...loopIssues(pts, room.vertexIds),
+      ...room.holes.flatMap((ids, h) => loopIssues(holes[h], ids, h)),
+      ...holeIssues(pts, holes),
+    ],
+  };
+}
+
+// checks of a single closed loop: the room outline, or hole `hole`
+function loopIssues(pts: Vec2[], ids: string[], hole?: number): PolygonIssue[] {
+  const n = pts.length;
+  const issues: PolygonIssue[] = [];
+  const err = (kind: PolygonIssueKind, edges: number[], message: string) => issues.push({ kind, severity: 'error', edges, hole, message });
+  if (n < 3) {
+    err('degenerate', ids.map((_, i) => i), 'Fewer than 3 corners');
+    return issues;
+  }
+
+  const zero = pts.map((a, i) => near(a, pts[(i + 1) % n]));
+  zero.forEach((z, i) => { if (z) err('zero-length', [i], 'Zero-length edge'); });
+
+  // the same corner listed twice makes two walls meet where they should not
+  const seen = new Map<string, number>();
+  ids.forEach((id, i) => {
+    const first = seen.get(id);
+    if (first === undefined) { seen.set(id, i); return; }
+    err('duplicate', [(first - 1 + n) % n, first, (i - 1 + n) % n, i], 'Corner used twice');
+  });
+
+  for (let i = 0; i < n; i++) {
+    if (zero[i]) continue;
+    for (let j = i + 2; j < n; j++) {
+      if (zero[j] || (i === 0 && j === n - 1)) continue;
+      // edges separated only by a zero-length edge share a point; that is reported above
+      if ((j === i + 2 && zero[i + 1]) || (i === 0 && j === n - 2 && zero[n - 1])) continue;
+      const a1 = pts[i], a2 = pts[(i + 1) % n], b1 = pts[j], b2 = pts[(j + 1) % n];
+      if ((near(a1, b1) && near(a2, b2)) || (near(a1, b2) && near(a2, b1))) err('duplicate', [i, j], 'Duplicate edge');
+      else if (segmentsIntersect(a1, a2, b1, b2)) err('intersection', [i, j], 'Edges cross');
+    }
+  }
+
+  for (let k = 0; k < n; k++) {
+    const ein = (k - 1 + n) % n;
+    if (zero[ein] || zero[k]) continue;
+    const p = pts[ein], v = pts[k], q = pts[(k + 1) % n];
+    const ax = v.x - p.x, ay = v.y - p.y, bx = q.x - v.x, by = q.y - v.y;
+    const sin = (ax * by - ay * bx) / (Math.hypot(ax, ay) * Math.hypot(bx, by));
+    if (Math.abs(sin) >= COLLINEAR_SIN) continue;
+    if (ax * bx + ay * by < 0) err('overlap', [ein, k], 'Edges fold back onto each other');
+    else issues.push({ kind: 'collinear', severity: 'warning', edges: [ein, k], hole, message: 'Nearly collinear corner' });
+  }
+
+  if (Math.abs(signedArea(pts)) < MIN_AREA_M2) err('degenerate', ids.map((_, i) => i), 'Zero area');
+  return issues;
+}
+
+function edgesCross(a: Vec2[], b: Vec2[]): [number, number] | null {
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < b.length; j++) {
+      if (segmentsIntersect(a[i], a[(i + 1) % a.length], b[j], b[(j + 1) % b.length])) return [i, j];
+    }
+  }
+  return null;
+}
+
+// holes must lie strictly inside the outline and apart from each other
+function holeIssues(outer: Vec2[], holes: Vec2[][]): PolygonIssue[] {
+  const issues: PolygonIssue[] = [];
+  const all = (pts: Vec2[]) => pts.map((_, i) => i);
+  holes.forEach((pts, h) => {
+    if (pts.length < 3 || outer.length < 3) return;
+    const hit = edgesCross(pts, outer);
+    if (hit) issues.push({ kind: 'hole', severity: 'error', edges: [hit[0]], hole: h, message: 'Hole crosses the room outline' });
+    else if (!pointInPolygon(pts[0], outer)) issues.push({ kind: 'hole', severity: 'error', edges: all(pts), hole: h, message: 'Hole lies outside the room' });
+    for (let k = 0; k < holes.length; k++) {
+      const other = holes[k];
+      if (k === h || other.length < 3) continue;
+      const cross = edgesCross(pts, other);
+      if (cross) issues.push({ kind: 'hole', severity: 'error', edges: [cross[0]], hole: h, message: 'Holes overlap' });
+      else if (pointInPolygon(pts[0], other)) issues.push({ kind: 'hole', severity: 'error', edges: all(pts), hole: h, message: 'Hole lies inside another hole' });
+    }
+  });
+  return issues;
+}
+
+/**
+ * Why `points` cannot become a new hole of the room, or null if they can: the
+ * loop itself must be valid and sit inside the outline without touching it or
+ * another hole.
+ */
+export function holeRejectReason(plan: FloorPlan, room: Room, points: Vec2[]): string | null {
+  const own = loopIssues(points, points.map((_, i) => `p${i}`)).find(i => i.severity === 'error');
+  if (own) return own.message;
+  const holes = [...room.holes.map((_, h) => holePoints(plan, room, h)), points];
+  const issue = holeIssues(roomPoints(plan, room), holes).find(i => i.hole === holes.length - 1);
+  return issue?.message ?? null;
+}
+
+// why `points` cannot become a new room outline, or null if they can
+export function outlineRejectReason(points: Vec2[]): string | null {
+  const issue = loopIssues(points, points.map((_, i) => `p${i}`)).find(i => i.severity === 'error');
+  if (issue) return issue.message;
+  return Math.abs(signedArea(points)) < MIN_AREA_M2 ? 'The outline has no area' : null;
+}
+
+export function validatePlan(plan: FloorPlan): Record<string, RoomValidation> {
+  return Object.fromEntries(plan.rooms.map(r => [r.id, validateRoom(plan, r)]));
+}
+
+export function hasErrors(v: RoomValidation | undefined): boolean {
+  return !!v && v.issues.some(i => i.severity === 'error');
+}
+
+/**
+ * Why the moves would break a room they touch (outline or hole corners), or null
+ * if they are fine: new errors, a hole newly crossing or leaving the outline or
+ * another hole, or an outline flipping orientation (turned inside out without
+ * crossing itself, e.g. a triangle corner dragged over the opposite edge). Rooms
+ * that are already invalid may still be edited as long as they get no worse.
+ */
+export function invalidMoveReason(plan: FloorPlan, moves: Record<string, Vec2>): string | null {
+  const moved = moveVertices(plan, moves);
+  for (const room of plan.rooms) {
+    if (![room.vertexIds, ...room.holes].flat().some(id => id in moves)) continue;
+    const before = validateRoom(plan, room);
+    const after = validateRoom(moved, room);
+    const count = (v: RoomValidation) => v.issues.filter(i => i.severity === 'error').length;
+    const holeIssue = after.issues.find(i => i.kind === 'hole' && !before.issues.some(b => b.kind === 'hole' && b.hole === i.hole && b.message === i.message));
+    if (holeIssue) return `${room.name}: ${holeIssue.message.toLowerCase()}`;
+    if (count(after) > count(before)) {
+      const issue = after.issues.find(i => i.severity === 'error' && !before.issues.some(b => b.kind === i.kind))
+        ?? after.issues.find(i => i.severity === 'error')!;
+      return `${room.name}: ${issue.message.toLowerCase()}`;
+    }
+    if (before.orientation && after.orientation && before.orientation !== after.orientation) return `${room.name}: outline would turn inside out`;
+  }
+  return null;
+}
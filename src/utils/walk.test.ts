@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { type Vec2 } from '../types';
+import { clearSpot, walkStep } from './walk';
+
+// a 10 cm wall along x = 0.5..0.6, four meters long
+const wall: Vec2[] = [{ x: 0.5, y: -2 }, { x: 0.6, y: -2 }, { x: 0.6, y: 2 }, { x: 0.5, y: 2 }];
+
+function walk(from: Vec2, step: Vec2, times: number): Vec2 {
+  let p = from;
+  for (let i = 0; i < times; i++) p = walkStep(p, step, [wall]);
+  return p;
+}
+
+describe('walkStep', () => {
+  it('moves freely away from obstacles', () => {
+    const p = walkStep({ x: -1, y: 0 }, { x: -0.5, y: 0.25 }, [wall]);
+    expect(p.x).toBeCloseTo(-1.5);
+    expect(p.y).toBeCloseTo(0.25);
+  });
+
+  it('stops short of a wall', () => {
+    const p = walk({ x: -1, y: 0 }, { x: 0.05, y: 0 }, 40);
+    expect(p.x).toBeLessThan(0.5 - 0.2 + 1e-9);
+    expect(p.x).toBeGreaterThan(0.2);
+  });
+
+  it('does not let a long step jump through a thin wall', () => {
+    expect(walkStep({ x: 0, y: 0 }, { x: 2, y: 0 }, [wall]).x).toBeLessThan(0.5);
+  });
+
+  it('slides along a wall walked into at an angle', () => {
+    const p = walk({ x: 0, y: 0 }, { x: 0.05, y: 0.05 }, 20);
+    expect(p.x).toBeLessThan(0.5);
+    expect(p.y).toBeGreaterThan(0.9);
+  });
+
+  it('keeps a walker standing too close to a wall from passing through it', () => {
+    const p = walk({ x: 0.4, y: 0 }, { x: 0.05, y: 0 }, 10);
+    expect(p.x).toBeLessThan(0.5);
+  });
+
+  it('lets a walker standing too close to a wall step away from it', () => {
+    expect(walkStep({ x: 0.4, y: 0 }, { x: -0.05, y: 0 }, [wall]).x).toBeCloseTo(0.35);
+  });
+});
+
+describe('clearSpot', () => {
+  it('keeps a free spot', () => {
+    expect(clearSpot({ x: 0, y: 0 }, [wall])).toEqual({ x: 0, y: 0 });
+  });
+
+  it('pushes a spot next to a wall out to where the walker fits, on its own side', () => {
+    const p = clearSpot({ x: 0.4, y: 0 }, [wall]);
+    expect(p.x).toBeLessThanOrEqual(0.3 + 1e-9);
+    expect(p.x).toBeGreaterThan(0.2);
+    expect(Math.abs(p.y)).toBeLessThan(0.1);
+  });
+
+  it('pushes a spot inside a wall out of it', () => {
+    const p = clearSpot({ x: 0.54, y: 0 }, [wall]);
+    expect(p.x < 0.3 || p.x > 0.8).toBe(true);
+  });
+});
@@ -0,0 +1,87 @@
+import { type FloorPlan, type Vec2 } from '../types';
+import { furnitureFootprint } from './furniture';
+import { pointInPolygon, pointToSegmentDistance } from './geometry';
+import { buildWalls, wallPieces } from './walls';
+
+/**
+ * First-person walking in the 3D view. The walker is a circle in plan that
+ * anything solid at knee height stops: walls and the parts of them below a
+ * window sill, and furniture taller than a step. Doorways let it through.
+ */
+
+// where the walkthrough starts, usually picked on the 2D plan
+export type WalkStart = {
+  at: Vec2;
+  heading: number; // radians, counter-clockwise from +x like the plan
+};
+
+export const DEFAULT_EYE_HEIGHT = 1.6;
+export const WALK_SPEED = 1.4; // m/s
+export const RUN_SPEED = 3; // m/s with Shift held
+const WALKER_RADIUS = 0.2;
+const STEP_HEIGHT = 0.25; // anything lower is stepped over, anything starting higher walked under
+
+// plan outlines of everything that blocks the walker
+export function walkObstacles(plan: FloorPlan): Vec2[][] {
+  const walls = buildWalls(plan)
+    .flatMap(w => wallPieces(w, plan))
+    .filter(p => p.bottom < STEP_HEIGHT && p.top > STEP_HEIGHT)
+    .map(p => p.polygon);
+  const furniture = plan.furniture.filter(f => f.height > STEP_HEIGHT).map(f => furnitureFootprint(f));
+  return [...walls, ...furniture];
+}
+
+// distance from `p` to the nearest obstacle outline, negative inside one
+function clearance(p: Vec2, obstacles: Vec2[][]): number {
+  let best = Infinity;
+  for (const poly of obstacles) {
+    const d = Math.min(...poly.map((a, i) => {
+      const b = poly[(i + 1) % poly.length];
+      return pointToSegmentDistance(p.x, p.y, a.x, a.y, b.x, b.y);
+    }));
+    best = Math.min(best, pointInPolygon(p, poly) ? -d : d);
+  }
+  return best;
+}
+
+function blocked(p: Vec2, obstacles: Vec2[][]): boolean {
+  return clearance(p, obstacles) < WALKER_RADIUS;
+}
+
+/**
+ * The free spot nearest to `at` where a walker fits, searched in rings out to a
+ * few meters; `at` itself when it is free or nothing nearby is.
+ */
+export function clearSpot(at: Vec2, obstacles: Vec2[][]): Vec2 {
+  if (!blocked(at, obstacles)) return at;
+  for (let r = WALKER_RADIUS / 4; r <= 3; r += WALKER_RADIUS / 4) {
+    const n = Math.ceil((2 * Math.PI * r) / (WALKER_RADIUS / 4));
+    const free = Array.from({ length: n }, (_, i) => ({ x: at.x + r * Math.cos((2 * Math.PI * i) / n), y: at.y + r * Math.sin((2 * Math.PI * i) / n) }))
+      .filter(q => !blocked(q, obstacles));
+    if (free.length) return free.reduce((a, b) => (clearance(b, obstacles) > clearance(a, obstacles) ? b : a));
+  }
+  return at;
+}
+
+/**
+ * Where a walker at `from` ends up after trying to move by `step`: blocked
+ * moves slide along the obstacle on whichever axis is still free. A walker
+ * that is already too close to an obstacle (the plan changed under it) may
+ * only move away from it.
+ */
+export function walkStep(from: Vec2, step: Vec2, obstacles: Vec2[][]): Vec2 {
+  if (blocked(from, obstacles)) {
+    const to = { x: from.x + step.x, y: from.y + step.y };
+    return clearance(to, obstacles) > clearance(from, obstacles) ? to : from;
+  }
+  // a long step (a slow frame) is taken in pieces so it cannot jump through a thin wall
+  const n = Math.max(1, Math.ceil(Math.hypot(step.x, step.y) / (WALKER_RADIUS / 2)));
+  const dx = step.x / n, dy = step.y / n;
+  let p = from;
+  for (let i = 0; i < n; i++) {
+    const next = [{ x: p.x + dx, y: p.y + dy }, { x: p.x + dx, y: p.y }, { x: p.x, y: p.y + dy }].find(q => !blocked(q, obstacles));
+    if (!next) break;
+    p = next;
+  }
+  return p;
+}
@@ -0,0 +1,193 @@
+import { type FloorPlan, type Vec2, type WallSpec } from '../types';
+import { signedArea } from './geometry';
+import { openingFrame } from './openings';
+import { edgeKey, edgeVertexIds, roomPoints } from './plan';
+
+// a mitered corner further than this many thicknesses from the vertex is cut square
+const MITER_LIMIT = 4;
+
+export type Wall = {
+  key: string;
+  // centerline a -> b, in the direction the first owning room walks it
+  a: string;
+  b: string;
+  roomIds: string[];
+  spec: WallSpec;
+  // thickness on the left/right of a -> b; exterior walls grow outward, shared walls are centered
+  left: number;
+  right: number;
+  // plan corners at each end, on the left and right face
+  aLeft: Vec2;
+  aRight: Vec2;
+  bLeft: Vec2;
+  bRight: Vec2;
+};
+
+// what a wall gets from its rooms; a shared wall takes the larger of each setting
+export function inheritedWallSpec(plan: FloorPlan, roomIds: string[]): WallSpec {
+  const rooms = plan.rooms.filter(r => roomIds.includes(r.id));
+  return {
+    height: Math.max(...rooms.map(r => r.wall.height)),
+    thickness: Math.max(...rooms.map(r => r.wall.thickness)),
+  };
+}
+
+export function resolveWallSpec(plan: FloorPlan, key: string, roomIds: string[]): WallSpec {
+  return { ...inheritedWallSpec(plan, roomIds), ...plan.wallOverrides[key] };
+}
+
+type Line = { p: Vec2; d: Vec2 };
+
+function intersectLines(l1: Line, l2: Line): Vec2 | null {
+  const cross = l1.d.x * l2.d.y - l1.d.y * l2.d.x;
+  if (Math.abs(cross) < 1e-9) return null;
+  const t = ((l2.p.x - l1.p.x) * l2.d.y - (l2.p.y - l1.p.y) * l2.d.x) / cross;
+  return { x: l1.p.x + l1.d.x * t, y: l1.p.y + l1.d.y * t };
+}
+
+/**
+ * One wall per distinct edge of the plan. Corners are mitered by sorting the
+ * walls meeting at each vertex by angle and intersecting the facing sides of
+ * neighbours, which also closes T-junctions where a shared wall meets others.
+ */
+export function buildWalls(plan: FloorPlan): Wall[] {
+  const byKey = new Map<string, Omit<Wall, 'spec' | 'left' | 'right' | 'aLeft' | 'aRight' | 'bLeft' | 'bRight'> & { ccw: boolean }>();
+  for (const room of plan.rooms) {
+    const ccw = signedArea(roomPoints(plan, room)) >= 0;
+    for (let i = 0; i < room.vertexIds.length; i++) {
+      const [a, b] = edgeVertexIds(room, i);
+      if (a === b) continue;
+      const key = edgeKey(a, b);
+      const w = byKey.get(key);
+      if (w) w.roomIds.push(room.id);
+      else byKey.set(key, { key, a, b, roomIds: [room.id], ccw });
+    }
+  }
+
+  const walls: Wall[] = [];
+  for (const w of byKey.values()) {
+    const spec = resolveWallSpec(plan, w.key, w.roomIds);
+    const t = spec.thickness;
+    // a CCW room has its interior on the left of a -> b
+    const left = w.roomIds.length > 1 ? t / 2 : w.ccw ? 0 : t;
+    const right = w.roomIds.length > 1 ? t / 2 : w.ccw ? t : 0;
+    const pa = plan.vertices[w.a], pb = plan.vertices[w.b];
+    walls.push({ key: w.key, a: w.a, b: w.b, roomIds: w.roomIds, spec, left, right, aLeft: pa, aRight: pa, bLeft: pb, bRight: pb });
+  }
+
+  // walls leaving each vertex, described relative to their outgoing direction u
+  type End = { wall: Wall; atA: boolean; u: Vec2; angle: number; leftOff: number; rightOff: number };
+  const ends = new Map<string, End[]>();
+  for (const wall of walls) {
+    const pa = plan.vertices[wall.a], pb = plan.vertices[wall.b];
+    const len = Math.hypot(pb.x - pa.x, pb.y - pa.y) || 1;
+    const d = { x: (pb.x - pa.x) / len, y: (pb.y - pa.y) / len };
+    const push = (id: string, end: End) => {
+      const list = ends.get(id) ?? [];
+      list.push(end);
+      ends.set(id, list);
+    };
+    push(wall.a, { wall, atA: true, u: d, angle: Math.atan2(d.y, d.x), leftOff: wall.left, rightOff: wall.right });
+    push(wall.b, { wall, atA: false, u: { x: -d.x, y: -d.y }, angle: Math.atan2(-d.y, -d.x), leftOff: wall.right, rightOff: wall.left });
+  }
+
+  for (const [id, list] of ends) {
+    const v = plan.vertices[id];
+    list.sort((p, q) => p.angle - q.angle);
+    const sideLine = (e: End, side: 1 | -1): Line => {
+      const off = side === 1 ? e.leftOff : e.rightOff;
+      return { p: { x: v.x - e.u.y * off * side, y: v.y + e.u.x * off * side }, d: e.u };
+    };
+    const limit = (e: End) => MITER_LIMIT * Math.max(e.wall.spec.thickness, 1e-3);
+    // between list[k] and the next wall counter-clockwise: k's left face meets next's right face
+    const leftCorners: Vec2[] = [];
+    const rightCorners: Vec2[] = [];
+    list.forEach((e, k) => {
+      const nk = (k + 1) % list.length;
+      const next = list[nk];
+      const own = sideLine(e, 1);
+      const other = sideLine(next, -1);
+      const hit = next === e ? null : intersectLines(own, other);
+      if (hit && Math.hypot(hit.x - v.x, hit.y - v.y) <= limit(e)) {
+        leftCorners[k] = hit;
+        rightCorners[nk] = hit;
+      } else {
+        leftCorners[k] = own.p;
+        rightCorners[nk] = other.p;
+      }
+    });
+    list.forEach((e, k) => {
+      if (e.atA) { e.wall.aLeft = leftCorners[k]; e.wall.aRight = rightCorners[k]; }
+      else { e.wall.bRight = leftCorners[k]; e.wall.bLeft = rightCorners[k]; }
+    });
+  }
+  return walls;
+}
+
+// plan outline of the wall, including the centerline ends so junctions close up
+export function wallPolygon(w: Wall, plan: FloorPlan): Vec2[] {
+  const pts = [plan.vertices[w.a], w.aRight, w.bRight, plan.vertices[w.b], w.bLeft, w.aLeft];
+  return pts.filter((p, i) => {
+    const q = pts[(i + 1) % pts.length];
+    return Math.hypot(p.x - q.x, p.y - q.y) > 1e-6;
+  });
+}
+
+export type WallPiece = { polygon: Vec2[]; bottom: number; top: number };
+
+/**
+ * Splits a wall into solid pieces around its openings: full-height pieces
+ * between openings, plus the parts below each sill and above each head.
+ */
+export function wallPieces(w: Wall, plan: FloorPlan): WallPiece[] {
+  const pa = plan.vertices[w.a], pb = plan.vertices[w.b];
+  const len = Math.hypot(pb.x - pa.x, pb.y - pa.y);
+  const full = { polygon: wallPolygon(w, plan), bottom: 0, top: w.spec.height };
+  if (len < 1e-6) return [full];
+  const d = { x: (pb.x - pa.x) / len, y: (pb.y - pa.y) / len };
+  const n = { x: -d.y, y: d.x };
+  const along = (p: Vec2) => (p.x - pa.x) * d.x + (p.y - pa.y) * d.y;
+  const L = (s: number): Vec2 => ({ x: pa.x + d.x * s + n.x * w.left, y: pa.y + d.y * s + n.y * w.left });
+  const R = (s: number): Vec2 => ({ x: pa.x + d.x * s - n.x * w.right, y: pa.y + d.y * s - n.y * w.right });
+  // openings may not reach into the mitered corners
+  const minS = Math.max(0, along(w.aLeft), along(w.aRight));
+  const maxS = Math.min(len, along(w.bLeft), along(w.bRight));
+
+  const spans = plan.openings
+    .filter(o => edgeKey(o.a, o.b) === w.key)
+    .map(o => {
+      const f = openingFrame(plan, o);
+      const [s0, s1] = o.a === w.a ? [f.s0, f.s1] : [len - f.s1, len - f.s0];
+      return { s0: Math.max(minS, s0), s1: Math.min(maxS, s1), bottom: o.sill, top: o.sill + o.height };
+    })
+    .filter(sp => sp.s1 - sp.s0 > 1e-3)
+    .sort((p, q) => p.s0 - q.s0);
+  if (spans.length === 0) return [full];
+
+  const slice = (s0: number, s1: number): Vec2[] => {
+    const pts = [
+      ...(s0 <= 0 ? [pa, w.aRight] : [R(s0)]),
+      ...(s1 >= len ? [w.bRight, pb, w.bLeft] : [R(s1), L(s1)]),
+      ...(s0 <= 0 ? [w.aLeft] : [L(s0)]),
+    ];
+    return pts.filter((p, i) => {
+      const q = pts[(i + 1) % pts.length];
+      return Math.hypot(p.x - q.x, p.y - q.y) > 1e-6;
+    });
+  };
+
+  const pieces: WallPiece[] = [];
+  let cursor = 0;
+  for (const sp of spans) {
+    const s0 = Math.max(sp.s0, cursor);
+    if (s0 > cursor + 1e-6) pieces.push({ polygon: slice(cursor, s0), bottom: 0, top: w.spec.height });
+    if (sp.s1 > s0) {
+      const strip = slice(s0, sp.s1);
+      if (sp.bottom > 0) pieces.push({ polygon: strip, bottom: 0, top: Math.min(sp.bottom, w.spec.height) });
+      if (sp.top < w.spec.height) pieces.push({ polygon: strip, bottom: Math.max(sp.top, 0), top: w.spec.height });
+    }
+    cursor = Math.max(cursor, sp.s1);
+  }
+  if (cursor < len - 1e-6) pieces.push({ polygon: slice(cursor, len), bottom: 0, top: w.spec.height });
+  return pieces.filter(p => p.polygon.length >= 3 && p.top > p.bottom);
+}